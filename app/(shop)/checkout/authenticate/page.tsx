@@ -0,0 +1,113 @@
+"use client";
+
+import { LoadingSpinner } from "@/app/components/ui";
+import { useAppDispatch } from "@/app/store/hooks";
+import { clearCart } from "@/app/store/slices/cartSlice";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import { FiLock } from "react-icons/fi";
+import { toast } from "react-toastify";
+
+type ChallengeOutcome = "approve" | "fail";
+
+// Simulated bank authentication page used by the mock payment gateway
+function PaymentChallenge() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const searchParams = useSearchParams();
+  const [submitting, setSubmitting] = useState<ChallengeOutcome | null>(null);
+
+  const transactionId = searchParams.get("transaction");
+  const amount = Number(searchParams.get("amount") || 0);
+
+  const handleOutcome = async (outcome: ChallengeOutcome) => {
+    if (!transactionId) return;
+
+    try {
+      setSubmitting(outcome);
+      const response = await fetch("/api/payments/mock/challenge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ transactionId, outcome }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.message || "Failed to complete authentication");
+        return;
+      }
+
+      if (data.data.paymentStatus === "paid") {
+        toast.success("Payment confirmed. Thank you for your order!");
+        dispatch(clearCart());
+        router.push(`/orders/${data.data.orderId}`);
+      } else {
+        toast.error("Payment authentication failed. Please try again.");
+        router.push("/checkout");
+      }
+    } catch (error) {
+      console.error("Error completing payment challenge:", error);
+      toast.error("Failed to complete authentication");
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (!transactionId) {
+    return (
+      <p className="text-center text-gray-600 dark:text-gray-400">
+        This payment link is invalid or has expired.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      className="rounded-lg shadow-md p-8 text-center space-y-6"
+      style={{
+        backgroundColor: "var(--theme-surface)",
+        boxShadow: "var(--theme-glow)",
+      }}
+    >
+      <FiLock className="w-10 h-10 mx-auto text-primary" />
+      <div>
+        <h1 className="text-2xl font-bold mb-2">Confirm your payment</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Your bank needs you to confirm a payment of{" "}
+          <span className="font-semibold">${amount.toFixed(2)}</span>.
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          Test gateway: choose the outcome to simulate.
+        </p>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-3 justify-center">
+        <button
+          onClick={() => handleOutcome("approve")}
+          disabled={submitting !== null}
+          className="px-6 py-3 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50"
+        >
+          {submitting === "approve" ? "Confirming..." : "Confirm Payment"}
+        </button>
+        <button
+          onClick={() => handleOutcome("fail")}
+          disabled={submitting !== null}
+          className="px-6 py-3 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-primary rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all disabled:opacity-50"
+        >
+          {submitting === "fail" ? "Cancelling..." : "Fail Authentication"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentAuthenticationPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-12">
+      <div className="max-w-lg mx-auto px-4 sm:px-6 lg:px-8">
+        <Suspense fallback={<LoadingSpinner size="lg" />}>
+          <PaymentChallenge />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -6,12 +6,14 @@ import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import { toast } from "react-toastify";
 import CheckoutSteps from "../../components/checkout/CheckoutSteps";
+import CouponForm from "../../components/checkout/CouponForm";
 import OrderConfirmation from "../../components/checkout/OrderConfirmation";
 import PaymentStep from "../../components/checkout/PaymentStep";
 import ShippingStep from "../../components/checkout/ShippingStep";
 import { LoadingSpinner } from "../../components/ui";
 import { useCheckout } from "../../hooks/useCheckout";
 import { useAppSelector } from "../../store/hooks";
+import { ShippingQuote } from "../../types/shipping";
 
 export default function CheckoutPage() {
   const router = useRouter();
@@ -28,6 +30,8 @@ export default function CheckoutPage() {
     orderId,
     orderData,
     totals,
+    taxQuote,
+    isGuest,
 
     // Actions
     updateShippingData,
@@ -56,10 +60,11 @@ export default function CheckoutPage() {
   }
 
   const handleShippingComplete = async (
-    shippingData: typeof checkoutData.shipping
+    shippingData: typeof checkoutData.shipping,
+    shippingMethod: ShippingQuote
   ) => {
     try {
-      await updateShippingData(shippingData);
+      await updateShippingData(shippingData, shippingMethod);
       setCurrentStep(2);
       toast.success("Shipping information saved!");
     } catch (error) {
@@ -102,6 +107,7 @@ export default function CheckoutPage() {
             orderId={orderId}
             checkoutData={checkoutData}
             totals={totals}
+            isGuest={!!isGuest}
           />
         </div>
       </div>
@@ -133,6 +139,8 @@ export default function CheckoutPage() {
           {currentStep === 1 && (
             <ShippingStep
               initialData={checkoutData.shipping}
+              initialMethod={checkoutData.shippingMethod}
+              isGuest={isGuest}
               onComplete={handleShippingComplete}
               onBack={handleBackToCart}
             />
@@ -201,6 +209,11 @@ export default function CheckoutPage() {
                 ))}
               </div>
 
+              {/* Coupon */}
+              <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
+                <CouponForm />
+              </div>
+
               {/* Totals */}
               <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
                 <div className="space-y-2">
@@ -212,22 +225,38 @@ export default function CheckoutPage() {
                       ${totals.itemsPrice.toFixed(2)}
                     </span>
                   </div>
+                  {totals.discount > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600 dark:text-gray-400">
+                        Discount
+                      </span>
+                      <span className="text-green-600 dark:text-green-400">
+                        -${totals.discount.toFixed(2)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600 dark:text-gray-400">
                       Shipping
+                      {checkoutData.shippingMethod &&
+                        ` (${checkoutData.shippingMethod.name})`}
                     </span>
                     <span className="text-gray-900 dark:text-white">
-                      {totals.shippingPrice === 0
+                      {!checkoutData.shippingMethod
+                        ? "Select a method"
+                        : totals.shippingPrice === 0
                         ? "Free"
                         : `$${totals.shippingPrice.toFixed(2)}`}
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600 dark:text-gray-400">
-                      Tax
+                      {totals.pricesIncludeTax ? "Tax (included)" : "Tax"}
                     </span>
                     <span className="text-gray-900 dark:text-white">
-                      ${totals.taxPrice.toFixed(2)}
+                      {!taxQuote
+                        ? "Calculated after shipping"
+                        : `$${totals.taxPrice.toFixed(2)}`}
                     </span>
                   </div>
                   <div className="flex justify-between text-lg font-semibold pt-2 border-t border-gray-200 dark:border-gray-700">
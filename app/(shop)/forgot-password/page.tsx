@@ -0,0 +1,104 @@
+"use client";
+
+import { motion } from "framer-motion";
+import Link from "next/link";
+import { useState } from "react";
+import { FiMail } from "react-icons/fi";
+
+const cardStyle = {
+  backgroundColor: "var(--theme-surface)",
+  boxShadow: "var(--theme-glow)",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to request a password reset");
+      }
+
+      setSentMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request a password reset");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-12 min-h-screen max-w-md">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="rounded-lg shadow-md p-8 space-y-6"
+        style={cardStyle}
+      >
+        <div className="text-center">
+          <FiMail className="w-10 h-10 mx-auto text-primary mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Forgot Your Password?</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Enter the email you signed up with and we&apos;ll send you a link
+            to choose a new password.
+          </p>
+        </div>
+
+        {sentMessage ? (
+          <p className="text-center text-green-600 dark:text-green-400">
+            {sentMessage}. The link expires in an hour.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium mb-1">Email</label>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={inputClass}
+                placeholder="you@example.com"
+                autoComplete="email"
+                required
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50"
+            >
+              {loading ? "Sending..." : "Send Reset Link"}
+            </button>
+          </form>
+        )}
+
+        <p className="text-center text-sm">
+          <Link href="/login" className="text-primary hover:underline">
+            Back to log in
+          </Link>
+        </p>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 "use client";
 
 // import { useTheme } from "@/app/components/ThemeProvider"; // Disabled - using static theme
+import OrderReturns from "@/app/components/orders/OrderReturns";
+import OrderShipments from "@/app/components/orders/OrderShipments";
+import OrderStatusTimeline from "@/app/components/orders/OrderStatusTimeline";
+import { CheckoutService } from "@/app/services/checkoutService";
 import { OrderService } from "@/app/services/orderService";
 import { OrderResponse } from "@/app/types/api";
 import { motion } from "framer-motion";
@@ -12,6 +16,7 @@ import {
   FiArrowLeft,
   FiCalendar,
   FiClock,
+  FiFileText,
   FiMapPin,
   FiPackage,
   FiShoppingBag,
@@ -19,6 +24,7 @@ import {
   FiUser,
 } from "react-icons/fi";
 import { toast } from "react-toastify";
+import { formatOrderStatus } from "@/utils/orderStatus";
 
 export default function OrderDetailsPage() {
   const params = useParams();
@@ -52,15 +58,27 @@ export default function OrderDetailsPage() {
   const getStatusColor = (status: string) => {
     switch (status.toLowerCase()) {
       case "pending":
+      case "requires_action":
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400";
       case "processing":
+      case "authorized":
         return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400";
+      case "partially_shipped":
+        return "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-400";
       case "shipped":
         return "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400";
       case "delivered":
         return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400";
+      case "completed":
+      case "paid":
+        return "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400";
       case "cancelled":
+      case "failed":
+      case "voided":
         return "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400";
+      case "refunded":
+      case "partially_refunded":
+        return "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400";
       default:
         return "bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400";
     }
@@ -72,6 +90,7 @@ export default function OrderDetailsPage() {
         return <FiClock className="w-5 h-5" />;
       case "processing":
         return <FiPackage className="w-5 h-5" />;
+      case "partially_shipped":
       case "shipped":
         return <FiTruck className="w-5 h-5" />;
       case "delivered":
@@ -182,7 +201,7 @@ export default function OrderDetailsPage() {
                   )}`}
                 >
                   {getStatusIcon(order.status)}
-                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  {formatOrderStatus(order.status)}
                 </span>
               </div>
               <div className="flex items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
@@ -197,6 +216,9 @@ export default function OrderDetailsPage() {
                   </div>
                 )}
               </div>
+              <div className="mt-6">
+                <OrderStatusTimeline history={order.statusHistory} />
+              </div>
             </div>
 
             {/* Order Items */}
@@ -276,6 +298,12 @@ export default function OrderDetailsPage() {
                 </p>
               </div>
             </div>
+
+            {/* Packages */}
+            <OrderShipments order={order} />
+
+            {/* Returns */}
+            <OrderReturns order={order} />
           </div>
 
           {/* Sidebar */}
@@ -294,16 +322,39 @@ export default function OrderDetailsPage() {
                   <span>Items ({order.items.length})</span>
                   <span>${order.itemsPrice.toFixed(2)}</span>
                 </div>
+                {!!order.discountPrice && order.discountPrice > 0 && (
+                  <div className="flex justify-between text-green-600 dark:text-green-400">
+                    <span>
+                      Discount
+                      {order.discounts?.[0] && ` (${order.discounts[0].code})`}
+                    </span>
+                    <span>-${order.discountPrice.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
-                  <span>Shipping</span>
+                  <span>
+                    Shipping
+                    {order.shippingMethod && ` (${order.shippingMethod.name})`}
+                  </span>
                   <span>
                     {order.shippingPrice === 0
                       ? "Free"
                       : `$${order.shippingPrice.toFixed(2)}`}
                   </span>
                 </div>
+                {order.shippingMethod &&
+                  CheckoutService.formatDeliveryEstimate(
+                    order.shippingMethod.estimatedDays
+                  ) && (
+                    <p className="text-sm opacity-70">
+                      Delivers in{" "}
+                      {CheckoutService.formatDeliveryEstimate(
+                        order.shippingMethod.estimatedDays
+                      )}
+                    </p>
+                  )}
                 <div className="flex justify-between">
-                  <span>Tax</span>
+                  <span>{order.pricesIncludeTax ? "Tax (included)" : "Tax"}</span>
                   <span>${order.taxPrice.toFixed(2)}</span>
                 </div>
                 <div className="border-t border-gray-200 dark:border-gray-700 pt-3">
@@ -312,6 +363,20 @@ export default function OrderDetailsPage() {
                     <span>${order.totalPrice.toFixed(2)}</span>
                   </div>
                 </div>
+                {!!order.refundedAmount && order.refundedAmount > 0 && (
+                  <>
+                    <div className="flex justify-between text-green-600 dark:text-green-400">
+                      <span>Refunded</span>
+                      <span>-${order.refundedAmount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                      <span>Net Total</span>
+                      <span>
+                        ${(order.totalPrice - order.refundedAmount).toFixed(2)}
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -341,10 +406,27 @@ export default function OrderDetailsPage() {
                       order.payment.status
                     )}`}
                   >
-                    {order.payment.status.charAt(0).toUpperCase() +
-                      order.payment.status.slice(1)}
+                    {(
+                      order.payment.status.charAt(0).toUpperCase() +
+                      order.payment.status.slice(1)
+                    ).replace(/_/g, " ")}
                   </span>
                 </div>
+                {order.payment.failureReason &&
+                  order.payment.status === "failed" && (
+                    <p className="text-sm text-red-600 dark:text-red-400">
+                      {order.payment.failureReason}
+                    </p>
+                  )}
+                {order.payment.status === "requires_action" &&
+                  order.payment.nextAction && (
+                    <Link
+                      href={order.payment.nextAction.url}
+                      className="inline-block mt-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all text-sm"
+                    >
+                      Complete Payment
+                    </Link>
+                  )}
                 {order.payment.details &&
                   Object.keys(order.payment.details).length > 0 && (
                     <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -377,6 +459,17 @@ export default function OrderDetailsPage() {
             >
               <h2 className="text-xl font-semibold mb-4">Actions</h2>
               <div className="space-y-3">
+                {(order.isPaid || order.invoiceNumber) && (
+                  <a
+                    href={`/api/orders/${order._id}/invoice`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-primary rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all"
+                  >
+                    <FiFileText className="w-4 h-4" />
+                    Download Invoice
+                  </a>
+                )}
                 <Link href="/products">
                   <button className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all">
                     Continue Shopping
@@ -0,0 +1,241 @@
+"use client";
+
+import OrderStatusTimeline from "@/app/components/orders/OrderStatusTimeline";
+import { OrderResponse } from "@/app/types/api";
+import { motion } from "framer-motion";
+import Image from "next/image";
+import Link from "next/link";
+import { useState } from "react";
+import { FiMapPin, FiSearch, FiShoppingBag } from "react-icons/fi";
+
+const cardStyle = {
+  backgroundColor: "var(--theme-surface)",
+  boxShadow: "var(--theme-glow)",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+export default function OrderLookupPage() {
+  const [orderNumber, setOrderNumber] = useState("");
+  const [email, setEmail] = useState("");
+  const [order, setOrder] = useState<OrderResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    setOrder(null);
+
+    try {
+      const response = await fetch("/api/orders/lookup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderNumber: orderNumber.trim(), email: email.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to look up order");
+      }
+
+      setOrder(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to look up order");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 min-h-screen max-w-4xl">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="space-y-6"
+      >
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Find Your Order</h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Checked out without an account? Enter your order number and the
+            email you ordered with.
+          </p>
+        </div>
+
+        <form
+          onSubmit={handleSubmit}
+          className="rounded-lg shadow-md p-6 grid grid-cols-1 md:grid-cols-3 gap-4 items-end"
+          style={cardStyle}
+        >
+          <div>
+            <label className="block text-sm font-medium mb-1">
+              Order Number
+            </label>
+            <input
+              type="text"
+              value={orderNumber}
+              onChange={(e) => setOrderNumber(e.target.value)}
+              className={inputClass}
+              placeholder="ORD-250614-00042"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Email</label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className={inputClass}
+              placeholder="you@example.com"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50"
+          >
+            <FiSearch className="w-4 h-4" />
+            {loading ? "Searching..." : "Find Order"}
+          </button>
+        </form>
+
+        {error && (
+          <p className="text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {order && (
+          <div className="space-y-6">
+            <div className="rounded-lg shadow-md p-6" style={cardStyle}>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-semibold">
+                  Order #{order.orderNumber}
+                </h2>
+                <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400 capitalize">
+                  {order.status.replace(/_/g, " ")}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Ordered on {formatDate(order.createdAt)}
+                {order.trackingNumber && ` · Tracking: ${order.trackingNumber}`}
+              </p>
+              <div className="mt-6">
+                <OrderStatusTimeline history={order.statusHistory} />
+              </div>
+            </div>
+
+            <div className="rounded-lg shadow-md p-6" style={cardStyle}>
+              <h2 className="text-xl font-semibold mb-4">Order Items</h2>
+              <div className="space-y-4">
+                {order.items.map((item, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+                  >
+                    <div className="w-16 h-16 bg-gray-200 dark:bg-gray-700 rounded-md overflow-hidden flex-shrink-0">
+                      {item.product?.image ? (
+                        <Image
+                          src={item.product.image}
+                          alt={item.product.name}
+                          width={64}
+                          height={64}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center">
+                          <FiShoppingBag className="w-8 h-8 text-gray-400" />
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex-1">
+                      <h3 className="font-medium">
+                        {item.name || item.product?.name}
+                      </h3>
+                      <p className="text-sm text-gray-500">
+                        Quantity: {item.quantity}
+                      </p>
+                    </div>
+                    <p className="font-semibold">
+                      ${(item.price * item.quantity).toFixed(2)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="rounded-lg shadow-md p-6" style={cardStyle}>
+                <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                  <FiMapPin className="w-5 h-5" />
+                  Shipping To
+                </h2>
+                <div className="space-y-1">
+                  <p className="font-medium">{order.shipping.fullName}</p>
+                  <p>{order.shipping.address}</p>
+                  <p>
+                    {order.shipping.city}, {order.shipping.state}{" "}
+                    {order.shipping.postalCode}
+                  </p>
+                  <p>{order.shipping.country}</p>
+                </div>
+              </div>
+
+              <div className="rounded-lg shadow-md p-6" style={cardStyle}>
+                <h2 className="text-xl font-semibold mb-4">Order Summary</h2>
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <span>Items</span>
+                    <span>${order.itemsPrice.toFixed(2)}</span>
+                  </div>
+                  {!!order.discountPrice && order.discountPrice > 0 && (
+                    <div className="flex justify-between text-green-600 dark:text-green-400">
+                      <span>Discount</span>
+                      <span>-${order.discountPrice.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Shipping</span>
+                    <span>
+                      {order.shippingPrice === 0
+                        ? "Free"
+                        : `$${order.shippingPrice.toFixed(2)}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>
+                      {order.pricesIncludeTax ? "Tax (included)" : "Tax"}
+                    </span>
+                    <span>${order.taxPrice.toFixed(2)}</span>
+                  </div>
+                  <div className="border-t border-gray-200 dark:border-gray-700 pt-2 flex justify-between font-semibold text-lg">
+                    <span>Total</span>
+                    <span>${order.totalPrice.toFixed(2)}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              <Link href="/register" className="text-primary hover:underline">
+                Create an account
+              </Link>{" "}
+              with the same email to keep all your orders in one place.
+            </p>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -23,6 +23,12 @@ import Image from "next/image";
 import { useParams, useRouter } from "next/navigation";
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "react-toastify";
+import { ProductVariant, ProductVariantOptions } from "@/app/types/product";
+import { determineProductStatus } from "@/utils/productStatus";
+import {
+  findProductVariant,
+  getAvailableStock,
+} from "@/utils/productVariants";
 
 interface Product {
   _id: string;
@@ -49,6 +55,7 @@ interface Product {
   warranty?: string;
   color?: string[];
   size?: string[];
+  variants?: ProductVariant[];
   createdAt: string;
   finalPrice: number;
   hasDiscount: boolean;
@@ -158,12 +165,20 @@ export default function ProductDetailsPage() {
 
         setProduct(enrichedProduct);
 
-        // Set default selections
-        if (enrichedProduct.color && enrichedProduct.color.length > 0) {
-          setSelectedColor(enrichedProduct.color[0]);
-        }
-        if (enrichedProduct.size && enrichedProduct.size.length > 0) {
-          setSelectedSize(enrichedProduct.size[0]);
+        // Set default selections, starting from the first variant in stock
+        const firstInStock = enrichedProduct.variants?.find(
+          (variant: ProductVariant) => variant.stock > 0
+        );
+        if (firstInStock) {
+          setSelectedColor(firstInStock.options.color || "");
+          setSelectedSize(firstInStock.options.size || "");
+        } else {
+          if (enrichedProduct.color && enrichedProduct.color.length > 0) {
+            setSelectedColor(enrichedProduct.color[0]);
+          }
+          if (enrichedProduct.size && enrichedProduct.size.length > 0) {
+            setSelectedSize(enrichedProduct.size[0]);
+          }
         }
 
         // Fetch related products only if category exists
@@ -241,22 +256,48 @@ export default function ProductDetailsPage() {
     }
   };
 
-  const isProductInStock = (product: Product) => {
-    return product.status === "in stock" || product.status === "low stock";
+  // Products sold in variants report the stock of the selected combination
+  const getStockStatus = (product: Product, available: number) => {
+    return product.variants && product.variants.length > 0
+      ? determineProductStatus(available, true)
+      : product.status;
   };
 
-  const getStockMessage = (product: Product) => {
-    if (product.status === "out of stock") return "Out of Stock";
-    if (product.status === "low stock") return `Only ${product.quantity} left!`;
-    return `${product.quantity} in stock`;
+  const isProductInStock = (status: string) => {
+    return status === "in stock" || status === "low stock";
   };
 
-  const getStockColor = (product: Product) => {
-    if (product.status === "out of stock") return "text-red-500";
-    if (product.status === "low stock") return "text-yellow-500";
+  const getStockMessage = (status: string, available: number) => {
+    if (status === "out of stock") return "Out of Stock";
+    if (status === "low stock") return `Only ${available} left!`;
+    return `${available} in stock`;
+  };
+
+  const getStockColor = (status: string) => {
+    if (status === "out of stock") return "text-red-500";
+    if (status === "low stock") return "text-yellow-500";
     return "text-green-500";
   };
 
+  // Choose a color or size, showing the variant's own image when it has one
+  const selectOptions = (options: ProductVariantOptions) => {
+    const color = options.color ?? selectedColor;
+    const size = options.size ?? selectedSize;
+    setSelectedColor(color);
+    setSelectedSize(size);
+
+    if (!product) return;
+    const variant = findProductVariant(product.variants, { color, size });
+    const images = [product.image, ...(product.images || [])].filter(Boolean);
+    if (variant?.image && images.includes(variant.image)) {
+      setSelectedImageIndex(images.indexOf(variant.image));
+    }
+    const available = getAvailableStock(product, { color, size });
+    if (available > 0 && quantity > available) {
+      setQuantity(available);
+    }
+  };
+
   const renderStars = (rating: number, size = "w-5 h-5") => {
     return (
       <div className="flex items-center gap-1">
@@ -308,6 +349,19 @@ export default function ProductDetailsPage() {
   }
   console.log(reviewStats);
   const allImages = [product.image, ...(product.images || [])].filter(Boolean);
+  const selectedVariant = findProductVariant(product.variants, {
+    color: selectedColor,
+    size: selectedSize,
+  });
+  const availableStock = getAvailableStock(product, {
+    color: selectedColor,
+    size: selectedSize,
+  });
+  const stockStatus = getStockStatus(product, availableStock);
+  const hasVariantPrice = typeof selectedVariant?.price === "number";
+  const displayPrice = hasVariantPrice
+    ? (selectedVariant?.price as number)
+    : product.finalPrice;
 
   return (
     <>
@@ -415,9 +469,9 @@ export default function ProductDetailsPage() {
                     {reviewStats.reviewCount !== 1 ? "s" : ""})
                   </span>
                   <span
-                    className={`text-sm font-medium ${getStockColor(product)}`}
+                    className={`text-sm font-medium ${getStockColor(stockStatus)}`}
                   >
-                    {getStockMessage(product)}
+                    {getStockMessage(stockStatus, availableStock)}
                   </span>
                 </div>
               </div>
@@ -428,9 +482,9 @@ export default function ProductDetailsPage() {
                   className="text-3xl font-bold"
                   style={{ color: "var(--theme-primary)" }}
                 >
-                  ${product.finalPrice.toFixed(2)}
+                  ${displayPrice.toFixed(2)}
                 </span>
-                {product.hasDiscount && (
+                {product.hasDiscount && !hasVariantPrice && (
                   <span className="text-xl text-gray-500 dark:text-gray-400 line-through">
                     ${product.price.toFixed(2)}
                   </span>
@@ -447,19 +501,24 @@ export default function ProductDetailsPage() {
                     </span>
                   </h3>
                   <div className="flex flex-wrap gap-2">
-                    {product.color.map((color) => (
-                      <button
-                        key={color}
-                        onClick={() => setSelectedColor(color)}
-                        className={`px-4 py-2 rounded-lg border-2 transition-all capitalize ${
-                          selectedColor === color
-                            ? "btn-theme-primary text-white shadow-lg"
-                            : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-800 text-gray-700 dark:text-primary"
-                        }`}
-                      >
-                        {color}
-                      </button>
-                    ))}
+                    {product.color.map((color) => {
+                      const available =
+                        getAvailableStock(product, { color, size: selectedSize }) > 0;
+                      return (
+                        <button
+                          key={color}
+                          onClick={() => selectOptions({ color })}
+                          title={available ? undefined : "Unavailable in this combination"}
+                          className={`px-4 py-2 rounded-lg border-2 transition-all capitalize ${
+                            selectedColor === color
+                              ? "btn-theme-primary text-white shadow-lg"
+                              : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-800 text-gray-700 dark:text-primary"
+                          } ${available ? "" : "opacity-40 line-through"}`}
+                        >
+                          {color}
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -471,19 +530,24 @@ export default function ProductDetailsPage() {
                     Size: <span className="font-normal">{selectedSize}</span>
                   </h3>
                   <div className="flex flex-wrap gap-2">
-                    {product.size.map((size) => (
-                      <button
-                        key={size}
-                        onClick={() => setSelectedSize(size)}
-                        className={`px-4 py-2 rounded-lg border-2 transition-all uppercase ${
-                          selectedSize === size
-                            ? "btn-theme-primary text-white shadow-lg"
-                            : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-800 text-gray-700 dark:text-primary"
-                        }`}
-                      >
-                        {size}
-                      </button>
-                    ))}
+                    {product.size.map((size) => {
+                      const available =
+                        getAvailableStock(product, { color: selectedColor, size }) > 0;
+                      return (
+                        <button
+                          key={size}
+                          onClick={() => selectOptions({ size })}
+                          title={available ? undefined : "Unavailable in this combination"}
+                          className={`px-4 py-2 rounded-lg border-2 transition-all uppercase ${
+                            selectedSize === size
+                              ? "btn-theme-primary text-white shadow-lg"
+                              : "border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500 bg-white dark:bg-gray-800 text-gray-700 dark:text-primary"
+                          } ${available ? "" : "opacity-40 line-through"}`}
+                        >
+                          {size}
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
               )}
@@ -499,11 +563,11 @@ export default function ProductDetailsPage() {
                       value={quantity}
                       onChange={setQuantity}
                       min={1}
-                      max={product.quantity}
+                      max={availableStock}
                       size="md"
                     />
                     <span className="text-sm text-gray-500 dark:text-gray-400">
-                      Max: {product.quantity}
+                      Max: {availableStock}
                     </span>
                   </div>
                 </div>
@@ -515,7 +579,7 @@ export default function ProductDetailsPage() {
                     quantity={quantity}
                     selectedColor={selectedColor}
                     selectedSize={selectedSize}
-                    inStock={isProductInStock(product)}
+                    inStock={isProductInStock(stockStatus)}
                     variant="primary"
                     size="lg"
                     fullWidth
@@ -1,13 +1,24 @@
 "use client";
 
 // import { useTheme } from "@/app/components/ThemeProvider"; // Disabled - using static theme
+import RecoveryCodes from "@/app/components/auth/RecoveryCodes";
+import ResendVerificationButton from "@/app/components/auth/ResendVerificationButton";
+import TwoFactorSetup from "@/app/components/auth/TwoFactorSetup";
+import { AuthService } from "@/app/services/authService";
 import { OrderService } from "@/app/services/orderService";
 import { UserService } from "@/app/services/userService";
-import { OrderResponse, UserResponse } from "@/app/types/api";
+import {
+  ActiveSessionResponse,
+  LoginEventResponse,
+  OrderResponse,
+  TwoFactorStatusResponse,
+  UserResponse,
+} from "@/app/types/api";
 import { User } from "@/app/types/user";
 import { motion } from "framer-motion";
 import Image from "next/image";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import {
   FiClock,
@@ -15,16 +26,20 @@ import {
   FiEye,
   FiHeart,
   FiLogOut,
+  FiMonitor,
   FiShoppingBag,
   FiUser,
 } from "react-icons/fi";
 import { toast } from "react-toastify";
+import { formatOrderStatus } from "@/utils/orderStatus";
 
 export default function Profile() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState("profile");
+  const router = useRouter();
+
   useEffect(() => {
     const fetchUserProfile = async () => {
       try {
@@ -43,6 +58,15 @@ export default function Profile() {
     fetchUserProfile();
   }, []);
 
+  const handleLogout = async () => {
+    try {
+      await AuthService.logout();
+    } catch (err) {
+      console.error("Error logging out:", err);
+    }
+    router.push("/");
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -79,6 +103,11 @@ export default function Profile() {
               Log In
             </button>
           </Link>
+          <p className="mt-4 text-sm">
+            <Link href="/forgot-password" className="text-primary hover:underline">
+              Forgot your password?
+            </Link>
+          </p>
         </div>
       </div>
     );
@@ -165,7 +194,10 @@ export default function Profile() {
                   </li>
 
                   <li>
-                    <button className="w-full text-left px-4 py-2 rounded-md flex items-center gap-3 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all">
+                    <button
+                      onClick={handleLogout}
+                      className="w-full text-left px-4 py-2 rounded-md flex items-center gap-3 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all"
+                    >
                       <FiLogOut />
                       <span>Logout</span>
                     </button>
@@ -198,6 +230,25 @@ export default function Profile() {
 }
 
 function ProfileTab({ user }: { user: User }) {
+  const router = useRouter();
+  const [signingOut, setSigningOut] = useState(false);
+
+  // Ends every session of the account, this one included
+  const handleLogoutAll = async () => {
+    if (!confirm("Sign out of all devices, including this one?")) return;
+
+    try {
+      setSigningOut(true);
+      await AuthService.logoutAll();
+      toast.success("Signed out of all devices");
+      router.push("/");
+    } catch (err) {
+      console.error("Error signing out of all devices:", err);
+      toast.error("Failed to sign out of all devices");
+      setSigningOut(false);
+    }
+  };
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
@@ -221,6 +272,17 @@ function ProfileTab({ user }: { user: User }) {
               Email Address
             </h3>
             <p className="font-medium">{user.email}</p>
+            {user.verified ? (
+              <p className="text-sm text-green-600 dark:text-green-400">Verified</p>
+            ) : (
+              <div className="mt-2 space-y-2">
+                <p className="text-sm text-yellow-600 dark:text-yellow-400">
+                  Not verified yet. Confirm your email to place orders and
+                  write reviews.
+                </p>
+                <ResendVerificationButton className="text-sm text-primary hover:underline disabled:opacity-50" />
+              </div>
+            )}
           </div>
         </div>
         <div className="space-y-4">
@@ -241,9 +303,316 @@ function ProfileTab({ user }: { user: User }) {
 
       <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
         <h3 className="text-xl font-semibold mb-4">Account Security</h3>
-        <button className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all">
-          Change Password
-        </button>
+        <div className="flex flex-wrap gap-3">
+          <button className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all">
+            Change Password
+          </button>
+          <button
+            onClick={handleLogoutAll}
+            disabled={signingOut}
+            className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-red-500 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all disabled:opacity-50"
+          >
+            {signingOut ? "Signing out..." : "Sign out of all devices"}
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+          Signing out of all devices ends every session, for example on a
+          lost phone or a shared computer.
+        </p>
+
+        <TwoFactorSection />
+
+        <SessionsSection />
+      </div>
+    </div>
+  );
+}
+
+function TwoFactorSection() {
+  const [status, setStatus] = useState<TwoFactorStatusResponse | null>(null);
+  const [settingUp, setSettingUp] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await AuthService.getTwoFactorStatus());
+    } catch (err) {
+      console.error("Error fetching two-factor status:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleSetupComplete = () => {
+    setSettingUp(false);
+    toast.success("Two-factor authentication is on");
+    fetchStatus();
+  };
+
+  const handleDisable = async () => {
+    try {
+      setSubmitting(true);
+      await AuthService.disableTwoFactor(code.trim());
+      setCode("");
+      toast.success("Two-factor authentication is off");
+      fetchStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to turn off two-factor authentication");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    try {
+      setSubmitting(true);
+      const data = await AuthService.regenerateRecoveryCodes(code.trim());
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      fetchStatus();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create recovery codes");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6">
+      <h4 className="font-semibold mb-3">Two-factor authentication</h4>
+
+      {!status.enabled && !settingUp && (
+        <div className="flex flex-wrap items-center gap-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Off. Add a code from an authenticator app to your password when
+            you sign in.
+          </p>
+          <button
+            onClick={() => setSettingUp(true)}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all"
+          >
+            Turn on
+          </button>
+        </div>
+      )}
+
+      {!status.enabled && settingUp && (
+        <TwoFactorSetup
+          onComplete={handleSetupComplete}
+          inputClassName="w-full max-w-xs px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+      )}
+
+      {status.enabled && recoveryCodes && (
+        <div className="space-y-3">
+          <RecoveryCodes codes={recoveryCodes} />
+          <button
+            onClick={() => setRecoveryCodes(null)}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {status.enabled && !recoveryCodes && (
+        <div className="space-y-3">
+          <p className="text-sm text-green-600 dark:text-green-400">
+            On · {status.recoveryCodesRemaining} recovery codes left
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Enter a current code to create new recovery codes
+            {!status.required && " or turn two-factor off"}.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="Code"
+              className="w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            />
+            <button
+              onClick={handleRegenerate}
+              disabled={submitting || !code.trim()}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all disabled:opacity-50"
+            >
+              New recovery codes
+            </button>
+            {!status.required && (
+              <button
+                onClick={handleDisable}
+                disabled={submitting || !code.trim()}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-red-500 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const LOGIN_FAILURE_LABELS: Record<NonNullable<LoginEventResponse["reason"]>, string> = {
+  unknown_email: "Unknown email",
+  invalid_password: "Wrong password",
+  inactive: "Account inactive",
+  invalid_two_factor: "Wrong two-factor code",
+  locked: "Blocked, too many attempts",
+};
+
+function SessionsSection() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<ActiveSessionResponse[]>([]);
+  const [loginHistory, setLoginHistory] = useState<LoginEventResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const data = await AuthService.getSessions();
+        setSessions(data.sessions);
+        setLoginHistory(data.loginHistory);
+      } catch (err) {
+        console.error("Error fetching sessions:", err);
+        toast.error("Failed to load your sessions");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: ActiveSessionResponse) => {
+    if (
+      session.current &&
+      !confirm("This is the device you are using. Sign it out?")
+    ) {
+      return;
+    }
+
+    try {
+      setRevoking(session._id);
+      await AuthService.revokeSession(session._id);
+
+      if (session.current) {
+        router.push("/");
+        return;
+      }
+
+      setSessions((prev) => prev.filter((s) => s._id !== session._id));
+      toast.success("Device signed out");
+    } catch (err) {
+      console.error("Error revoking session:", err);
+      toast.error("Failed to sign the device out");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const failedAttempts = loginHistory.filter((event) => event.outcome === "failed");
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div>
+        <h4 className="font-semibold mb-3">Where you&apos;re signed in</h4>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No active sessions.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {sessions.map((session) => (
+              <li
+                key={session._id}
+                className="py-3 flex items-center justify-between gap-4"
+              >
+                <div className="flex items-center gap-3">
+                  <FiMonitor className="text-gray-500 dark:text-gray-400" />
+                  <div>
+                    <p className="font-medium">
+                      {session.device}
+                      {session.current && (
+                        <span className="ml-2 text-xs text-green-600 dark:text-green-400">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      {session.ip || "Unknown IP"} · Last active{" "}
+                      {formatDateTime(session.lastUsedAt)} · Signed in{" "}
+                      {formatDateTime(session.createdAt)}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revoking === session._id}
+                  className="text-sm text-red-500 hover:underline disabled:opacity-50"
+                >
+                  {revoking === session._id ? "Revoking..." : "Revoke"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold mb-3">Recent failed sign-in attempts</h4>
+        {failedAttempts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No failed attempts recently.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {failedAttempts.map((event) => (
+              <li key={event._id} className="text-sm">
+                <span className="text-red-500">
+                  {event.reason ? LOGIN_FAILURE_LABELS[event.reason] : "Failed"}
+                </span>{" "}
+                <span className="text-gray-500 dark:text-gray-400">
+                  · {event.device} · {event.ip || "Unknown IP"} ·{" "}
+                  {formatDateTime(event.createdAt)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Don&apos;t recognise an attempt? Change your password and sign out of
+          all devices.
+        </p>
       </div>
     </div>
   );
@@ -278,6 +647,8 @@ function OrdersTab() {
         return "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400";
       case "processing":
         return "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400";
+      case "partially_shipped":
+        return "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-400";
       case "shipped":
         return "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400";
       case "delivered":
@@ -367,8 +738,7 @@ function OrdersTab() {
                       order.status
                     )}`}
                   >
-                    {order.status.charAt(0).toUpperCase() +
-                      order.status.slice(1)}
+                    {formatOrderStatus(order.status)}
                   </span>
                 </div>
                 <div className="flex items-center gap-6 text-sm text-gray-600 dark:text-gray-400">
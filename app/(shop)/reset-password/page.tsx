@@ -0,0 +1,160 @@
+"use client";
+
+import { LoadingSpinner } from "@/app/components/ui";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useState } from "react";
+import { FiLock } from "react-icons/fi";
+
+const cardStyle = {
+  backgroundColor: "var(--theme-surface)",
+  boxShadow: "var(--theme-glow)",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white";
+
+function ResetPasswordForm() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.password || data.message || "Failed to reset password");
+      }
+
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reset password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <p className="text-center text-gray-600 dark:text-gray-400">
+        This password reset link is invalid or has expired.{" "}
+        <Link href="/forgot-password" className="text-primary hover:underline">
+          Request a new one
+        </Link>
+        .
+      </p>
+    );
+  }
+
+  if (done) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-green-600 dark:text-green-400">
+          Your password has been reset.
+        </p>
+        <Link href="/login">
+          <button className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all">
+            Log In
+          </button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1">New Password</label>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className={inputClass}
+          autoComplete="new-password"
+          required
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          At least 8 characters, with upper and lower case letters, a number
+          and a special character.
+        </p>
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          Confirm New Password
+        </label>
+        <input
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          className={inputClass}
+          autoComplete="new-password"
+          required
+        />
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {error}
+          {error.includes("expired") && (
+            <>
+              {" "}
+              <Link href="/forgot-password" className="text-primary hover:underline">
+                Request a new link
+              </Link>
+            </>
+          )}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50"
+      >
+        {loading ? "Resetting..." : "Reset Password"}
+      </button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="container mx-auto px-4 py-12 min-h-screen max-w-md">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="rounded-lg shadow-md p-8 space-y-6"
+        style={cardStyle}
+      >
+        <div className="text-center">
+          <FiLock className="w-10 h-10 mx-auto text-primary mb-4" />
+          <h1 className="text-2xl font-bold">Choose a New Password</h1>
+        </div>
+        <Suspense fallback={<LoadingSpinner size="lg" />}>
+          <ResetPasswordForm />
+        </Suspense>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import ResendVerificationButton from "@/app/components/auth/ResendVerificationButton";
+import { LoadingSpinner } from "@/app/components/ui";
+import { motion } from "framer-motion";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Suspense, useEffect, useRef, useState } from "react";
+import { FiCheckCircle, FiMail } from "react-icons/fi";
+
+const cardStyle = {
+  backgroundColor: "var(--theme-surface)",
+  boxShadow: "var(--theme-glow)",
+};
+
+function EmailVerification() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    token ? "verifying" : "failed"
+  );
+  const [message, setMessage] = useState<string | null>(null);
+  // Tokens work once, so the request must not be repeated when the effect runs twice
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch(
+          `/api/auth/verify?token=${encodeURIComponent(token)}`
+        );
+        const data = await response.json();
+
+        setStatus(response.ok ? "verified" : "failed");
+        setMessage(data.message);
+      } catch (error) {
+        console.error("Error verifying email:", error);
+        setStatus("failed");
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  if (status === "verifying") {
+    return <LoadingSpinner size="lg" />;
+  }
+
+  if (status === "verified") {
+    return (
+      <div className="text-center space-y-4">
+        <FiCheckCircle className="w-10 h-10 mx-auto text-green-500" />
+        <h1 className="text-2xl font-bold">Email Verified</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Thanks for confirming your email address. You can now place orders
+          and write reviews.
+        </p>
+        <Link href="/products">
+          <button className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all">
+            Start Shopping
+          </button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center space-y-4">
+      <FiMail className="w-10 h-10 mx-auto text-primary" />
+      <h1 className="text-2xl font-bold">Verification Failed</h1>
+      <p className="text-gray-600 dark:text-gray-400">
+        {message || "This verification link is invalid or has expired"}. If
+        you are logged in, you can ask for a new link.
+      </p>
+      <ResendVerificationButton />
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="container mx-auto px-4 py-12 min-h-screen max-w-md">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="rounded-lg shadow-md p-8"
+        style={cardStyle}
+      >
+        <Suspense fallback={<LoadingSpinner size="lg" />}>
+          <EmailVerification />
+        </Suspense>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,441 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { FormEvent, Fragment, useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { SettingsService } from "../../services/settingsService";
+import { AuditLogEntryResponse, AuditLogFilters, AuditLogResponse } from "../../types/api";
+
+const ACTION_LABELS: Record<string, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  assign_role: "Role assigned",
+  unlock: "Unlocked",
+  revoke_session: "Session revoked",
+  reset_two_factor: "Two-factor reset",
+  clear_cache: "Cache cleared",
+  reinitialize: "Optimizations reinitialized",
+};
+
+const TARGET_MODEL_LABELS: Record<string, string> = {
+  Product: "Product",
+  Category: "Category",
+  Order: "Order",
+  Return: "Return",
+  Review: "Review",
+  User: "Customer",
+  Role: "Role",
+  Coupon: "Coupon",
+  ShippingZone: "Shipping zone",
+  TaxRate: "Tax rate",
+  Settings: "Settings",
+  Cache: "Cache",
+};
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  delete: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+};
+
+const FILTER_KEYS: (keyof AuditLogFilters)[] = ["targetModel", "targetId", "actor", "action", "from", "to"];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+// Dashboard page of the record an entry is about, where there is one
+const targetHref = (entry: AuditLogEntryResponse): string | null => {
+  switch (entry.targetModel) {
+    case "Product":
+      return `/admin/products/${entry.targetId}`;
+    case "Category":
+      return `/admin/categories/${entry.targetId}`;
+    case "Order":
+      return `/admin/orders/${entry.targetId}`;
+    case "User":
+      return `/admin/customers/${entry.targetId}`;
+    case "Return":
+      return "/admin/returns";
+    case "Review":
+      return "/admin/reviews";
+    case "Role":
+      return "/admin/roles";
+    case "Coupon":
+      return "/admin/coupons";
+    case "ShippingZone":
+      return "/admin/shipping";
+    case "TaxRate":
+      return "/admin/tax";
+    case "Settings":
+      return entry.targetId === "homepage" ? "/admin/homepage" : "/admin/settings";
+    default:
+      return null;
+  }
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "string") return value;
+  const text = JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+};
+
+export default function AuditLogPage() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // The query string holds the filters, so a record's history can be linked to
+  const filters = Object.fromEntries(
+    FILTER_KEYS.map((key) => [key, searchParams.get(key) || ""])
+  ) as Required<AuditLogFilters>;
+  const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+  const query = searchParams.toString();
+
+  const [form, setForm] = useState(filters);
+  const [result, setResult] = useState<AuditLogResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    const params = new URLSearchParams(query);
+    const to = params.get("to");
+
+    try {
+      setLoading(true);
+      setResult(
+        await SettingsService.getAuditLogs(
+          {
+            targetModel: params.get("targetModel") || undefined,
+            targetId: params.get("targetId") || undefined,
+            actor: params.get("actor") || undefined,
+            action: params.get("action") || undefined,
+            from: params.get("from") || undefined,
+            // Include the whole of the last day
+            to: to ? `${to}T23:59:59.999` : undefined,
+          },
+          Math.max(parseInt(params.get("page") || "1") || 1, 1)
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      toast.error("Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  useEffect(() => {
+    setForm(
+      Object.fromEntries(
+        FILTER_KEYS.map((key) => [key, new URLSearchParams(query).get(key) || ""])
+      ) as Required<AuditLogFilters>
+    );
+  }, [query]);
+
+  const navigate = (next: Partial<AuditLogFilters>, nextPage = 1) => {
+    const params = new URLSearchParams();
+    FILTER_KEYS.forEach((key) => {
+      const value = next[key]?.trim();
+      if (value) params.set(key, value);
+    });
+    if (nextPage > 1) params.set("page", String(nextPage));
+    router.push(params.toString() ? `${pathname}?${params}` : pathname);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    navigate(form);
+  };
+
+  const entries = result?.entries || [];
+  const pagination = result?.pagination;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                {filters.targetModel && filters.targetId ? "History" : "Audit Log"}
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                {filters.targetModel && filters.targetId
+                  ? `Every change to ${TARGET_MODEL_LABELS[filters.targetModel] || filters.targetModel} ${filters.targetId}`
+                  : "Who changed what in the dashboard, and when"}
+              </p>
+            </div>
+            {query && (
+              <button
+                onClick={() => navigate({})}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Show all
+              </button>
+            )}
+          </div>
+          <p className="px-6 pb-4 text-sm text-gray-500 dark:text-gray-400">
+            Entries cannot be edited or deleted. The request ID matches the
+            one in the server and browser logs for the change.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <form
+          onSubmit={handleSubmit}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Record type
+            </label>
+            <select
+              value={form.targetModel}
+              onChange={(e) => setForm({ ...form, targetModel: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              {Object.entries(TARGET_MODEL_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Record ID
+            </label>
+            <input
+              type="text"
+              value={form.targetId}
+              onChange={(e) => setForm({ ...form, targetId: e.target.value })}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Action
+            </label>
+            <select
+              value={form.action}
+              onChange={(e) => setForm({ ...form, action: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All</option>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Staff email
+            </label>
+            <input
+              type="text"
+              value={form.actor}
+              onChange={(e) => setForm({ ...form, actor: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              From
+            </label>
+            <input
+              type="date"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              To
+            </label>
+            <input
+              type="date"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div className="md:col-span-3 lg:col-span-6">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </form>
+
+        {/* Entries */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              Loading audit log...
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              No changes match these filters.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  {["When", "Staff", "Action", "Record", "Changes", "Request ID"].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {entries.map((entry) => {
+                  const href = targetHref(entry);
+                  const isExpanded = expanded === entry._id;
+
+                  return (
+                    <Fragment key={entry._id}>
+                      <tr>
+                        <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <p className="text-gray-900 dark:text-white">{entry.actorEmail}</p>
+                          <p className="text-gray-500 dark:text-gray-400">
+                            {entry.actorRole}
+                            {entry.ip && ` · ${entry.ip}`}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4 text-sm whitespace-nowrap">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              ACTION_STYLES[entry.action] ||
+                              "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                            }`}
+                          >
+                            {ACTION_LABELS[entry.action] || entry.action}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <p className="text-gray-500 dark:text-gray-400">
+                            {TARGET_MODEL_LABELS[entry.targetModel] || entry.targetModel}
+                          </p>
+                          {href && entry.action !== "delete" ? (
+                            <Link href={href} className="text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                              {entry.targetLabel || entry.targetId}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-900 dark:text-white">
+                              {entry.targetLabel || entry.targetId}
+                            </span>
+                          )}
+                          {entry.targetId && entry.targetId !== filters.targetId && (
+                            <button
+                              onClick={() =>
+                                navigate({ targetModel: entry.targetModel, targetId: entry.targetId })
+                              }
+                              className="block text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400"
+                            >
+                              History
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {entry.changes.length === 0 ? (
+                            <span className="text-gray-500 dark:text-gray-400">—</span>
+                          ) : (
+                            <button
+                              onClick={() => setExpanded(isExpanded ? null : entry._id)}
+                              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 whitespace-nowrap"
+                            >
+                              {entry.changes.length} field{entry.changes.length === 1 ? "" : "s"}
+                              {isExpanded ? " ▲" : " ▼"}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-xs font-mono text-gray-500 dark:text-gray-400">
+                          {entry.requestId}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={6} className="px-6 pb-4">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+                                  <th className="py-1 pr-4 font-medium">Field</th>
+                                  <th className="py-1 pr-4 font-medium">Before</th>
+                                  <th className="py-1 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {entry.changes.map((change) => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-mono text-gray-700 dark:text-gray-300">
+                                      {change.field}
+                                    </td>
+                                    <td className="py-1 pr-4 text-red-700 dark:text-red-400 break-all">
+                                      {formatValue(change.before)}
+                                    </td>
+                                    <td className="py-1 text-green-700 dark:text-green-400 break-all">
+                                      {formatValue(change.after)}
+                                    </td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination && pagination.totalPages > 1 && (
+          <div className="flex justify-between items-center text-sm text-gray-600 dark:text-gray-400">
+            <span>
+              Page {pagination.page} of {pagination.totalPages} ({pagination.total} entries)
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => navigate(filters, page - 1)}
+                disabled={page <= 1}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => navigate(filters, page + 1)}
+                disabled={page >= pagination.totalPages}
+                className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
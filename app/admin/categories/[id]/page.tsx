@@ -1,5 +1,6 @@
 "use client";
 
+import AuditHistoryLink from "@/app/admin/components/AuditHistoryLink";
 import CategoryForm from "@/app/admin/components/CategoryForm/CategoryForm";
 import { AppDispatch, RootState } from "@/app/store";
 import {
@@ -60,26 +61,29 @@ export default function EditCategoryPage({
         <h1 className="text-2xl font-semibold text-gray-800 dark:text-white">
           Edit Category: {currentCategory?.name}
         </h1>
-        <Link
-          href="/admin/categories"
-          className="mt-3 md:mt-0 inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white dark:bg-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
-        >
-          <svg
-            className="w-4 h-4 mr-2"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-            xmlns="http://www.w3.org/2000/svg"
+        <div className="mt-3 md:mt-0 flex gap-2">
+          <AuditHistoryLink targetModel="Category" targetId={id} />
+          <Link
+            href="/admin/categories"
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white dark:bg-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
           >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M10 19l-7-7m0 0l7-7m-7 7h18"
-            />
-          </svg>
-          Back to Categories
-        </Link>
+            <svg
+              className="w-4 h-4 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+            Back to Categories
+          </Link>
+        </div>
       </motion.div>
 
       <motion.div
@@ -0,0 +1,32 @@
+"use client";
+
+import Link from "next/link";
+import { FaHistory } from "react-icons/fa";
+import { useAppSelector } from "../../store/hooks";
+import { can } from "../../../utils/permissions";
+
+interface AuditHistoryLinkProps {
+  // Model the audit log records the target under, e.g. "Product"
+  targetModel: string;
+  targetId: string;
+}
+
+// Opens the audit log filtered to one record; hidden from staff who cannot see the log
+export default function AuditHistoryLink({ targetModel, targetId }: AuditHistoryLinkProps) {
+  const { user } = useAppSelector((state) => state.auth);
+
+  if (!can(user, "view_audit_log")) {
+    return null;
+  }
+
+  const query = new URLSearchParams({ targetModel, targetId });
+
+  return (
+    <Link
+      href={`/admin/audit-log?${query}`}
+      className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white dark:bg-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+    >
+      <FaHistory /> History
+    </Link>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { Carrier } from "@/app/types/shipments";
+import { useEffect, useState } from "react";
+import { FaPlus, FaTrash } from "react-icons/fa";
+import { toast } from "react-toastify";
+
+export default function CarrierSettingsCard() {
+  const [carriers, setCarriers] = useState<Carrier[] | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/carriers");
+        if (response.ok) {
+          const data = await response.json();
+          setCarriers(data.data.carriers);
+        }
+      } catch (error) {
+        console.error("Error fetching carrier settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const updateCarrier = (index: number, changes: Partial<Carrier>) => {
+    if (!carriers) return;
+    setCarriers(
+      carriers.map((carrier, idx) =>
+        idx === index ? { ...carrier, ...changes } : carrier
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    if (!carriers) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/carriers", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ carriers }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setCarriers(data.data.carriers);
+        toast.success("Carrier settings saved");
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save carrier settings");
+      }
+    } catch (error) {
+      console.error("Error saving carrier settings:", error);
+      toast.error("Failed to save carrier settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!carriers) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 rounded-lg text-white">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Shipping Carriers</h3>
+          <p className="text-sm text-gray-400">
+            Carriers offered when shipping a package. Use{" "}
+            <span className="font-mono">{"{trackingNumber}"}</span> in the
+            tracking URL where the number goes.
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save Carriers"}
+        </button>
+      </div>
+      {errors.carriers && (
+        <p className="mb-2 text-xs text-red-400">{errors.carriers}</p>
+      )}
+      <div className="space-y-3">
+        {carriers.map((carrier, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-1 md:grid-cols-12 gap-3 items-start"
+          >
+            <div className="md:col-span-2">
+              <input
+                type="text"
+                placeholder="Code"
+                value={carrier.code}
+                maxLength={30}
+                onChange={(e) =>
+                  updateCarrier(index, { code: e.target.value.toLowerCase() })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900 font-mono"
+              />
+              {errors[`carriers.${index}.code`] && (
+                <p className="mt-1 text-xs text-red-400">
+                  {errors[`carriers.${index}.code`]}
+                </p>
+              )}
+            </div>
+            <div className="md:col-span-3">
+              <input
+                type="text"
+                placeholder="Name"
+                value={carrier.name}
+                maxLength={50}
+                onChange={(e) => updateCarrier(index, { name: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+              />
+              {errors[`carriers.${index}.name`] && (
+                <p className="mt-1 text-xs text-red-400">
+                  {errors[`carriers.${index}.name`]}
+                </p>
+              )}
+            </div>
+            <div className="md:col-span-5">
+              <input
+                type="text"
+                placeholder="https://carrier.example/track?id={trackingNumber}"
+                value={carrier.trackingUrlTemplate}
+                maxLength={300}
+                onChange={(e) =>
+                  updateCarrier(index, { trackingUrlTemplate: e.target.value })
+                }
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+              />
+              {errors[`carriers.${index}.trackingUrlTemplate`] && (
+                <p className="mt-1 text-xs text-red-400">
+                  {errors[`carriers.${index}.trackingUrlTemplate`]}
+                </p>
+              )}
+            </div>
+            <label className="md:col-span-1 flex items-center gap-2 text-sm py-2">
+              <input
+                type="checkbox"
+                checked={carrier.active}
+                onChange={(e) =>
+                  updateCarrier(index, { active: e.target.checked })
+                }
+              />
+              Active
+            </label>
+            <button
+              onClick={() =>
+                setCarriers(carriers.filter((_, idx) => idx !== index))
+              }
+              className="md:col-span-1 p-2 text-red-400 hover:text-red-300"
+              title="Remove carrier"
+            >
+              <FaTrash />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() =>
+          setCarriers([
+            ...carriers,
+            { code: "", name: "", trackingUrlTemplate: "", active: true },
+          ])
+        }
+        className="mt-4 inline-flex items-center gap-2 px-4 py-2 text-sm bg-gray-700 rounded-lg hover:bg-gray-600"
+      >
+        <FaPlus /> Add Carrier
+      </button>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import ImageUploader from "@/app/components/ImageUploader";
 import { Category, CategoryFormProps } from "@/app/types/categoryTypes";
 import Image from "next/image";
 import { ChangeEvent, FormEvent, useState } from "react";
+import TaxClassInput from "../TaxClassInput";
 
 export default function CategoryForm({
   initialData = {},
@@ -18,6 +19,7 @@ export default function CategoryForm({
     image: initialData.image || "",
     parent: initialData.parent || null,
     active: initialData.active !== undefined ? initialData.active : true,
+    taxClass: initialData.taxClass || "",
   });
 
   const handleChange = (
@@ -83,6 +85,24 @@ export default function CategoryForm({
           </p>
         </div>
 
+        {/* Tax Class */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
+            Tax Class
+          </label>
+          <TaxClassInput
+            value={formData.taxClass || ""}
+            onChange={(taxClass) =>
+              setFormData((prev) => ({ ...prev, taxClass }))
+            }
+            placeholder="standard"
+            className="block w-full rounded-md border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white p-2.5"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Optional. Products without their own tax class use this one.
+          </p>
+        </div>
+
         {/* Image */}
         <div className="md:col-span-2">
           <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
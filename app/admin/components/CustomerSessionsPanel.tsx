@@ -0,0 +1,256 @@
+"use client";
+
+import { useAppSelector } from "@/app/store/hooks";
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { UserService } from "../../services/userService";
+import { ActiveSessionResponse, CustomerSecurityResponse, LoginEventResponse } from "../../types/api";
+import { can } from "../../../utils/permissions";
+
+const LOGIN_FAILURE_LABELS: Record<NonNullable<LoginEventResponse["reason"]>, string> = {
+  unknown_email: "Unknown email",
+  invalid_password: "Wrong password",
+  inactive: "Account inactive",
+  invalid_two_factor: "Wrong two-factor code",
+  locked: "Blocked, too many attempts",
+};
+
+const formatDateTime = (dateString: string) => new Date(dateString).toLocaleString();
+
+// Where a customer is signed in, how their latest sign-in attempts went, their two-factor status and any lockout
+export default function CustomerSessionsPanel({ customerId }: { customerId: string }) {
+  const [sessions, setSessions] = useState<ActiveSessionResponse[]>([]);
+  const [loginHistory, setLoginHistory] = useState<LoginEventResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [twoFactorEnabled, setTwoFactorEnabled] = useState(false);
+  const [resettingTwoFactor, setResettingTwoFactor] = useState(false);
+  const [lockout, setLockout] = useState<CustomerSecurityResponse["lockout"]>({ failedAttempts: 0 });
+  const [unlocking, setUnlocking] = useState(false);
+  const { user } = useAppSelector((state) => state.auth);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        setLoading(true);
+        const data = await UserService.getUserSessions(customerId);
+        setSessions(data.sessions);
+        setLoginHistory(data.loginHistory);
+        setTwoFactorEnabled(data.twoFactorEnabled);
+        setLockout(data.lockout);
+      } catch (error) {
+        console.error("Error fetching customer sessions:", error);
+        toast.error("Failed to load customer sessions");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, [customerId]);
+
+  const handleRevoke = async (sessionId: string) => {
+    if (!confirm("Sign the customer out of this device?")) return;
+
+    try {
+      setRevoking(sessionId);
+      await UserService.revokeUserSession(customerId, sessionId);
+      setSessions((prev) => prev.filter((session) => session._id !== sessionId));
+      toast.success("Session revoked");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to revoke session";
+      toast.error(`Revoke Error: ${errorMessage}`);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleResetTwoFactor = async () => {
+    if (
+      !confirm(
+        "Reset two-factor authentication? The customer will sign in with their password alone until they set it up again."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setResettingTwoFactor(true);
+      await UserService.resetUserTwoFactor(customerId);
+      setTwoFactorEnabled(false);
+      toast.success("Two-factor authentication reset");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to reset two-factor authentication";
+      toast.error(`Reset Error: ${errorMessage}`);
+    } finally {
+      setResettingTwoFactor(false);
+    }
+  };
+
+  const handleUnlock = async () => {
+    try {
+      setUnlocking(true);
+      await UserService.clearUserLockout(customerId);
+      setLockout({ failedAttempts: 0 });
+      toast.success("Account unlocked");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to unlock account";
+      toast.error(`Unlock Error: ${errorMessage}`);
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  const isLocked = !!lockout.lockedUntil && new Date(lockout.lockedUntil) > new Date();
+  const canManageSignIn = can(user, "manage_customer_security");
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <p className="text-gray-900 dark:text-white">
+          Two-factor authentication:{" "}
+          <span
+            className={
+              twoFactorEnabled
+                ? "font-medium text-green-600 dark:text-green-400"
+                : "font-medium text-gray-500 dark:text-gray-400"
+            }
+          >
+            {twoFactorEnabled ? "On" : "Off"}
+          </span>
+        </p>
+        {twoFactorEnabled && can(user, "reset_two_factor") && (
+          <button
+            type="button"
+            onClick={handleResetTwoFactor}
+            disabled={resettingTwoFactor}
+            className="px-3 py-1 text-sm text-red-600 hover:text-red-700 border border-red-200 dark:border-red-800 rounded-md disabled:opacity-50"
+          >
+            {resettingTwoFactor ? "Resetting..." : "Reset two-factor"}
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <p className="text-gray-900 dark:text-white">
+          Sign-in:{" "}
+          {isLocked ? (
+            <span className="font-medium text-red-600 dark:text-red-400">
+              Locked until {formatDateTime(lockout.lockedUntil!)}
+            </span>
+          ) : (
+            <span className="font-medium text-green-600 dark:text-green-400">Allowed</span>
+          )}
+          {lockout.failedAttempts > 0 && (
+            <span className="text-gray-500 dark:text-gray-400">
+              {" "}
+              · {lockout.failedAttempts} failed attempt{lockout.failedAttempts === 1 ? "" : "s"} in a row
+            </span>
+          )}
+        </p>
+        {canManageSignIn && (isLocked || lockout.failedAttempts > 0) && (
+          <button
+            type="button"
+            onClick={handleUnlock}
+            disabled={unlocking}
+            className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 border border-blue-200 dark:border-blue-800 rounded-md disabled:opacity-50"
+          >
+            {unlocking ? "Unlocking..." : isLocked ? "Unlock" : "Reset attempts"}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+          Active sessions
+        </h4>
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Not signed in anywhere.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-600">
+            {sessions.map((session) => (
+              <li
+                key={session._id}
+                className="py-2 flex items-center justify-between gap-4 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {session.device}
+                  </p>
+                  <p className="text-gray-500 dark:text-gray-400">
+                    {session.ip || "Unknown IP"} · Last active{" "}
+                    {formatDateTime(session.lastUsedAt)} · Signed in{" "}
+                    {formatDateTime(session.createdAt)}
+                  </p>
+                </div>
+                {canManageSignIn && (
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(session._id)}
+                    disabled={revoking === session._id}
+                    className="px-3 py-1 text-sm text-red-600 hover:text-red-700 border border-red-200 dark:border-red-800 rounded-md disabled:opacity-50"
+                  >
+                    {revoking === session._id ? "Revoking..." : "Revoke"}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+          Login history
+        </h4>
+        {loginHistory.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No sign-in attempts recorded.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400">
+                <th className="py-1 font-medium">Time</th>
+                <th className="py-1 font-medium">Outcome</th>
+                <th className="py-1 font-medium">Device</th>
+                <th className="py-1 font-medium">IP</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+              {loginHistory.map((event) => (
+                <tr key={event._id} className="text-gray-900 dark:text-white">
+                  <td className="py-1">{formatDateTime(event.createdAt)}</td>
+                  <td className="py-1">
+                    {event.outcome === "success" ? (
+                      <span className="text-green-600 dark:text-green-400">Success</span>
+                    ) : (
+                      <span className="text-red-600 dark:text-red-400">
+                        {event.reason ? LOGIN_FAILURE_LABELS[event.reason] : "Failed"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1">{event.device}</td>
+                  <td className="py-1">{event.ip || "Unknown"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { InvoiceSettings } from "@/app/types/api";
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+
+type TextField = Exclude<keyof InvoiceSettings, "padding">;
+
+const sellerFields: { key: TextField; label: string; maxLength: number }[] = [
+  { key: "sellerName", label: "Seller Name", maxLength: 100 },
+  { key: "taxId", label: "Tax ID", maxLength: 50 },
+  { key: "address", label: "Address", maxLength: 200 },
+  { key: "city", label: "City", maxLength: 100 },
+  { key: "state", label: "State / Region", maxLength: 100 },
+  { key: "postalCode", label: "Postal Code", maxLength: 20 },
+  { key: "country", label: "Country", maxLength: 100 },
+  { key: "email", label: "Email", maxLength: 254 },
+  { key: "phone", label: "Phone", maxLength: 30 },
+];
+
+// Local preview of the next number a format produces
+const previewInvoiceNumber = ({ prefix, padding }: InvoiceSettings) =>
+  [prefix, "1".padStart(padding || 1, "0")].filter(Boolean).join("-");
+
+export default function InvoiceSettingsCard() {
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/invoice");
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching invoice settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/invoice", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.data);
+        toast.success("Invoice settings saved");
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save invoice settings");
+      }
+    } catch (error) {
+      console.error("Error saving invoice settings:", error);
+      toast.error("Failed to save invoice settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 rounded-lg text-white">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Invoices & Packing Slips</h3>
+          <p className="text-sm text-gray-400">
+            Seller details printed on every document. Next invoice number
+            format:{" "}
+            <span className="font-mono">{previewInvoiceNumber(settings)}</span>
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save Details"}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {sellerFields.map((field) => (
+          <div key={field.key}>
+            <label className="block text-sm font-medium text-white mb-1">
+              {field.label}
+            </label>
+            <input
+              type={field.key === "email" ? "email" : "text"}
+              value={settings[field.key]}
+              maxLength={field.maxLength}
+              onChange={(e) =>
+                setSettings({ ...settings, [field.key]: e.target.value })
+              }
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+            />
+            {errors[field.key] && (
+              <p className="mt-1 text-xs text-red-400">{errors[field.key]}</p>
+            )}
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Invoice Prefix
+          </label>
+          <input
+            type="text"
+            value={settings.prefix}
+            maxLength={10}
+            onChange={(e) =>
+              setSettings({ ...settings, prefix: e.target.value.toUpperCase() })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.prefix && (
+            <p className="mt-1 text-xs text-red-400">{errors.prefix}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Invoice Number Digits
+          </label>
+          <input
+            type="number"
+            min={3}
+            max={10}
+            value={settings.padding}
+            onChange={(e) =>
+              setSettings({ ...settings, padding: parseInt(e.target.value) || 0 })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.padding && (
+            <p className="mt-1 text-xs text-red-400">{errors.padding}</p>
+          )}
+        </div>
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium text-white mb-1">
+            Invoice Footer
+          </label>
+          <textarea
+            value={settings.footerNote}
+            maxLength={300}
+            rows={2}
+            onChange={(e) =>
+              setSettings({ ...settings, footerNote: e.target.value })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.footerNote && (
+            <p className="mt-1 text-xs text-red-400">{errors.footerNote}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
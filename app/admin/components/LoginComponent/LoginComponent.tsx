@@ -1,27 +1,52 @@
 "use client";
 
+import TwoFactorSetup from "@/app/components/auth/TwoFactorSetup";
 import { useAppDispatch, useAppSelector } from "@/app/store/hooks";
-import { clearErrors, loginUser } from "@/app/store/slices/authSlice";
+import {
+  cancelTwoFactor,
+  checkAuthStatus,
+  clearErrors,
+  loginUser,
+  verifyTwoFactor,
+} from "@/app/store/slices/authSlice";
 import { motion } from "framer-motion";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import { toast } from "react-toastify";
 
+// Sign in, ask for a reset link, or choose a new password from one
+type LoginMode = "login" | "forgot" | "reset";
+
+const inputClass =
+  "appearance-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm bg-white dark:bg-gray-800";
+
+const submitClass =
+  "group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
 export default function LoginComponent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get("callbackUrl") || "/admin";
+  const resetToken = searchParams.get("resetToken");
 
   const dispatch = useAppDispatch();
-  const { isLoading, error, isAuthenticated } = useAppSelector(
-    (state) => state.auth
-  );
+  const { isLoading, error, isAuthenticated, twoFactorChallenge } =
+    useAppSelector((state) => state.auth);
 
   const [formData, setFormData] = useState({
     email: "",
     password: "",
   });
 
+  const [mode, setMode] = useState<LoginMode>(resetToken ? "reset" : "login");
+  const [resetEmail, setResetEmail] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [resetMessage, setResetMessage] = useState<string | null>(null);
+  const [resetError, setResetError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
   // Handle successful login navigation
   useEffect(() => {
     if (isAuthenticated) {
@@ -46,6 +71,89 @@ export default function LoginComponent() {
 
   };
 
+  const handleVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorChallenge) return;
+
+    dispatch(
+      verifyTwoFactor({
+        challengeToken: twoFactorChallenge.challengeToken,
+        code: twoFactorCode.trim(),
+      })
+    );
+  };
+
+  const handleCancelTwoFactor = () => {
+    setTwoFactorCode("");
+    dispatch(cancelTwoFactor());
+  };
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setResetMessage(null);
+    setResetError(null);
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setResetError(null);
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: resetEmail.trim() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to request a password reset");
+      }
+
+      setResetMessage(data.message);
+    } catch (err) {
+      setResetError(err instanceof Error ? err.message : "Failed to request a password reset");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setResetError(null);
+
+    if (newPassword !== confirmPassword) {
+      setResetError("Passwords do not match");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: resetToken, password: newPassword }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.password || data.message || "Failed to reset password");
+      }
+
+      toast.success("Password reset. Sign in with your new password.");
+      setNewPassword("");
+      setConfirmPassword("");
+      switchMode("login");
+      // Drop the used token from the address bar
+      router.replace("/admin");
+    } catch (err) {
+      setResetError(err instanceof Error ? err.message : "Failed to reset password");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8">
       <motion.div
@@ -59,60 +167,232 @@ export default function LoginComponent() {
             <h2 className="text-3xl font-extrabold text-blue-600">Elyana</h2>
           </div>
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900 dark:text-white">
-            Admin Login
+            {mode === "login"
+              ? twoFactorChallenge?.setupRequired
+                ? "Set Up Two-Factor"
+                : twoFactorChallenge
+                  ? "Two-Factor Verification"
+                  : "Admin Login"
+              : mode === "forgot"
+                ? "Reset Password"
+                : "Choose a New Password"}
           </h2>
         </div>
 
-        {error && (
+        {mode === "forgot" && (
+          <form className="mt-8 space-y-6" onSubmit={handleForgotPassword}>
+            {resetMessage ? (
+              <div className="p-3 bg-green-100 text-green-700 rounded-md">
+                {resetMessage}
+              </div>
+            ) : (
+              <>
+                {resetError && (
+                  <div className="p-3 bg-red-100 text-red-700 rounded-md">{resetError}</div>
+                )}
+                <div>
+                  <label htmlFor="reset-email" className="sr-only">
+                    Email address
+                  </label>
+                  <input
+                    id="reset-email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={resetEmail}
+                    onChange={(e) => setResetEmail(e.target.value)}
+                    className={inputClass}
+                    placeholder="Email address"
+                  />
+                </div>
+                <button type="submit" disabled={submitting} className={submitClass}>
+                  {submitting ? "Sending..." : "Send reset link"}
+                </button>
+              </>
+            )}
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={() => switchMode("login")}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Back to sign in
+              </button>
+            </p>
+          </form>
+        )}
+
+        {mode === "reset" && (
+          <form className="mt-8 space-y-6" onSubmit={handleResetPassword}>
+            {resetError && (
+              <div className="p-3 bg-red-100 text-red-700 rounded-md">{resetError}</div>
+            )}
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="new-password" className="sr-only">
+                  New password
+                </label>
+                <input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="New password"
+                />
+              </div>
+              <div>
+                <label htmlFor="confirm-password" className="sr-only">
+                  Confirm new password
+                </label>
+                <input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  required
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="Confirm new password"
+                />
+              </div>
+            </div>
+            <button type="submit" disabled={submitting} className={submitClass}>
+              {submitting ? "Resetting..." : "Reset password"}
+            </button>
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={() => switchMode("forgot")}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Request a new link
+              </button>
+            </p>
+          </form>
+        )}
+
+        {mode === "login" && error && (
           <div className="p-3 bg-red-100 text-red-700 rounded-md">{error}</div>
         )}
 
-        <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
-          <div className="rounded-md shadow-sm -space-y-px">
+        {mode === "login" && twoFactorChallenge?.setupRequired && (
+          <div className="mt-8 space-y-6 text-gray-900 dark:text-white">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Admin accounts must use two-factor authentication. Set it up to
+              finish signing in.
+            </p>
+            <TwoFactorSetup
+              challengeToken={twoFactorChallenge.challengeToken}
+              onComplete={() => dispatch(checkAuthStatus())}
+              inputClassName={inputClass}
+              buttonClassName={submitClass}
+            />
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={handleCancelTwoFactor}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Back to sign in
+              </button>
+            </p>
+          </div>
+        )}
+
+        {mode === "login" && twoFactorChallenge && !twoFactorChallenge.setupRequired && (
+          <form className="mt-8 space-y-6" onSubmit={handleVerifyTwoFactor}>
             <div>
-              <label htmlFor="email" className="sr-only">
-                Email address
+              <label htmlFor="two-factor-code" className="sr-only">
+                Authentication code
               </label>
               <input
-                id="email"
-                name="email"
-                type="email"
-                autoComplete="email"
+                id="two-factor-code"
+                type="text"
+                autoComplete="one-time-code"
                 required
-                value={formData.email}
-                onChange={handleChange}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm bg-white dark:bg-gray-800"
-                placeholder="Email address"
+                autoFocus
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value)}
+                className={inputClass}
+                placeholder="6-digit code or recovery code"
               />
             </div>
+            <button type="submit" disabled={isLoading} className={submitClass}>
+              {isLoading ? "Verifying..." : "Verify"}
+            </button>
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={handleCancelTwoFactor}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Back to sign in
+              </button>
+            </p>
+          </form>
+        )}
+
+        {mode === "login" && !twoFactorChallenge && (
+          <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+            <div className="rounded-md shadow-sm -space-y-px">
+              <div>
+                <label htmlFor="email" className="sr-only">
+                  Email address
+                </label>
+                <input
+                  id="email"
+                  name="email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={formData.email}
+                  onChange={handleChange}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-t-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm bg-white dark:bg-gray-800"
+                  placeholder="Email address"
+                />
+              </div>
+              <div>
+                <label htmlFor="password" className="sr-only">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={formData.password}
+                  onChange={handleChange}
+                  className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm bg-white dark:bg-gray-800"
+                  placeholder="Password"
+                />
+              </div>
+            </div>
+
             <div>
-              <label htmlFor="password" className="sr-only">
-                Password
-              </label>
-              <input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete="current-password"
-                required
-                value={formData.password}
-                onChange={handleChange}
-                className="appearance-none rounded-none relative block w-full px-3 py-2 border border-gray-300 dark:border-gray-700 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white rounded-b-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 focus:z-10 sm:text-sm bg-white dark:bg-gray-800"
-                placeholder="Password"
-              />
+              <button
+                type="submit"
+                disabled={isLoading}
+                className={submitClass}
+              >
+                {isLoading ? "Signing in..." : "Sign in"}
+              </button>
             </div>
-          </div>
 
-          <div>
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="group relative w-full flex justify-center py-2 px-4 border border-transparent text-sm font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isLoading ? "Signing in..." : "Sign in"}
-            </button>
-          </div>
-        </form>
+            <p className="text-center text-sm">
+              <button
+                type="button"
+                onClick={() => switchMode("forgot")}
+                className="text-blue-600 hover:text-blue-500"
+              >
+                Forgot your password?
+              </button>
+            </p>
+          </form>
+        )}
       </motion.div>
     </div>
   );
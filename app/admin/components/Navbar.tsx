@@ -23,12 +23,20 @@ export default function Navbar() {
     // document.documentElement.classList.toggle('dark');
   };
 
-  const handleLogout = () => {
-    dispatch(logoutUser());
+  const handleLogout = async () => {
+    await dispatch(logoutUser());
     toast.success("Logged out successfully");
     router.push("/admin");
   };
 
+  const handleLogoutEverywhere = async () => {
+    if (!confirm("Sign out of every device, including this one?")) return;
+
+    await dispatch(logoutUser({ everywhere: true }));
+    toast.success("Signed out of all devices");
+    router.push("/admin");
+  };
+
   return (
     <div className="bg-white dark:bg-gray-800 shadow-sm z-10">
       <div className="flex justify-between items-center py-3 px-4 md:px-6">
@@ -348,6 +356,28 @@ export default function Navbar() {
                       Logout
                     </div>
                   </button>
+                  <button
+                    onClick={handleLogoutEverywhere}
+                    className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <div className="flex items-center">
+                      <svg
+                        className="mr-2 h-4 w-4 text-gray-500 dark:text-gray-400"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                        xmlns="http://www.w3.org/2000/svg"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
+                        />
+                      </svg>
+                      Sign out everywhere
+                    </div>
+                  </button>
                 </div>
               </motion.div>
             )}
@@ -0,0 +1,167 @@
+"use client";
+
+import { OrderNumberSettings } from "@/app/types/api";
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+
+const datePatterns: { value: OrderNumberSettings["datePattern"]; label: string }[] = [
+  { value: "YYMMDD", label: "YYMMDD (resets daily)" },
+  { value: "YYYYMMDD", label: "YYYYMMDD (resets daily)" },
+  { value: "YYMM", label: "YYMM (resets monthly)" },
+  { value: "YYYYMM", label: "YYYYMM (resets monthly)" },
+  { value: "YYYY", label: "YYYY (resets yearly)" },
+  { value: "", label: "No date (never resets)" },
+];
+
+// Local preview of the first number a format produces today
+const previewOrderNumber = ({ prefix, datePattern, padding }: OrderNumberSettings) => {
+  const now = new Date();
+  const year = now.getFullYear().toString();
+  const date = datePattern
+    .replace("YYYY", year)
+    .replace("YY", year.slice(-2))
+    .replace("MM", (now.getMonth() + 1).toString().padStart(2, "0"))
+    .replace("DD", now.getDate().toString().padStart(2, "0"));
+
+  return [prefix, date, "1".padStart(padding || 1, "0")].filter(Boolean).join("-");
+};
+
+export default function OrderNumberSettingsCard() {
+  const [settings, setSettings] = useState<OrderNumberSettings | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/order-number");
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching order number settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/order-number", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          prefix: settings.prefix,
+          datePattern: settings.datePattern,
+          padding: settings.padding,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.data);
+        toast.success("Order number format saved");
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save order number format");
+      }
+    } catch (error) {
+      console.error("Error saving order number settings:", error);
+      toast.error("Failed to save order number format");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 rounded-lg text-white">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Order Numbers</h3>
+          <p className="text-sm text-gray-400">
+            Applies to new orders. Example:{" "}
+            <span className="font-mono">{previewOrderNumber(settings)}</span>
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save Format"}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Prefix
+          </label>
+          <input
+            type="text"
+            value={settings.prefix}
+            maxLength={10}
+            onChange={(e) =>
+              setSettings({ ...settings, prefix: e.target.value.toUpperCase() })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.prefix && (
+            <p className="mt-1 text-xs text-red-400">{errors.prefix}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Date Pattern
+          </label>
+          <select
+            value={settings.datePattern}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                datePattern: e.target.value as OrderNumberSettings["datePattern"],
+              })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          >
+            {datePatterns.map((pattern) => (
+              <option key={pattern.value || "none"} value={pattern.value}>
+                {pattern.label}
+              </option>
+            ))}
+          </select>
+          {errors.datePattern && (
+            <p className="mt-1 text-xs text-red-400">{errors.datePattern}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Sequence Digits
+          </label>
+          <input
+            type="number"
+            min={3}
+            max={10}
+            value={settings.padding}
+            onChange={(e) =>
+              setSettings({ ...settings, padding: parseInt(e.target.value) || 0 })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.padding && (
+            <p className="mt-1 text-xs text-red-400">{errors.padding}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,328 @@
+"use client";
+
+import { OrderResponse } from "@/app/types/api";
+import { Carrier, Shipment } from "@/app/types/shipments";
+import { useCallback, useEffect, useState } from "react";
+import { FaExternalLinkAlt, FaTruck } from "react-icons/fa";
+import { toast } from "react-toastify";
+
+interface OrderShipmentsCardProps {
+  order: OrderResponse;
+  // Called after a change that may have moved the order to another status
+  onChange: () => void;
+}
+
+// Orders that can still send out parcels, as on the server
+const SHIPPABLE_STATUSES = ["processing", "partially_shipped"];
+
+export default function OrderShipmentsCard({
+  order,
+  onChange,
+}: OrderShipmentsCardProps) {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [carriers, setCarriers] = useState<Carrier[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [carrier, setCarrier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+
+  const fetchShipments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/orders/${order._id}/shipments`);
+      if (response.ok) {
+        const data = await response.json();
+        setShipments(data.data);
+      }
+    } catch (error) {
+      console.error("Error fetching shipments:", error);
+    }
+  }, [order._id]);
+
+  useEffect(() => {
+    fetchShipments();
+  }, [fetchShipments]);
+
+  useEffect(() => {
+    const fetchCarriers = async () => {
+      try {
+        const response = await fetch("/api/settings/carriers");
+        if (response.ok) {
+          const data = await response.json();
+          const active = (data.data.carriers as Carrier[]).filter(
+            (c) => c.active
+          );
+          setCarriers(active);
+          setCarrier((current) => current || active[0]?.code || "");
+        }
+      } catch (error) {
+        console.error("Error fetching carriers:", error);
+      }
+    };
+
+    fetchCarriers();
+  }, []);
+
+  // Units per line not yet packed into a parcel
+  const remainingQuantity = (index: number) =>
+    order.items[index].quantity -
+    shipments
+      .flatMap((shipment) => shipment.items)
+      .filter((item) => item.orderItemIndex === index)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const canShip =
+    SHIPPABLE_STATUSES.includes(order.status) &&
+    order.items.some((_, idx) => remainingQuantity(idx) > 0);
+
+  const openForm = () => {
+    setQuantities(
+      Object.fromEntries(order.items.map((_, idx) => [idx, remainingQuantity(idx)]))
+    );
+    setTrackingNumber("");
+    setShowForm(true);
+  };
+
+  const handleCreate = async () => {
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([index, quantity]) => ({ orderItemIndex: Number(index), quantity }));
+
+    if (items.length === 0) {
+      toast.error("Add at least one item to the package");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/orders/${order._id}/shipments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ carrier, trackingNumber, items }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const firstError = data.errors && Object.values(data.errors)[0];
+        toast.error((firstError as string) || data.message || "Failed to record shipment");
+        return;
+      }
+
+      toast.success(`Package ${data.data.packageNumber} recorded`);
+      setShowForm(false);
+      await fetchShipments();
+      onChange();
+    } catch (error) {
+      console.error("Error recording shipment:", error);
+      toast.error("Failed to record shipment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelivered = async (shipment: Shipment) => {
+    try {
+      setSaving(true);
+      const response = await fetch(
+        `/api/orders/${order._id}/shipments/${shipment._id}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "deliver" }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.message || "Failed to update shipment");
+        return;
+      }
+
+      toast.success(`Package ${shipment.packageNumber} delivered`);
+      await fetchShipments();
+      onChange();
+    } catch (error) {
+      console.error("Error updating shipment:", error);
+      toast.error("Failed to update shipment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!canShip && shipments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+          <FaTruck className="text-blue-400" /> Shipments
+        </h2>
+        {canShip && !showForm && (
+          <button
+            onClick={openForm}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 shadow"
+          >
+            Ship Package
+          </button>
+        )}
+      </div>
+
+      {shipments.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {shipments.map((shipment) => (
+            <div
+              key={shipment._id}
+              className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg text-sm"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  Package {shipment.packageNumber} ·{" "}
+                  {shipment.carrierName || shipment.carrier}
+                </span>
+                {shipment.status === "delivered" ? (
+                  <span className="px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-700">
+                    Delivered{" "}
+                    {shipment.deliveredAt &&
+                      new Date(shipment.deliveredAt).toLocaleDateString()}
+                  </span>
+                ) : (
+                  <button
+                    onClick={() => handleDelivered(shipment)}
+                    disabled={saving}
+                    className="px-3 py-1 rounded-full text-xs font-semibold bg-purple-100 text-purple-700 hover:bg-purple-200 disabled:opacity-50"
+                  >
+                    Mark Delivered
+                  </button>
+                )}
+              </div>
+              {shipment.trackingNumber && (
+                <div className="mb-2 text-gray-600 dark:text-gray-300">
+                  Tracking:{" "}
+                  {shipment.trackingUrl ? (
+                    <a
+                      href={shipment.trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                    >
+                      {shipment.trackingNumber}
+                      <FaExternalLinkAlt className="w-3 h-3" />
+                    </a>
+                  ) : (
+                    <span className="font-mono">{shipment.trackingNumber}</span>
+                  )}
+                </div>
+              )}
+              <ul className="text-gray-500 dark:text-gray-400 space-y-1">
+                {shipment.items.map((item) => (
+                  <li key={item.orderItemIndex}>
+                    {item.quantity} × {item.name}
+                    {(item.color || item.size) &&
+                      ` (${[item.color, item.size].filter(Boolean).join(", ")})`}
+                  </li>
+                ))}
+              </ul>
+              <p className="mt-2 text-xs text-gray-500">
+                Shipped {new Date(shipment.shippedAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-primary">
+                Carrier
+              </label>
+              <select
+                value={carrier}
+                onChange={(e) => setCarrier(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm dark:bg-gray-700 dark:text-white sm:text-sm p-3"
+              >
+                {carriers.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-primary">
+                Tracking Number
+              </label>
+              <input
+                type="text"
+                value={trackingNumber}
+                maxLength={100}
+                onChange={(e) => setTrackingNumber(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm dark:bg-gray-700 dark:text-white sm:text-sm p-3"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-primary">
+              Items in this package
+            </p>
+            {order.items.map((item, index) => {
+              const remaining = remainingQuantity(index);
+              if (remaining <= 0) return null;
+
+              return (
+                <div
+                  key={index}
+                  className="flex items-center justify-between gap-4 text-sm"
+                >
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {item.name || item.product?.name}
+                    {(item.color || item.size) &&
+                      ` (${[item.color, item.size].filter(Boolean).join(", ")})`}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      value={quantities[index] ?? 0}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [index]: Math.min(
+                            remaining,
+                            Math.max(0, parseInt(e.target.value) || 0)
+                          ),
+                        }))
+                      }
+                      className="w-20 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white p-2"
+                    />
+                    <span className="text-gray-500">of {remaining}</span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving || !carrier}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 shadow disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Record Shipment"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
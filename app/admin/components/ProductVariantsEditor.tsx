@@ -0,0 +1,200 @@
+"use client";
+
+import { ProductVariant } from "@/app/types/product";
+import { FaMagic, FaTrash } from "react-icons/fa";
+import {
+  buildVariantMatrix,
+  formatVariantOptions,
+  generateVariantSku,
+} from "../../../utils/productVariants";
+
+interface ProductVariantsEditorProps {
+  // Comma-separated option values, as typed into the product form
+  colors: string;
+  sizes: string;
+  baseSku: string;
+  basePrice: number;
+  // Images of the product a variant can be shown with
+  images: string[];
+  variants: ProductVariant[];
+  onChange: (variants: ProductVariant[]) => void;
+}
+
+const splitValues = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const inputClassName =
+  "w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:bg-gray-700 dark:text-white";
+
+// Variant matrix of a product: one row per color and size combination with its own SKU, price, stock and image
+export default function ProductVariantsEditor({
+  colors,
+  sizes,
+  baseSku,
+  basePrice,
+  images,
+  variants,
+  onChange,
+}: ProductVariantsEditorProps) {
+  const colorValues = splitValues(colors);
+  const sizeValues = splitValues(sizes);
+  const totalStock = variants.reduce((sum, variant) => sum + (variant.stock || 0), 0);
+
+  const updateVariant = (index: number, changes: Partial<ProductVariant>) => {
+    onChange(
+      variants.map((variant, i) =>
+        i === index ? { ...variant, ...changes } : variant
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-medium text-gray-800 dark:text-white">
+            Variants
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Track stock for each color and size combination. Without
+            variants the product is sold from a single quantity.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {variants.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+            >
+              Remove variants
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() =>
+              onChange(buildVariantMatrix(colorValues, sizeValues, variants))
+            }
+            disabled={colorValues.length === 0 && sizeValues.length === 0}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <FaMagic /> Generate from colors and sizes
+          </button>
+        </div>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                {["Variant", "SKU", "Price ($)", "Stock", "Image", ""].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {variants.map((variant, index) => (
+                <tr key={formatVariantOptions(variant.options)}>
+                  <td className="px-3 py-2 text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                    {formatVariantOptions(variant.options)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={variant.sku || ""}
+                      onChange={(e) =>
+                        updateVariant(index, { sku: e.target.value })
+                      }
+                      placeholder={
+                        baseSku
+                          ? generateVariantSku(baseSku, variant.options)
+                          : "Auto-generated"
+                      }
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={variant.price ?? ""}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          price:
+                            e.target.value === ""
+                              ? null
+                              : parseFloat(e.target.value),
+                        })
+                      }
+                      placeholder={basePrice ? basePrice.toFixed(2) : "Same as product"}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={variant.stock}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          stock: parseInt(e.target.value) || 0,
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={variant.image || ""}
+                      onChange={(e) =>
+                        updateVariant(index, {
+                          image: e.target.value || undefined,
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="">Product image</option>
+                      {images.map((image, imageIndex) => (
+                        <option key={image} value={image}>
+                          Image {imageIndex + 1}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        onChange(variants.filter((_, i) => i !== index))
+                      }
+                      className="text-red-600 hover:text-red-800 dark:text-red-400"
+                      aria-label={`Remove ${formatVariantOptions(variant.options)}`}
+                    >
+                      <FaTrash />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+            Total stock across variants: {totalStock}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import { toast } from "react-toastify";
+import { formatOrderStatus } from "../../../utils/orderStatus";
 // Import our service and types
 import { OrderService } from "../../services/orderService";
 import { OrderResponse } from "../../types/api";
@@ -43,6 +44,8 @@ export default function RecentOrdersTable() {
         "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
       processing:
         "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+      partially_shipped:
+        "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400",
       shipped:
         "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
       delivered:
@@ -175,7 +178,7 @@ export default function RecentOrdersTable() {
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-primary">
                 <div>{order.user?.name || "Unknown Customer"}</div>
                 <div className="text-gray-500 dark:text-gray-400 text-xs">
-                  {order.user?.email || "No email"}
+                  {order.user?.email || order.guestEmail || "No email"}
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
@@ -194,7 +197,7 @@ export default function RecentOrdersTable() {
                     order.status
                   )}`}
                 >
-                  {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                  {formatOrderStatus(order.status)}
                 </span>
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
@@ -4,6 +4,8 @@ import { motion } from "framer-motion";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
+import { useAppSelector } from "../../store/hooks";
+import { can, Permission } from "../../../utils/permissions";
 
 interface MenuGroup {
   name: string;
@@ -11,6 +13,8 @@ interface MenuGroup {
     name: string;
     href: string;
     icon: string;
+    // Hidden from users whose role does not grant it
+    permission: Permission;
   }[];
 }
 
@@ -18,27 +22,38 @@ const menuGroups: MenuGroup[] = [
   {
     name: "Catalog",
     items: [
-      { name: "Products", href: "/admin/products", icon: "cube" },
-      { name: "Categories", href: "/admin/categories", icon: "folder" },
+      { name: "Products", href: "/admin/products", icon: "cube", permission: "manage_products" },
+      { name: "Categories", href: "/admin/categories", icon: "folder", permission: "manage_categories" },
     ],
   },
   {
     name: "Sales",
-    items: [{ name: "Orders", href: "/admin/orders", icon: "shopping-bag" }],
+    items: [
+      { name: "Orders", href: "/admin/orders", icon: "shopping-bag", permission: "view_orders" },
+      { name: "Returns", href: "/admin/returns", icon: "refund", permission: "view_orders" },
+      { name: "Coupons", href: "/admin/coupons", icon: "tag", permission: "manage_coupons" },
+      { name: "Shipping", href: "/admin/shipping", icon: "truck", permission: "manage_shipping" },
+      { name: "Tax", href: "/admin/tax", icon: "receipt-tax", permission: "manage_tax" },
+    ],
   },
   {
     name: "Users",
-    items: [{ name: "Customers", href: "/admin/customers", icon: "users" }],
+    items: [
+      { name: "Customers", href: "/admin/customers", icon: "users", permission: "view_customers" },
+      { name: "Roles", href: "/admin/roles", icon: "key", permission: "manage_roles" },
+      { name: "Audit Log", href: "/admin/audit-log", icon: "clipboard-list", permission: "view_audit_log" },
+    ],
   },
   {
     name: "Customer Experience",
-    items: [{ name: "Reviews", href: "/admin/reviews", icon: "star" }],
+    items: [{ name: "Reviews", href: "/admin/reviews", icon: "star", permission: "moderate_reviews" }],
   },
   {
     name: "Website",
     items: [
-      { name: "Homepage", href: "/admin/homepage", icon: "home" },
-      { name: "Settings", href: "/admin/settings", icon: "cog" },
+      { name: "Homepage", href: "/admin/homepage", icon: "home", permission: "manage_settings" },
+      { name: "Settings", href: "/admin/settings", icon: "cog", permission: "manage_settings" },
+      { name: "Emails", href: "/admin/settings/emails", icon: "mail", permission: "manage_emails" },
     ],
   },
 ];
@@ -48,6 +63,15 @@ export default function Sidebar() {
   const router = useRouter();
   const [isOpen, setIsOpen] = useState(true);
   const [expandedGroups, setExpandedGroups] = useState<string[]>([]);
+  const { user } = useAppSelector((state) => state.auth);
+
+  // Only the pages the user's role gives access to
+  const visibleGroups = menuGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => can(user, item.permission)),
+    }))
+    .filter((group) => group.items.length > 0);
 
   // Automatically expand the group based on current pathname
   useEffect(() => {
@@ -147,7 +171,7 @@ export default function Sidebar() {
             </Link>
 
             {/* Menu Groups */}
-            {menuGroups.map((group) => (
+            {visibleGroups.map((group) => (
               <div key={group.name} className="space-y-1">
                 <button
                   onClick={() => toggleGroup(group.name)}
@@ -300,6 +324,102 @@ function getIcon(name: string) {
           />
         </svg>
       );
+    case "tag":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+          />
+        </svg>
+      );
+    case "truck":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0"
+          />
+        </svg>
+      );
+    case "receipt-tax":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 14l6-6m-5.5.5h.01m4.99 5h.01M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16l3.5-2 3.5 2 3.5-2 3.5 2zM10 8.5a.5.5 0 11-1 0 .5.5 0 011 0zm5 5a.5.5 0 11-1 0 .5.5 0 011 0z"
+          />
+        </svg>
+      );
+    case "refund":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M16 15v-1a4 4 0 00-4-4H8m0 0l3 3m-3-3l3-3m9 14V5a2 2 0 00-2-2H6a2 2 0 00-2 2v16l4-2 4 2 4-2 4 2z"
+          />
+        </svg>
+      );
+    case "key":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+          />
+        </svg>
+      );
+    case "clipboard-list":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+          />
+        </svg>
+      );
     case "users":
       return (
         <svg
@@ -370,6 +490,22 @@ function getIcon(name: string) {
           />
         </svg>
       );
+    case "mail":
+      return (
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+          />
+        </svg>
+      );
     default:
       return null;
   }
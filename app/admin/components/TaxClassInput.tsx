@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface TaxClassInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+}
+
+// Free-text tax class field that suggests the classes already used by tax rates
+export default function TaxClassInput({
+  value,
+  onChange,
+  className,
+  placeholder = "Inherit",
+}: TaxClassInputProps) {
+  const [classes, setClasses] = useState<string[]>([]);
+
+  useEffect(() => {
+    const fetchClasses = async () => {
+      try {
+        const response = await fetch("/api/tax/rates");
+        if (response.ok) {
+          const data = await response.json();
+          setClasses(data.data.classes);
+        }
+      } catch (error) {
+        console.error("Error fetching tax classes:", error);
+      }
+    };
+
+    fetchClasses();
+  }, []);
+
+  return (
+    <>
+      <input
+        type="text"
+        list="tax-class-options"
+        value={value}
+        onChange={(e) => onChange(e.target.value.toLowerCase())}
+        className={className}
+        placeholder={placeholder}
+        maxLength={30}
+      />
+      <datalist id="tax-class-options">
+        {classes.map((taxClass) => (
+          <option key={taxClass} value={taxClass} />
+        ))}
+      </datalist>
+    </>
+  );
+}
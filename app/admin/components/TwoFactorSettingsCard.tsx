@@ -0,0 +1,98 @@
+"use client";
+
+import { TwoFactorSettings } from "@/app/types/api";
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+
+export default function TwoFactorSettingsCard() {
+  const [settings, setSettings] = useState<TwoFactorSettings | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/two-factor");
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching two-factor settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/two-factor", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.data);
+        toast.success("Two-factor settings saved");
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save two-factor settings");
+      }
+    } catch (error) {
+      console.error("Error saving two-factor settings:", error);
+      toast.error("Failed to save two-factor settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 rounded-lg text-white">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Two-Factor Authentication</h3>
+          <p className="text-sm text-gray-400">
+            Any account can turn on codes from an authenticator app from its
+            profile
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save Policy"}
+        </button>
+      </div>
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium py-2">
+          <input
+            type="checkbox"
+            checked={settings.requireForAdmins}
+            onChange={(e) =>
+              setSettings({ ...settings, requireForAdmins: e.target.checked })
+            }
+          />
+          Require two-factor authentication for staff
+        </label>
+        <p className="text-xs text-gray-400">
+          Anyone who signs in to the dashboard and has not set it up is asked to at their next sign-in.
+        </p>
+        {errors.requireForAdmins && (
+          <p className="mt-1 text-xs text-red-400">{errors.requireForAdmins}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { VerificationSettings } from "@/app/types/api";
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+
+export default function VerificationSettingsCard() {
+  const [settings, setSettings] = useState<VerificationSettings | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/verification");
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching verification settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/verification", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.data);
+        toast.success("Verification settings saved");
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save verification settings");
+      }
+    } catch (error) {
+      console.error("Error saving verification settings:", error);
+      toast.error("Failed to save verification settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return null;
+  }
+
+  return (
+    <div className="p-6 rounded-lg text-white">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Email Verification</h3>
+          <p className="text-sm text-gray-400">
+            New customers are sent a link to confirm their email address
+          </p>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          {saving ? "Saving..." : "Save Policy"}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium py-2">
+            <input
+              type="checkbox"
+              checked={settings.requireVerifiedEmail}
+              onChange={(e) =>
+                setSettings({ ...settings, requireVerifiedEmail: e.target.checked })
+              }
+            />
+            Require a verified email to order and review
+          </label>
+          {errors.requireVerifiedEmail && (
+            <p className="mt-1 text-xs text-red-400">{errors.requireVerifiedEmail}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Link Expires After (hours)
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={336}
+            value={settings.tokenExpiresHours}
+            onChange={(e) =>
+              setSettings({ ...settings, tokenExpiresHours: parseInt(e.target.value) || 0 })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.tokenExpiresHours && (
+            <p className="mt-1 text-xs text-red-400">{errors.tokenExpiresHours}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-white mb-1">
+            Resend Cooldown (minutes)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={1440}
+            value={settings.resendCooldownMinutes}
+            onChange={(e) =>
+              setSettings({ ...settings, resendCooldownMinutes: parseInt(e.target.value) || 0 })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm w-full text-gray-900"
+          />
+          {errors.resendCooldownMinutes && (
+            <p className="mt-1 text-xs text-red-400">{errors.resendCooldownMinutes}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
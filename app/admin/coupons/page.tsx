@@ -0,0 +1,715 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { COUPON_TYPE_LABELS, Coupon, CouponType } from "../../types/coupons";
+
+interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+interface ScopeOption {
+  _id: string;
+  name: string;
+}
+
+// Form values are kept as strings so optional fields can be left blank
+interface CouponFormState {
+  code: string;
+  description: string;
+  type: CouponType;
+  value: string;
+  maxDiscount: string;
+  buyQuantity: string;
+  getQuantity: string;
+  minimumSpend: string;
+  startsAt: string;
+  expiresAt: string;
+  usageLimit: string;
+  usageLimitPerCustomer: string;
+  products: string[];
+  categories: string[];
+  active: boolean;
+}
+
+const emptyForm: CouponFormState = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  maxDiscount: "",
+  buyQuantity: "",
+  getQuantity: "",
+  minimumSpend: "",
+  startsAt: "",
+  expiresAt: "",
+  usageLimit: "",
+  usageLimitPerCustomer: "",
+  products: [],
+  categories: [],
+  active: true,
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : "");
+
+const toNumberOrNull = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+const describeCoupon = (coupon: Coupon) => {
+  switch (coupon.type) {
+    case "percentage":
+      return `${coupon.value}% off${
+        coupon.maxDiscount ? ` (max $${coupon.maxDiscount})` : ""
+      }`;
+    case "fixed":
+      return `$${coupon.value.toFixed(2)} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_x_get_y":
+      return `Buy ${coupon.buyQuantity} get ${coupon.getQuantity} free`;
+  }
+};
+
+const getCouponState = (coupon: Coupon) => {
+  const now = new Date();
+  if (!coupon.active) return { label: "Inactive", color: "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400" };
+  if (coupon.expiresAt && new Date(coupon.expiresAt) <= now) return { label: "Expired", color: "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400" };
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) return { label: "Scheduled", color: "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400" };
+  if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) return { label: "Used up", color: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400" };
+  return { label: "Active", color: "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400" };
+};
+
+export default function AdminCouponsPage() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [pagination, setPagination] = useState<Pagination>({
+    currentPage: 1,
+    totalPages: 1,
+    total: 0,
+    hasNext: false,
+    hasPrev: false,
+  });
+  const [products, setProducts] = useState<ScopeOption[]>([]);
+  const [categories, setCategories] = useState<ScopeOption[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CouponFormState>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchCoupons = useCallback(
+    async (page = 1) => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          page: page.toString(),
+          limit: "10",
+          ...(search && { search }),
+        });
+
+        const response = await fetch(`/api/coupons?${params}`);
+
+        if (response.ok) {
+          const data = await response.json();
+          setCoupons(data.data.coupons);
+          setPagination(data.data.pagination);
+        } else {
+          toast.error("Failed to fetch coupons");
+        }
+      } catch (error) {
+        console.error("Error fetching coupons:", error);
+        toast.error("Error loading coupons");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [search]
+  );
+
+  useEffect(() => {
+    fetchCoupons(1);
+  }, [fetchCoupons]);
+
+  // Options for scoping a coupon to products or categories
+  useEffect(() => {
+    const fetchScopeOptions = async () => {
+      try {
+        const [productsResponse, categoriesResponse] = await Promise.all([
+          fetch("/api/products?limit=100&sort=name"),
+          fetch("/api/categories"),
+        ]);
+        if (productsResponse.ok) {
+          const data = await productsResponse.json();
+          setProducts(data.data.products);
+        }
+        if (categoriesResponse.ok) {
+          const data = await categoriesResponse.json();
+          setCategories(data.categories);
+        }
+      } catch (error) {
+        console.error("Error loading coupon scope options:", error);
+      }
+    };
+
+    fetchScopeOptions();
+  }, []);
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const openEditForm = (coupon: Coupon) => {
+    setEditingId(coupon._id);
+    setForm({
+      code: coupon.code,
+      description: coupon.description || "",
+      type: coupon.type,
+      value: coupon.value ? coupon.value.toString() : "",
+      maxDiscount: coupon.maxDiscount?.toString() || "",
+      buyQuantity: coupon.buyQuantity?.toString() || "",
+      getQuantity: coupon.getQuantity?.toString() || "",
+      minimumSpend: coupon.minimumSpend ? coupon.minimumSpend.toString() : "",
+      startsAt: toDateInput(coupon.startsAt),
+      expiresAt: toDateInput(coupon.expiresAt),
+      usageLimit: coupon.usageLimit?.toString() || "",
+      usageLimitPerCustomer: coupon.usageLimitPerCustomer?.toString() || "",
+      products: coupon.products,
+      categories: coupon.categories,
+      active: coupon.active,
+    });
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const toggleScope = (field: "products" | "categories", id: string) => {
+    setForm((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter((value) => value !== id)
+        : [...prev[field], id],
+    }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setErrors({});
+
+      const payload = {
+        code: form.code.trim().toUpperCase(),
+        description: form.description,
+        type: form.type,
+        value: toNumberOrNull(form.value) ?? 0,
+        maxDiscount: toNumberOrNull(form.maxDiscount),
+        buyQuantity: toNumberOrNull(form.buyQuantity),
+        getQuantity: toNumberOrNull(form.getQuantity),
+        minimumSpend: toNumberOrNull(form.minimumSpend) ?? 0,
+        startsAt: form.startsAt || null,
+        expiresAt: form.expiresAt || null,
+        usageLimit: toNumberOrNull(form.usageLimit),
+        usageLimitPerCustomer: toNumberOrNull(form.usageLimitPerCustomer),
+        products: form.products,
+        categories: form.categories,
+        active: form.active,
+      };
+
+      const response = await fetch(
+        editingId ? `/api/coupons/${editingId}` : "/api/coupons",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || "Coupon saved");
+        setShowForm(false);
+        fetchCoupons(editingId ? pagination.currentPage : 1);
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save coupon");
+      }
+    } catch (error) {
+      console.error("Error saving coupon:", error);
+      toast.error("Failed to save coupon");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: Coupon) => {
+    try {
+      const response = await fetch(`/api/coupons/${coupon._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !coupon.active }),
+      });
+
+      if (response.ok) {
+        toast.success(coupon.active ? "Coupon deactivated" : "Coupon activated");
+        fetchCoupons(pagination.currentPage);
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to update coupon");
+      }
+    } catch (error) {
+      console.error("Error updating coupon:", error);
+      toast.error("Failed to update coupon");
+    }
+  };
+
+  const handleDelete = async (coupon: Coupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}? Orders that used it keep their discount.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/coupons/${coupon._id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        toast.success("Coupon deleted");
+        fetchCoupons(pagination.currentPage);
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to delete coupon");
+      }
+    } catch (error) {
+      console.error("Error deleting coupon:", error);
+      toast.error("Failed to delete coupon");
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="mt-1 text-sm text-red-500">{errors[field]}</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Coupons
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                Create discount codes and promotions for your customers
+              </p>
+            </div>
+            <button
+              onClick={openCreateForm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New Coupon
+            </button>
+          </div>
+          <div className="px-6 pb-4">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by code..."
+              className={`${inputClass} max-w-xs`}
+            />
+          </div>
+        </div>
+
+        {/* Coupon Form */}
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingId ? `Edit ${form.code}` : "New Coupon"}
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Code
+                </label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className={inputClass}
+                  maxLength={30}
+                  required
+                />
+                {fieldError("code")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Type
+                </label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as CouponType })}
+                  className={inputClass}
+                >
+                  {(Object.keys(COUPON_TYPE_LABELS) as CouponType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {COUPON_TYPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            {/* Type-specific values */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {(form.type === "percentage" || form.type === "fixed") && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {form.type === "percentage" ? "Percent off" : "Amount off ($)"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                  {fieldError("value")}
+                </div>
+              )}
+              {form.type === "percentage" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Maximum discount ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.maxDiscount}
+                    onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })}
+                    className={inputClass}
+                    placeholder="No cap"
+                  />
+                </div>
+              )}
+              {form.type === "buy_x_get_y" && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Buy quantity
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.buyQuantity}
+                      onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                      className={inputClass}
+                      required
+                    />
+                    {fieldError("buyQuantity")}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Free quantity
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={form.getQuantity}
+                      onChange={(e) => setForm({ ...form, getQuantity: e.target.value })}
+                      className={inputClass}
+                      required
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Minimum spend ($)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minimumSpend}
+                  onChange={(e) => setForm({ ...form, minimumSpend: e.target.value })}
+                  className={inputClass}
+                  placeholder="None"
+                />
+              </div>
+            </div>
+
+            {/* Limits and dates */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Starts
+                </label>
+                <input
+                  type="date"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Expires
+                </label>
+                <input
+                  type="date"
+                  value={form.expiresAt}
+                  onChange={(e) => setForm({ ...form, expiresAt: e.target.value })}
+                  className={inputClass}
+                />
+                {fieldError("expiresAt")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Total uses
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  className={inputClass}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Uses per customer
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.usageLimitPerCustomer}
+                  onChange={(e) => setForm({ ...form, usageLimitPerCustomer: e.target.value })}
+                  className={inputClass}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            {/* Scope */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(
+                [
+                  ["categories", "Categories", categories],
+                  ["products", "Products", products],
+                ] as const
+              ).map(([field, label, options]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {label}{" "}
+                    <span className="font-normal text-gray-500">
+                      ({form[field].length || "all"} selected)
+                    </span>
+                  </label>
+                  <div className="max-h-40 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-md p-2 space-y-1">
+                    {options.map((option) => (
+                      <label
+                        key={option._id}
+                        className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={form[field].includes(option._id)}
+                          onChange={() => toggleScope(field, option._id)}
+                        />
+                        {option.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leave both lists empty to apply the coupon to the whole cart.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Coupon"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Coupon List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              Loading coupons...
+            </div>
+          ) : coupons.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              No coupons found
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  {["Code", "Discount", "Usage", "Valid", "Status", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {coupons.map((coupon) => {
+                  const state = getCouponState(coupon);
+                  return (
+                    <tr key={coupon._id}>
+                      <td className="px-6 py-4">
+                        <div className="font-mono font-semibold text-gray-900 dark:text-white">
+                          {coupon.code}
+                        </div>
+                        {coupon.description && (
+                          <div className="text-sm text-gray-500 dark:text-gray-400">
+                            {coupon.description}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                        {describeCoupon(coupon)}
+                        {coupon.minimumSpend > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Min. spend ${coupon.minimumSpend.toFixed(2)}
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                        {coupon.usageCount}
+                        {coupon.usageLimit ? ` / ${coupon.usageLimit}` : ""}
+                        {coupon.usageLimitPerCustomer && (
+                          <div className="text-xs text-gray-500">
+                            {coupon.usageLimitPerCustomer} per customer
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                        {coupon.startsAt ? formatDate(coupon.startsAt) : "Now"}
+                        {" – "}
+                        {coupon.expiresAt ? formatDate(coupon.expiresAt) : "No expiry"}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${state.color}`}>
+                          {state.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                        <button
+                          onClick={() => openEditForm(coupon)}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggleActive(coupon)}
+                          className="text-gray-600 hover:text-gray-800 dark:text-gray-400"
+                        >
+                          {coupon.active ? "Deactivate" : "Activate"}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(coupon)}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="flex justify-center items-center gap-4">
+            <button
+              onClick={() => fetchCoupons(pagination.currentPage - 1)}
+              disabled={!pagination.hasPrev}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600 dark:text-gray-400">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => fetchCoupons(pagination.currentPage + 1)}
+              disabled={!pagination.hasNext}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,11 @@ import { useRouter } from "next/navigation";
 import { use, useEffect, useState } from "react";
 import { toast } from "react-toastify";
 import { UserService } from "../../../services/userService";
-import { UpdateUserRequest, UserResponse } from "../../../types/api";
+import { useAppSelector } from "../../../store/hooks";
+import { RoleResponse, UpdateUserRequest, UserResponse } from "../../../types/api";
+import { can } from "../../../../utils/permissions";
+import AuditHistoryLink from "../../components/AuditHistoryLink";
+import CustomerSessionsPanel from "../../components/CustomerSessionsPanel";
 
 export default function EditCustomerPage({
   params,
@@ -19,9 +23,13 @@ export default function EditCustomerPage({
   const [formData, setFormData] = useState({
     name: "",
     email: "",
-    role: "customer" as "customer" | "admin",
     active: true,
   });
+  const [roles, setRoles] = useState<RoleResponse[]>([]);
+  const [selectedRole, setSelectedRole] = useState("");
+  const [savingRole, setSavingRole] = useState(false);
+  const { user } = useAppSelector((state) => state.auth);
+  const canManageRoles = can(user, "manage_roles");
 
   useEffect(() => {
     const fetchCustomer = async () => {
@@ -36,9 +44,9 @@ export default function EditCustomerPage({
         setFormData({
           name: customerData.name || "",
           email: customerData.email || "",
-          role: (customerData.role as "customer" | "admin") || "customer",
           active: customerData.active !== false,
         });
+        setSelectedRole(customerData.role);
       } catch (error) {
         const errorMessage =
           error instanceof Error
@@ -54,6 +62,35 @@ export default function EditCustomerPage({
     fetchCustomer();
   }, [id]);
 
+  useEffect(() => {
+    if (!canManageRoles) return;
+
+    UserService.getRoles()
+      .then(setRoles)
+      .catch((error) => {
+        console.error("Error fetching roles:", error);
+        toast.error("Failed to load roles");
+      });
+  }, [canManageRoles]);
+
+  const handleAssignRole = async () => {
+    if (!customer || selectedRole === customer.role) return;
+
+    try {
+      setSavingRole(true);
+      await UserService.assignUserRole(customer._id, selectedRole);
+      setCustomer({ ...customer, role: selectedRole });
+      toast.success("Role assigned");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to assign role";
+      toast.error(`Role Error: ${errorMessage}`);
+      setSelectedRole(customer.role);
+    } finally {
+      setSavingRole(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -65,7 +102,6 @@ export default function EditCustomerPage({
       const updateData: UpdateUserRequest = {
         name: formData.name,
         email: formData.email,
-        role: formData.role,
         active: formData.active,
       };
 
@@ -158,13 +194,16 @@ export default function EditCustomerPage({
 
   return (
     <div className="max-w-2xl mx-auto p-4">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-          Edit Customer
-        </h1>
-        <p className="text-gray-600 dark:text-gray-400">
-          Update customer information and account settings
-        </p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            Edit Customer
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Update customer information and account settings
+          </p>
+        </div>
+        <AuditHistoryLink targetModel="User" targetId={id} />
       </div>
 
       <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6">
@@ -197,21 +236,6 @@ export default function EditCustomerPage({
             />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-2">
-              Role
-            </label>
-            <select
-              name="role"
-              value={formData.role}
-              onChange={handleInputChange}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            >
-              <option value="customer">Customer</option>
-              <option value="admin">Admin</option>
-            </select>
-          </div>
-
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -269,6 +293,51 @@ export default function EditCustomerPage({
             </div>
           </div>
         </div>
+
+        {/* Role */}
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-600">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+            Role
+          </h3>
+          {canManageRoles ? (
+            <div className="flex items-center gap-3">
+              <select
+                value={selectedRole}
+                onChange={(e) => setSelectedRole(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {!roles.some((role) => role.name === selectedRole) && (
+                  <option value={selectedRole}>{selectedRole}</option>
+                )}
+                {roles.map((role) => (
+                  <option key={role.name} value={role.name}>
+                    {role.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={handleAssignRole}
+                disabled={savingRole || selectedRole === customer.role}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingRole ? "Saving..." : "Assign Role"}
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm font-medium text-gray-900 dark:text-white">
+              {customer.role.replace("-", " ")}
+            </p>
+          )}
+        </div>
+
+        {/* Sessions and login history */}
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-600">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+            Sessions &amp; Login History
+          </h3>
+          <CustomerSessionsPanel customerId={customer._id} />
+        </div>
       </div>
     </div>
   );
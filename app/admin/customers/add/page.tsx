@@ -1,5 +1,4 @@
 "use client";
-import { getCookie } from "cookies-next";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 
@@ -22,13 +21,11 @@ export default function AddCustomerPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
-    const token = getCookie("auth_token");
     try {
       const res = await fetch("/api/customers", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify(formData),
       });
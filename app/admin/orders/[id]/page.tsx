@@ -2,10 +2,18 @@
 
 import { useRouter } from "next/navigation";
 import { use, useCallback, useEffect, useState } from "react";
-import { FaBoxOpen, FaReceipt, FaTruck, FaUser } from "react-icons/fa";
+import { FaBoxOpen, FaFilePdf, FaHistory, FaReceipt, FaTruck, FaUser } from "react-icons/fa";
 import { toast } from "react-toastify";
+import {
+  formatOrderStatus,
+  getAllowedTransitions,
+} from "../../../../utils/orderStatus";
+import OrderStatusTimeline from "../../../components/orders/OrderStatusTimeline";
+import AuditHistoryLink from "../../components/AuditHistoryLink";
+import OrderShipmentsCard from "../../components/OrderShipmentsCard";
 import { OrderService } from "../../../services/orderService";
 import { OrderResponse } from "../../../types/api";
+import { OrderStatus } from "../../../types/orders";
 
 export default function OrderDetailPage({
   params,
@@ -17,6 +25,7 @@ export default function OrderDetailPage({
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [error, setError] = useState<string>("");
+  const [statusNote, setStatusNote] = useState("");
   const { id } = use(params);
 
   const fetchOrder = useCallback(async () => {
@@ -40,23 +49,20 @@ export default function OrderDetailPage({
     fetchOrder();
   }, [fetchOrder]);
 
-  const handleStatusUpdate = async (newStatus: string) => {
-    if (!order) return;
+  const handleStatusUpdate = async (newStatus: OrderStatus) => {
+    if (!order || newStatus === order.status) return;
 
     try {
       setUpdating(true);
 
       const updatedOrder = await OrderService.updateOrderStatus(
         order._id,
-        newStatus as
-          | "pending"
-          | "processing"
-          | "shipped"
-          | "delivered"
-          | "cancelled"
+        newStatus,
+        statusNote.trim() || undefined
       );
 
       setOrder(updatedOrder);
+      setStatusNote("");
       toast.success("Order status updated successfully");
     } catch (error) {
       const errorMessage =
@@ -213,14 +219,40 @@ export default function OrderDetailPage({
             <span className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
               Order Status: {order.status}
             </span>
+            {order.invoiceNumber && (
+              <span className="px-3 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-700">
+                Invoice: {order.invoiceNumber}
+              </span>
+            )}
           </div>
         </div>
-        <button
-          onClick={() => router.push("/admin/orders")}
-          className="mt-4 md:mt-0 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 shadow"
-        >
-          Back to Orders
-        </button>
+        <div className="mt-4 md:mt-0 flex gap-2">
+          {(order.isPaid || order.invoiceNumber) && (
+            <a
+              href={`/api/orders/${order._id}/invoice`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 shadow dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600"
+            >
+              <FaFilePdf /> Invoice
+            </a>
+          )}
+          <a
+            href={`/api/orders/${order._id}/packing-slip`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 shadow dark:bg-gray-800 dark:text-gray-200 dark:border-gray-600"
+          >
+            <FaFilePdf /> Packing Slip
+          </a>
+          <AuditHistoryLink targetModel="Order" targetId={order._id} />
+          <button
+            onClick={() => router.push("/admin/orders")}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 shadow"
+          >
+            Back to Orders
+          </button>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
@@ -238,17 +270,38 @@ export default function OrderDetailPage({
                 </label>
                 <select
                   value={order.status}
-                  onChange={(e) => handleStatusUpdate(e.target.value)}
-                  disabled={updating}
+                  onChange={(e) =>
+                    handleStatusUpdate(e.target.value as OrderStatus)
+                  }
+                  disabled={
+                    updating || getAllowedTransitions(order.status).length === 0
+                  }
                   className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm p-3"
                 >
-                  <option value="pending">Pending</option>
-                  <option value="processing">Processing</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="delivered">Delivered</option>
-                  <option value="cancelled">Cancelled</option>
-                  <option value="refunded">Refunded</option>
+                  {[order.status, ...getAllowedTransitions(order.status)].map(
+                    (status) => (
+                      <option key={status} value={status}>
+                        {formatOrderStatus(status)}
+                      </option>
+                    )
+                  )}
                 </select>
+                {getAllowedTransitions(order.status).length > 0 ? (
+                  <input
+                    type="text"
+                    value={statusNote}
+                    onChange={(e) => setStatusNote(e.target.value)}
+                    placeholder="Optional note for the next status change"
+                    maxLength={500}
+                    disabled={updating}
+                    className="mt-2 block w-full rounded-md border-gray-300 dark:border-gray-600 shadow-sm focus:border-blue-500 focus:ring-blue-500 dark:bg-gray-700 dark:text-white sm:text-sm p-3"
+                  />
+                ) : (
+                  <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    This order is {order.status} and can no longer change
+                    status.
+                  </p>
+                )}
               </div>
               <div className="flex items-center space-x-4">
                 <div>
@@ -257,8 +310,13 @@ export default function OrderDetailPage({
                   </label>
                   <button
                     onClick={() => handlePaymentUpdate(!order.isPaid)}
-                    disabled={updating}
-                    className={`mt-1 px-3 py-1 rounded-full text-sm font-medium ${
+                    disabled={updating || Boolean(order.payment.provider)}
+                    title={
+                      order.payment.provider
+                        ? "Settled by the payment provider"
+                        : undefined
+                    }
+                    className={`mt-1 px-3 py-1 rounded-full text-sm font-medium disabled:cursor-not-allowed ${
                       order.isPaid
                         ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400"
                         : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400"
@@ -266,6 +324,12 @@ export default function OrderDetailPage({
                   >
                     {order.isPaid ? "Paid" : "Unpaid"}
                   </button>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {order.payment.method.replace(/_/g, " ")} ·{" "}
+                    {order.payment.status.replace(/_/g, " ")}
+                    {order.payment.transactionId &&
+                      ` · ${order.payment.transactionId}`}
+                  </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-primary">
@@ -287,6 +351,14 @@ export default function OrderDetailPage({
             </div>
           </div>
 
+          {/* Status Timeline */}
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-6">
+            <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              <FaHistory className="text-blue-400" /> Status History
+            </h2>
+            <OrderStatusTimeline history={order.statusHistory} showActor />
+          </div>
+
           {/* Order Items */}
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow p-6">
             <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -305,6 +377,9 @@ export default function OrderDetailPage({
                     <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
                       Qty
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
+                      Tax
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
                       Total
                     </th>
@@ -319,6 +394,14 @@ export default function OrderDetailPage({
                       <td className="px-6 py-4">{item?.product?.name}</td>
                       <td className="px-6 py-4">${item.price.toFixed(2)}</td>
                       <td className="px-6 py-4">{item.quantity}</td>
+                      <td className="px-6 py-4">
+                        ${(item.taxPrice || 0).toFixed(2)}
+                        {!!item.taxRate && (
+                          <span className="block text-xs text-gray-500">
+                            {item.taxRate}% {item.taxClass}
+                          </span>
+                        )}
+                      </td>
                       <td className="px-6 py-4">
                         ${(item.price * item.quantity).toFixed(2)}
                       </td>
@@ -328,6 +411,9 @@ export default function OrderDetailPage({
               </table>
             </div>
           </div>
+
+          {/* Shipments */}
+          <OrderShipmentsCard order={order} onChange={fetchOrder} />
         </div>
 
         {/* Right: Sidebar */}
@@ -338,8 +424,10 @@ export default function OrderDetailPage({
               <FaUser className="text-blue-400" /> Customer
             </h2>
             <div className="space-y-2">
-              <div className="font-medium">{order.user.name}</div>
-              <div className="text-sm text-gray-500">{order.user.email}</div>
+              <div className="font-medium">{order.user?.name || "Guest"}</div>
+              <div className="text-sm text-gray-500">
+                {order.user?.email || order.guestEmail}
+              </div>
               <div className="text-sm text-gray-500">
                 {order.shipping?.phone || "N/A"}
               </div>
@@ -370,18 +458,52 @@ export default function OrderDetailPage({
                 <span>Subtotal</span>
                 <span>${order.itemsPrice.toFixed(2)}</span>
               </div>
+              {order.discounts?.map((discount) => (
+                <div
+                  key={discount.code}
+                  className="flex justify-between text-green-600"
+                >
+                  <span>
+                    Coupon {discount.code}
+                    {discount.freeShipping && " (free shipping)"}
+                  </span>
+                  <span>-${discount.amount.toFixed(2)}</span>
+                </div>
+              ))}
               <div className="flex justify-between">
-                <span>Shipping</span>
+                <span>
+                  Shipping
+                  {order.shippingMethod &&
+                    ` (${order.shippingMethod.name}, ${order.shippingMethod.zoneName})`}
+                </span>
                 <span>${order.shippingPrice.toFixed(2)}</span>
               </div>
               <div className="flex justify-between">
-                <span>Tax</span>
+                <span>
+                  {order.pricesIncludeTax ? "Tax (included)" : "Tax"}
+                  {!!order.shippingTaxPrice &&
+                    ` (shipping $${order.shippingTaxPrice.toFixed(2)})`}
+                </span>
                 <span>${order.taxPrice.toFixed(2)}</span>
               </div>
               <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2 flex justify-between font-bold text-base">
                 <span>Total</span>
                 <span>${order.totalPrice.toFixed(2)}</span>
               </div>
+              {!!order.refundedAmount && order.refundedAmount > 0 && (
+                <>
+                  <div className="flex justify-between text-red-600">
+                    <span>Refunded ({order.refunds?.length || 0})</span>
+                    <span>-${order.refundedAmount.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Net</span>
+                    <span>
+                      ${(order.totalPrice - order.refundedAmount).toFixed(2)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
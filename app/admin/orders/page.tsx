@@ -4,8 +4,10 @@ import { Pagination } from "@/app/types/shared";
 import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState } from "react";
 import { toast } from "react-toastify";
+import { formatOrderStatus } from "../../../utils/orderStatus";
 import { OrderService } from "../../services/orderService";
 import { OrderResponse } from "../../types/api";
+import { OrderStatus } from "../../types/orders";
 import DataTable from "../components/DataTable";
 
 interface ColumnKey {
@@ -48,6 +50,8 @@ export default function OrdersPage() {
     notes: true,
     actions: true,
   });
+  // Orders picked for bulk printing; kept across pages and filters
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const router = useRouter();
 
   const fetchOrders = useCallback(async () => {
@@ -59,12 +63,7 @@ export default function OrdersPage() {
         page: pagination.currentPage,
         limit: 10,
         status: filters.status
-          ? (filters.status as
-              | "pending"
-              | "processing"
-              | "shipped"
-              | "delivered"
-              | "cancelled")
+          ? (filters.status as OrderStatus)
           : undefined,
         isPaid: filters.isPaid ? filters.isPaid === "true" : undefined,
         isDelivered: filters.isDelivered
@@ -110,6 +109,8 @@ export default function OrdersPage() {
         "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
       processing:
         "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+      partially_shipped:
+        "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-400",
       shipped:
         "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
       delivered:
@@ -141,10 +142,10 @@ export default function OrdersPage() {
       render: (order: OrderResponse) => (
         <div>
           <div className="text-sm font-medium text-gray-900 dark:text-white">
-            {order.user.name}
+            {order.user?.name || "Guest"}
           </div>
           <div className="text-sm text-gray-500 dark:text-gray-400">
-            {order.user.email}
+            {order.user?.email || order.guestEmail}
           </div>
         </div>
       ),
@@ -169,7 +170,7 @@ export default function OrdersPage() {
             order.status
           )}`}
         >
-          {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+          {formatOrderStatus(order.status)}
         </span>
       ),
     },
@@ -247,12 +248,87 @@ export default function OrdersPage() {
     },
   ];
 
-  const columns = columnDefinitions
-    .filter((col) => visibleColumns[col.key])
-    .map(({ header, render }) => ({
-      header,
-      accessor: render,
-    }));
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(orderId)
+        ? prev.filter((id) => id !== orderId)
+        : [...prev, orderId]
+    );
+  };
+
+  const allOnPageSelected =
+    orders.length > 0 && orders.every((order) => selectedIds.includes(order._id));
+
+  const toggleSelectPage = () => {
+    const pageIds = orders.map((order) => order._id);
+    setSelectedIds((prev) =>
+      allOnPageSelected
+        ? prev.filter((id) => !pageIds.includes(id))
+        : Array.from(new Set([...prev, ...pageIds]))
+    );
+  };
+
+  // All selected slips come back as one PDF, ready to print
+  const printPackingSlips = () => {
+    if (selectedIds.length > 100) {
+      toast.error("Packing slips can be printed for up to 100 orders at a time");
+      return;
+    }
+    window.open(
+      `/api/orders/packing-slips?ids=${selectedIds.join(",")}`,
+      "_blank",
+      "noopener"
+    );
+  };
+
+  const columns = [
+    {
+      header: "Select",
+      accessor: (order: OrderResponse) => (
+        <input
+          type="checkbox"
+          checked={selectedIds.includes(order._id)}
+          onClick={(e) => e.stopPropagation()}
+          onChange={() => toggleSelected(order._id)}
+          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          aria-label={`Select order ${order.orderNumber}`}
+        />
+      ),
+    },
+    ...columnDefinitions
+      .filter((col) => visibleColumns[col.key])
+      .map(({ header, render }) => ({
+        header,
+        accessor: render,
+      })),
+  ];
+
+  const bulkActions = (
+    <div className="mt-4 md:mt-0 flex items-center gap-2">
+      <button
+        onClick={toggleSelectPage}
+        disabled={orders.length === 0}
+        className="px-4 py-2 text-sm font-medium border rounded bg-white dark:bg-gray-700 dark:text-white disabled:opacity-50"
+      >
+        {allOnPageSelected ? "Deselect Page" : "Select Page"}
+      </button>
+      {selectedIds.length > 0 && (
+        <button
+          onClick={() => setSelectedIds([])}
+          className="px-4 py-2 text-sm font-medium border rounded bg-white dark:bg-gray-700 dark:text-white"
+        >
+          Clear Selection
+        </button>
+      )}
+      <button
+        onClick={printPackingSlips}
+        disabled={selectedIds.length === 0}
+        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 shadow disabled:opacity-50"
+      >
+        Print Packing Slips{selectedIds.length > 0 && ` (${selectedIds.length})`}
+      </button>
+    </div>
+  );
 
   const filterControls = (
     <div className="flex flex-col md:flex-row gap-4">
@@ -265,6 +341,7 @@ export default function OrdersPage() {
           <option value="">All Status</option>
           <option value="pending">Pending</option>
           <option value="processing">Processing</option>
+          <option value="partially_shipped">Partially Shipped</option>
           <option value="shipped">Shipped</option>
           <option value="delivered">Delivered</option>
           <option value="cancelled">Cancelled</option>
@@ -361,6 +438,7 @@ export default function OrdersPage() {
       columns={columns}
       loading={loading}
       filters={filterControls}
+      actions={bulkActions}
       pagination={{
         currentPage: pagination.currentPage,
         totalPages: pagination.totalPages,
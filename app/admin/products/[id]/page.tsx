@@ -9,6 +9,11 @@ import { toast } from "react-toastify";
 import { CategoryService } from "../../../services/categoryService";
 import { ProductService } from "../../../services/productService";
 import { ProductResponse } from "../../../types/api";
+import { ProductVariant } from "../../../types/product";
+import { summarizeVariants } from "../../../../utils/productVariants";
+import AuditHistoryLink from "../../components/AuditHistoryLink";
+import ProductVariantsEditor from "../../components/ProductVariantsEditor";
+import TaxClassInput from "../../components/TaxClassInput";
 
 type Category = {
   _id: string;
@@ -44,13 +49,17 @@ export default function EditProductPage({
     dimensions: "",
     material: "",
     warranty: "",
+    taxClass: "",
     featured: false,
     shipping: true,
     active: true,
     image: "",
     images: [] as string[],
+    variants: [] as ProductVariant[],
   });
 
+  const hasVariants = formData.variants.length > 0;
+
   useEffect(() => {
     const fetchData = async () => {
       setIsLoading(true);
@@ -81,12 +90,14 @@ export default function EditProductPage({
           dimensions: productData.dimensions || "",
           material: productData.material || "",
           warranty: productData.warranty || "",
+          taxClass: productData.taxClass || "",
           featured: productData.featured || false,
           shipping: true, // ProductResponse doesn't have shipping, default to true
           active: productData.active !== false,
           image: productData.image || "",
           images: productData.images || [],
           sku: productData.sku || "",
+          variants: productData.variants || [],
         });
 
         console.log("Product data:", productData);
@@ -154,7 +165,11 @@ export default function EditProductPage({
         name: formData.name,
         description: formData.description,
         price: parseFloat(formData.price),
-        quantity: parseInt(formData.quantity),
+        // With variants, the product's quantity is the stock of all its variants
+        quantity: hasVariants
+          ? summarizeVariants(formData.variants).quantity
+          : parseInt(formData.quantity),
+        variants: formData.variants,
         category: formData.category,
         sku: formData.sku,
         image: formData.image, // Include the main image
@@ -179,6 +194,7 @@ export default function EditProductPage({
         dimensions: formData.dimensions,
         material: formData.material,
         warranty: formData.warranty,
+        taxClass: formData.taxClass,
         featured: formData.featured,
         active: formData.active,
       };
@@ -229,6 +245,9 @@ export default function EditProductPage({
         <h1 className="text-2xl font-semibold text-gray-800 dark:text-white">
           Edit Product: {product?.name}
         </h1>
+        <div className="mt-3 md:mt-0">
+          <AuditHistoryLink targetModel="Product" targetId={id} />
+        </div>
       </motion.div>
 
       <motion.div
@@ -370,11 +389,17 @@ export default function EditProductPage({
               <input
                 type="number"
                 name="quantity"
-                value={formData.quantity}
+                value={
+                  hasVariants
+                    ? summarizeVariants(formData.variants).quantity
+                    : formData.quantity
+                }
                 onChange={handleChange}
                 required
                 min="0"
-                className="block w-full rounded-md border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white p-2.5"
+                disabled={hasVariants}
+                title={hasVariants ? "Set by the stock of each variant" : undefined}
+                className="block w-full rounded-md border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white p-2.5 disabled:opacity-60"
               />
             </div>
 
@@ -423,6 +448,21 @@ export default function EditProductPage({
               />
             </div>
 
+            {/* Tax Class */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
+                Tax Class
+              </label>
+              <TaxClassInput
+                value={formData.taxClass}
+                onChange={(taxClass) =>
+                  setFormData((prev) => ({ ...prev, taxClass }))
+                }
+                placeholder="Same as category"
+                className="block w-full rounded-md border border-gray-200 dark:border-gray-700 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500 bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white p-2.5"
+              />
+            </div>
+
             {/* Dimensions */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
@@ -484,6 +524,19 @@ export default function EditProductPage({
             ></textarea>
           </div>
 
+          {/* Variants */}
+          <ProductVariantsEditor
+            colors={formData.color}
+            sizes={formData.size}
+            baseSku={formData.sku}
+            basePrice={parseFloat(formData.price) || 0}
+            images={[formData.image, ...formData.images].filter(Boolean)}
+            variants={formData.variants}
+            onChange={(variants) =>
+              setFormData((prev) => ({ ...prev, variants }))
+            }
+          />
+
           {/* Checkboxes */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="flex items-center">
@@ -2,7 +2,6 @@
 
 import ImageUploader from "@/app/components/ImageUploader";
 import MultiImageUploader from "@/app/components/MultiImageUploader";
-import { getCookie } from "cookies-next";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
@@ -12,6 +11,9 @@ import Image from "next/image";
 import { CategoryService } from "../../../services/categoryService";
 import { ProductService } from "../../../services/productService";
 import { CategoryResponse, CreateProductRequest } from "../../../types/api";
+import { summarizeVariants } from "../../../../utils/productVariants";
+import ProductVariantsEditor from "../../components/ProductVariantsEditor";
+import TaxClassInput from "../../components/TaxClassInput";
 
 export default function AddProductPage() {
   const router = useRouter();
@@ -32,15 +34,10 @@ export default function AddProductPage() {
     featured: false,
     active: true,
     images: [],
+    variants: [],
   });
 
-  // Check authentication
-  useEffect(() => {
-    const token = getCookie("auth_token");
-    if (!token) {
-      router.push("/admin");
-    }
-  }, [router]);
+  const hasVariants = (formData.variants?.length || 0) > 0;
 
   // Fetch categories on component mount
   useEffect(() => {
@@ -140,8 +137,15 @@ export default function AddProductPage() {
         throw new Error("Quantity cannot be negative");
       }
 
-      // Use our ProductService to create the product
-      await ProductService.createProduct(formData);
+      // With variants, the product's quantity is the stock of all its variants
+      await ProductService.createProduct(
+        hasVariants
+          ? {
+              ...formData,
+              quantity: summarizeVariants(formData.variants || []).quantity,
+            }
+          : formData
+      );
 
       toast.success("Product created successfully!");
       router.push("/admin/products");
@@ -342,11 +346,17 @@ export default function AddProductPage() {
               <input
                 type="number"
                 name="quantity"
-                value={formData.quantity || ""}
+                value={
+                  hasVariants
+                    ? summarizeVariants(formData.variants || []).quantity
+                    : formData.quantity || ""
+                }
                 onChange={handleChange}
                 required
                 min="0"
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+                disabled={hasVariants}
+                title={hasVariants ? "Set by the stock of each variant" : undefined}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white disabled:opacity-60"
                 placeholder="0"
               />
             </div>
@@ -402,8 +412,35 @@ export default function AddProductPage() {
                 placeholder="e.g., S, M, L, XL"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-2">
+                Tax Class
+              </label>
+              <TaxClassInput
+                value={formData.taxClass || ""}
+                onChange={(taxClass) =>
+                  setFormData((prev) => ({ ...prev, taxClass }))
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 dark:bg-gray-700 dark:text-white"
+                placeholder="Same as category"
+              />
+            </div>
           </div>
 
+          {/* Variants */}
+          <ProductVariantsEditor
+            colors={formData.color || ""}
+            sizes={formData.size || ""}
+            baseSku={formData.sku || ""}
+            basePrice={formData.price}
+            images={formData.images || []}
+            variants={formData.variants || []}
+            onChange={(variants) =>
+              setFormData((prev) => ({ ...prev, variants }))
+            }
+          />
+
           {/* Product Settings */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium text-gray-800 dark:text-white">
@@ -1,9 +1,7 @@
 "use client";
 
-import { getCookie } from "cookies-next";
 import Image from "next/image";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "react-toastify";
 // Import our services and types
@@ -51,19 +49,10 @@ export default function ProductsPage() {
 
   // Other states
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
-  const router = useRouter();
 
   // Debounced search term for API calls
   const debouncedSearchTerm = useDebounce(searchTerm, 500);
 
-  // Auth check
-  useEffect(() => {
-    const token = getCookie("auth_token");
-    if (!token) {
-      router.push("/admin");
-    }
-  }, [router]);
-
   // Initial data load
   useEffect(() => {
     const loadInitialData = async () => {
@@ -0,0 +1,379 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  RETURN_REASON_LABELS,
+  ReturnRequest,
+  ReturnStatus,
+} from "../../types/returns";
+
+interface Pagination {
+  currentPage: number;
+  totalPages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+type ReturnAction = "approve" | "reject" | "receive";
+
+const filterTabs: { id: ReturnStatus | "all"; name: string }[] = [
+  { id: "requested", name: "Requested" },
+  { id: "approved", name: "Awaiting Receipt" },
+  { id: "received", name: "Received" },
+  { id: "rejected", name: "Rejected" },
+  { id: "all", name: "All Returns" },
+];
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "approved":
+      return "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400";
+    case "received":
+      return "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400";
+    case "rejected":
+      return "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400";
+    case "requested":
+      return "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400";
+    default:
+      return "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400";
+  }
+};
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+export default function AdminReturnsPage() {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ReturnStatus | "all">("requested");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [pagination, setPagination] = useState<Pagination>({
+    currentPage: 1,
+    totalPages: 1,
+    total: 0,
+    hasNext: false,
+    hasPrev: false,
+  });
+
+  const fetchReturns = useCallback(
+    async (page = 1) => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({
+          page: page.toString(),
+          limit: "10",
+          ...(filter !== "all" && { status: filter }),
+        });
+
+        const response = await fetch(`/api/returns?${params}`);
+
+        if (response.ok) {
+          const data = await response.json();
+          setReturns(data.data.returns);
+          setPagination(data.data.pagination);
+        } else {
+          toast.error("Failed to fetch returns");
+        }
+      } catch (error) {
+        console.error("Error fetching returns:", error);
+        toast.error("Error loading returns");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [filter]
+  );
+
+  useEffect(() => {
+    fetchReturns(1);
+  }, [fetchReturns]);
+
+  const handleAction = async (returnId: string, action: ReturnAction) => {
+    try {
+      setUpdating(returnId);
+
+      const response = await fetch(`/api/returns/${returnId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, adminNotes: notes[returnId] }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || "Return updated");
+        fetchReturns(pagination.currentPage);
+      } else {
+        toast.error(data.message || `Failed to ${action} return`);
+      }
+    } catch (error) {
+      console.error("Error updating return:", error);
+      toast.error("Failed to update return");
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex justify-between items-center">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                  Returns
+                </h1>
+                <p className="text-gray-600 dark:text-primary mt-1">
+                  Approve return requests, refund customers and restock
+                  received items
+                </p>
+              </div>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Total: {pagination.total} returns
+              </div>
+            </div>
+          </div>
+
+          {/* Filter Tabs */}
+          <div className="px-6">
+            <nav className="flex space-x-8 overflow-x-auto">
+              {filterTabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setFilter(tab.id)}
+                  className={`whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    filter === tab.id
+                      ? "border-blue-500 text-blue-600 dark:text-blue-400"
+                      : "border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-primary hover:border-gray-300"
+                  }`}
+                >
+                  {tab.name}
+                </button>
+              ))}
+            </nav>
+          </div>
+        </div>
+
+        {/* Returns List */}
+        {loading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="animate-pulse">
+                <div className="bg-gray-200 dark:bg-gray-700 rounded-lg h-40"></div>
+              </div>
+            ))}
+          </div>
+        ) : returns.length === 0 ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-12 text-center">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+              No returns found
+            </h3>
+            <p className="text-gray-500 dark:text-gray-400">
+              There are no returns with this status.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {returns.map((returnRequest) => {
+              const order =
+                typeof returnRequest.order === "object"
+                  ? returnRequest.order
+                  : null;
+              const customer =
+                typeof returnRequest.user === "object"
+                  ? returnRequest.user
+                  : null;
+              const isUpdating = updating === returnRequest._id;
+
+              return (
+                <div
+                  key={returnRequest._id}
+                  className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden"
+                >
+                  <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 flex items-center justify-between">
+                    <div>
+                      <h3 className="font-semibold text-gray-900 dark:text-white">
+                        {returnRequest.rmaNumber}
+                      </h3>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {customer
+                          ? `${customer.firstName} ${customer.lastName} · ${customer.email}`
+                          : "Unknown customer"}
+                        {order && (
+                          <>
+                            {" · Order "}
+                            <Link
+                              href={`/admin/orders/${order._id}`}
+                              className="text-blue-600 hover:underline"
+                            >
+                              #{order.orderNumber}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(
+                          returnRequest.status
+                        )}`}
+                      >
+                        {returnRequest.status.charAt(0).toUpperCase() +
+                          returnRequest.status.slice(1)}
+                      </span>
+                      <span className="text-sm text-gray-500 dark:text-gray-400">
+                        {formatDate(returnRequest.createdAt)}
+                      </span>
+                    </div>
+                  </div>
+
+                  <div className="p-6 space-y-4">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">
+                          <th className="py-2">Item</th>
+                          <th className="py-2">Qty</th>
+                          <th className="py-2">Unit Price</th>
+                          <th className="py-2">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {returnRequest.items.map((item) => (
+                          <tr key={item.orderItemIndex}>
+                            <td className="py-2">
+                              {item.name}
+                              {(item.color || item.size) && (
+                                <span className="text-gray-500">
+                                  {" "}
+                                  ({[item.color, item.size]
+                                    .filter(Boolean)
+                                    .join(" / ")}
+                                  )
+                                </span>
+                              )}
+                            </td>
+                            <td className="py-2">{item.quantity}</td>
+                            <td className="py-2">
+                              ${item.unitPrice.toFixed(2)}
+                            </td>
+                            <td className="py-2">
+                              {RETURN_REASON_LABELS[item.reason]}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    {returnRequest.customerNote && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        <span className="font-medium">Customer note:</span>{" "}
+                        {returnRequest.customerNote}
+                      </p>
+                    )}
+                    {returnRequest.refundAmount > 0 && (
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        Refunded: ${returnRequest.refundAmount.toFixed(2)}
+                      </p>
+                    )}
+                    {returnRequest.adminNotes && (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        <span className="font-medium">Admin notes:</span>{" "}
+                        {returnRequest.adminNotes}
+                      </p>
+                    )}
+
+                    {(returnRequest.status === "requested" ||
+                      returnRequest.status === "approved") && (
+                      <div className="space-y-3">
+                        <textarea
+                          value={notes[returnRequest._id] || ""}
+                          onChange={(e) =>
+                            setNotes((prev) => ({
+                              ...prev,
+                              [returnRequest._id]: e.target.value,
+                            }))
+                          }
+                          maxLength={500}
+                          rows={2}
+                          placeholder="Notes for the customer (optional)"
+                          className="w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white sm:text-sm p-3"
+                        />
+                        <div className="flex gap-3">
+                          {returnRequest.status === "requested" && (
+                            <>
+                              <button
+                                onClick={() =>
+                                  handleAction(returnRequest._id, "approve")
+                                }
+                                disabled={isUpdating}
+                                className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-md text-sm disabled:opacity-50"
+                              >
+                                Approve &amp; Refund
+                              </button>
+                              <button
+                                onClick={() =>
+                                  handleAction(returnRequest._id, "reject")
+                                }
+                                disabled={isUpdating}
+                                className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm disabled:opacity-50"
+                              >
+                                Reject
+                              </button>
+                            </>
+                          )}
+                          {returnRequest.status === "approved" && (
+                            <button
+                              onClick={() =>
+                                handleAction(returnRequest._id, "receive")
+                              }
+                              disabled={isUpdating}
+                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm disabled:opacity-50"
+                            >
+                              Mark Received &amp; Restock
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pagination.totalPages > 1 && (
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => fetchReturns(pagination.currentPage - 1)}
+              disabled={!pagination.hasPrev}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-sm disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+              Page {pagination.currentPage} of {pagination.totalPages}
+            </span>
+            <button
+              onClick={() => fetchReturns(pagination.currentPage + 1)}
+              disabled={!pagination.hasNext}
+              className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-sm disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
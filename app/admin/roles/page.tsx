@@ -0,0 +1,362 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { UserService } from "../../services/userService";
+import { RoleResponse } from "../../types/api";
+import {
+  CUSTOMER_ROLE,
+  Permission,
+  PERMISSION_KEYS,
+  PERMISSIONS,
+  SUPER_ADMIN_ROLE,
+} from "../../../utils/permissions";
+
+interface RoleFormState {
+  name: string;
+  label: string;
+  description: string;
+  permissions: string[];
+}
+
+const emptyForm: RoleFormState = {
+  name: "",
+  label: "",
+  description: "",
+  permissions: [],
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+// Their permissions are fixed: customers have none and super admins have all
+const LOCKED_ROLES = [CUSTOMER_ROLE, SUPER_ADMIN_ROLE];
+
+// The catalogue, grouped the way the sidebar groups pages
+const permissionGroups = PERMISSION_KEYS.reduce<Record<string, Permission[]>>((groups, key) => {
+  const group = PERMISSIONS[key].group;
+  groups[group] = [...(groups[group] || []), key];
+  return groups;
+}, {});
+
+// Lowercase with dashes, as role names are stored
+const toRoleName = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export default function AdminRolesPage() {
+  const [roles, setRoles] = useState<RoleResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RoleFormState>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRoles = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRoles(await UserService.getRoles());
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      toast.error("Failed to load roles");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRoles();
+  }, [fetchRoles]);
+
+  const openCreateForm = () => {
+    setEditingName(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEditForm = (role: RoleResponse) => {
+    setEditingName(role.name);
+    setForm({
+      name: role.name,
+      label: role.label,
+      description: role.description,
+      permissions: role.permissions,
+    });
+    setShowForm(true);
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setForm((prev) => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter((key) => key !== permission)
+        : [...prev.permissions, permission],
+    }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const payload = {
+        label: form.label,
+        description: form.description,
+        permissions: form.permissions,
+      };
+
+      if (editingName) {
+        await UserService.updateRole(editingName, payload);
+        toast.success("Role updated");
+      } else {
+        await UserService.createRole({ ...payload, name: form.name || toRoleName(form.label) });
+        toast.success("Role created");
+      }
+
+      setShowForm(false);
+      fetchRoles();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to save role";
+      toast.error(`Role Error: ${errorMessage}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleResponse) => {
+    if (!confirm(`Delete the ${role.label} role?`)) return;
+
+    try {
+      await UserService.deleteRole(role.name);
+      toast.success("Role deleted");
+      fetchRoles();
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to delete role";
+      toast.error(`Delete Error: ${errorMessage}`);
+    }
+  };
+
+  const isLocked = editingName !== null && LOCKED_ROLES.includes(editingName);
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Roles
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                Decide what each member of staff can see and change
+              </p>
+            </div>
+            <button
+              onClick={openCreateForm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New Role
+            </button>
+          </div>
+          <p className="px-6 pb-4 text-sm text-gray-500 dark:text-gray-400">
+            Changes apply to everyone with the role on their next request.
+            Assign roles from a customer&apos;s page. You can only grant
+            permissions you have yourself.
+          </p>
+        </div>
+
+        {/* Role Form */}
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingName ? `Edit ${form.label}` : "New Role"}
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Label
+                </label>
+                <input
+                  type="text"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  className={inputClass}
+                  maxLength={50}
+                  placeholder="Support agent"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={editingName ? form.name : form.name || toRoleName(form.label)}
+                  onChange={(e) =>
+                    setForm({ ...form, name: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, "") })
+                  }
+                  className={`${inputClass} font-mono`}
+                  disabled={!!editingName}
+                  placeholder="support-agent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            {isLocked && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                The permissions of this role are fixed.
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {Object.entries(permissionGroups).map(([group, keys]) => (
+                <fieldset key={group} disabled={isLocked} className="space-y-2">
+                  <legend className="text-sm font-medium text-gray-900 dark:text-white mb-1">
+                    {group}
+                  </legend>
+                  {keys.map((key) => (
+                    <label
+                      key={key}
+                      className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300"
+                      title={PERMISSIONS[key].routes.join("\n")}
+                    >
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={form.permissions.includes(key)}
+                        onChange={() => togglePermission(key)}
+                      />
+                      <span>
+                        {PERMISSIONS[key].label}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">
+                          {PERMISSIONS[key].description}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                </fieldset>
+              ))}
+            </div>
+
+            <div className="flex gap-3">
+              {!isLocked && (
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Role"}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                {isLocked ? "Close" : "Cancel"}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Role List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              Loading roles...
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  {["Role", "Permissions", "Users", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {roles.map((role) => (
+                  <tr key={role.name}>
+                    <td className="px-6 py-4">
+                      <p className="font-semibold text-gray-900 dark:text-white">
+                        {role.label}
+                        {role.system && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400">
+                            Built in
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm font-mono text-gray-500 dark:text-gray-400">
+                        {role.name}
+                      </p>
+                      {role.description && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          {role.description}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {role.permissions.length === PERMISSION_KEYS.length
+                        ? "All"
+                        : role.permissions.length === 0
+                        ? "None"
+                        : role.permissions
+                            .map((key) => PERMISSIONS[key as Permission]?.label || key)
+                            .join(", ")}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {role.userCount}
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => openEditForm(role)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                      >
+                        {LOCKED_ROLES.includes(role.name) ? "View" : "Edit"}
+                      </button>
+                      {!role.system && (
+                        <button
+                          onClick={() => handleDelete(role)}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
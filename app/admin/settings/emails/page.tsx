@@ -0,0 +1,365 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  EmailPreview,
+  EmailTemplate,
+  EmailTemplateKey,
+  EmailTemplatesResponse,
+} from "../../../types/emails";
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+// Wait after the last keystroke before rendering the preview
+const PREVIEW_DELAY_MS = 500;
+
+export default function AdminEmailTemplatesPage() {
+  const [data, setData] = useState<EmailTemplatesResponse | null>(null);
+  const [templates, setTemplates] = useState<Record<EmailTemplateKey, EmailTemplate> | null>(null);
+  const [selected, setSelected] = useState<EmailTemplateKey>("order_placed");
+  const [orderId, setOrderId] = useState("");
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [sendingTest, setSendingTest] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch("/api/settings/email-templates");
+        if (response.ok) {
+          const result = await response.json();
+          setData(result.data);
+          setTemplates(result.data.templates);
+        } else {
+          toast.error("Failed to fetch email templates");
+        }
+      } catch (error) {
+        console.error("Error fetching email templates:", error);
+        toast.error("Error loading email templates");
+      }
+    };
+
+    fetchTemplates();
+  }, []);
+
+  const template = templates?.[selected];
+
+  // Re-render the preview as the template is edited
+  useEffect(() => {
+    if (!template) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch("/api/settings/email-templates/preview", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key: selected, template, orderId }),
+        });
+        const result = await response.json();
+
+        if (response.ok) {
+          setPreview(result.data);
+          setPreviewError(null);
+        } else {
+          const firstError = result.errors && Object.values(result.errors)[0];
+          setPreviewError((firstError as string) || result.message || "Preview failed");
+        }
+      } catch (error) {
+        console.error("Error rendering email preview:", error);
+        setPreviewError("Preview failed");
+      }
+    }, PREVIEW_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [selected, template, orderId]);
+
+  const updateTemplate = (changes: Partial<EmailTemplate>) => {
+    if (!templates || !template) return;
+    setTemplates({ ...templates, [selected]: { ...template, ...changes } });
+  };
+
+  // Put a placeholder where the cursor is in the body
+  const insertVariable = (variable: string) => {
+    if (!template) return;
+
+    const placeholder = `{{${variable}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? template.body.length;
+    const end = textarea?.selectionEnd ?? template.body.length;
+
+    updateTemplate({
+      body: template.body.slice(0, start) + placeholder + template.body.slice(end),
+    });
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    if (!templates) return;
+
+    try {
+      setSaving(true);
+      setErrors({});
+      const response = await fetch("/api/settings/email-templates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ templates }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setData(result.data);
+        setTemplates(result.data.templates);
+        toast.success("Email templates saved");
+      } else {
+        setErrors(result.errors || {});
+        toast.error(result.message || "Failed to save email templates");
+      }
+    } catch (error) {
+      console.error("Error saving email templates:", error);
+      toast.error("Failed to save email templates");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSendTest = async () => {
+    if (!template) return;
+
+    try {
+      setSendingTest(true);
+      const response = await fetch("/api/settings/email-templates/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key: selected, template, orderId }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success(result.message || "Test email sent");
+      } else {
+        toast.error(result.message || "Failed to send test email");
+      }
+    } catch (error) {
+      console.error("Error sending test email:", error);
+      toast.error("Failed to send test email");
+    } finally {
+      setSendingTest(false);
+    }
+  };
+
+  if (!data || !templates || !template) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+        <p className="text-gray-500 dark:text-gray-400">Loading email templates...</p>
+      </div>
+    );
+  }
+
+  const definition = data.definitions[selected];
+  const isOrderTemplate = selected.startsWith("order_");
+  const isEdited = (key: EmailTemplateKey) =>
+    JSON.stringify(templates[key]) !== JSON.stringify(data.templates[key]);
+  const fieldError = (field: keyof EmailTemplate) => {
+    const message = errors[`templates.${selected}.${field}`];
+    return message && <p className="mt-1 text-sm text-red-500">{message}</p>;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Email Templates
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                Edit the emails the store sends; colours come from the website
+                theme
+              </p>
+            </div>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Templates"}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Template list */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-2 h-fit">
+            {(Object.keys(data.definitions) as EmailTemplateKey[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setSelected(key)}
+                className={`w-full text-left px-4 py-3 rounded-md transition-colors ${
+                  key === selected
+                    ? "bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                    : "text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                }`}
+              >
+                <span className="block font-medium">
+                  {data.definitions[key].label}
+                  {isEdited(key) && (
+                    <span className="ml-2 text-xs text-yellow-600">unsaved</span>
+                  )}
+                </span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  {data.definitions[key].description}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="lg:col-span-3 grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  {definition.label}
+                </h2>
+                <button
+                  onClick={() => updateTemplate(data.defaults[selected])}
+                  className="text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                >
+                  Restore default
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Subject
+                </label>
+                <input
+                  type="text"
+                  value={template.subject}
+                  maxLength={200}
+                  onChange={(e) => updateTemplate({ subject: e.target.value })}
+                  className={inputClass}
+                />
+                {fieldError("subject")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Heading
+                </label>
+                <input
+                  type="text"
+                  value={template.heading}
+                  maxLength={200}
+                  onChange={(e) => updateTemplate({ heading: e.target.value })}
+                  className={inputClass}
+                />
+                {fieldError("heading")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Body
+                </label>
+                <textarea
+                  ref={bodyRef}
+                  value={template.body}
+                  maxLength={5000}
+                  rows={10}
+                  onChange={(e) => updateTemplate({ body: e.target.value })}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Leave a blank line between paragraphs.
+                  {isOrderTemplate &&
+                    " The order's items, totals and address are added below the body."}
+                </p>
+                {fieldError("body")}
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Placeholders
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {definition.variables.map((variable) => (
+                    <button
+                      key={variable}
+                      onClick={() => insertVariable(variable)}
+                      className="px-2 py-1 text-xs font-mono rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                      title="Insert into the body"
+                    >
+                      {`{{${variable}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+              <div className="flex justify-between items-center gap-4">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Preview
+                </h2>
+                <button
+                  onClick={handleSendTest}
+                  disabled={sendingTest || !!previewError}
+                  className="px-4 py-2 text-sm bg-gray-700 text-white rounded-md hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  {sendingTest ? "Sending..." : "Send test to me"}
+                </button>
+              </div>
+
+              {isOrderTemplate && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Order ID
+                  </label>
+                  <input
+                    type="text"
+                    value={orderId}
+                    onChange={(e) => setOrderId(e.target.value)}
+                    placeholder="Most recent order"
+                    className={inputClass}
+                  />
+                  {preview?.order && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Rendered with order {preview.order.orderNumber}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {previewError ? (
+                <p className="text-sm text-red-500">{previewError}</p>
+              ) : (
+                preview && (
+                  <>
+                    <p className="text-sm text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">Subject:</span> {preview.subject}
+                    </p>
+                    <iframe
+                      title="Email preview"
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[600px] rounded-md border border-gray-200 dark:border-gray-700 bg-white"
+                    />
+                  </>
+                )
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
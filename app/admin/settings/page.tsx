@@ -2,6 +2,11 @@
 
 import { motion } from "framer-motion";
 import { useEffect, useState } from "react";
+import CarrierSettingsCard from "../components/CarrierSettingsCard";
+import InvoiceSettingsCard from "../components/InvoiceSettingsCard";
+import OrderNumberSettingsCard from "../components/OrderNumberSettingsCard";
+import TwoFactorSettingsCard from "../components/TwoFactorSettingsCard";
+import VerificationSettingsCard from "../components/VerificationSettingsCard";
 
 interface WebsiteThemeSettings {
   // Primary Colors
@@ -485,6 +490,21 @@ export default function SettingsPage() {
           </div>
         </div>
       </div>
+
+      {/* Order Numbers */}
+      <OrderNumberSettingsCard />
+
+      {/* Invoices */}
+      <InvoiceSettingsCard />
+
+      {/* Carriers */}
+      <CarrierSettingsCard />
+
+      {/* Email Verification */}
+      <VerificationSettingsCard />
+
+      {/* Two-Factor Authentication */}
+      <TwoFactorSettingsCard />
     </div>
   );
 }
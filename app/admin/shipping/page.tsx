@@ -0,0 +1,721 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  SHIPPING_METHOD_TYPE_LABELS,
+  ShippingMethod,
+  ShippingMethodType,
+  ShippingZone,
+} from "../../types/shipping";
+
+// Form values are kept as strings so optional fields can be left blank
+interface TierFormState {
+  min: string;
+  rate: string;
+}
+
+interface MethodFormState {
+  _id?: string;
+  name: string;
+  type: ShippingMethodType;
+  rate: string;
+  tiers: TierFormState[];
+  freeShippingThreshold: string;
+  minDays: string;
+  maxDays: string;
+  active: boolean;
+}
+
+interface ZoneFormState {
+  name: string;
+  countries: string;
+  states: string;
+  postalCodes: string;
+  priority: string;
+  methods: MethodFormState[];
+  active: boolean;
+}
+
+const emptyMethod: MethodFormState = {
+  name: "",
+  type: "flat",
+  rate: "",
+  tiers: [],
+  freeShippingThreshold: "",
+  minDays: "",
+  maxDays: "",
+  active: true,
+};
+
+const emptyForm: ZoneFormState = {
+  name: "",
+  countries: "",
+  states: "",
+  postalCodes: "",
+  priority: "0",
+  methods: [{ ...emptyMethod, name: "Standard Shipping" }],
+  active: true,
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+const toNumberOrNull = (value: string) =>
+  value.trim() === "" ? null : Number(value);
+
+const toList = (value: string) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const describeMethod = (method: ShippingMethod) => {
+  const price =
+    method.type === "flat"
+      ? `$${method.rate.toFixed(2)}`
+      : method.type === "weight"
+      ? `${method.rate > 0 ? `$${method.rate.toFixed(2)} + ` : ""}${method.tiers.length} weight tiers`
+      : `${method.tiers.length} price tiers`;
+  const free =
+    typeof method.freeShippingThreshold === "number"
+      ? `, free over $${method.freeShippingThreshold.toFixed(2)}`
+      : "";
+  const { min, max } = method.estimatedDays || {};
+  const eta =
+    typeof min === "number" || typeof max === "number"
+      ? `, ${[min, max].filter((days) => typeof days === "number").join("-")} days`
+      : "";
+
+  return `${method.name}: ${price}${free}${eta}`;
+};
+
+const describeArea = (zone: ShippingZone) => {
+  const parts = [
+    zone.countries.length ? zone.countries.join(", ") : "All countries",
+  ];
+  if (zone.states.length) parts.push(`States: ${zone.states.join(", ")}`);
+  if (zone.postalCodes.length)
+    parts.push(`Postal codes: ${zone.postalCodes.join(", ")}`);
+  return parts.join(" · ");
+};
+
+export default function AdminShippingPage() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ZoneFormState>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchZones = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/shipping/zones");
+
+      if (response.ok) {
+        const data = await response.json();
+        setZones(data.data.zones);
+      } else {
+        toast.error("Failed to fetch shipping zones");
+      }
+    } catch (error) {
+      console.error("Error fetching shipping zones:", error);
+      toast.error("Error loading shipping zones");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchZones();
+  }, [fetchZones]);
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const openEditForm = (zone: ShippingZone) => {
+    setEditingId(zone._id);
+    setForm({
+      name: zone.name,
+      countries: zone.countries.join(", "),
+      states: zone.states.join(", "),
+      postalCodes: zone.postalCodes.join(", "),
+      priority: zone.priority.toString(),
+      methods: zone.methods.map((method) => ({
+        _id: method._id,
+        name: method.name,
+        type: method.type,
+        rate: method.rate ? method.rate.toString() : "",
+        tiers: method.tiers.map((tier) => ({
+          min: tier.min.toString(),
+          rate: tier.rate.toString(),
+        })),
+        freeShippingThreshold: method.freeShippingThreshold?.toString() || "",
+        minDays: method.estimatedDays?.min?.toString() || "",
+        maxDays: method.estimatedDays?.max?.toString() || "",
+        active: method.active,
+      })),
+      active: zone.active,
+    });
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const updateMethod = (index: number, changes: Partial<MethodFormState>) => {
+    setForm((prev) => ({
+      ...prev,
+      methods: prev.methods.map((method, i) =>
+        i === index ? { ...method, ...changes } : method
+      ),
+    }));
+  };
+
+  const updateTier = (
+    methodIndex: number,
+    tierIndex: number,
+    changes: Partial<TierFormState>
+  ) => {
+    const tiers = form.methods[methodIndex].tiers.map((tier, i) =>
+      i === tierIndex ? { ...tier, ...changes } : tier
+    );
+    updateMethod(methodIndex, { tiers });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setErrors({});
+
+      const payload = {
+        name: form.name,
+        countries: toList(form.countries).map((code) => code.toUpperCase()),
+        states: toList(form.states),
+        postalCodes: toList(form.postalCodes),
+        priority: toNumberOrNull(form.priority) ?? 0,
+        methods: form.methods.map((method) => ({
+          ...(method._id && { _id: method._id }),
+          name: method.name,
+          type: method.type,
+          rate: toNumberOrNull(method.rate) ?? 0,
+          tiers: method.type === "flat" ? [] : method.tiers,
+          freeShippingThreshold: method.freeShippingThreshold,
+          estimatedDays: { min: method.minDays, max: method.maxDays },
+          active: method.active,
+        })),
+        active: form.active,
+      };
+
+      const response = await fetch(
+        editingId ? `/api/shipping/zones/${editingId}` : "/api/shipping/zones",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || "Shipping zone saved");
+        setShowForm(false);
+        fetchZones();
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save shipping zone");
+      }
+    } catch (error) {
+      console.error("Error saving shipping zone:", error);
+      toast.error("Failed to save shipping zone");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (zone: ShippingZone) => {
+    try {
+      const response = await fetch(`/api/shipping/zones/${zone._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !zone.active }),
+      });
+
+      if (response.ok) {
+        toast.success(zone.active ? "Zone deactivated" : "Zone activated");
+        fetchZones();
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to update shipping zone");
+      }
+    } catch (error) {
+      console.error("Error updating shipping zone:", error);
+      toast.error("Failed to update shipping zone");
+    }
+  };
+
+  const handleDelete = async (zone: ShippingZone) => {
+    if (!confirm(`Delete shipping zone ${zone.name}? Existing orders keep their shipping method.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/shipping/zones/${zone._id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        toast.success("Shipping zone deleted");
+        fetchZones();
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to delete shipping zone");
+      }
+    } catch (error) {
+      console.error("Error deleting shipping zone:", error);
+      toast.error("Failed to delete shipping zone");
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="mt-1 text-sm text-red-500">{errors[field]}</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Shipping
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                Set up where you ship to and what each delivery method costs
+              </p>
+            </div>
+            <button
+              onClick={openCreateForm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New Zone
+            </button>
+          </div>
+          <p className="px-6 pb-4 text-sm text-gray-500 dark:text-gray-400">
+            Each address uses the first active zone that covers it, highest
+            priority first. Until a zone is created, every order ships at $10,
+            free over $100.
+          </p>
+        </div>
+
+        {/* Zone Form */}
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingId ? `Edit ${form.name}` : "New Zone"}
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  maxLength={80}
+                  required
+                />
+                {fieldError("name")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Priority
+                </label>
+                <input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {/* Area */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Countries
+                </label>
+                <input
+                  type="text"
+                  value={form.countries}
+                  onChange={(e) => setForm({ ...form, countries: e.target.value })}
+                  className={inputClass}
+                  placeholder="US, CA (blank for all)"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  States
+                </label>
+                <input
+                  type="text"
+                  value={form.states}
+                  onChange={(e) => setForm({ ...form, states: e.target.value })}
+                  className={inputClass}
+                  placeholder="NY, NJ (blank for all)"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Postal codes
+                </label>
+                <input
+                  type="text"
+                  value={form.postalCodes}
+                  onChange={(e) => setForm({ ...form, postalCodes: e.target.value })}
+                  className={inputClass}
+                  placeholder="100*, 11201 (blank for all)"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Separate entries with commas. Use * in postal codes to match any
+              characters.
+            </p>
+
+            {/* Methods */}
+            <div className="space-y-4">
+              <h3 className="text-md font-semibold text-gray-900 dark:text-white">
+                Methods
+              </h3>
+              {form.methods.map((method, methodIndex) => (
+                <div
+                  key={method._id || methodIndex}
+                  className="border border-gray-200 dark:border-gray-700 rounded-md p-4 space-y-3"
+                >
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Method name
+                      </label>
+                      <input
+                        type="text"
+                        value={method.name}
+                        onChange={(e) => updateMethod(methodIndex, { name: e.target.value })}
+                        className={inputClass}
+                        maxLength={60}
+                        required
+                      />
+                      {fieldError(`methods.${methodIndex}.name`)}
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Pricing
+                      </label>
+                      <select
+                        value={method.type}
+                        onChange={(e) =>
+                          updateMethod(methodIndex, {
+                            type: e.target.value as ShippingMethodType,
+                          })
+                        }
+                        className={inputClass}
+                      >
+                        {(Object.keys(SHIPPING_METHOD_TYPE_LABELS) as ShippingMethodType[]).map(
+                          (type) => (
+                            <option key={type} value={type}>
+                              {SHIPPING_METHOD_TYPE_LABELS[type]}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+                    {method.type !== "price_tier" && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          {method.type === "flat" ? "Rate ($)" : "Base charge ($)"}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={method.rate}
+                          onChange={(e) => updateMethod(methodIndex, { rate: e.target.value })}
+                          className={inputClass}
+                          placeholder="0.00"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {method.type !== "flat" && (
+                    <div className="space-y-2">
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        {method.type === "weight"
+                          ? "Rate by parcel weight (from kg)"
+                          : "Rate by order subtotal (from $)"}
+                      </label>
+                      {method.tiers.map((tier, tierIndex) => (
+                        <div key={tierIndex} className="flex gap-2 items-center">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={tier.min}
+                            onChange={(e) => updateTier(methodIndex, tierIndex, { min: e.target.value })}
+                            className={inputClass}
+                            placeholder={method.type === "weight" ? "From kg" : "From $"}
+                            required
+                          />
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={tier.rate}
+                            onChange={(e) => updateTier(methodIndex, tierIndex, { rate: e.target.value })}
+                            className={inputClass}
+                            placeholder="Rate $"
+                            required
+                          />
+                          <button
+                            type="button"
+                            onClick={() =>
+                              updateMethod(methodIndex, {
+                                tiers: method.tiers.filter((_, i) => i !== tierIndex),
+                              })
+                            }
+                            className="text-sm text-red-600 hover:text-red-800 dark:text-red-400"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateMethod(methodIndex, {
+                            tiers: [...method.tiers, { min: "", rate: "" }],
+                          })
+                        }
+                        className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                      >
+                        Add tier
+                      </button>
+                      {fieldError(`methods.${methodIndex}.tiers`)}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Free over ($)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={method.freeShippingThreshold}
+                        onChange={(e) =>
+                          updateMethod(methodIndex, { freeShippingThreshold: e.target.value })
+                        }
+                        className={inputClass}
+                        placeholder="Never free"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Delivery from (days)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={method.minDays}
+                        onChange={(e) => updateMethod(methodIndex, { minDays: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Delivery to (days)
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={method.maxDays}
+                        onChange={(e) => updateMethod(methodIndex, { maxDays: e.target.value })}
+                        className={inputClass}
+                      />
+                      {fieldError(`methods.${methodIndex}.estimatedDays.max`)}
+                    </div>
+                  </div>
+
+                  <div className="flex justify-between items-center">
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={method.active}
+                        onChange={(e) => updateMethod(methodIndex, { active: e.target.checked })}
+                      />
+                      Offered at checkout
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setForm((prev) => ({
+                          ...prev,
+                          methods: prev.methods.filter((_, i) => i !== methodIndex),
+                        }))
+                      }
+                      className="text-sm text-red-600 hover:text-red-800 dark:text-red-400"
+                    >
+                      Remove method
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() =>
+                  setForm((prev) => ({
+                    ...prev,
+                    methods: [...prev.methods, { ...emptyMethod }],
+                  }))
+                }
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Add Method
+              </button>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Zone"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Zone List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              Loading shipping zones...
+            </div>
+          ) : zones.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              No shipping zones yet
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  {["Zone", "Methods", "Priority", "Status", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {zones.map((zone) => (
+                  <tr key={zone._id}>
+                    <td className="px-6 py-4">
+                      <div className="font-semibold text-gray-900 dark:text-white">
+                        {zone.name}
+                      </div>
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {describeArea(zone)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {zone.methods.length === 0
+                        ? "No methods"
+                        : zone.methods.map((method) => (
+                            <div
+                              key={method._id}
+                              className={method.active ? "" : "line-through opacity-60"}
+                            >
+                              {describeMethod(method)}
+                            </div>
+                          ))}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {zone.priority}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          zone.active
+                            ? "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+                            : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
+                        }`}
+                      >
+                        {zone.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => openEditForm(zone)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(zone)}
+                        className="text-gray-600 hover:text-gray-800 dark:text-gray-400"
+                      >
+                        {zone.active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(zone)}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,509 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { TaxRate, TaxSettings } from "../../types/tax";
+import TaxClassInput from "../components/TaxClassInput";
+
+// Form values are kept as strings so the rate can be left blank while typing
+interface RateFormState {
+  name: string;
+  country: string;
+  state: string;
+  taxClass: string;
+  rate: string;
+  active: boolean;
+}
+
+const emptyForm: RateFormState = {
+  name: "",
+  country: "",
+  state: "",
+  taxClass: "standard",
+  rate: "",
+  active: true,
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+const describeRegion = (rate: TaxRate) => {
+  if (!rate.country) return "Everywhere";
+  return rate.state ? `${rate.state}, ${rate.country}` : rate.country;
+};
+
+export default function AdminTaxPage() {
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<RateFormState>(emptyForm);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [settings, setSettings] = useState<TaxSettings | null>(null);
+  const [settingsErrors, setSettingsErrors] = useState<Record<string, string>>({});
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const fetchRates = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/tax/rates");
+
+      if (response.ok) {
+        const data = await response.json();
+        setRates(data.data.rates);
+      } else {
+        toast.error("Failed to fetch tax rates");
+      }
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      toast.error("Error loading tax rates");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/settings/tax");
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching tax settings:", error);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSaveSettings = async () => {
+    if (!settings) return;
+
+    try {
+      setSavingSettings(true);
+      setSettingsErrors({});
+      const response = await fetch("/api/settings/tax", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.data);
+        toast.success("Tax settings saved");
+      } else {
+        setSettingsErrors(data.errors || {});
+        toast.error(data.message || "Failed to save tax settings");
+      }
+    } catch (error) {
+      console.error("Error saving tax settings:", error);
+      toast.error("Failed to save tax settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const openEditForm = (rate: TaxRate) => {
+    setEditingId(rate._id);
+    setForm({
+      name: rate.name,
+      country: rate.country,
+      state: rate.state,
+      taxClass: rate.taxClass,
+      rate: rate.rate.toString(),
+      active: rate.active,
+    });
+    setErrors({});
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      setErrors({});
+
+      const payload = {
+        name: form.name,
+        country: form.country.trim().toUpperCase(),
+        state: form.state.trim(),
+        taxClass: form.taxClass.trim() || "standard",
+        rate: form.rate.trim() === "" ? null : Number(form.rate),
+        active: form.active,
+      };
+
+      const response = await fetch(
+        editingId ? `/api/tax/rates/${editingId}` : "/api/tax/rates",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || "Tax rate saved");
+        setShowForm(false);
+        fetchRates();
+      } else {
+        setErrors(data.errors || {});
+        toast.error(data.message || "Failed to save tax rate");
+      }
+    } catch (error) {
+      console.error("Error saving tax rate:", error);
+      toast.error("Failed to save tax rate");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rate: TaxRate) => {
+    try {
+      const response = await fetch(`/api/tax/rates/${rate._id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ active: !rate.active }),
+      });
+
+      if (response.ok) {
+        toast.success(rate.active ? "Rate deactivated" : "Rate activated");
+        fetchRates();
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to update tax rate");
+      }
+    } catch (error) {
+      console.error("Error updating tax rate:", error);
+      toast.error("Failed to update tax rate");
+    }
+  };
+
+  const handleDelete = async (rate: TaxRate) => {
+    if (!confirm(`Delete tax rate ${rate.name}? Existing orders keep the tax they were charged.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/tax/rates/${rate._id}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        toast.success("Tax rate deleted");
+        fetchRates();
+      } else {
+        const data = await response.json();
+        toast.error(data.message || "Failed to delete tax rate");
+      }
+    } catch (error) {
+      console.error("Error deleting tax rate:", error);
+      toast.error("Failed to delete tax rate");
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="mt-1 text-sm text-red-500">{errors[field]}</p>;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="py-8 space-y-6">
+        {/* Header */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 flex justify-between items-center">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Tax
+              </h1>
+              <p className="text-gray-600 dark:text-primary mt-1">
+                Set the tax charged in each country and state for every tax class
+              </p>
+            </div>
+            <button
+              onClick={openCreateForm}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              New Rate
+            </button>
+          </div>
+          <p className="px-6 pb-4 text-sm text-gray-500 dark:text-gray-400">
+            Products use their own tax class, then their category&apos;s, then
+            &quot;standard&quot;. A state rate beats a country rate, which beats
+            a rate for everywhere. Orders with no matching rate are not taxed.
+          </p>
+        </div>
+
+        {/* Settings */}
+        {settings && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+            <div className="flex justify-between items-center">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Settings
+                </h2>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Applies to new orders
+                </p>
+              </div>
+              <button
+                onClick={handleSaveSettings}
+                disabled={savingSettings}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {savingSettings ? "Saving..." : "Save Settings"}
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.pricesIncludeTax}
+                  onChange={(e) =>
+                    setSettings({ ...settings, pricesIncludeTax: e.target.checked })
+                  }
+                />
+                Product and shipping prices include tax
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={settings.taxShipping}
+                  onChange={(e) =>
+                    setSettings({ ...settings, taxShipping: e.target.checked })
+                  }
+                />
+                Charge tax on shipping
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Shipping tax class
+                </label>
+                <TaxClassInput
+                  value={settings.shippingTaxClass}
+                  onChange={(shippingTaxClass) =>
+                    setSettings({ ...settings, shippingTaxClass })
+                  }
+                  className={inputClass}
+                  placeholder="standard"
+                />
+                {settingsErrors.shippingTaxClass && (
+                  <p className="mt-1 text-sm text-red-500">
+                    {settingsErrors.shippingTaxClass}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Rate Form */}
+        {showForm && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+          >
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingId ? `Edit ${form.name}` : "New Rate"}
+            </h2>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                  maxLength={60}
+                  placeholder="NY Sales Tax"
+                  required
+                />
+                {fieldError("name")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Tax class
+                </label>
+                <TaxClassInput
+                  value={form.taxClass}
+                  onChange={(taxClass) => setForm({ ...form, taxClass })}
+                  className={inputClass}
+                  placeholder="standard"
+                />
+                {fieldError("taxClass")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Rate (%)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.001"
+                  value={form.rate}
+                  onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+                {fieldError("rate")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Country
+                </label>
+                <input
+                  type="text"
+                  value={form.country}
+                  onChange={(e) => setForm({ ...form, country: e.target.value })}
+                  className={inputClass}
+                  maxLength={2}
+                  placeholder="US (blank for everywhere)"
+                />
+                {fieldError("country")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  State
+                </label>
+                <input
+                  type="text"
+                  value={form.state}
+                  onChange={(e) => setForm({ ...form, state: e.target.value })}
+                  className={inputClass}
+                  placeholder="NY (blank for the whole country)"
+                />
+                {fieldError("state")}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex gap-3">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Rate"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Rate List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              Loading tax rates...
+            </div>
+          ) : rates.length === 0 ? (
+            <div className="p-12 text-center text-gray-500 dark:text-gray-400">
+              No tax rates yet. Until one is active, the standard class is
+              taxed at 8% everywhere.
+            </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700/50">
+                <tr>
+                  {["Rate", "Region", "Class", "Percent", "Status", ""].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rates.map((rate) => (
+                  <tr key={rate._id}>
+                    <td className="px-6 py-4 font-semibold text-gray-900 dark:text-white">
+                      {rate.name}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {describeRegion(rate)}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-mono text-gray-700 dark:text-gray-300">
+                      {rate.taxClass}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 dark:text-gray-300">
+                      {rate.rate}%
+                    </td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          rate.active
+                            ? "bg-green-100 dark:bg-green-900/30 text-green-600 dark:text-green-400"
+                            : "bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400"
+                        }`}
+                      >
+                        {rate.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                      <button
+                        onClick={() => openEditForm(rate)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(rate)}
+                        className="text-gray-600 hover:text-gray-800 dark:text-gray-400"
+                      >
+                        {rate.active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rate)}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
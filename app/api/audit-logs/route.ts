@@ -0,0 +1,44 @@
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import {
+    AUDIT_LOG_PAGE_SIZE,
+    getAuditLogs,
+    MAX_AUDIT_LOG_PAGE_SIZE,
+    parseAuditLogFilters,
+} from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { NextRequest, NextResponse } from 'next/server';
+
+// List audit log entries, newest first, filtered by target, actor, action and date - Requires view_audit_log
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const { searchParams } = new URL(req.url);
+            const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+            const limit = Math.min(
+                Math.max(parseInt(searchParams.get('limit') || '') || AUDIT_LOG_PAGE_SIZE, 1),
+                MAX_AUDIT_LOG_PAGE_SIZE
+            );
+
+            const { entries, total } = await getAuditLogs(parseAuditLogFilters(searchParams), page, limit);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        entries,
+                        pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+                    },
+                    'Audit log retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching audit log:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch audit log'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'view_audit_log' });
+}
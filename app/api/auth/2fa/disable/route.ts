@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { disableTwoFactor, isTwoFactorRequired, verifyTwoFactorCode } from '../../../../../utils/twoFactor';
+
+// Turn two-factor off, confirmed with a current code; not allowed where the policy requires it
+export async function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { code } = await req.json().catch(() => ({}));
+            if (typeof code !== 'string' || !code.trim()) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ code: 'Code is required' }),
+                    { status: 400 }
+                );
+            }
+
+            if (await isTwoFactorRequired(user)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Two-factor authentication is required for your account'),
+                    { status: 403 }
+                );
+            }
+
+            if (!(await verifyTwoFactorCode(user._id, code))) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('That code is not valid, please try again'),
+                    { status: 400 }
+                );
+            }
+
+            await disableTwoFactor(user._id);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, 'Two-factor authentication is off')
+            );
+        } catch (error) {
+            console.error('Two-factor disable error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to turn off two-factor authentication'),
+                { status: 500 }
+            );
+        }
+    });
+}
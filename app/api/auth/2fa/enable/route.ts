@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { rateLimiters } from '../../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { completeSignIn } from '../../../../../utils/signIn';
+import { enableTwoFactor, readTwoFactorChallenge, TwoFactorError } from '../../../../../utils/twoFactor';
+import User from '../../../models/User';
+
+const errorResponse = (error: unknown) => {
+    if (error instanceof TwoFactorError) {
+        return NextResponse.json(
+            ApiResponseHelper.error(error.message),
+            { status: error.status }
+        );
+    }
+
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json(
+        ApiResponseHelper.serverError('Failed to turn on two-factor authentication'),
+        { status: 500 }
+    );
+};
+
+// Turn two-factor on with the first code from the new secret. When setup was required at login,
+// this also finishes signing in.
+export async function POST(req: NextRequest) {
+    const { code, challengeToken } = await req.json().catch(() => ({}));
+
+    if (typeof code !== 'string' || !code.trim()) {
+        return NextResponse.json(
+            ApiResponseHelper.validationError({ code: 'Code is required' }),
+            { status: 400 }
+        );
+    }
+
+    if (!challengeToken) {
+        return authMiddleware(req, async (req, user) => {
+            try {
+                await connectToDatabase();
+
+                const recoveryCodes = await enableTwoFactor(user._id, code);
+
+                return NextResponse.json(
+                    ApiResponseHelper.success({ recoveryCodes }, 'Two-factor authentication is on')
+                );
+            } catch (error: unknown) {
+                return errorResponse(error);
+            }
+        });
+    }
+
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const userId = await readTwoFactorChallenge(challengeToken, 'setup');
+            const recoveryCodes = await enableTwoFactor(userId, code);
+
+            const user = await User.findById(userId);
+            if (!user || !user.active) {
+                throw new TwoFactorError('Your account is inactive. Please contact support.', 401);
+            }
+
+            return completeSignIn(req, user, { recoveryCodes });
+        } catch (error: unknown) {
+            return errorResponse(error);
+        }
+    });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { regenerateRecoveryCodes, verifyTwoFactorCode } from '../../../../../utils/twoFactor';
+
+// Replace the signed-in user's recovery codes, confirmed with a current code
+export async function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { code } = await req.json().catch(() => ({}));
+            if (typeof code !== 'string' || !code.trim()) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ code: 'Code is required' }),
+                    { status: 400 }
+                );
+            }
+
+            if (!(await verifyTwoFactorCode(user._id, code))) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('That code is not valid, please try again'),
+                    { status: 400 }
+                );
+            }
+
+            const recoveryCodes = await regenerateRecoveryCodes(user._id);
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ recoveryCodes }, 'New recovery codes created; the old ones no longer work')
+            );
+        } catch (error) {
+            console.error('Recovery codes error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to create recovery codes'),
+                { status: 500 }
+            );
+        }
+    });
+}
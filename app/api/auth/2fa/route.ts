@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { getTwoFactorStatus } from '../../../../utils/twoFactor';
+
+// Describe the signed-in user's two-factor setup
+export async function GET(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const status = await getTwoFactorStatus(user._id);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(status, 'Two-factor status retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching two-factor status:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch two-factor status'),
+                { status: 500 }
+            );
+        }
+    });
+}
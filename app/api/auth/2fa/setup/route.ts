@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { rateLimiters } from '../../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { readTwoFactorChallenge, startTwoFactorSetup, TwoFactorError } from '../../../../../utils/twoFactor';
+
+const setupResponse = async (userId: string) => {
+    try {
+        await connectToDatabase();
+
+        const setup = await startTwoFactorSetup(userId);
+
+        return NextResponse.json(
+            ApiResponseHelper.success(setup, 'Add the key to your authenticator app, then enter a code from it')
+        );
+    } catch (error: unknown) {
+        if (error instanceof TwoFactorError) {
+            return NextResponse.json(
+                ApiResponseHelper.error(error.message),
+                { status: error.status }
+            );
+        }
+
+        console.error('Two-factor setup error:', error);
+        return NextResponse.json(
+            ApiResponseHelper.serverError('Failed to start two-factor setup'),
+            { status: 500 }
+        );
+    }
+};
+
+// Start setting up two-factor: signed in, or with the challenge from a login that requires it
+export async function POST(req: NextRequest) {
+    const { challengeToken } = await req.json().catch(() => ({}));
+
+    if (!challengeToken) {
+        return authMiddleware(req, async (req, user) => setupResponse(user._id));
+    }
+
+    return rateLimiters.auth(req, async () => {
+        try {
+            return setupResponse(await readTwoFactorChallenge(challengeToken, 'setup'));
+        } catch (error: unknown) {
+            const status = error instanceof TwoFactorError ? error.status : 500;
+            return NextResponse.json(
+                ApiResponseHelper.error(error instanceof TwoFactorError ? error.message : 'Failed to start two-factor setup'),
+                { status }
+            );
+        }
+    });
+}
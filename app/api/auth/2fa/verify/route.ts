@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIP, rateLimiters } from '../../../../../middleware/rateLimiting';
+import { claimLoginAttempt, logBlockedLogin, registerFailedLogin } from '../../../../../utils/accountLockout';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { recordLoginEvent } from '../../../../../utils/loginHistory';
+import { completeSignIn } from '../../../../../utils/signIn';
+import { readTwoFactorChallenge, TwoFactorError, verifyTwoFactorCode } from '../../../../../utils/twoFactor';
+import User from '../../../models/User';
+
+// Second sign-in step: a code from the authenticator app, or a recovery code
+export async function POST(req: NextRequest) {
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const { challengeToken, code } = await req.json();
+            if (typeof challengeToken !== 'string' || typeof code !== 'string' || !code.trim()) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ code: 'Code is required' }),
+                    { status: 400 }
+                );
+            }
+
+            const userId = await readTwoFactorChallenge(challengeToken, 'verify');
+            const user = await User.findById(userId);
+            if (!user || !user.active) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Your account is inactive. Please contact support.'),
+                    { status: 401 }
+                );
+            }
+
+            // Wrong codes count towards the same lockout as wrong passwords, claimed before the code is checked
+            const block = await claimLoginAttempt(user._id);
+            if (block) {
+                await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'failed', reason: 'locked' });
+                logBlockedLogin(user._id, block, getClientIP(req));
+                return NextResponse.json(
+                    ApiResponseHelper.error(block.message),
+                    { status: 429, headers: { 'Retry-After': block.retryAfter.toString() } }
+                );
+            }
+
+            if (!(await verifyTwoFactorCode(user._id, code))) {
+                await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'failed', reason: 'invalid_two_factor' });
+                await registerFailedLogin(user._id, getClientIP(req));
+                return NextResponse.json(
+                    ApiResponseHelper.error('That code is not valid, please try again'),
+                    { status: 401 }
+                );
+            }
+
+            return completeSignIn(req, user);
+        } catch (error: unknown) {
+            if (error instanceof TwoFactorError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+
+            console.error('Two-factor verify error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to verify the code'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,52 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { logBusinessError } from '../../../../utils/logger';
+import { requestPasswordReset } from '../../../../utils/passwordReset';
+import { Validator } from '../../../../utils/validation';
+
+const forgotPasswordSchema = {
+    email: { required: true, type: 'email' as const, max: 254 },
+};
+
+// Email a password reset link; the answer is the same whether or not the account exists
+export async function POST(req: NextRequest) {
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const { email } = Validator.sanitizeInput(rawData) as { email: string };
+
+            const { isValid, errors } = Validator.validate({ email }, forgotPasswordSchema);
+            if (!isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            // The lookup, token and email run after the response is sent, so the response time
+            // is the same for known and unknown addresses
+            after(() =>
+                requestPasswordReset(email).catch((error) => {
+                    logBusinessError('Password reset request failed', error as Error, 'Auth');
+                })
+            );
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    null,
+                    'If an account exists for that email, a link to reset the password has been sent'
+                )
+            );
+        } catch (error: unknown) {
+            console.error('Forgot password error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to request a password reset'),
+                { status: 500 }
+            );
+        }
+    });
+}
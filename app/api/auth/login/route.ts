@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Validator } from '../../../../utils/validation';
-import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { getClientIP, rateLimiters } from '../../../../middleware/rateLimiting';
+import { claimLoginAttempt, logBlockedLogin, registerFailedLogin, releaseLoginAttempt } from '../../../../utils/accountLockout';
 import { ApiResponseHelper } from '../../../../utils/apiResponse';
 import connectToDatabase from '../../../../utils/db';
-import { comparePassword, createToken, getUserByEmail, setTokenCookie } from '../../models/User';
+import { recordLoginEvent } from '../../../../utils/loginHistory';
+import { completeSignIn } from '../../../../utils/signIn';
+import { createTwoFactorChallenge, isTwoFactorRequired } from '../../../../utils/twoFactor';
+import { comparePassword, getUserByEmail } from '../../models/User';
 
 export async function POST(req: NextRequest) {
     return rateLimiters.auth(req, async (req) => {
@@ -35,49 +39,63 @@ export async function POST(req: NextRequest) {
 
             const user = await getUserByEmail(sanitizedEmail);
             if (!user) {
+                await recordLoginEvent(req, { email: sanitizedEmail, outcome: 'failed', reason: 'unknown_email' });
                 return NextResponse.json(
                     ApiResponseHelper.error('Invalid credentials'),
                     { status: 401 }
                 );
             }
 
+            // Failures are counted per account, so rotating IPs does not buy more guesses;
+            // the attempt is claimed before the password is compared so parallel guesses wait their turn
+            const block = await claimLoginAttempt(user._id);
+            if (block) {
+                await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'failed', reason: 'locked' });
+                logBlockedLogin(user._id, block, getClientIP(req));
+                return NextResponse.json(
+                    ApiResponseHelper.error(block.message),
+                    { status: 429, headers: { 'Retry-After': block.retryAfter.toString() } }
+                );
+            }
+
             const isPasswordValid = await comparePassword(sanitizedPassword, user.password);
             if (!isPasswordValid) {
+                await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'failed', reason: 'invalid_password' });
+                await registerFailedLogin(user._id, getClientIP(req));
                 return NextResponse.json(
                     ApiResponseHelper.error('Invalid credentials'),
                     { status: 401 }
                 );
             }
+            await releaseLoginAttempt(user._id);
 
             // Check if user is active
             if (!user.active) {
+                await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'failed', reason: 'inactive' });
                 return NextResponse.json(
                     ApiResponseHelper.error('Your account is inactive. Please contact support.'),
                     { status: 401 }
                 );
             }
 
-            // Generate JWT token
-            const token = await createToken(user._id.toString());
-
-            // Remove password from response
-            const userObj = user.toObject();
-            delete userObj.password;
-
-            // Create response
-            const response = NextResponse.json(
-                ApiResponseHelper.success(
-                    { user: userObj, token },
-                    'Login successful'
-                )
-            );
-
-            // Set cookie for admin users
-            if (user.role === 'admin' || user.role === 'super-admin') {
-                setTokenCookie(response, token);
+            // With two-factor on, or required for the role, the password alone does not start a session
+            const setupRequired = !user.twoFactorEnabled && await isTwoFactorRequired(user);
+            if (user.twoFactorEnabled || setupRequired) {
+                return NextResponse.json(
+                    ApiResponseHelper.success(
+                        {
+                            twoFactorRequired: true,
+                            setupRequired,
+                            challengeToken: await createTwoFactorChallenge(user._id, setupRequired ? 'setup' : 'verify'),
+                        },
+                        setupRequired
+                            ? 'Set up two-factor authentication to continue'
+                            : 'Enter the code from your authenticator app'
+                    )
+                );
             }
 
-            return response;
+            return completeSignIn(req, user);
         } catch (error: unknown) {
             console.error('Login error:', error);
             return NextResponse.json(
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { clearSessionCookies, revokeUserSessions } from '../../../../utils/sessions';
+
+// Sign out everywhere: end every session of the signed-in user, this one included
+export async function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const count = await revokeUserSessions(user._id, 'logout_all');
+
+            return clearSessionCookies(
+                NextResponse.json(
+                    ApiResponseHelper.success({ count }, 'Signed out of all devices')
+                )
+            );
+        } catch (error) {
+            console.error('Logout everywhere error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to sign out of all devices'),
+                { status: 500 }
+            );
+        }
+    });
+}
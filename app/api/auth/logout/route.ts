@@ -1,14 +1,27 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '../../../../utils/db';
+import { clearSessionCookies, getRequestSessionId, revokeSession } from '../../../../utils/sessions';
+
+export async function POST(req: NextRequest) {
+    try {
+        await connectToDatabase();
+
+        // End the session server-side, so its tokens stop working even if they were copied
+        const sessionId = await getRequestSessionId(req);
+        if (sessionId) {
+            await revokeSession(sessionId, 'logout');
+        }
+    } catch (error) {
+        // The cookies are cleared regardless
+        console.error('Logout error:', error);
+    }
 
-export async function POST() {
     // Create a response
     const response = NextResponse.json(
         { message: 'Logged out successfully' },
         { status: 200 }
     );
 
-    // Clear the admin token cookie
-    response.cookies.delete('auth_token');
-
-    return response;
-} 
\ No newline at end of file
+    // Clear the session cookies
+    return clearSessionCookies(response);
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import {
+    clearSessionCookies,
+    REFRESH_COOKIE_NAME,
+    refreshSession,
+    SessionError,
+    setSessionCookies,
+} from '../../../../utils/sessions';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../../models/User';
+
+// Trade the refresh token cookie for a new access token; the refresh token is rotated
+export async function POST(req: NextRequest) {
+    return rateLimiters.api(req, async (req) => {
+        try {
+            const refreshToken = req.cookies.get(REFRESH_COOKIE_NAME)?.value;
+            if (!refreshToken) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Not authorized, no refresh token'),
+                    { status: 401 }
+                );
+            }
+
+            const { tokens } = await refreshSession(refreshToken, req);
+
+            // A concurrent request already rotated the tokens; its response carries the new cookies
+            if (!tokens) {
+                return NextResponse.json(
+                    ApiResponseHelper.success(null, 'Session already refreshed')
+                );
+            }
+
+            const response = NextResponse.json(
+                ApiResponseHelper.success(
+                    { token: tokens.accessToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS },
+                    'Session refreshed'
+                )
+            );
+
+            return setSessionCookies(response, tokens);
+        } catch (error: unknown) {
+            if (error instanceof SessionError) {
+                return clearSessionCookies(
+                    NextResponse.json(
+                        ApiResponseHelper.error(error.message),
+                        { status: error.status }
+                    )
+                );
+            }
+
+            console.error('Session refresh error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to refresh session'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ApiResponseHelper } from '../../../../utils/apiResponse';
 import connectToDatabase from '../../../../utils/db';
+import { sendWelcomeVerification } from '../../../../utils/emailVerification';
+import { claimGuestCart, clearGuestCookie, readGuestId } from '../../../../utils/guest';
 import { Validator } from '../../../../utils/validation';
 import User, { hashPassword } from '../../models/User';
 
@@ -91,6 +93,14 @@ export async function POST(req: NextRequest) {
             verified: false
         });
 
+        await sendWelcomeVerification(newUser._id);
+
+        // The current guest cart now belongs to the account; guest orders follow once the email is verified
+        const guestId = await readGuestId(req);
+        if (guestId) {
+            await claimGuestCart(guestId, newUser._id);
+        }
+
         // Remove sensitive data from response
         const userResponse = {
             _id: newUser._id,
@@ -104,11 +114,13 @@ export async function POST(req: NextRequest) {
             createdAt: newUser.createdAt
         };
 
-        return NextResponse.json(
-            ApiResponseHelper.success(userResponse, 'User registered successfully'),
+        const response = NextResponse.json(
+            ApiResponseHelper.success(userResponse, 'User registered successfully. Check your inbox to verify your email address.'),
             { status: 201 }
         );
 
+        return guestId ? clearGuestCookie(response) : response;
+
     } catch (error: unknown) {
         console.error('Registration error:', error);
 
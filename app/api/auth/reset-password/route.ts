@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { PasswordResetError, resetPassword } from '../../../../utils/passwordReset';
+import { Validator } from '../../../../utils/validation';
+
+const resetPasswordSchema = {
+    token: { required: true, type: 'string' as const, min: 1, max: 128 },
+    password: { required: true, type: 'string' as const, min: 8, max: 128 },
+};
+
+// Set a new password with the token from a reset link
+export async function POST(req: NextRequest) {
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const { token, password } = await req.json();
+            const data = {
+                token: typeof token === 'string' ? token.trim() : token,
+                password,
+            };
+
+            const { isValid, errors } = Validator.validate(data, resetPasswordSchema);
+            if (!isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const passwordValidation = Validator.validatePassword(data.password);
+            if (!passwordValidation.isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({
+                        password: passwordValidation.errors.join(', ')
+                    }),
+                    { status: 400 }
+                );
+            }
+
+            await resetPassword(data.token, data.password);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, 'Your password has been reset. You can now sign in.')
+            );
+        } catch (error: unknown) {
+            if (error instanceof PasswordResetError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+
+            console.error('Reset password error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to reset password'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { clearSessionCookies, getRequestSessionId, revokeUserSession } from '../../../../../utils/sessions';
+
+// Sign one of the signed-in user's devices out; revoking the current session signs this browser out
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+            const currentSessionId = await getRequestSessionId(req);
+
+            const revoked = await revokeUserSession(user._id, id, 'revoked_by_user');
+            if (!revoked) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Session not found'),
+                    { status: 404 }
+                );
+            }
+
+            const response = NextResponse.json(
+                ApiResponseHelper.success({ current: id === currentSessionId }, 'Session revoked')
+            );
+
+            return id === currentSessionId ? clearSessionCookies(response) : response;
+        } catch (error) {
+            console.error('Error revoking session:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to revoke session'),
+                { status: 500 }
+            );
+        }
+    });
+}
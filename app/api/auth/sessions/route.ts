@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { getLoginHistory } from '../../../../utils/loginHistory';
+import { getRequestSessionId, listUserSessions } from '../../../../utils/sessions';
+
+// List the signed-in user's active sessions and their latest sign-in attempts
+export async function GET(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const currentSessionId = await getRequestSessionId(req);
+            const [sessions, loginHistory] = await Promise.all([
+                listUserSessions(user._id, currentSessionId),
+                getLoginHistory(user._id),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ sessions, loginHistory }, 'Sessions retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching sessions:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch sessions'),
+                { status: 500 }
+            );
+        }
+    });
+}
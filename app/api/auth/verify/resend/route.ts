@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { EmailVerificationError, resendVerificationEmail } from '../../../../../utils/emailVerification';
+
+// Send the signed-in user another verification email, at most once per cooldown
+export async function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            await resendVerificationEmail(user._id);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, `A new verification link has been sent to ${user.email}`)
+            );
+        } catch (error: unknown) {
+            if (error instanceof EmailVerificationError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    {
+                        status: error.status,
+                        headers: error.retryAfter ? { 'Retry-After': error.retryAfter.toString() } : undefined,
+                    }
+                );
+            }
+
+            console.error('Resend verification error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to send verification email'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { EmailVerificationError, verifyEmail } from '../../../../utils/emailVerification';
+
+// Confirm an email address with the token from a verification link
+export async function GET(req: NextRequest) {
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const token = req.nextUrl.searchParams.get('token')?.trim();
+            if (!token || token.length > 128) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ token: 'token is required' }),
+                    { status: 400 }
+                );
+            }
+
+            await verifyEmail(token);
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ verified: true }, 'Your email address has been verified')
+            );
+        } catch (error: unknown) {
+            if (error instanceof EmailVerificationError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+
+            console.error('Email verification error:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to verify email address'),
+                { status: 500 }
+            );
+        }
+    });
+}
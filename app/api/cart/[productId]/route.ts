@@ -1,9 +1,12 @@
 import { CartItem } from '@/app/types/cart';
+import { ProductVariant } from '@/app/types/product';
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { shopperMiddleware } from '../../../../middleware/authMiddleware';
 import { generateCartItemKey, normalizeVariants } from '../../../../utils/cartUtils';
 import connectToDatabase from '../../../../utils/db';
+import { getCartOwner } from '../../../../utils/guest';
+import { findProductVariant, getAvailableStock, getVariantUnitPrice } from '../../../../utils/productVariants';
 import Cart from '../../models/Cart';
 import Product from '../../models/Product';
 
@@ -12,7 +15,7 @@ export function PUT(
     req: NextRequest,
     { params }: { params: Promise<{ productId: string }> }
 ) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
         try {
             const { productId } = await params;
 
@@ -37,20 +40,22 @@ export function PUT(
                 return NextResponse.json({ message: 'Product not found' }, { status: 404 });
             }
 
-            // Check if product is in stock
-            if (product.status === 'out of stock' || product.quantity < quantity) {
+            // Check if product is in stock, in the chosen variant for products sold in variants
+            const variants = normalizeVariants({ color, size });
+            const variant = findProductVariant<ProductVariant>(product.variants, variants);
+            if (product.status === 'out of stock' || getAvailableStock(product, variants) < quantity) {
                 return NextResponse.json({ message: 'Product is out of stock or has insufficient quantity' }, { status: 400 });
             }
 
-            // Find user's cart
-            const cart = await Cart.findOne({ user: user._id });
+            // Find the shopper's cart
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
 
             if (!cart) {
                 return NextResponse.json({ message: 'Cart not found' }, { status: 404 });
             }
 
             // Generate cart item key for identification
-            const variants = normalizeVariants({ color, size });
             const cartItemKey = generateCartItemKey(productId, variants);
 
             // Find the cart item using the cart item key OR fallback to old method
@@ -81,7 +86,7 @@ export function PUT(
             }
 
             // Calculate item price and total
-            const price = product.discountPrice || product.price;
+            const price = getVariantUnitPrice(product, variant);
             const totalPrice = price * quantity;
 
             // Update item quantity and prices
@@ -114,7 +119,7 @@ export function DELETE(
     req: NextRequest,
     { params }: { params: Promise<{ productId: string }> }
 ) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
         try {
             const { productId } = await params;
 
@@ -130,8 +135,9 @@ export function DELETE(
             const color = url.searchParams.get('color') || '';
             const size = url.searchParams.get('size') || '';
 
-            // Find user's cart
-            const cart = await Cart.findOne({ user: user._id });
+            // Find the shopper's cart
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
 
             if (!cart) {
                 return NextResponse.json({ message: 'Cart not found' }, { status: 404 });
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { evaluateCartCoupon, normalizeCouponCode, toAppliedCoupon } from '../../../../utils/coupons';
+import connectToDatabase from '../../../../utils/db';
+import { getCartOwner, getCouponCustomer } from '../../../../utils/guest';
+import { Validator } from '../../../../utils/validation';
+import Cart from '../../models/Cart';
+
+const applyCouponSchema = {
+    code: { required: true, type: 'string' as const, min: 3, max: 30 },
+};
+
+// Re-check the applied coupon against the current cart, dropping it when it no longer applies
+export function GET(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            await connectToDatabase();
+
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
+
+            if (!cart?.couponCode) {
+                return NextResponse.json(ApiResponseHelper.success({ coupon: null }));
+            }
+
+            const { discount, error } = await evaluateCartCoupon(cart, getCouponCustomer(shopper));
+
+            if (!discount) {
+                cart.couponCode = null;
+                await cart.save();
+
+                return NextResponse.json(
+                    ApiResponseHelper.success({ coupon: null, removedReason: error }, error)
+                );
+            }
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ coupon: toAppliedCoupon(discount) }, 'Coupon retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error checking coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to check coupon'),
+                { status: 500 }
+            );
+        }
+    });
+}
+
+// Apply a coupon code to the cart
+export function POST(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const { code } = Validator.sanitizeInput(rawData) as { code: string };
+
+            const { isValid, errors } = Validator.validate({ code }, applyCouponSchema);
+            if (!isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
+
+            if (!cart || cart.items.length === 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Add items to your cart before applying a coupon'),
+                    { status: 400 }
+                );
+            }
+
+            const { discount, error } = await evaluateCartCoupon(
+                { couponCode: normalizeCouponCode(code), items: cart.items },
+                getCouponCustomer(shopper)
+            );
+
+            if (!discount) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error || 'This coupon code is not valid'),
+                    { status: 400 }
+                );
+            }
+
+            cart.couponCode = discount.code;
+            await cart.save();
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ coupon: toAppliedCoupon(discount) }, 'Coupon applied successfully')
+            );
+        } catch (error) {
+            console.error('Error applying coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to apply coupon'),
+                { status: 500 }
+            );
+        }
+    });
+}
+
+// Remove the coupon from the cart
+export function DELETE(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            await connectToDatabase();
+
+            const owner = getCartOwner(shopper);
+            if (owner) {
+                await Cart.updateOne(owner, { couponCode: null });
+            }
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ coupon: null }, 'Coupon removed successfully')
+            );
+        } catch (error) {
+            console.error('Error removing coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to remove coupon'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -1,10 +1,14 @@
-import { CartItem, CartResponse, EnhancedCartItem } from '@/app/types/cart';
+import { CartItem, CartResponse, EnhancedCartItem, PopulatedProduct } from '@/app/types/cart';
+import { ProductVariant } from '@/app/types/product';
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware } from '../../../middleware/authMiddleware';
+import { shopperMiddleware } from '../../../middleware/authMiddleware';
 import { ApiResponseHelper } from '../../../utils/apiResponse';
 import { createCartItem, generateCartItemKey, normalizeVariants } from '../../../utils/cartUtils';
+import { evaluateCartCoupon, toAppliedCoupon } from '../../../utils/coupons';
 import connectToDatabase from '../../../utils/db';
+import { getCartOwner, getCouponCustomer } from '../../../utils/guest';
+import { findProductVariant, formatVariantOptions, getAvailableStock, getVariantUnitPrice } from '../../../utils/productVariants';
 import { Validator } from '../../../utils/validation';
 import Cart from '../models/Cart';
 import Product from '../models/Product';
@@ -19,27 +23,31 @@ const addToCartSchema = {
 
 // Get user's cart with optimized population
 export function GET(req: NextRequest) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
         try {
             await connectToDatabase();
 
-            // Find user's cart with optimized field selection
-            let cart = await Cart.findOne({ user: user._id })
-                .populate({
+            // Find the shopper's cart with optimized field selection; a new visitor has none yet
+            const owner = getCartOwner(shopper);
+            let cart = owner
+                ? await Cart.findOne(owner).populate({
                     path: 'items.product',
-                    select: 'name price discountPrice image status quantity active slug',
+                    select: 'name price discountPrice image status quantity variants active slug',
                     match: { active: true } // Only populate active products
-                });
+                })
+                : null;
 
             // If cart doesn't exist, create an empty one
             if (!cart) {
                 cart = new Cart({
-                    user: user._id,
+                    ...owner,
                     items: [],
                     totalItems: 0,
                     totalPrice: 0,
                 });
-                await cart.save();
+                if (owner) {
+                    await cart.save();
+                }
             } else {
                 // Filter out items with inactive/deleted products
                 const validItems = cart.items.filter((item: CartItem) =>
@@ -53,10 +61,15 @@ export function GET(req: NextRequest) {
                 }
             }
 
-            // Calculate current totals and validate stock
+            // Calculate current totals and validate stock of the chosen variant
             const updatedItems: EnhancedCartItem[] = cart.items.map((item: CartItem) => {
-                const product = item.product as unknown as { _id: string; price: number; discountPrice?: number; quantity: number };
-                const currentPrice = product.discountPrice || product.price;
+                const product = item.product as unknown as PopulatedProduct;
+                const options = {
+                    color: item.variants?.color || item.color,
+                    size: item.variants?.size || item.size
+                };
+                const currentPrice = getVariantUnitPrice(product, findProductVariant(product.variants, options));
+                const availableQuantity = getAvailableStock(product, options);
 
                 // Generate cartItemKey if not present (backward compatibility)
                 let cartItemKey = item.cartItemKey;
@@ -65,7 +78,7 @@ export function GET(req: NextRequest) {
                         color: item.color,
                         size: item.size
                     });
-                    cartItemKey = generateCartItemKey(product._id, variants);
+                    cartItemKey = generateCartItemKey(product._id.toString(), variants);
 
                     // Update the item in the database with the generated key
                     item.cartItemKey = cartItemKey;
@@ -85,8 +98,8 @@ export function GET(req: NextRequest) {
                     color: item.color,
                     size: item.size,
                     currentPrice,
-                    inStock: product.quantity >= item.quantity,
-                    availableQuantity: product.quantity
+                    inStock: availableQuantity >= item.quantity,
+                    availableQuantity
                 } as EnhancedCartItem;
             });
 
@@ -96,12 +109,21 @@ export function GET(req: NextRequest) {
                 await cart.save();
             }
 
+            // Drop a coupon that no longer applies to what is in the cart
+            const { discount } = await evaluateCartCoupon(cart, getCouponCustomer(shopper));
+            if (cart.couponCode && !discount) {
+                cart.couponCode = null;
+                await cart.save();
+            }
+
             const response: CartResponse = {
                 ...cart.toObject(),
                 items: updatedItems,
                 summary: {
                     subtotal: updatedItems.reduce((sum: number, item: EnhancedCartItem) => sum + item.totalPrice, 0),
-                    totalItems: updatedItems.reduce((sum: number, item: EnhancedCartItem) => sum + item.quantity, 0)
+                    totalItems: updatedItems.reduce((sum: number, item: EnhancedCartItem) => sum + item.quantity, 0),
+                    discount: discount?.amount || 0,
+                    coupon: discount ? toAppliedCoupon(discount) : null
                 }
             };
 
@@ -119,9 +141,17 @@ export function GET(req: NextRequest) {
     });
 }
 
-// Add to cart or update cart item with transaction safety
+// Add to cart or update cart item with transaction safety; a first-time visitor gets a guest cart
 export function POST(req: NextRequest) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
+        const owner = getCartOwner(shopper);
+        if (!owner) {
+            return NextResponse.json(
+                ApiResponseHelper.error('Cart not found'),
+                { status: 404 }
+            );
+        }
+
         const session = await mongoose.startSession();
 
         try {
@@ -164,28 +194,41 @@ export function POST(req: NextRequest) {
                 );
             }
 
+            // Products sold in variants are added as one of them, with its own stock and price
+            const variants = normalizeVariants({ color, size });
+            const variant = findProductVariant<ProductVariant>(product.variants, variants);
+            if (product.variants.length > 0 && !variant) {
+                const options = formatVariantOptions(variants);
+                return NextResponse.json(
+                    ApiResponseHelper.error(
+                        options ? `This product is not available in ${options}` : 'Please choose the product options'
+                    ),
+                    { status: 400 }
+                );
+            }
+            const availableQuantity = getAvailableStock(product, variants);
+
             // Check stock availability
-            if (product.quantity < quantity) {
+            if (availableQuantity < quantity) {
                 return NextResponse.json(
                     ApiResponseHelper.error(
-                        `Only ${product.quantity} items available in stock`,
-                        { availableQuantity: product.quantity }
+                        `Only ${availableQuantity} items available in stock`,
+                        { availableQuantity: availableQuantity.toString() }
                     ),
                     { status: 400 }
                 );
             }
 
-            // Find or create user's cart
-            let cart = await Cart.findOne({ user: user._id }).session(session);
+            // Find or create the shopper's cart
+            let cart = await Cart.findOne(owner).session(session);
             if (!cart) {
                 cart = new Cart({
-                    user: user._id,
+                    ...owner,
                     items: []
                 });
             }
 
             // Generate cart item key for unique identification
-            const variants = normalizeVariants({ color, size });
             const cartItemKey = generateCartItemKey(productId, variants);
 
             // Check if product already exists in cart with same variants
@@ -194,16 +237,16 @@ export function POST(req: NextRequest) {
             );
 
             // Calculate pricing
-            const price = product.discountPrice || product.price;
+            const price = getVariantUnitPrice(product, variant);
             const totalItemQuantity = existingItemIndex > -1
                 ? cart.items[existingItemIndex].quantity + quantity
                 : quantity;
 
             // Validate total quantity doesn't exceed stock
-            if (totalItemQuantity > product.quantity) {
+            if (totalItemQuantity > availableQuantity) {
                 return NextResponse.json(
                     ApiResponseHelper.error(
-                        `Cannot add ${quantity} items. Total would exceed available stock (${product.quantity})`
+                        `Cannot add ${quantity} items. Total would exceed available stock (${availableQuantity})`
                     ),
                     { status: 400 }
                 );
@@ -245,22 +288,30 @@ export function POST(req: NextRequest) {
         } finally {
             session.endSession();
         }
-    });
+    }, { issueGuest: true });
 }
 
 // Clear cart with confirmation
 export function DELETE(req: NextRequest) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
         try {
             await connectToDatabase();
 
-            // Find and clear user's cart
+            const owner = getCartOwner(shopper);
+            if (!owner) {
+                return NextResponse.json(
+                    ApiResponseHelper.success(null, 'Cart cleared successfully')
+                );
+            }
+
+            // Find and clear the shopper's cart
             const cart = await Cart.findOneAndUpdate(
-                { user: user._id },
+                owner,
                 {
                     items: [],
                     totalItems: 0,
-                    totalPrice: 0
+                    totalPrice: 0,
+                    couponCode: null
                 },
                 {
                     new: true,
@@ -1,7 +1,8 @@
 import { CategoryData, MongooseError, ValidationError } from '@/app/types/mongoose';
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { recordAudit } from '../../../../utils/auditLog';
 import connectToDatabase from '../../../../utils/db';
 import { deleteFile } from '../../../../utils/fileUpload';
 import Category from '../../models/Category';
@@ -64,10 +65,6 @@ export async function PUT(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -107,6 +104,15 @@ export async function PUT(
                 { new: true, runValidators: true }
             );
 
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Category',
+                targetId: id,
+                targetLabel: updatedCategory?.name,
+                before: category,
+                after: updatedCategory,
+            });
+
             return NextResponse.json(updatedCategory);
         } catch (error: unknown) {
             // Handle validation errors
@@ -145,7 +151,7 @@ export async function PUT(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_categories' });
 }
 
 // Delete category by ID - Admin only
@@ -154,10 +160,6 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -208,6 +210,14 @@ export async function DELETE(
             // Delete the category
             await Category.findByIdAndDelete(id);
 
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Category',
+                targetId: id,
+                targetLabel: category.name,
+                before: category,
+            });
+
             return NextResponse.json(
                 { message: 'Category deleted successfully' },
                 { status: 200 }
@@ -218,5 +228,5 @@ export async function DELETE(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_categories' });
 } 
\ No newline at end of file
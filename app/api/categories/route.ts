@@ -1,6 +1,7 @@
 import { CategoryData, MongooseError, ValidationError } from '@/app/types/mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../middleware/authMiddleware';
+import { recordAudit } from '../../../utils/auditLog';
 import connectToDatabase from '../../../utils/db';
 import { Validator } from '../../../utils/validation';
 // No longer using file upload with JSON approach
@@ -74,10 +75,6 @@ export async function GET(req: NextRequest) {
 // Create new category - Admin only
 export async function POST(req: NextRequest) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         try {
             await connectToDatabase();
 
@@ -92,6 +89,15 @@ export async function POST(req: NextRequest) {
             }
 
             const category = await Category.create(sanitizedData);
+
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'Category',
+                targetId: category._id,
+                targetLabel: category.name,
+                after: category,
+            });
+
             return NextResponse.json(category, { status: 201 });
         } catch (error: unknown) {
             // Handle validation errors
@@ -130,5 +136,5 @@ export async function POST(req: NextRequest) {
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_categories' });
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import connectToDatabase from "@/utils/db";
+import { getMailCredentials, sendMail } from "@/utils/mail";
+import { getEmailStore, getEmailTemplate, getEmailTheme } from "@/utils/mail/templateSettings";
+import { renderContactAutoReply } from "@/utils/mail/templates";
 import { NextRequest, NextResponse } from "next/server";
-import nodemailer from "nodemailer";
-import Settings from "../models/Settings";
 
 export async function POST(request: NextRequest) {
     try {
@@ -24,28 +25,9 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Get email credentials from environment or database
-        let gmailUser = process.env.GMAIL_USER;
-        let gmailAppPassword = process.env.GMAIL_APP_PASSWORD;
-
-        // If not in environment, try to get from database
-        if (!gmailUser || !gmailAppPassword) {
-            try {
-                await connectToDatabase();
-                const homepageSettings = await Settings.findOne({ name: "homepage" });
-
-                if (homepageSettings?.value?.emailConfig) {
-                    gmailUser = gmailUser || homepageSettings.value.emailConfig.gmailUser;
-                    gmailAppPassword =
-                        gmailAppPassword || homepageSettings.value.emailConfig.gmailAppPassword;
-                }
-            } catch (dbError) {
-                console.error("Error fetching email config from database:", dbError);
-            }
-        }
-
-        // Check if we have credentials
-        if (!gmailUser || !gmailAppPassword) {
+        // Contact messages go to the shop's own mailbox, so they need the Gmail credentials
+        const credentials = await getMailCredentials();
+        if (!credentials) {
             return NextResponse.json(
                 {
                     error:
@@ -54,15 +36,7 @@ export async function POST(request: NextRequest) {
                 { status: 503 }
             );
         }
-
-        // Create transporter using Gmail
-        const transporter = nodemailer.createTransport({
-            service: "gmail",
-            auth: {
-                user: gmailUser,
-                pass: gmailAppPassword,
-            },
-        });
+        const gmailUser = credentials.user;
 
         // Email to admin (you)
         const adminMailOptions = {
@@ -87,37 +61,27 @@ export async function POST(request: NextRequest) {
             replyTo: email,
         };
 
-        // Auto-reply email to user
+        // Auto-reply email to user, in the wording admins set up
+        await connectToDatabase();
+        const [template, theme, store] = await Promise.all([
+            getEmailTemplate("contact_auto_reply"),
+            getEmailTheme(),
+            getEmailStore(),
+        ]);
         const userMailOptions = {
             from: gmailUser,
             to: email,
-            subject: `Re: ${subject} - We've received your message!`,
-            html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #ec4899;">Thank you for contacting Elyana!</h2>
-          <p>Hi ${name},</p>
-          <p>We've received your message and will get back to you as soon as possible, usually within 24 hours.</p>
-          
-          <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
-            <p><strong>Your message:</strong></p>
-            <p style="white-space: pre-wrap;">${message}</p>
-          </div>
-          
-          <p>If you have any urgent concerns, please don't hesitate to reach out to us directly at ${gmailUser}</p>
-          
-          <p>Best regards,<br/>The Elyana Team</p>
-          
-          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;" />
-          <p style="color: #6b7280; font-size: 12px;">
-            This is an automated response. Please do not reply directly to this email.
-          </p>
-        </div>
-      `,
+            ...renderContactAutoReply(
+                { name, email, subject, message },
+                { ...store, email: gmailUser },
+                template,
+                theme
+            ),
         };
 
         // Send both emails
-        await transporter.sendMail(adminMailOptions);
-        await transporter.sendMail(userMailOptions);
+        await sendMail(adminMailOptions);
+        await sendMail(userMailOptions);
 
         return NextResponse.json(
             { message: "Message sent successfully" },
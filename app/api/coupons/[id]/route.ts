@@ -0,0 +1,143 @@
+import { ValidationError } from '@/app/types/mongoose';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { recordAudit } from '../../../../utils/auditLog';
+import { pickCouponFields } from '../../../../utils/coupons';
+import connectToDatabase from '../../../../utils/db';
+import { Validator } from '../../../../utils/validation';
+import Coupon from '../../models/Coupon';
+
+// Get a coupon - Admin only
+export function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid coupon ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const coupon = await Coupon.findById(id)
+                .populate('products', 'name')
+                .populate('categories', 'name');
+
+            if (!coupon) {
+                return NextResponse.json(ApiResponseHelper.notFound('Coupon'), { status: 404 });
+            }
+
+            return NextResponse.json(ApiResponseHelper.success(coupon, 'Coupon retrieved successfully'));
+        } catch (error) {
+            console.error('Error fetching coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve coupon'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_coupons' });
+}
+
+// Update a coupon - Admin only
+export function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid coupon ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const coupon = await Coupon.findById(id);
+            if (!coupon) {
+                return NextResponse.json(ApiResponseHelper.notFound('Coupon'), { status: 404 });
+            }
+            const previousCoupon = coupon.toObject();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            // Saved through the document so the cross-field checks in the schema run
+            coupon.set(pickCouponFields(data));
+            await coupon.save();
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Coupon',
+                targetId: id,
+                targetLabel: coupon.code,
+                before: previousCoupon,
+                after: coupon,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(coupon, 'Coupon updated successfully'));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            if (error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ code: 'A coupon with this code already exists' }),
+                    { status: 400 }
+                );
+            }
+
+            console.error('Error updating coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update coupon'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_coupons' });
+}
+
+// Delete a coupon - Admin only; orders keep their own copy of the discount
+export function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid coupon ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const coupon = await Coupon.findByIdAndDelete(id);
+            if (!coupon) {
+                return NextResponse.json(ApiResponseHelper.notFound('Coupon'), { status: 404 });
+            }
+
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Coupon',
+                targetId: id,
+                targetLabel: coupon.code,
+                before: coupon,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(null, 'Coupon deleted successfully'));
+        } catch (error) {
+            console.error('Error deleting coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to delete coupon'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_coupons' });
+}
@@ -0,0 +1,122 @@
+import { ValidationError } from '@/app/types/mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../utils/apiResponse';
+import { recordAudit } from '../../../utils/auditLog';
+import { pickCouponFields } from '../../../utils/coupons';
+import connectToDatabase from '../../../utils/db';
+import { Validator } from '../../../utils/validation';
+import Coupon, { COUPON_TYPES } from '../models/Coupon';
+
+// List coupons - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const url = new URL(req.url);
+            const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+            const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '10')));
+            const search = url.searchParams.get('search');
+            const type = url.searchParams.get('type');
+            const active = url.searchParams.get('active');
+
+            const query: Record<string, unknown> = {};
+
+            if (search) {
+                query.code = { $regex: search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' };
+            }
+
+            if (type && (COUPON_TYPES as readonly string[]).includes(type)) {
+                query.type = type;
+            }
+
+            if (active === 'true') {
+                query.active = true;
+            } else if (active === 'false') {
+                query.active = false;
+            }
+
+            const [coupons, total] = await Promise.all([
+                Coupon.find(query)
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit),
+                Coupon.countDocuments(query),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        coupons,
+                        pagination: {
+                            currentPage: page,
+                            totalPages: Math.ceil(total / limit),
+                            total,
+                            hasNext: page * limit < total,
+                            hasPrev: page > 1,
+                        },
+                    },
+                    'Coupons retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching coupons:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve coupons'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_coupons' });
+}
+
+// Create a coupon - Admin only
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            const coupon = await Coupon.create({
+                ...pickCouponFields(data),
+                createdBy: user._id,
+            });
+
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'Coupon',
+                targetId: coupon._id,
+                targetLabel: coupon.code,
+                after: coupon,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(coupon, 'Coupon created successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            if (error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ code: 'A coupon with this code already exists' }),
+                    { status: 400 }
+                );
+            }
+
+            console.error('Error creating coupon:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to create coupon'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_coupons' });
+}
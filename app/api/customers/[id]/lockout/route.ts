@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { clearFailedLogins } from '../../../../../utils/accountLockout';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import User from '../../../models/User';
+
+// Unlock a customer locked out by failed sign-ins and start their count again - Admin only
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const customer = await User.findById(id).select('email failedLoginAttempts lockedUntil');
+            if (!customer) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Customer not found'),
+                    { status: 404 }
+                );
+            }
+
+            await clearFailedLogins(id, user._id);
+
+            await recordAudit(req, user, {
+                action: 'unlock',
+                targetModel: 'User',
+                targetId: id,
+                targetLabel: customer.email,
+                before: { failedLoginAttempts: customer.failedLoginAttempts, lockedUntil: customer.lockedUntil },
+                after: { failedLoginAttempts: 0 },
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, 'Lockout cleared')
+            );
+        } catch (error) {
+            console.error('Error clearing lockout:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to clear lockout'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_customer_security' });
+}
@@ -0,0 +1,62 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import { assignUserRole, RoleError } from '../../../../../utils/roles';
+
+// Give a user another role - Requires manage_roles. Only super admins can hand out or take away
+// the super admin role, and nobody can change their own.
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            const { role } = await req.json();
+            if (typeof role !== 'string' || !role) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ role: 'Choose a role' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+            const previous = await assignUserRole(id, role, user);
+
+            await recordAudit(req, user, {
+                action: 'assign_role',
+                targetModel: 'User',
+                targetId: id,
+                targetLabel: previous.email,
+                before: { role: previous.role },
+                after: { role },
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ role }, 'Role assigned')
+            );
+        } catch (error) {
+            if (error instanceof RoleError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error assigning role:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to assign role'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_roles' });
+}
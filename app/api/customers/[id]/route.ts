@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import User from '../../models/User';
+
+// Get a customer's account - Admin only
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async () => {
+        try {
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const customer = await User.findById(id)
+                .select('firstName lastName email role active verified createdAt updatedAt')
+                .lean<{ firstName: string; lastName: string }>();
+            if (!customer) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Customer not found'),
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    { ...customer, name: `${customer.firstName} ${customer.lastName}`.trim() },
+                    'Customer retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching customer:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch customer'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'view_customers' });
+}
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../../utils/db';
+import { revokeUserSession } from '../../../../../../utils/sessions';
+
+// Sign a customer out of one device - Admin only
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id, sessionId } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const revoked = await revokeUserSession(id, sessionId, 'revoked_by_admin');
+            if (!revoked) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Session not found'),
+                    { status: 404 }
+                );
+            }
+
+            await recordAudit(req, user, {
+                action: 'revoke_session',
+                targetModel: 'User',
+                targetId: id,
+                path: `sessions.${sessionId}`,
+                before: { revoked: false },
+                after: { revoked: true },
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(null, 'Session revoked'));
+        } catch (error) {
+            console.error('Error revoking customer session:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to revoke session'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_customer_security' });
+}
@@ -0,0 +1,60 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { getLockoutStatus } from '../../../../../utils/accountLockout';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { getLoginHistory } from '../../../../../utils/loginHistory';
+import { listUserSessions } from '../../../../../utils/sessions';
+import User from '../../../models/User';
+
+// List a customer's active sessions, latest sign-in attempts, two-factor and lockout status - Admin only
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async () => {
+        try {
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const customer = await User.findById(id).select('twoFactorEnabled failedLoginAttempts lockedUntil');
+            if (!customer) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Customer not found'),
+                    { status: 404 }
+                );
+            }
+
+            const [sessions, loginHistory] = await Promise.all([
+                listUserSessions(id),
+                getLoginHistory(id),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        sessions,
+                        loginHistory,
+                        twoFactorEnabled: !!customer.twoFactorEnabled,
+                        lockout: getLockoutStatus(customer),
+                    },
+                    'Sessions retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching customer sessions:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch customer sessions'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'view_customers' });
+}
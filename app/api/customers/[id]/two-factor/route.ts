@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import { disableTwoFactor } from '../../../../../utils/twoFactor';
+
+// Reset a user's two-factor, for one who lost their device and recovery codes - Super admin by default.
+// If the policy requires two-factor for them, they set it up again at their next sign-in.
+export async function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Invalid customer ID format'),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const reset = await disableTwoFactor(id, user._id);
+            if (!reset) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Two-factor authentication is not on for this customer'),
+                    { status: 404 }
+                );
+            }
+
+            await recordAudit(req, user, {
+                action: 'reset_two_factor',
+                targetModel: 'User',
+                targetId: id,
+                before: { twoFactorEnabled: true },
+                after: { twoFactorEnabled: false },
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, 'Two-factor authentication reset')
+            );
+        } catch (error) {
+            console.error('Error resetting two-factor:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to reset two-factor authentication'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'reset_two_factor' });
+}
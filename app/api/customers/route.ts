@@ -1,30 +1,34 @@
+import { authMiddleware } from "@/middleware/authMiddleware";
 import dbConnect from "@/utils/db";
 import { NextRequest, NextResponse } from "next/server";
 import User from "../models/User";
 
 export async function GET(req: NextRequest) {
-    await dbConnect();
-    const { searchParams } = new URL(req.url);
-    const page = parseInt(searchParams.get("page") || "1");
-    const limit = parseInt(searchParams.get("limit") || "10");
-    const search = searchParams.get("search") || "";
+    return authMiddleware(req, async (req) => {
+        await dbConnect();
+        const { searchParams } = new URL(req.url);
+        const page = parseInt(searchParams.get("page") || "1");
+        const limit = parseInt(searchParams.get("limit") || "10");
+        const search = searchParams.get("search") || "";
 
-    const query = search
-        ? {
-            $or: [
-                { firstName: { $regex: search, $options: "i" } },
-                { lastName: { $regex: search, $options: "i" } },
-                { email: { $regex: search, $options: "i" } }
-            ]
-        }
-        : {};
+        const query = search
+            ? {
+                $or: [
+                    { firstName: { $regex: search, $options: "i" } },
+                    { lastName: { $regex: search, $options: "i" } },
+                    { email: { $regex: search, $options: "i" } }
+                ]
+            }
+            : {};
 
-    const customers = await User.find(query)
-        .skip((page - 1) * limit)
-        .limit(limit)
-        .sort({ createdAt: -1 });
+        const customers = await User.find(query)
+            .select("-password -verificationToken -resetPasswordToken")
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .sort({ createdAt: -1 });
 
-    const total = await User.countDocuments(query);
+        const total = await User.countDocuments(query);
 
-    return NextResponse.json({ customers, total, page, totalPages: Math.ceil(total / limit) });
+        return NextResponse.json({ customers, total, page, totalPages: Math.ceil(total / limit) });
+    }, { permission: 'view_customers' });
 }
@@ -0,0 +1,107 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { processEmailOutbox } from '../../../../utils/mail/outbox';
+import EmailOutbox, { EMAIL_OUTBOX_STATUSES } from '../../models/EmailOutbox';
+
+// List queued and sent emails - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const url = new URL(req.url);
+            const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+            const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '20')));
+            const status = url.searchParams.get('status');
+            const order = url.searchParams.get('order');
+
+            const query: Record<string, unknown> = {};
+
+            if (status && (EMAIL_OUTBOX_STATUSES as readonly string[]).includes(status)) {
+                query.status = status;
+            }
+            if (order && mongoose.Types.ObjectId.isValid(order)) {
+                query.order = order;
+            }
+
+            const [emails, total] = await Promise.all([
+                EmailOutbox.find(query)
+                    .select('-html -text')
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit),
+                EmailOutbox.countDocuments(query),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        emails,
+                        pagination: {
+                            currentPage: page,
+                            totalPages: Math.ceil(total / limit),
+                            total,
+                            hasNext: page * limit < total,
+                            hasPrev: page > 1,
+                        },
+                    },
+                    'Emails retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching email outbox:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch email outbox'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
+
+// Send the emails that are due now - Admin only; { "retry": "<id>" } first gives a failed email another round of attempts
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json().catch(() => ({}));
+
+            if (body.retry !== undefined) {
+                if (!mongoose.Types.ObjectId.isValid(body.retry)) {
+                    return NextResponse.json(
+                        ApiResponseHelper.error('Invalid email ID format'),
+                        { status: 400 }
+                    );
+                }
+
+                const email = await EmailOutbox.findOneAndUpdate(
+                    { _id: body.retry, status: 'failed' },
+                    { $set: { status: 'pending', attempts: 0, nextAttemptAt: new Date() } },
+                    { new: true }
+                );
+
+                if (!email) {
+                    return NextResponse.json(
+                        ApiResponseHelper.error('Only failed emails can be retried'),
+                        { status: 400 }
+                    );
+                }
+            }
+
+            const result = await processEmailOutbox();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(result, 'Email outbox processed')
+            );
+        } catch (error) {
+            console.error('Error processing email outbox:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to process email outbox'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
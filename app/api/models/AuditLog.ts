@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const AUDIT_ACTIONS = [
+    'create',
+    'update',
+    'delete',
+    'assign_role',
+    'unlock',
+    'revoke_session',
+    'reset_two_factor',
+    'clear_cache',
+    'reinitialize',
+] as const;
+
+export const AUDIT_TARGET_MODELS = [
+    'Product',
+    'Category',
+    'Order',
+    'Return',
+    'Review',
+    'User',
+    'Role',
+    'Coupon',
+    'ShippingZone',
+    'TaxRate',
+    'Settings',
+    'Cache',
+] as const;
+
+const AUDIT_IMMUTABLE_MESSAGE = 'Audit log entries cannot be changed or removed';
+
+// One field that changed, with its value before and after
+const auditChangeSchema = new mongoose.Schema(
+    {
+        field: {
+            type: String,
+            required: true,
+        },
+        before: mongoose.Schema.Types.Mixed,
+        after: mongoose.Schema.Types.Mixed,
+    },
+    { _id: false }
+);
+
+// One change made by a member of staff. Entries are only ever added (see utils/auditLog).
+const auditLogSchema = new mongoose.Schema(
+    {
+        actor: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        // Copied so the entry still reads correctly after the actor's account changes
+        actorEmail: {
+            type: String,
+            required: true,
+        },
+        actorRole: {
+            type: String,
+            required: true,
+        },
+        action: {
+            type: String,
+            enum: AUDIT_ACTIONS,
+            required: true,
+        },
+        targetModel: {
+            type: String,
+            enum: AUDIT_TARGET_MODELS,
+            required: true,
+        },
+        // A document id, or the key of a settings section; unset for store-wide operations
+        targetId: String,
+        // Name, number or email of the target when it was changed
+        targetLabel: String,
+        changes: {
+            type: [auditChangeSchema],
+            default: [],
+        },
+        // Matches the request id on the client's logs and on AppError
+        requestId: {
+            type: String,
+            required: true,
+        },
+        userAgent: String,
+        ip: String,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+auditLogSchema.index({ targetModel: 1, targetId: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+// Append only: saved entries cannot be edited or deleted through the model
+auditLogSchema.pre('save', function (next) {
+    next(this.isNew ? undefined : new Error(AUDIT_IMMUTABLE_MESSAGE));
+});
+
+auditLogSchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    function (next) {
+        next(new Error(AUDIT_IMMUTABLE_MESSAGE));
+    }
+);
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const AuditLog = mongoose.models.AuditLog || mongoose.model('AuditLog', auditLogSchema);
+
+export default AuditLog;
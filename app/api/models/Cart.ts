@@ -1,6 +1,9 @@
 import mongoose from 'mongoose';
 import connectToDatabase from '../../../utils/db';
 
+// Lifetime of a guest cart without activity, matching the anonymous cookie
+export const GUEST_CART_TTL_SECONDS = 30 * 24 * 60 * 60;
+
 const cartItemSchema = new mongoose.Schema(
     {
         cartItemKey: {
@@ -48,10 +51,13 @@ const cartItemSchema = new mongoose.Schema(
 
 const cartSchema = new mongoose.Schema(
     {
+        // Owner of the cart: a signed-in user, or a guest identified by their anonymous cookie
         user: {
             type: mongoose.Schema.Types.ObjectId,
             ref: 'User',
-            required: [true, 'User is required'],
+        },
+        guestId: {
+            type: String,
         },
         items: [cartItemSchema],
         totalItems: {
@@ -62,12 +68,35 @@ const cartSchema = new mongoose.Schema(
             type: Number,
             default: 0,
         },
+        // Coupon applied by the shopper; re-checked against the cart whenever it is priced
+        couponCode: {
+            type: String,
+            uppercase: true,
+            trim: true,
+            default: null,
+        },
     },
     {
         timestamps: true,
     }
 );
 
+cartSchema.pre('validate', function (next) {
+    if (!this.user && !this.guestId) {
+        this.invalidate('user', 'User is required');
+    }
+
+    next();
+});
+
+cartSchema.index({ guestId: 1 }, { unique: true, sparse: true });
+
+// Guest carts are dropped once the anonymous cookie they belong to has expired
+cartSchema.index(
+    { updatedAt: 1 },
+    { expireAfterSeconds: GUEST_CART_TTL_SECONDS, partialFilterExpression: { guestId: { $exists: true } } }
+);
+
 // Calculate totals before saving
 cartSchema.pre('save', function (next) {
     if (this.items && this.items.length > 0) {
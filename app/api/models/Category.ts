@@ -40,6 +40,12 @@ const categorySchema = new mongoose.Schema(
       type: Boolean,
       default: true,
     },
+    // Tax class for products in this category; unset for the standard class
+    taxClass: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
   },
   {
     timestamps: true,
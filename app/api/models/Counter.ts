@@ -0,0 +1,51 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+// Named sequences (e.g. daily order numbers), advanced atomically with $inc
+const counterSchema = new mongoose.Schema(
+    {
+        _id: {
+            type: String,
+            required: true,
+        },
+        seq: {
+            type: Number,
+            default: 0,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Counter = mongoose.models.Counter || mongoose.model('Counter', counterSchema);
+
+/**
+ * Advance a named sequence and return its new value
+ * @param name - Sequence name
+ * @param session - Transaction the value belongs to; aborting it gives the value back
+ * @returns The next value, starting at 1
+ */
+export const nextSequence = async (name: string, session?: mongoose.ClientSession): Promise<number> => {
+    try {
+        const counter = await Counter.findOneAndUpdate(
+            { _id: name },
+            { $inc: { seq: 1 } },
+            { new: true, upsert: true, session }
+        );
+        return counter.seq;
+    } catch (error) {
+        // Two first-of-the-day upserts can race; the loser retries against the now existing counter
+        if (error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000) {
+            const counter = await Counter.findOneAndUpdate({ _id: name }, { $inc: { seq: 1 } }, { new: true, session });
+            return counter.seq;
+        }
+        throw error;
+    }
+};
+
+export default Counter;
@@ -0,0 +1,138 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const COUPON_TYPES = ['percentage', 'fixed', 'free_shipping', 'buy_x_get_y'] as const;
+
+// Fields an admin may set; usage counts are maintained by checkout
+export const COUPON_EDITABLE_FIELDS = [
+    'code',
+    'description',
+    'type',
+    'value',
+    'maxDiscount',
+    'buyQuantity',
+    'getQuantity',
+    'minimumSpend',
+    'startsAt',
+    'expiresAt',
+    'usageLimit',
+    'usageLimitPerCustomer',
+    'products',
+    'categories',
+    'active',
+] as const;
+
+const couponSchema = new mongoose.Schema(
+    {
+        code: {
+            type: String,
+            required: [true, 'Coupon code is required'],
+            unique: true,
+            uppercase: true,
+            trim: true,
+            match: [/^[A-Z0-9_-]{3,30}$/, 'Coupon code must be 3-30 letters, digits, dashes or underscores'],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Description cannot exceed 200 characters'],
+        },
+        type: {
+            type: String,
+            enum: COUPON_TYPES,
+            required: [true, 'Coupon type is required'],
+        },
+        // Percent off for percentage coupons, amount off for fixed coupons
+        value: {
+            type: Number,
+            default: 0,
+            min: [0, 'Value cannot be negative'],
+        },
+        // Upper bound for percentage discounts
+        maxDiscount: {
+            type: Number,
+            min: [0, 'Maximum discount cannot be negative'],
+        },
+        // Buy-X-get-Y: every buyQuantity eligible units earn getQuantity of the cheapest ones free
+        buyQuantity: {
+            type: Number,
+            min: [1, 'Buy quantity must be at least 1'],
+        },
+        getQuantity: {
+            type: Number,
+            min: [1, 'Get quantity must be at least 1'],
+        },
+        minimumSpend: {
+            type: Number,
+            default: 0,
+            min: [0, 'Minimum spend cannot be negative'],
+        },
+        startsAt: Date,
+        expiresAt: Date,
+        // Total redemptions allowed across all customers; unset for unlimited
+        usageLimit: {
+            type: Number,
+            min: [1, 'Usage limit must be at least 1'],
+        },
+        usageLimitPerCustomer: {
+            type: Number,
+            min: [1, 'Per-customer limit must be at least 1'],
+        },
+        usageCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+        // Scope; when both are empty the coupon applies to the whole cart
+        products: [
+            {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'Product',
+            },
+        ],
+        categories: [
+            {
+                type: mongoose.Schema.Types.ObjectId,
+                ref: 'Category',
+            },
+        ],
+        active: {
+            type: Boolean,
+            default: true,
+        },
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+couponSchema.pre('validate', function (next) {
+    if (this.type === 'percentage' && (!this.value || this.value > 100)) {
+        this.invalidate('value', 'Percentage must be between 1 and 100');
+    }
+    if (this.type === 'fixed' && !this.value) {
+        this.invalidate('value', 'Amount off is required');
+    }
+    if (this.type === 'buy_x_get_y' && (!this.buyQuantity || !this.getQuantity)) {
+        this.invalidate('buyQuantity', 'Buy and get quantities are required');
+    }
+    if (this.startsAt && this.expiresAt && this.expiresAt <= this.startsAt) {
+        this.invalidate('expiresAt', 'Expiry date must be after the start date');
+    }
+
+    next();
+});
+
+couponSchema.index({ active: 1, expiresAt: 1 });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Coupon = mongoose.models.Coupon || mongoose.model('Coupon', couponSchema);
+
+export default Coupon;
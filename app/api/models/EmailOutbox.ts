@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const EMAIL_OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const;
+
+// How long delivered emails are kept before they are removed
+export const SENT_EMAIL_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// An email waiting to be sent, or the record of one that was; sends are retried until maxAttempts
+const emailOutboxSchema = new mongoose.Schema(
+    {
+        to: {
+            type: String,
+            required: [true, 'Recipient is required'],
+            lowercase: true,
+            trim: true,
+        },
+        subject: {
+            type: String,
+            required: [true, 'Subject is required'],
+        },
+        html: {
+            type: String,
+            required: true,
+        },
+        text: String,
+        replyTo: String,
+        // Template the email was rendered from, e.g. order_shipped
+        template: {
+            type: String,
+            required: true,
+        },
+        order: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Order',
+        },
+        // Identifies the event the email is about, so repeated triggers queue it once
+        dedupeKey: String,
+        status: {
+            type: String,
+            enum: EMAIL_OUTBOX_STATUSES,
+            default: 'pending',
+        },
+        attempts: {
+            type: Number,
+            default: 0,
+        },
+        maxAttempts: {
+            type: Number,
+            default: 5,
+        },
+        // Earliest time of the next send; pushed forward while a send is in flight,
+        // so a send that crashed is picked up again once it passes
+        nextAttemptAt: {
+            type: Date,
+            default: Date.now,
+        },
+        lastError: String,
+        transport: String,
+        messageId: String,
+        sentAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+emailOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+emailOutboxSchema.index({ dedupeKey: 1 }, { unique: true, sparse: true });
+emailOutboxSchema.index({ order: 1 });
+emailOutboxSchema.index(
+    { sentAt: 1 },
+    { expireAfterSeconds: SENT_EMAIL_TTL_SECONDS, partialFilterExpression: { status: 'sent' } }
+);
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const EmailOutbox = mongoose.models.EmailOutbox || mongoose.model('EmailOutbox', emailOutboxSchema);
+
+export default EmailOutbox;
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+// How long a key is remembered; retries after this are treated as new requests
+export const IDEMPOTENCY_KEY_TTL_SECONDS = 24 * 60 * 60;
+
+const idempotencyKeySchema = new mongoose.Schema(
+    {
+        key: {
+            type: String,
+            required: [true, 'Idempotency key is required'],
+            maxlength: [255, 'Idempotency key cannot exceed 255 characters'],
+        },
+        // Owner of the key: a user, or a guest shopping without an account
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        guestId: String,
+        // Operation the key was used for, e.g. orders:create
+        scope: {
+            type: String,
+            required: true,
+        },
+        // Hash of the original request body, used to reject reuse with a different payload
+        requestHash: {
+            type: String,
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: ['processing', 'completed'],
+            default: 'processing',
+        },
+        responseStatus: Number,
+        responseBody: mongoose.Schema.Types.Mixed,
+        createdAt: {
+            type: Date,
+            default: Date.now,
+            expires: IDEMPOTENCY_KEY_TTL_SECONDS,
+        },
+    }
+);
+
+idempotencyKeySchema.index({ user: 1, guestId: 1, scope: 1, key: 1 }, { unique: true });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const IdempotencyKey = mongoose.models.IdempotencyKey || mongoose.model('IdempotencyKey', idempotencyKeySchema);
+
+export default IdempotencyKey;
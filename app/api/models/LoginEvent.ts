@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const LOGIN_OUTCOMES = ['success', 'failed'] as const;
+export const LOGIN_FAILURE_REASONS = ['unknown_email', 'invalid_password', 'inactive', 'invalid_two_factor', 'locked'] as const;
+
+// Sign-in attempts are kept this long, then removed by MongoDB
+export const LOGIN_EVENT_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+// One sign-in attempt, successful or not
+const loginEventSchema = new mongoose.Schema(
+    {
+        // Unset when the email does not belong to an account
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        email: {
+            type: String,
+            required: true,
+            lowercase: true,
+            trim: true,
+        },
+        outcome: {
+            type: String,
+            enum: LOGIN_OUTCOMES,
+            required: true,
+        },
+        reason: {
+            type: String,
+            enum: LOGIN_FAILURE_REASONS,
+        },
+        // The session a successful sign-in started
+        session: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Session',
+        },
+        userAgent: String,
+        ip: String,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+loginEventSchema.index({ user: 1, createdAt: -1 });
+loginEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: LOGIN_EVENT_TTL_SECONDS });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const LoginEvent = mongoose.models.LoginEvent || mongoose.model('LoginEvent', loginEventSchema);
+
+export default LoginEvent;
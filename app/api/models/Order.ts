@@ -1,5 +1,10 @@
 import mongoose from 'mongoose';
 import connectToDatabase from '../../../utils/db';
+import { generateOrderNumber } from '../../../utils/orderNumber';
+import { ORDER_STATUSES } from '../../../utils/orderStatus';
+import { PAYMENT_METHODS, PAYMENT_STATUSES } from '../../../utils/payments';
+import { COUPON_TYPES } from './Coupon';
+import { SHIPPING_METHOD_TYPES } from './ShippingZone';
 
 const orderItemSchema = new mongoose.Schema(
     {
@@ -27,7 +32,25 @@ const orderItemSchema = new mongoose.Schema(
         },
         color: String,
         size: String,
+        // SKU of the variant ordered, for products sold in variants
+        sku: String,
         image: String,
+        // Tax charged on the line after its share of any discount
+        taxClass: String,
+        taxRate: {
+            type: Number,
+            default: 0,
+        },
+        taxPrice: {
+            type: Number,
+            default: 0,
+        },
+        // Units of this line already returned to stock
+        restockedQuantity: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
     },
     { _id: false }
 );
@@ -66,19 +89,42 @@ const shippingSchema = new mongoose.Schema(
     { _id: false }
 );
 
+const paymentActionSchema = new mongoose.Schema(
+    {
+        type: {
+            type: String,
+            enum: ['redirect'],
+        },
+        url: String,
+    },
+    { _id: false }
+);
+
 const paymentSchema = new mongoose.Schema(
     {
         method: {
             type: String,
             required: [true, 'Payment method is required'],
-            enum: ['credit_card', 'paypal', 'cash_on_delivery', 'bank_transfer'],
+            enum: PAYMENT_METHODS,
         },
+        // Gateway that handled the payment; unset for offline methods
+        provider: String,
         transactionId: String,
         status: {
             type: String,
-            enum: ['pending', 'paid', 'failed'],
+            enum: PAYMENT_STATUSES,
             default: 'pending',
         },
+        // Where to send the shopper to finish a 3-D Secure style challenge
+        nextAction: paymentActionSchema,
+        failureReason: String,
+        authorizedAt: Date,
+        capturedAt: Date,
+        // Amount returned through the gateway so far
+        refundedAmount: {
+            type: Number,
+            default: 0,
+        },
         details: {
             type: mongoose.Schema.Types.Mixed,
         },
@@ -86,17 +132,161 @@ const paymentSchema = new mongoose.Schema(
     { _id: false }
 );
 
+// Coupon applied to the order, kept as it was at checkout even if the coupon changes later
+const discountSchema = new mongoose.Schema(
+    {
+        coupon: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Coupon',
+        },
+        code: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: COUPON_TYPES,
+            required: true,
+        },
+        description: String,
+        // Amount taken off the items
+        amount: {
+            type: Number,
+            required: true,
+            min: [0, 'Discount amount must be positive'],
+        },
+        freeShipping: {
+            type: Boolean,
+            default: false,
+        },
+        appliedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+// Shipping method chosen at checkout, kept as it was quoted even if the zone changes later
+const shippingMethodSchema = new mongoose.Schema(
+    {
+        zone: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'ShippingZone',
+        },
+        zoneName: String,
+        // Id of the method within its zone
+        method: String,
+        name: {
+            type: String,
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: SHIPPING_METHOD_TYPES,
+            required: true,
+        },
+        price: {
+            type: Number,
+            required: true,
+            min: [0, 'Shipping price cannot be negative'],
+        },
+        estimatedDays: {
+            min: Number,
+            max: Number,
+        },
+    },
+    { _id: false }
+);
+
+const statusHistorySchema = new mongoose.Schema(
+    {
+        status: {
+            type: String,
+            enum: ORDER_STATUSES,
+            required: true,
+        },
+        from: {
+            type: String,
+            enum: ORDER_STATUSES,
+        },
+        changedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Status note cannot exceed 500 characters'],
+        },
+        changedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
+
+const refundSchema = new mongoose.Schema(
+    {
+        return: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Return',
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: [0, 'Refund amount must be positive'],
+        },
+        items: [
+            {
+                _id: false,
+                orderItemIndex: Number,
+                quantity: Number,
+                amount: Number,
+            },
+        ],
+        note: String,
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        createdAt: {
+            type: Date,
+            default: Date.now,
+        },
+    }
+);
+
 const orderSchema = new mongoose.Schema(
     {
+        // Unset for guest orders until the guest registers with the same email
         user: {
             type: mongoose.Schema.Types.ObjectId,
             ref: 'User',
-            required: true,
+        },
+        // Contact email of a guest order, used to look it up and to claim it on registration
+        guestEmail: {
+            type: String,
+            lowercase: true,
+            trim: true,
+        },
+        // Anonymous checkout session that placed a guest order, so it can follow up on it
+        guestId: {
+            type: String,
+            select: false,
         },
         orderNumber: {
             type: String,
             unique: true,
         },
+        // Assigned from its own sequence the first time an invoice is issued for the order
+        invoiceNumber: {
+            type: String,
+            unique: true,
+            sparse: true,
+        },
+        invoicedAt: Date,
         items: [orderItemSchema],
         shipping: shippingSchema,
         payment: paymentSchema,
@@ -104,6 +294,17 @@ const orderSchema = new mongoose.Schema(
             type: Number,
             required: true,
         },
+        discounts: [discountSchema],
+        discountPrice: {
+            type: Number,
+            default: 0,
+        },
+        // Set once the coupon redemptions of a cancelled order have been given back
+        couponReleased: {
+            type: Boolean,
+            default: false,
+        },
+        shippingMethod: shippingMethodSchema,
         shippingPrice: {
             type: Number,
             required: true,
@@ -113,15 +314,32 @@ const orderSchema = new mongoose.Schema(
             required: true,
             default: 0,
         },
+        // Part of taxPrice charged on shipping
+        shippingTaxPrice: {
+            type: Number,
+            default: 0,
+        },
+        // Set when item and shipping prices already contained the tax, so it is not added to the total
+        pricesIncludeTax: {
+            type: Boolean,
+            default: false,
+        },
         totalPrice: {
             type: Number,
             required: true,
         },
+        // Partial refunds issued against this order (e.g. from approved returns)
+        refunds: [refundSchema],
+        refundedAmount: {
+            type: Number,
+            default: 0,
+        },
         status: {
             type: String,
-            enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', "failed", "completed"],
+            enum: ORDER_STATUSES,
             default: 'pending',
         },
+        statusHistory: [statusHistorySchema],
         isPaid: {
             type: Boolean,
             default: false,
@@ -132,7 +350,20 @@ const orderSchema = new mongoose.Schema(
             default: false,
         },
         deliveredAt: Date,
+        cancelledAt: Date,
+        refundedAt: Date,
+        stockRestored: {
+            type: Boolean,
+            default: false,
+        },
+        stockRestoredAt: Date,
+        // Tracking number entered by hand on orders from before shipments were recorded
         trackingNumber: String,
+        // Parcels recorded in the Shipment collection; bumped with every new parcel
+        shipmentCount: {
+            type: Number,
+            default: 0,
+        },
         notes: String,
     },
     {
@@ -140,16 +371,42 @@ const orderSchema = new mongoose.Schema(
     }
 );
 
+// Payment callbacks look orders up by gateway transaction
+orderSchema.index({ 'payment.transactionId': 1 }, { sparse: true });
+
+// Guest orders are looked up and claimed by email
+orderSchema.index({ guestEmail: 1 }, { sparse: true });
+
+orderSchema.pre('validate', function (next) {
+    if (!this.user && !this.guestEmail) {
+        this.invalidate('guestEmail', 'An email address is required to order without an account');
+    }
+
+    next();
+});
+
 // Generate order number before saving a new order
 orderSchema.pre('save', async function (next) {
     // Only generate order number for new orders
     if (this.isNew) {
-        const count = await mongoose.models.Order.countDocuments();
-        const date = new Date();
-        const year = date.getFullYear().toString().slice(-2);
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
-        const day = date.getDate().toString().padStart(2, '0');
-        this.orderNumber = `ORD-${year}${month}${day}-${(count + 1).toString().padStart(5, '0')}`;
+        // Atomic per-day sequence; skip past numbers already taken by orders from before the counter existed
+        if (!this.orderNumber) {
+            let orderNumber = await generateOrderNumber();
+            for (let attempt = 1; attempt < 5 && (await mongoose.models.Order.exists({ orderNumber })); attempt++) {
+                orderNumber = await generateOrderNumber();
+            }
+            this.orderNumber = orderNumber;
+        }
+
+        // Seed the status timeline with the initial status
+        if (this.statusHistory.length === 0) {
+            this.statusHistory.push({
+                status: this.status,
+                changedBy: this.user,
+                note: 'Order placed',
+                changedAt: new Date(),
+            });
+        }
     }
 
     next();
@@ -2,6 +2,7 @@ import { ProductStatus } from '@/app/types/product';
 import mongoose from 'mongoose';
 import connectToDatabase from '../../../utils/db';
 import { determineProductStatus } from '../../../utils/productStatus';
+import { generateVariantSku, summarizeVariants } from '../../../utils/productVariants';
 
 // Helper function to generate SKU from product name
 const generateSKU = (name: string): string => {
@@ -12,6 +13,41 @@ const generateSKU = (name: string): string => {
     .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 };
 
+// One combination of option values with its own SKU, price and stock
+const productVariantSchema = new mongoose.Schema({
+  options: {
+    color: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    size: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+  },
+  sku: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  // Replaces the product's price and discount price when set
+  price: {
+    type: Number,
+    min: [0, "Variant price must be positive"],
+  },
+  stock: {
+    type: Number,
+    required: [true, "A variant must have a stock level"],
+    min: [0, "Variant stock must be positive"],
+    default: 0,
+  },
+  image: {
+    type: String, // One of the product's image URLs
+  },
+});
+
 const productSchema = new mongoose.Schema(
   {
     name: {
@@ -76,8 +112,14 @@ const productSchema = new mongoose.Schema(
       type: Boolean,
       default: true,
     },
+    // With variants, these list the option values in use and are kept in step by the pre-save hook
     color: [String],
     size: [String],
+    // Purchasable combinations of color and size; when present, quantity is the sum of their stock
+    variants: {
+      type: [productVariantSchema],
+      default: [],
+    },
     // Additional product specifications
     weight: {
       type: String,
@@ -95,6 +137,12 @@ const productSchema = new mongoose.Schema(
       type: String,
       default: "1 Year",
     },
+    // Tax class for this product; unset to use the category's class
+    taxClass: {
+      type: String,
+      trim: true,
+      lowercase: true,
+    },
     ratings: [
       {
         star: Number,
@@ -146,6 +194,16 @@ productSchema.pre("save", async function (next) {
     this.sku = sku;
   }
 
+  // Keep the shared quantity and option lists in step with the variants
+  if (this.variants.length > 0 && (this.isNew || this.isModified("variants"))) {
+    for (const variant of this.variants) {
+      if (!variant.sku && this.sku) {
+        variant.sku = generateVariantSku(this.sku, variant.options || {});
+      }
+    }
+    this.set(summarizeVariants(this.variants.toObject()));
+  }
+
   // Update status if quantity or active state has changed
   if (this.isModified("quantity") || this.isModified("active")) {
     this.status = determineProductStatus(this.quantity, this.active) as ProductStatus;
@@ -0,0 +1,130 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const RETURN_REASONS = [
+    'damaged',
+    'defective',
+    'wrong_item',
+    'not_as_described',
+    'no_longer_needed',
+    'other',
+] as const;
+
+export const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'received'] as const;
+
+const returnItemSchema = new mongoose.Schema(
+    {
+        // Position of the line in the order's items array (order lines have no _id)
+        orderItemIndex: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Product',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+        },
+        color: String,
+        size: String,
+        quantity: {
+            type: Number,
+            required: true,
+            min: [1, 'Quantity must be at least 1'],
+        },
+        unitPrice: {
+            type: Number,
+            required: true,
+        },
+        reason: {
+            type: String,
+            enum: RETURN_REASONS,
+            required: [true, 'Return reason is required'],
+        },
+    },
+    { _id: false }
+);
+
+const returnSchema = new mongoose.Schema(
+    {
+        rmaNumber: {
+            type: String,
+            unique: true,
+        },
+        order: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Order',
+            required: true,
+        },
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        items: {
+            type: [returnItemSchema],
+            validate: [(items: unknown[]) => items.length > 0, 'A return must contain at least one item'],
+        },
+        customerNote: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Note cannot exceed 1000 characters'],
+        },
+        status: {
+            type: String,
+            enum: RETURN_STATUSES,
+            default: 'requested',
+        },
+        adminNotes: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Admin notes cannot exceed 500 characters'],
+        },
+        refundAmount: {
+            type: Number,
+            default: 0,
+        },
+        reviewedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        reviewedAt: Date,
+        receivedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        receivedAt: Date,
+    },
+    {
+        timestamps: true,
+    }
+);
+
+returnSchema.index({ order: 1 });
+returnSchema.index({ user: 1, createdAt: -1 });
+returnSchema.index({ status: 1, createdAt: -1 });
+
+// Generate RMA number before saving a new return
+returnSchema.pre('save', function (next) {
+    if (this.isNew && !this.rmaNumber) {
+        const date = new Date();
+        const year = date.getFullYear().toString().slice(-2);
+        const month = (date.getMonth() + 1).toString().padStart(2, '0');
+        const suffix = new mongoose.Types.ObjectId().toString().slice(-6).toUpperCase();
+        this.rmaNumber = `RMA-${year}${month}-${suffix}`;
+    }
+
+    next();
+});
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Return = mongoose.models.Return || mongoose.model('Return', returnSchema);
+
+export default Return;
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+import { PERMISSION_KEYS } from '../../../utils/permissions';
+
+// A named set of permissions; users are given one through their `role` (see utils/roles)
+const roleSchema = new mongoose.Schema(
+    {
+        // Stored on users, so it never changes once the role exists
+        name: {
+            type: String,
+            required: [true, 'Role name is required'],
+            unique: true,
+            lowercase: true,
+            trim: true,
+            match: [/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Role name may only contain letters, numbers and dashes'],
+        },
+        label: {
+            type: String,
+            required: [true, 'Role label is required'],
+            trim: true,
+            maxlength: [50, 'Role label cannot be more than 50 characters'],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Role description cannot be more than 200 characters'],
+        },
+        permissions: {
+            type: [String],
+            enum: PERMISSION_KEYS,
+            default: [],
+        },
+        // Built-in roles cannot be deleted
+        system: {
+            type: Boolean,
+            default: false,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Role = mongoose.models.Role || mongoose.model('Role', roleSchema);
+
+export default Role;
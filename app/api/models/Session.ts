@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const SESSION_REVOKE_REASONS = [
+    'logout',
+    'logout_all',
+    'token_reuse',
+    'password_reset',
+    'revoked_by_user',
+    'revoked_by_admin',
+    'two_factor_required',
+] as const;
+
+// A signed-in device. Its refresh token is rotated on every use; the session is the token family,
+// so revoking it ends every token ever issued to that device.
+const sessionSchema = new mongoose.Schema(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+            required: [true, 'User is required'],
+        },
+        // Hash of the current refresh token secret
+        tokenHash: {
+            type: String,
+            required: true,
+        },
+        // Hash of the secret the current one replaced, accepted for a moment after rotation
+        // so that requests racing the rotation are not mistaken for a stolen token
+        previousTokenHash: String,
+        rotatedAt: Date,
+        // The session ends when it has not been refreshed by then; every refresh pushes it back
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        userAgent: String,
+        ip: String,
+        revokedAt: Date,
+        revokedReason: {
+            type: String,
+            enum: SESSION_REVOKE_REASONS,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+sessionSchema.index({ user: 1, revokedAt: 1, expiresAt: 1 });
+sessionSchema.index({ expiresAt: 1 });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Session = mongoose.models.Session || mongoose.model('Session', sessionSchema);
+
+export default Session;
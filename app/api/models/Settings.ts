@@ -89,10 +89,134 @@ export interface HomepageSettingsValue {
   };
 }
 
+// Date part of an order number; the sequence restarts whenever this part changes
+export type OrderNumberDatePattern = 'YYMMDD' | 'YYYYMMDD' | 'YYMM' | 'YYYYMM' | 'YYYY' | '';
+
+// Define the interface for Order Number Settings
+export interface OrderNumberSettingsValue {
+  prefix: string;
+  datePattern: OrderNumberDatePattern;
+  padding: number;
+}
+
+export const ORDER_NUMBER_DATE_PATTERNS: OrderNumberDatePattern[] = ['YYMMDD', 'YYYYMMDD', 'YYMM', 'YYYYMM', 'YYYY', ''];
+
+export const DEFAULT_ORDER_NUMBER_SETTINGS: OrderNumberSettingsValue = {
+  prefix: 'ORD',
+  datePattern: 'YYMMDD',
+  padding: 5
+};
+
+// Define the interface for Tax Settings
+export interface TaxSettingsValue {
+  // Catalog prices already contain tax, which is then extracted rather than added
+  pricesIncludeTax: boolean;
+  taxShipping: boolean;
+  shippingTaxClass: string;
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettingsValue = {
+  pricesIncludeTax: false,
+  taxShipping: false,
+  shippingTaxClass: 'standard'
+};
+
+// Seller details printed on invoices and packing slips, and the invoice number format
+export interface InvoiceSettingsValue {
+  sellerName: string;
+  address: string;
+  city: string;
+  state: string;
+  postalCode: string;
+  country: string;
+  email: string;
+  phone: string;
+  taxId: string;
+  prefix: string;
+  padding: number;
+  footerNote: string;
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettingsValue = {
+  sellerName: 'Elyana Shop',
+  address: '',
+  city: '',
+  state: '',
+  postalCode: '',
+  country: '',
+  email: '',
+  phone: '',
+  taxId: '',
+  prefix: 'INV',
+  padding: 6,
+  footerNote: 'Thank you for your order!'
+};
+
+// A shipping carrier; {trackingNumber} in the template is replaced with the parcel's tracking number
+export interface CarrierSetting {
+  code: string;
+  name: string;
+  trackingUrlTemplate: string;
+  active: boolean;
+}
+
+export interface CarrierSettingsValue {
+  carriers: CarrierSetting[];
+}
+
+export const DEFAULT_CARRIER_SETTINGS: CarrierSettingsValue = {
+  carriers: [
+    { code: 'ups', name: 'UPS', trackingUrlTemplate: 'https://www.ups.com/track?tracknum={trackingNumber}', active: true },
+    { code: 'fedex', name: 'FedEx', trackingUrlTemplate: 'https://www.fedex.com/fedextrack/?trknbr={trackingNumber}', active: true },
+    { code: 'usps', name: 'USPS', trackingUrlTemplate: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={trackingNumber}', active: true },
+    { code: 'dhl', name: 'DHL', trackingUrlTemplate: 'https://www.dhl.com/en/express/tracking.html?AWB={trackingNumber}', active: true },
+    { code: 'aramex', name: 'Aramex', trackingUrlTemplate: 'https://www.aramex.com/track/results?ShipmentNumber={trackingNumber}', active: true },
+    { code: 'other', name: 'Other', trackingUrlTemplate: '', active: true }
+  ]
+};
+
+// Wording of one email; {{path}} placeholders are filled when it is sent, blank lines separate paragraphs
+export interface EmailTemplateValue {
+  subject: string;
+  heading: string;
+  body: string;
+}
+
+// Templates edited by admins, by template key; missing keys use the built-in wording
+export interface EmailTemplatesSettingsValue {
+  templates: Partial<Record<string, EmailTemplateValue>>;
+}
+
+// Email verification policy for customer accounts
+export interface VerificationSettingsValue {
+  // Unverified accounts can browse and fill a cart, but not place orders or post reviews
+  requireVerifiedEmail: boolean;
+  // How long a verification link stays valid
+  tokenExpiresHours: number;
+  // How long a customer waits before another verification email can be sent
+  resendCooldownMinutes: number;
+}
+
+// Off until an admin turns it on, as accounts created before verification existed are not verified
+export const DEFAULT_VERIFICATION_SETTINGS: VerificationSettingsValue = {
+  requireVerifiedEmail: false,
+  tokenExpiresHours: 48,
+  resendCooldownMinutes: 2
+};
+
+export interface TwoFactorSettingsValue {
+  // Admins and super admins must set up two-factor authentication before they can sign in
+  requireForAdmins: boolean;
+}
+
+export const DEFAULT_TWO_FACTOR_SETTINGS: TwoFactorSettingsValue = {
+  requireForAdmins: false
+};
+
 // Define the interface for Settings document
 export interface SettingsDocument extends Document {
   name: string;
-  value: WebsiteThemeSettings | HomepageSettingsValue | undefined;
+  value: WebsiteThemeSettings | HomepageSettingsValue | OrderNumberSettingsValue | TaxSettingsValue | InvoiceSettingsValue | CarrierSettingsValue | EmailTemplatesSettingsValue | VerificationSettingsValue | TwoFactorSettingsValue | undefined;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const SHIPMENT_STATUSES = ['shipped', 'delivered'] as const;
+
+const shipmentItemSchema = new mongoose.Schema(
+    {
+        // Position of the line in the order's items array (order lines have no _id)
+        orderItemIndex: {
+            type: Number,
+            required: true,
+            min: 0,
+        },
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Product',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+        },
+        color: String,
+        size: String,
+        quantity: {
+            type: Number,
+            required: true,
+            min: [1, 'Quantity must be at least 1'],
+        },
+    },
+    { _id: false }
+);
+
+// One parcel of an order, with the units it contains and where to track it
+const shipmentSchema = new mongoose.Schema(
+    {
+        order: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'Order',
+            required: true,
+        },
+        // 1 for the first parcel of the order, 2 for the next and so on
+        packageNumber: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        // Carrier code from the carrier settings, with its name as it was when the parcel shipped
+        carrier: {
+            type: String,
+            required: [true, 'Carrier is required'],
+        },
+        carrierName: String,
+        trackingNumber: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Tracking number cannot exceed 100 characters'],
+        },
+        trackingUrl: String,
+        items: {
+            type: [shipmentItemSchema],
+            validate: [(items: unknown[]) => items.length > 0, 'A shipment must contain at least one item'],
+        },
+        status: {
+            type: String,
+            enum: SHIPMENT_STATUSES,
+            default: 'shipped',
+        },
+        shippedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        deliveredAt: Date,
+        notes: {
+            type: String,
+            trim: true,
+            maxlength: [500, 'Shipment notes cannot exceed 500 characters'],
+        },
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+shipmentSchema.index({ order: 1, packageNumber: 1 }, { unique: true });
+shipmentSchema.index({ trackingNumber: 1 }, { sparse: true });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const Shipment = mongoose.models.Shipment || mongoose.model('Shipment', shipmentSchema);
+
+export default Shipment;
@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+export const SHIPPING_METHOD_TYPES = ['flat', 'weight', 'price_tier'] as const;
+
+// Fields an admin may set on a zone
+export const SHIPPING_ZONE_EDITABLE_FIELDS = [
+    'name',
+    'countries',
+    'states',
+    'postalCodes',
+    'priority',
+    'methods',
+    'active',
+] as const;
+
+// One row of a rate table: the rate applies from `min` (kg for weight tables, subtotal for price tables) upwards
+const rateTierSchema = new mongoose.Schema(
+    {
+        min: {
+            type: Number,
+            required: [true, 'Tier start is required'],
+            min: [0, 'Tier start cannot be negative'],
+        },
+        rate: {
+            type: Number,
+            required: [true, 'Tier rate is required'],
+            min: [0, 'Tier rate cannot be negative'],
+        },
+    },
+    { _id: false }
+);
+
+const shippingMethodSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: [true, 'Method name is required'],
+        trim: true,
+        maxlength: [60, 'Method name cannot exceed 60 characters'],
+    },
+    type: {
+        type: String,
+        enum: SHIPPING_METHOD_TYPES,
+        required: [true, 'Method type is required'],
+    },
+    // Price for flat methods; base charge added to the matching tier for weight methods
+    rate: {
+        type: Number,
+        default: 0,
+        min: [0, 'Rate cannot be negative'],
+    },
+    tiers: [rateTierSchema],
+    // Items subtotal from which the method is free; unset to always charge
+    freeShippingThreshold: {
+        type: Number,
+        min: [0, 'Free shipping threshold cannot be negative'],
+    },
+    estimatedDays: {
+        min: {
+            type: Number,
+            min: [0, 'Delivery estimate cannot be negative'],
+        },
+        max: {
+            type: Number,
+            min: [0, 'Delivery estimate cannot be negative'],
+        },
+    },
+    active: {
+        type: Boolean,
+        default: true,
+    },
+});
+
+const shippingZoneSchema = new mongoose.Schema(
+    {
+        name: {
+            type: String,
+            required: [true, 'Zone name is required'],
+            trim: true,
+            maxlength: [80, 'Zone name cannot exceed 80 characters'],
+        },
+        // ISO country codes; an empty list matches every country
+        countries: [
+            {
+                type: String,
+                uppercase: true,
+                trim: true,
+            },
+        ],
+        // State names or codes within the countries; an empty list matches every state
+        states: [
+            {
+                type: String,
+                trim: true,
+            },
+        ],
+        // Postal code patterns where `*` matches any characters (e.g. `SW1*`, `90210`)
+        postalCodes: [
+            {
+                type: String,
+                uppercase: true,
+                trim: true,
+            },
+        ],
+        // Higher priority zones are matched first when several cover an address
+        priority: {
+            type: Number,
+            default: 0,
+        },
+        methods: [shippingMethodSchema],
+        active: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+shippingZoneSchema.pre('validate', function (next) {
+    const methods = this.methods as unknown as Array<{
+        type: string;
+        tiers: Array<{ min: number }>;
+        estimatedDays?: { min?: number; max?: number };
+    }>;
+
+    methods.forEach((method, index) => {
+        if (method.type !== 'flat' && method.tiers.length === 0) {
+            this.invalidate(`methods.${index}.tiers`, 'At least one rate tier is required');
+        }
+
+        const { min, max } = method.estimatedDays || {};
+        if (typeof min === 'number' && typeof max === 'number' && max < min) {
+            this.invalidate(`methods.${index}.estimatedDays.max`, 'Latest delivery day cannot be before the earliest');
+        }
+    });
+
+    next();
+});
+
+shippingZoneSchema.index({ active: 1, priority: -1 });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const ShippingZone = mongoose.models.ShippingZone || mongoose.model('ShippingZone', shippingZoneSchema);
+
+export default ShippingZone;
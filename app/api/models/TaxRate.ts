@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import connectToDatabase from '../../../utils/db';
+
+// Fields an admin may set on a rate
+export const TAX_RATE_EDITABLE_FIELDS = [
+    'name',
+    'country',
+    'state',
+    'taxClass',
+    'rate',
+    'active',
+] as const;
+
+const taxRateSchema = new mongoose.Schema(
+    {
+        name: {
+            type: String,
+            required: [true, 'Rate name is required'],
+            trim: true,
+            maxlength: [60, 'Rate name cannot exceed 60 characters'],
+        },
+        // ISO country code; empty for a rate that applies everywhere
+        country: {
+            type: String,
+            uppercase: true,
+            trim: true,
+            default: '',
+            match: [/^([A-Z]{2})?$/, 'Country must be a two-letter ISO code'],
+        },
+        // State name or code within the country; empty for the whole country
+        state: {
+            type: String,
+            trim: true,
+            default: '',
+        },
+        taxClass: {
+            type: String,
+            trim: true,
+            lowercase: true,
+            default: 'standard',
+            match: [/^[a-z0-9_-]{1,30}$/, 'Tax class must be up to 30 letters, digits, dashes or underscores'],
+        },
+        // Percentage, e.g. 8.875 for 8.875%
+        rate: {
+            type: Number,
+            required: [true, 'Rate is required'],
+            min: [0, 'Rate cannot be negative'],
+            max: [100, 'Rate cannot exceed 100%'],
+        },
+        active: {
+            type: Boolean,
+            default: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+taxRateSchema.pre('validate', function (next) {
+    if (this.state && !this.country) {
+        this.invalidate('state', 'A state rate needs a country');
+    }
+
+    next();
+});
+
+// One rate per class for each jurisdiction
+taxRateSchema.index({ country: 1, state: 1, taxClass: 1 }, { unique: true });
+
+// Make sure to connect to the database
+connectToDatabase();
+
+// Don't re-create the model if it already exists
+const TaxRate = mongoose.models.TaxRate || mongoose.model('TaxRate', taxRateSchema);
+
+export default TaxRate;
@@ -30,9 +30,9 @@ const userSchema = new mongoose.Schema(
             required: [true, "Password is required"],
             minlength: [6, "Password should be at least 6 characters"],
         },
+        // Name of a Role; customer, admin and super-admin are built in, admins can add more
         role: {
             type: String,
-            enum: ["customer", "admin", "super-admin"],
             default: "customer",
         },
         phone: String,
@@ -43,24 +43,50 @@ const userSchema = new mongoose.Schema(
         image: String,
         imageId: String,
         verificationToken: String,
+        verificationExpire: Date,
+        verificationSentAt: Date,
         verified: {
             type: Boolean,
             default: false,
         },
         resetPasswordToken: String,
         resetPasswordExpire: Date,
+        // Failed sign-ins in a row, counted per account whatever IP they come from (see utils/accountLockout)
+        failedLoginAttempts: {
+            type: Number,
+            default: 0,
+        },
+        lastFailedLoginAt: Date,
+        lockedUntil: Date,
+        twoFactorEnabled: {
+            type: Boolean,
+            default: false,
+        },
+        twoFactorEnabledAt: Date,
+        // TOTP secrets are stored encrypted (see utils/twoFactor)
+        twoFactorSecret: {
+            type: String,
+            select: false,
+        },
+        // Secret being set up, until the first code from it is confirmed
+        twoFactorPendingSecret: {
+            type: String,
+            select: false,
+        },
+        // Hashes of the unused recovery codes
+        twoFactorRecoveryCodes: {
+            type: [String],
+            select: false,
+        },
+        // Time step of the last accepted code, so a code cannot be used twice
+        twoFactorLastUsedStep: {
+            type: Number,
+            select: false,
+        },
+        // Filled in from the role whenever the user is loaded (see utils/roles), so role edits apply straight away
         permissions: {
             type: [String],
-            default: function (this: { role?: string }) {
-                switch (this.role) {
-                    case 'super-admin':
-                        return ['manage_products', 'manage_orders', 'manage_users', 'manage_categories', 'manage_uploads', 'view_stats'];
-                    case 'admin':
-                        return ['manage_products', 'manage_orders', 'manage_categories', 'manage_uploads'];
-                    default:
-                        return [];
-                }
-            }
+            default: undefined,
         }
     },
     {
@@ -71,30 +97,36 @@ const userSchema = new mongoose.Schema(
 // Don't re-create the model if it already exists
 const User = mongoose.models.User || mongoose.model('User', userSchema);
 
-// Create JWT token
-export const createToken = async (id: string) => {
+export const ACCESS_COOKIE_NAME = 'auth_token';
+
+// Access tokens are short-lived; sessions are kept going with the refresh token (see utils/sessions)
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+// Create JWT access token for a session
+export const createToken = async (id: string, sessionId: string, role: string) => {
     const secret = process.env.JWT_SECRET;
     if (!secret) {
         throw new Error('JWT_SECRET environment variable is not set');
     }
 
-    const token = await new SignJWT({ id })
+    const token = await new SignJWT({ id, sid: sessionId, role })
         .setProtectedHeader({ alg: 'HS256' })
         .setIssuedAt()
-        .setExpirationTime('30d')
+        .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
         .sign(new TextEncoder().encode(secret));
 
     return token;
 };
 
-// Set cookie with token for an existing response
+// Set cookie with access token for an existing response
 export const setTokenCookie = (response: NextResponse, token: string) => {
     response.cookies.set({
-        name: 'auth_token',
+        name: ACCESS_COOKIE_NAME,
         value: token,
-        httpOnly: false, // Allow JavaScript to read this cookie for frontend auth
+        httpOnly: true,
         secure: process.env.NODE_ENV === 'production',
-        maxAge: 30 * 24 * 60 * 60, // 30 days
+        sameSite: 'lax',
+        maxAge: ACCESS_TOKEN_TTL_SECONDS,
         path: '/',
     });
     return response;
@@ -115,7 +147,7 @@ export const comparePassword = async (password: string, hashedPassword: string)
 export const getUserById = async (id: string) => {
     await connectToDatabase();
     try {
-        return await User.findById(id).select('-password');
+        return await User.findById(id).select('-password -verificationToken -resetPasswordToken');
     } catch (error) {
         console.error('Error fetching user by ID:', error);
         return null;
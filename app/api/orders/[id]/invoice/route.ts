@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../../middleware/authMiddleware';
+import connectToDatabase from '../../../../../utils/db';
+import { isShopperOrder } from '../../../../../utils/guest';
+import { ensureInvoiceNumber, getInvoiceSettings } from '../../../../../utils/invoice';
+import { PrintableOrder, renderInvoicePdf } from '../../../../../utils/orderDocuments';
+import { can } from '../../../../../utils/permissions';
+import Order from '../../../models/Order';
+
+// Download the invoice PDF for a paid order - the first download issues its invoice number
+export function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    { message: 'Invalid order ID format' },
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const order = await Order.findById(id)
+                .select('+guestId')
+                .populate('user', 'email');
+
+            if (!order) {
+                return NextResponse.json(
+                    { message: 'Order not found' },
+                    { status: 404 }
+                );
+            }
+
+            const { user } = shopper;
+            if (
+                !can(user, 'view_orders') &&
+                !isShopperOrder(order, shopper)
+            ) {
+                return NextResponse.json(
+                    { message: 'Not authorized to view this order' },
+                    { status: 403 }
+                );
+            }
+
+            if (!order.invoiceNumber && !order.isPaid) {
+                return NextResponse.json(
+                    { message: 'An invoice is issued once the order is paid' },
+                    { status: 400 }
+                );
+            }
+
+            const [invoice, seller] = await Promise.all([
+                ensureInvoiceNumber(order._id),
+                getInvoiceSettings(),
+            ]);
+            const pdf = await renderInvoicePdf(order.toObject() as PrintableOrder, invoice, seller);
+
+            return new NextResponse(Buffer.from(pdf), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `inline; filename="invoice-${invoice.invoiceNumber}.pdf"`,
+                    'Cache-Control': 'private, no-store',
+                },
+            });
+        } catch (error) {
+            console.error('Error generating invoice:', error);
+            return NextResponse.json(
+                { message: error instanceof Error ? error.message : 'An error occurred' },
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../../middleware/authMiddleware';
+import connectToDatabase from '../../../../../utils/db';
+import { isShopperOrder } from '../../../../../utils/guest';
+import { getInvoiceSettings } from '../../../../../utils/invoice';
+import { PrintableOrder, renderPackingSlipsPdf } from '../../../../../utils/orderDocuments';
+import { can } from '../../../../../utils/permissions';
+import Order from '../../../models/Order';
+
+// Download the packing slip PDF for an order
+export function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    { message: 'Invalid order ID format' },
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const order = await Order.findById(id)
+                .select('+guestId')
+                .populate('user', 'email');
+
+            if (!order) {
+                return NextResponse.json(
+                    { message: 'Order not found' },
+                    { status: 404 }
+                );
+            }
+
+            const { user } = shopper;
+            if (
+                !can(user, 'view_orders') &&
+                !isShopperOrder(order, shopper)
+            ) {
+                return NextResponse.json(
+                    { message: 'Not authorized to view this order' },
+                    { status: 403 }
+                );
+            }
+
+            const seller = await getInvoiceSettings();
+            const pdf = await renderPackingSlipsPdf([order.toObject() as PrintableOrder], seller);
+
+            return new NextResponse(Buffer.from(pdf), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `inline; filename="packing-slip-${order.orderNumber}.pdf"`,
+                    'Cache-Control': 'private, no-store',
+                },
+            });
+        } catch (error) {
+            console.error('Error generating packing slip:', error);
+            return NextResponse.json(
+                { message: error instanceof Error ? error.message : 'An error occurred' },
+                { status: 500 }
+            );
+        }
+    });
+}
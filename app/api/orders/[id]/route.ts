@@ -1,15 +1,24 @@
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../../middleware/authMiddleware';
+import { authMiddleware, shopperMiddleware } from '../../../../middleware/authMiddleware';
+import { recordAudit } from '../../../../utils/auditLog';
+import { releaseOrderCoupons } from '../../../../utils/coupons';
 import connectToDatabase from '../../../../utils/db';
+import { isShopperOrder } from '../../../../utils/guest';
+import { restoreOrderStock } from '../../../../utils/inventory';
+import { notifyOrder, ORDER_STATUS_EMAIL_EVENTS } from '../../../../utils/mail/orderEmails';
+import { releaseOrderPayment } from '../../../../utils/payments/orderPayments';
+import { STOCK_RELEASING_STATUSES, canTransitionOrderStatus, getAllowedTransitions, isOrderStatus } from '../../../../utils/orderStatus';
+import { can } from '../../../../utils/permissions';
+import { OrderStatus } from '@/app/types/orders';
 import Order from '../../models/Order';
 
-// Get order by ID
+// Get order by ID - guests can view the orders placed from their cookie
 export function GET(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    return authMiddleware(req, async (req, user) => {
+    return shopperMiddleware(req, async (req, shopper) => {
         try {
             const { id } = await params;
 
@@ -25,11 +34,13 @@ export function GET(
 
             // Find order by ID
             const order = await Order.findById(id)
+                .select('+guestId')
                 .populate('user', 'firstName lastName email')
                 .populate({
                     path: 'items.product',
                     select: 'name price image',
-                });
+                })
+                .populate('statusHistory.changedBy', 'firstName lastName role');
 
             if (!order) {
                 return NextResponse.json(
@@ -39,10 +50,10 @@ export function GET(
             }
 
             // Check if user is authorized to view this order
+            const { user } = shopper;
             if (
-                user.role !== 'admin' &&
-                user.role !== 'super-admin' &&
-                order.user._id.toString() !== user._id.toString()
+                !can(user, 'view_orders') &&
+                !isShopperOrder(order, shopper)
             ) {
                 return NextResponse.json(
                     { message: 'Not authorized to view this order' },
@@ -50,7 +61,11 @@ export function GET(
                 );
             }
 
-            return NextResponse.json(order);
+            // The guest id only proves ownership and is never sent back
+            const orderObject = order.toObject();
+            delete orderObject.guestId;
+
+            return NextResponse.json(orderObject);
         } catch (error) {
             console.error('Error fetching order:', error);
             return NextResponse.json(
@@ -67,10 +82,6 @@ export function PUT(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         try {
             const { id } = await params;
 
@@ -96,23 +107,124 @@ export function PUT(
                     { status: 404 }
                 );
             }
+            const previousOrder = order.toObject();
+
+            // Status changes must follow the order lifecycle
+            if (updateData.status !== undefined && updateData.status !== order.status) {
+                if (!isOrderStatus(updateData.status)) {
+                    return NextResponse.json(
+                        { message: `Invalid order status: ${updateData.status}` },
+                        { status: 400 }
+                    );
+                }
+
+                const currentStatus = order.status as OrderStatus;
+                if (!canTransitionOrderStatus(currentStatus, updateData.status)) {
+                    const allowed = getAllowedTransitions(currentStatus);
+                    return NextResponse.json(
+                        {
+                            message: `Cannot change order status from ${currentStatus} to ${updateData.status}`,
+                            allowedStatuses: allowed,
+                        },
+                        { status: 400 }
+                    );
+                }
+
+                const now = new Date();
+                order.status = updateData.status;
+                order.statusHistory.push({
+                    status: updateData.status,
+                    from: currentStatus,
+                    changedBy: user._id,
+                    note: typeof updateData.note === 'string' ? updateData.note.trim() : undefined,
+                    changedAt: now,
+                });
+
+                if (updateData.status === 'delivered') {
+                    order.isDelivered = true;
+                    order.deliveredAt = now;
+                }
+                if (updateData.status === 'cancelled') {
+                    order.cancelledAt = now;
+                }
+                if (updateData.status === 'refunded') {
+                    order.refundedAt = now;
+                }
+            }
+
+            // Other editable fields; everything else is managed by the server
+            if (typeof updateData.isPaid === 'boolean' && updateData.isPaid !== order.isPaid) {
+                // Gateway payments are settled by their provider, not by hand
+                if (order.payment?.provider) {
+                    return NextResponse.json(
+                        { message: 'Payment status for this order is managed by the payment provider' },
+                        { status: 400 }
+                    );
+                }
+                order.isPaid = updateData.isPaid;
+                order.paidAt = updateData.isPaid ? new Date() : undefined;
+                order.payment.status = updateData.isPaid ? 'paid' : 'pending';
+            }
+            if (typeof updateData.trackingNumber === 'string') {
+                order.trackingNumber = updateData.trackingNumber.trim();
+            }
+            if (typeof updateData.notes === 'string') {
+                order.notes = updateData.notes;
+            }
+
+            const statusEmail = order.isModified('status') ? ORDER_STATUS_EMAIL_EVENTS[order.status as OrderStatus] : undefined;
+            const markedPaid = order.isModified('isPaid') && order.isPaid;
+            const releasesStock = order.isModified('status') && STOCK_RELEASING_STATUSES.includes(order.status);
+
+            // Save the status change and return stock in a single transaction
+            const session = await mongoose.startSession();
+            session.startTransaction();
+
+            try {
+                await order.save({ session });
+
+                if (releasesStock) {
+                    await restoreOrderStock(order._id, session);
+                    await releaseOrderCoupons(order._id, session);
+                }
+
+                await session.commitTransaction();
+            } catch (transactionError) {
+                await session.abortTransaction();
+                throw transactionError;
+            } finally {
+                session.endSession();
+            }
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Order',
+                targetId: id,
+                targetLabel: order.orderNumber,
+                before: previousOrder,
+                after: order,
+            });
+
+            // Void or refund the gateway payment behind a cancelled, refunded or failed order
+            const released = releasesStock ? await releaseOrderPayment(order._id) : null;
+
+            // Let the customer know
+            if (markedPaid) {
+                await notifyOrder(order._id, 'paid');
+            }
+            if (statusEmail) {
+                await notifyOrder(order._id, statusEmail, {
+                    refundAmount: released?.status === 'refunded' ? released.amount : undefined,
+                });
+            }
 
-            // Update order
-            const updatedOrder = await Order.findByIdAndUpdate(
-                id,
-                {
-                    ...updateData,
-                    ...(updateData.status === 'delivered' ? { isDelivered: true, deliveredAt: new Date() } : {}),
-                    ...(updateData.status === 'cancelled' ? { isCancelled: true, cancelledAt: new Date() } : {}),
-                    ...(updateData.isPaid && !order.isPaid ? { paidAt: new Date() } : {}),
-                },
-                { new: true, runValidators: true }
-            )
+            const updatedOrder = await Order.findById(id)
                 .populate('user', 'firstName lastName email')
                 .populate({
                     path: 'items.product',
                     select: 'name price image',
-                });
+                })
+                .populate('statusHistory.changedBy', 'firstName lastName role');
 
             return NextResponse.json(updatedOrder);
         } catch (error) {
@@ -122,7 +234,7 @@ export function PUT(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_orders' });
 }
 
 // Delete order - Admin only
@@ -131,10 +243,6 @@ export function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         try {
             const { id } = await params;
 
@@ -166,8 +274,31 @@ export function DELETE(
                 );
             }
 
-            // Delete order
-            await Order.findByIdAndDelete(id);
+            // Release any payment hold, then delete the order and put its reserved stock and coupon use back
+            await releaseOrderPayment(order._id);
+
+            const session = await mongoose.startSession();
+            session.startTransaction();
+
+            try {
+                await restoreOrderStock(order._id, session);
+                await releaseOrderCoupons(order._id, session);
+                await Order.findByIdAndDelete(id, { session });
+                await session.commitTransaction();
+            } catch (transactionError) {
+                await session.abortTransaction();
+                throw transactionError;
+            } finally {
+                session.endSession();
+            }
+
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Order',
+                targetId: id,
+                targetLabel: order.orderNumber,
+                before: order,
+            });
 
             return NextResponse.json(
                 { message: 'Order deleted successfully' },
@@ -180,5 +311,5 @@ export function DELETE(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_orders' });
 } 
\ No newline at end of file
@@ -0,0 +1,125 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../../utils/db';
+import { buildTrackingUrl, getCarrierSettings, markShipmentDelivered, ShipmentError } from '../../../../../../utils/shipments';
+import { Validator } from '../../../../../../utils/validation';
+import Shipment from '../../../../models/Shipment';
+
+// Mark a parcel delivered ({ action: 'deliver' }) or correct its carrier, tracking number and notes - Admin only
+export function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string; shipmentId: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id, shipmentId } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(shipmentId)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid order or shipment ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as {
+                action?: string;
+                carrier?: string;
+                trackingNumber?: string;
+                notes?: string;
+            };
+
+            if (data.action === 'deliver') {
+                const previousShipment = await Shipment.findOne({ _id: shipmentId, order: id }).lean();
+                const shipment = await markShipmentDelivered(id, shipmentId, user._id);
+
+                await recordAudit(req, user, {
+                    action: 'update',
+                    targetModel: 'Order',
+                    targetId: id,
+                    path: `shipments.${shipmentId}`,
+                    before: previousShipment,
+                    after: shipment,
+                });
+
+                return NextResponse.json(
+                    ApiResponseHelper.success(shipment, 'Package marked as delivered')
+                );
+            }
+            if (data.action !== undefined) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ action: 'Action must be deliver' }),
+                    { status: 400 }
+                );
+            }
+
+            const shipment = await Shipment.findOne({ _id: shipmentId, order: id });
+
+            if (!shipment) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Shipment'),
+                    { status: 404 }
+                );
+            }
+            const previousShipment = shipment.toObject();
+
+            const { carriers } = await getCarrierSettings();
+
+            if (typeof data.carrier === 'string' && data.carrier !== shipment.carrier) {
+                const carrier = carriers.find((c) => c.code === data.carrier && c.active);
+                if (!carrier) {
+                    return NextResponse.json(
+                        ApiResponseHelper.validationError({ carrier: 'Choose one of the active carriers' }),
+                        { status: 400 }
+                    );
+                }
+                shipment.carrier = carrier.code;
+                shipment.carrierName = carrier.name;
+            }
+            if (typeof data.trackingNumber === 'string') {
+                shipment.trackingNumber = data.trackingNumber.trim() || undefined;
+            }
+            if (typeof data.notes === 'string') {
+                shipment.notes = data.notes;
+            }
+
+            // Rebuild the link from the carrier's current template whenever the carrier or number changes
+            if (shipment.isModified('carrier') || shipment.isModified('trackingNumber')) {
+                const carrier = carriers.find((c) => c.code === shipment.carrier);
+                shipment.trackingUrl = carrier ? buildTrackingUrl(carrier, shipment.trackingNumber) : undefined;
+            }
+
+            await shipment.save();
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Order',
+                targetId: id,
+                path: `shipments.${shipmentId}`,
+                before: previousShipment,
+                after: shipment,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(shipment, 'Shipment updated successfully')
+            );
+        } catch (error) {
+            if (error instanceof ShipmentError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error updating shipment:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update shipment'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_orders' });
+}
@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware, shopperMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import { isShopperOrder } from '../../../../../utils/guest';
+import { can } from '../../../../../utils/permissions';
+import { createShipment, RequestedShipmentItem, ShipmentError } from '../../../../../utils/shipments';
+import { Validator } from '../../../../../utils/validation';
+import Order from '../../../models/Order';
+import Shipment from '../../../models/Shipment';
+
+// List the parcels of an order - owner or admin
+export function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid order ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const order = await Order.findById(id).select('user +guestId').populate('user', '_id');
+
+            if (!order) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Order'),
+                    { status: 404 }
+                );
+            }
+
+            const { user } = shopper;
+            if (
+                !can(user, 'view_orders') &&
+                !isShopperOrder(order, shopper)
+            ) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Not authorized to view this order'),
+                    { status: 403 }
+                );
+            }
+
+            const shipments = await Shipment.find({ order: id })
+                .select('-createdBy')
+                .sort({ packageNumber: 1 })
+                .lean();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(shipments, 'Shipments retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching shipments:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve shipments'),
+                { status: 500 }
+            );
+        }
+    });
+}
+
+// Record a parcel for some or all of the order's remaining units - Admin only
+export function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid order ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as {
+                carrier: string;
+                trackingNumber?: string;
+                notes?: string;
+                items?: RequestedShipmentItem[] | Record<string, RequestedShipmentItem>;
+            };
+
+            if (typeof data.carrier !== 'string' || !data.carrier) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ carrier: 'Carrier is required' }),
+                    { status: 400 }
+                );
+            }
+            if (data.trackingNumber !== undefined && typeof data.trackingNumber !== 'string') {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ trackingNumber: 'Tracking number must be text' }),
+                    { status: 400 }
+                );
+            }
+
+            const shipment = await createShipment(
+                id,
+                {
+                    carrier: data.carrier,
+                    trackingNumber: data.trackingNumber,
+                    notes: typeof data.notes === 'string' ? data.notes : undefined,
+                    items: Array.isArray(data.items) ? data.items : Object.values(data.items || {}),
+                },
+                user._id
+            );
+
+            // Parcels are part of the order, so they show in its history
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Order',
+                targetId: id,
+                path: `shipments.${shipment._id}`,
+                after: shipment,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(shipment, 'Shipment recorded successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            if (error instanceof ShipmentError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error creating shipment:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to record shipment'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_orders' });
+}
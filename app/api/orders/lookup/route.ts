@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimiters } from '../../../../middleware/rateLimiting';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { Validator } from '../../../../utils/validation';
+import Order from '../../models/Order';
+
+const lookupSchema = {
+    orderNumber: { required: true, type: 'string' as const, min: 3, max: 40 },
+    email: { required: true, type: 'email' as const, max: 254 },
+};
+
+// Find a guest order by its order number and the email it was placed with
+export async function POST(req: NextRequest) {
+    return rateLimiters.auth(req, async (req) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const { orderNumber, email } = Validator.sanitizeInput(rawData) as { orderNumber: string; email: string };
+
+            const { isValid, errors } = Validator.validate({ orderNumber, email }, lookupSchema);
+            if (!isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const order = await Order.findOne({
+                orderNumber: orderNumber.trim().toUpperCase(),
+                guestEmail: email.trim().toLowerCase(),
+            })
+                .select('-user')
+                .populate({
+                    path: 'items.product',
+                    select: 'name price image',
+                });
+
+            // The same answer for a wrong number or a wrong email, so neither can be probed on its own
+            if (!order) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('No order matches that order number and email address'),
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                ApiResponseHelper.success(order, 'Order retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error looking up guest order:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to look up order'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import connectToDatabase from '../../../../utils/db';
+import { getInvoiceSettings } from '../../../../utils/invoice';
+import { PrintableOrder, renderPackingSlipsPdf } from '../../../../utils/orderDocuments';
+import Order from '../../models/Order';
+
+// Enough for a day's picking run without building an unbounded PDF in memory
+const MAX_ORDERS = 100;
+
+// Print the packing slips of several orders as one PDF - Admin only
+// ?ids=<id>,<id>,... ; slips come out in the order the ids are given
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async (req) => {
+        try {
+            const ids = Array.from(new Set(
+                (req.nextUrl.searchParams.get('ids') || '')
+                    .split(',')
+                    .map((id) => id.trim())
+                    .filter(Boolean)
+            ));
+
+            if (ids.length === 0) {
+                return NextResponse.json(
+                    { message: 'Select at least one order' },
+                    { status: 400 }
+                );
+            }
+            if (ids.length > MAX_ORDERS) {
+                return NextResponse.json(
+                    { message: `Packing slips can be printed for up to ${MAX_ORDERS} orders at a time` },
+                    { status: 400 }
+                );
+            }
+            if (!ids.every((id) => mongoose.Types.ObjectId.isValid(id))) {
+                return NextResponse.json(
+                    { message: 'Invalid order ID format' },
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const orders = await Order.find({ _id: { $in: ids } }).lean<(PrintableOrder & { _id: mongoose.Types.ObjectId })[]>();
+            if (orders.length !== ids.length) {
+                return NextResponse.json(
+                    { message: 'Some of the selected orders were not found' },
+                    { status: 404 }
+                );
+            }
+
+            const byId = new Map(orders.map((order) => [order._id.toString(), order]));
+            const seller = await getInvoiceSettings();
+            const pdf = await renderPackingSlipsPdf(ids.map((id) => byId.get(id) as PrintableOrder), seller);
+
+            return new NextResponse(Buffer.from(pdf), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `inline; filename="packing-slips-${new Date().toISOString().slice(0, 10)}.pdf"`,
+                    'Cache-Control': 'private, no-store',
+                },
+            });
+        } catch (error) {
+            console.error('Error generating packing slips:', error);
+            return NextResponse.json(
+                { message: error instanceof Error ? error.message : 'An error occurred' },
+                { status: 500 }
+            );
+        }
+    }, { permission: 'view_orders' });
+}
@@ -1,8 +1,29 @@
-import { CartItem, PopulatedProduct } from '@/app/types/cart';
+import { CartItem } from '@/app/types/cart';
+import { ProductVariant } from '@/app/types/product';
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, hasPermission } from '../../../middleware/authMiddleware';
+import { authMiddleware, shopperMiddleware } from '../../../middleware/authMiddleware';
+import { CouponError, evaluateCoupon, redeemCoupon } from '../../../utils/coupons';
 import connectToDatabase from '../../../utils/db';
+import { requireVerifiedEmail } from '../../../utils/emailVerification';
+import { CartOwner, getCartOwner, getCouponCustomer, Shopper } from '../../../utils/guest';
+import { withIdempotency } from '../../../utils/idempotency';
+import { InsufficientStockError, reserveStock } from '../../../utils/inventory';
+import { notifyOrder } from '../../../utils/mail/orderEmails';
+import {
+    getPaymentProvider,
+    isOnlinePaymentMethod,
+    isPaymentMethod,
+    PAYMENT_CURRENCY,
+    PaymentResult,
+    toPaymentStatus,
+} from '../../../utils/payments';
+import { captureOrderPayment } from '../../../utils/payments/orderPayments';
+import { can } from '../../../utils/permissions';
+import { calculateLineTotal, calculateOrderTotals } from '../../../utils/pricing';
+import { findProductVariant, formatVariantOptions, getVariantUnitPrice } from '../../../utils/productVariants';
+import { quoteShippingMethod, ShippingError } from '../../../utils/shipping';
+import { calculateOrderTax } from '../../../utils/tax';
 import { Validator } from '../../../utils/validation';
 import Cart from '../models/Cart';
 import Order from '../models/Order';
@@ -21,7 +42,7 @@ export function GET(req: NextRequest) {
 
             let query: Record<string, string | boolean | mongoose.Types.ObjectId> = {};
 
-            const hasAdminAccess = hasPermission(user, 'manage_orders') === null;
+            const hasAdminAccess = can(user, 'view_orders');
 
             if (!hasAdminAccess) {
                 query = { user: user._id };
@@ -76,122 +97,351 @@ export function GET(req: NextRequest) {
     });
 }
 
-// Create a new order
-export function POST(req: NextRequest) {
-    return authMiddleware(req, async (req, user) => {
+// Raised for order payloads the shopper needs to correct
+class OrderValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OrderValidationError';
+    }
+}
+
+const guestOrderSchema = {
+    email: { required: true, type: 'email' as const, max: 254 },
+};
+
+interface RequestedOrderItem {
+    product: string;
+    quantity: number;
+    color?: string;
+    size?: string;
+}
+
+interface PricingProduct {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    price: number;
+    discountPrice?: number;
+    image?: string;
+    variants?: ProductVariant[];
+}
+
+// Build order lines from current product and variant prices, ignoring any client-supplied amounts
+async function priceOrderItems(requestedItems: RequestedOrderItem[]) {
+    const productIds = requestedItems.map((item) => item.product);
+    const products: PricingProduct[] = await Product.find({
+        _id: { $in: productIds },
+        active: true,
+    }).select('name price discountPrice image variants');
+
+    const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+    return requestedItems.map((item) => {
+        const product = productMap.get(item.product.toString());
+        if (!product) {
+            throw new OrderValidationError(`Product ${item.product} is no longer available`);
+        }
+
+        // Products sold in variants must be ordered as one of them
+        const variant = findProductVariant(product.variants, item);
+        if (product.variants?.length && !variant) {
+            const options = formatVariantOptions(item);
+            throw new OrderValidationError(
+                options
+                    ? `${product.name} is not available in ${options}`
+                    : `Please choose the options of ${product.name}`
+            );
+        }
+
+        const price = getVariantUnitPrice(product, variant);
+
+        return {
+            product: product._id,
+            name: product.name,
+            quantity: item.quantity,
+            price,
+            totalPrice: calculateLineTotal(price, item.quantity),
+            color: item.color || undefined,
+            size: item.size || undefined,
+            sku: variant?.sku,
+            image: variant?.image || product.image,
+        };
+    });
+}
+
+// Price, pay for and place an order from the request body; guests order with just an email address
+async function createOrder(req: Request, shopper: Shopper, owner: CartOwner): Promise<NextResponse> {
+    try {
+        await connectToDatabase();
+
+        const orderData = await req.json();
+
+        // Sanitize the data but preserve the items array structure
+        const sanitizedData = Validator.sanitizeInput(orderData) as typeof orderData;
+
+        let guestEmail: string | undefined;
+        if (!shopper.user) {
+            const { isValid } = Validator.validate({ email: sanitizedData.email }, guestOrderSchema);
+            if (!isValid) {
+                return NextResponse.json({ message: 'Please enter a valid email address' }, { status: 400 });
+            }
+            guestEmail = sanitizedData.email.trim().toLowerCase();
+        }
+
+        // Fix the items array if it was converted to an object
+        if (sanitizedData.items && typeof sanitizedData.items === 'object' && !Array.isArray(sanitizedData.items)) {
+            sanitizedData.items = Object.values(sanitizedData.items);
+        }
+
+        // Only product references, quantities, variants, the coupon code and the shipping method are taken from the client
+        let requestedItems: RequestedOrderItem[] = [];
+        let couponCode: string | undefined = typeof sanitizedData.couponCode === 'string' && sanitizedData.couponCode
+            ? sanitizedData.couponCode
+            : undefined;
+
+        if (sanitizedData.items && sanitizedData.items.length > 0) {
+            requestedItems = sanitizedData.items.map((it: { product: string | { _id: string }; quantity: number; color?: string; size?: string; }) => ({
+                product: typeof it.product === 'object' && it.product ? it.product._id : it.product,
+                quantity: Number(it.quantity),
+                color: it.color,
+                size: it.size,
+            }));
+        } else {
+            // Get the shopper's cart if items aren't provided
+            const cart = await Cart.findOne(owner);
+
+            if (!cart || cart.items.length === 0) {
+                return NextResponse.json({ message: 'Cart is empty' }, { status: 400 });
+            }
+
+            requestedItems = cart.items.map((item: CartItem) => ({
+                product: item.product.toString(),
+                quantity: item.quantity,
+                color: item.variants?.color || item.color,
+                size: item.variants?.size || item.size,
+            }));
+            couponCode = couponCode || cart.couponCode || undefined;
+        }
+
+        for (const item of requestedItems) {
+            if (!item.product || !mongoose.Types.ObjectId.isValid(item.product)) {
+                return NextResponse.json({ message: 'Invalid product in order items' }, { status: 400 });
+            }
+            if (!Number.isInteger(item.quantity) || item.quantity < 1) {
+                return NextResponse.json({ message: 'Item quantities must be whole numbers of at least 1' }, { status: 400 });
+            }
+        }
+
+        const paymentMethod = sanitizedData.payment?.method;
+        if (!isPaymentMethod(paymentMethod)) {
+            return NextResponse.json({ message: 'Please select a valid payment method' }, { status: 400 });
+        }
+
+        // Recompute every line and the order totals on the server
+        const items = await priceOrderItems(requestedItems);
+        const itemsPrice = items.reduce((sum, item) => sum + item.totalPrice, 0);
+
+        // The coupon is checked again against the server-priced lines
+        const discount = couponCode ? await evaluateCoupon(couponCode, getCouponCustomer(shopper, guestEmail), items) : null;
+
+        // The chosen method is re-quoted for the address; the cheapest one is used when none was chosen
+        if (!sanitizedData.shipping?.country) {
+            return NextResponse.json({ message: 'Shipping country is required' }, { status: 400 });
+        }
+        const shippingRate = await quoteShippingMethod(
+            sanitizedData.shipping,
+            items,
+            typeof sanitizedData.shippingMethod === 'string' && sanitizedData.shippingMethod
+                ? sanitizedData.shippingMethod
+                : undefined
+        );
+
+        const adjustments = {
+            discount: discount?.amount,
+            freeShipping: discount?.freeShipping,
+            shippingPrice: shippingRate.price,
+        };
+
+        // Tax follows the discounted lines and the shipping actually charged, so it is worked out from the pre-tax totals
+        const preTaxTotals = calculateOrderTotals(itemsPrice, adjustments);
+        const tax = await calculateOrderTax(sanitizedData.shipping, items, {
+            discount: preTaxTotals.discount,
+            shippingPrice: preTaxTotals.shippingPrice,
+        });
+        const totals = calculateOrderTotals(itemsPrice, {
+            ...adjustments,
+            taxPrice: tax.taxPrice,
+            pricesIncludeTax: tax.pricesIncludeTax,
+        });
+
+        // Online methods are authorized before anything is reserved; offline ones stay pending until paid
+        const provider = isOnlinePaymentMethod(paymentMethod) ? getPaymentProvider() : null;
+        if (isOnlinePaymentMethod(paymentMethod) && !provider) {
+            throw new Error('No payment provider is configured');
+        }
+
+        let authorization: PaymentResult | null = null;
+
+        if (provider) {
+            authorization = await provider.authorize({
+                amount: totals.total,
+                currency: PAYMENT_CURRENCY,
+                method: paymentMethod,
+                reference: `${shopper.user?._id || shopper.guestId}-${Date.now()}`,
+                source: {
+                    cardNumber: sanitizedData.payment.cardNumber,
+                    expiryDate: sanitizedData.payment.expiryDate,
+                    cvv: sanitizedData.payment.cvv,
+                    cardHolderName: sanitizedData.payment.cardHolderName,
+                },
+            });
+
+            if (authorization.status === 'declined' || authorization.status === 'failed') {
+                return NextResponse.json(
+                    {
+                        message: authorization.message || 'Your payment was declined',
+                        payment: { status: 'failed', reason: authorization.message },
+                    },
+                    { status: 402 }
+                );
+            }
+        }
+
+        const requiresAction = authorization?.status === 'requires_action';
+
+        const newOrder = {
+            user: shopper.user?._id,
+            guestEmail,
+            guestId: shopper.user ? undefined : shopper.guestId,
+            items: items.map((item, index) => ({ ...item, ...tax.lines[index] })),
+            shipping: sanitizedData.shipping,
+            payment: {
+                method: paymentMethod,
+                provider: provider?.name,
+                transactionId: authorization?.transactionId,
+                status: authorization ? toPaymentStatus(authorization.status) : 'pending',
+                nextAction: authorization?.nextAction,
+                authorizedAt: authorization?.status === 'authorized' ? new Date() : undefined,
+                details: authorization?.details || sanitizedData.payment?.details,
+            },
+            itemsPrice: totals.itemsPrice,
+            discounts: discount ? [{ ...discount, amount: totals.discount }] : [],
+            discountPrice: totals.discount,
+            shippingMethod: { ...shippingRate, price: totals.shippingPrice },
+            shippingPrice: totals.shippingPrice,
+            taxPrice: totals.taxPrice,
+            shippingTaxPrice: tax.shippingTaxPrice,
+            pricesIncludeTax: tax.pricesIncludeTax,
+            totalPrice: totals.total,
+            notes: sanitizedData.notes || sanitizedData.shipping?.notes,
+        };
+
+        // Start a transaction
+        const session = await mongoose.startSession();
+        session.startTransaction();
+
+        let order;
+
         try {
-            await connectToDatabase();
+            // Count the coupon against its limits; a limit reached in the meantime aborts the order
+            if (discount) {
+                await redeemCoupon(discount, getCouponCustomer(shopper, guestEmail), session);
+            }
+
+            // Create new order
+            [order] = await Order.create([newOrder], { session });
 
-            const orderData = await req.json();
-            console.log('Received order data:', JSON.stringify(orderData, null, 2));
+            // Reserve stock atomically; any shortage aborts the whole order
+            await reserveStock(items, session);
 
-            // Sanitize the data but preserve the items array structure
-            const sanitizedData = Validator.sanitizeInput(orderData) as typeof orderData;
+            // Clear cart if order was created from cart; a pending bank challenge keeps it until it succeeds
+            if (!orderData.keepCart && !requiresAction) {
+                await Cart.findOneAndUpdate(
+                    owner,
+                    { items: [], totalItems: 0, totalPrice: 0, couponCode: null },
+                    { session }
+                );
+            }
 
-            // Fix the items array if it was converted to an object
-            if (sanitizedData.items && typeof sanitizedData.items === 'object' && !Array.isArray(sanitizedData.items)) {
-                sanitizedData.items = Object.values(sanitizedData.items);
+            // Commit transaction
+            await session.commitTransaction();
+        } catch (transactionError) {
+            // Abort transaction on error and release any funds held for it
+            await session.abortTransaction();
+            if (provider && authorization) {
+                await provider.void(authorization.transactionId).catch((voidError) => {
+                    console.error('Error voiding payment for failed order:', voidError);
+                });
             }
+            throw transactionError;
+        } finally {
+            // End session
+            session.endSession();
+        }
+
+        // The order is committed from here on, so follow-up failures are logged rather than answered with a server error:
+        // a retry with the same idempotency key must replay this order instead of placing another one
+        try {
+            await notifyOrder(order._id, 'placed');
 
-            console.log('Sanitized data:', JSON.stringify(sanitizedData, null, 2));
-
-            // Start a transaction
-            const session = await mongoose.startSession();
-            session.startTransaction();
-
-            try {
-                // Get user's cart if items aren't provided
-                if (!sanitizedData.items || sanitizedData.items.length === 0) {
-                    const cart = await Cart.findOne({ user: user._id }).populate('items.product');
-
-                    if (!cart || cart.items.length === 0) {
-                        return NextResponse.json({ message: 'Cart is empty' }, { status: 400 });
-                    }
-
-                    // Transform cart items to order items (align with schema field names)
-                    sanitizedData.items = cart.items.map((item: CartItem) => ({
-                        product: item.product._id,
-                        name: (item.product as PopulatedProduct).name,
-                        quantity: item.quantity,
-                        price: item.price,
-                        totalPrice: item.totalPrice,
-                        color: item.color,
-                        size: item.size,
-                        image: (item.product as PopulatedProduct).image,
-                    }));
-
-                    // Set order prices from cart
-                    sanitizedData.itemsPrice = cart.total;
-                }
-
-                // Set user ID if not provided
-                if (!sanitizedData.user) {
-                    sanitizedData.user = user._id;
-                }
-
-                // Ensure item totals exist and calculate missing ones
-                if (sanitizedData.items && sanitizedData.items.length > 0) {
-                    sanitizedData.items = sanitizedData.items.map((it: { product: string; name: string; quantity: number; price: number; totalPrice?: number; color?: string; size?: string; image?: string; }) => ({
-                        ...it,
-                        totalPrice: it.totalPrice ?? (it.quantity * it.price),
-                    }));
-                }
-
-                // Calculate totals if not provided
-                if (!sanitizedData.totalPrice) {
-                    // Calculate shipping price (simplified, could be more complex in real app)
-                    const shippingPrice = orderData.shippingPrice || sanitizedData.shippingPrice || 10;
-
-                    // Calculate tax price (simplified, could be based on location)
-                    const taxRate = 0.15; // 15% tax rate
-                    const taxPrice = orderData.taxPrice || sanitizedData.taxPrice || parseFloat(((sanitizedData.itemsPrice || 0) * taxRate).toFixed(2));
-
-                    // Calculate total price
-                    const total = (sanitizedData.itemsPrice || 0) + shippingPrice + taxPrice;
-
-                    // Set prices
-                    sanitizedData.shippingPrice = shippingPrice;
-                    sanitizedData.taxPrice = taxPrice;
-                    sanitizedData.totalPrice = total;
-                }
-
-                // Create new order
-                console.log('Final data being sent to Order.create:', JSON.stringify(sanitizedData, null, 2));
-                const order = await Order.create([sanitizedData], { session });
-
-                // Update product quantities
-                for (const item of sanitizedData.items) {
-                    await Product.findByIdAndUpdate(
-                        item.product,
-                        {
-                            $inc: { quantity: -item.quantity, sold: item.quantity },
-                        },
-                        { session }
-                    );
-                }
-
-                // Clear cart if order was created from cart
-                if (!orderData.keepCart) {
-                    await Cart.findOneAndUpdate(
-                        { user: user._id },
-                        { items: [], totalItems: 0, total: 0 },
-                        { session }
-                    );
-                }
-
-                // Commit transaction
-                await session.commitTransaction();
-
-                // Return created order
-                return NextResponse.json(order[0], { status: 201 });
-            } catch (transactionError) {
-                // Abort transaction on error
-                await session.abortTransaction();
-                throw transactionError;
-            } finally {
-                // End session
-                session.endSession();
+            // Take the money once the order and its stock are secured
+            if (authorization?.status === 'authorized') {
+                order = (await captureOrderPayment(order._id)) || order;
             }
+        } catch (followUpError) {
+            console.error('Error completing placed order:', followUpError);
+        }
+
+        if (order.payment.status === 'failed') {
+            return NextResponse.json(
+                {
+                    message: order.payment.failureReason || 'Your payment could not be completed',
+                    payment: { status: 'failed', reason: order.payment.failureReason },
+                },
+                { status: 402 }
+            );
+        }
+
+        // Return created order
+        return NextResponse.json(order, { status: 201 });
+    } catch (error) {
+        if (error instanceof OrderValidationError || error instanceof CouponError || error instanceof ShippingError) {
+            return NextResponse.json({ message: error.message }, { status: 400 });
+        }
+
+        if (error instanceof InsufficientStockError) {
+            return NextResponse.json(
+                { message: error.message, errors: error.shortages },
+                { status: 409 }
+            );
+        }
+
+        console.error('Error creating order:', error);
+        return NextResponse.json(
+            { message: error instanceof Error ? error.message : 'An error occurred' },
+            { status: 500 }
+        );
+    }
+}
+
+// Create a new order - repeats with the same Idempotency-Key replay the original response
+export function POST(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            const owner = getCartOwner(shopper);
+            if (!owner) {
+                return NextResponse.json({ message: 'Cart is empty' }, { status: 400 });
+            }
+
+            if (shopper.user) {
+                await connectToDatabase();
+                const unverified = await requireVerifiedEmail(shopper.user, 'order');
+                if (unverified) return unverified;
+            }
+
+            // Read a copy of the body to bind the idempotency key to it
+            const body = await req.clone().json().catch(() => null);
+
+            return await withIdempotency(req, owner, 'orders:create', body, () => createOrder(req, shopper, owner));
         } catch (error) {
             console.error('Error creating order:', error);
             return NextResponse.json(
@@ -199,5 +449,5 @@ export function POST(req: NextRequest) {
                 { status: 500 }
             );
         }
-    });
+    }, { issueGuest: true });
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { isShopperOrder } from '../../../../../utils/guest';
+import { getPaymentProvider } from '../../../../../utils/payments';
+import { createMockWebhookDelivery, MOCK_SIGNATURE_HEADER } from '../../../../../utils/payments/mockProvider';
+import { handlePaymentWebhook } from '../../../../../utils/payments/orderPayments';
+import Order from '../../../models/Order';
+
+// Stand-in for the bank's 3-D Secure page: the shopper approves or fails the challenge
+// and the mock gateway reports the outcome through the regular signed webhook path
+export function POST(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            if (getPaymentProvider()?.name !== 'mock') {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Payment challenge'),
+                    { status: 404 }
+                );
+            }
+
+            const { transactionId, outcome } = await req.json();
+
+            if (typeof transactionId !== 'string' || !['approve', 'fail'].includes(outcome)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ outcome: 'A transaction and an outcome of approve or fail are required' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const order = await Order.findOne({
+                'payment.provider': 'mock',
+                'payment.transactionId': transactionId,
+            }).select('+guestId');
+
+            if (!order || !isShopperOrder(order, shopper)) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Payment'),
+                    { status: 404 }
+                );
+            }
+
+            if (order.payment.status !== 'requires_action') {
+                return NextResponse.json(
+                    ApiResponseHelper.error('This payment is not waiting for authentication'),
+                    { status: 400 }
+                );
+            }
+
+            const { payload, signature } = outcome === 'approve'
+                ? createMockWebhookDelivery('payment.authorized', transactionId, order.totalPrice)
+                : createMockWebhookDelivery('payment.failed', transactionId, order.totalPrice, 'Authentication failed');
+
+            const result = await handlePaymentWebhook(
+                'mock',
+                payload,
+                new Headers({ [MOCK_SIGNATURE_HEADER]: signature })
+            );
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        orderId: order._id,
+                        paymentStatus: result.order?.payment.status || order.payment.status,
+                    },
+                    outcome === 'approve' ? 'Payment authenticated' : 'Payment authentication failed'
+                )
+            );
+        } catch (error) {
+            console.error('Error completing payment challenge:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to complete payment challenge'),
+                { status: 500 }
+            );
+        }
+    });
+}
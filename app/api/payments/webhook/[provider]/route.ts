@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import connectToDatabase from '../../../../../utils/db';
+import { handlePaymentWebhook, PaymentWebhookError } from '../../../../../utils/payments/orderPayments';
+
+// Receive asynchronous payment outcomes - authenticated by the provider's signature, not a session
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ provider: string }> }
+) {
+    try {
+        const { provider } = await params;
+
+        // The signature covers the exact bytes sent, so read the body as text
+        const payload = await req.text();
+
+        await connectToDatabase();
+
+        const { event, order } = await handlePaymentWebhook(provider, payload, req.headers);
+
+        return NextResponse.json(
+            ApiResponseHelper.success(
+                { eventId: event.id, applied: Boolean(order) },
+                'Webhook processed successfully'
+            )
+        );
+    } catch (error) {
+        if (error instanceof PaymentWebhookError) {
+            return NextResponse.json(
+                ApiResponseHelper.error(error.message),
+                { status: error.statusCode }
+            );
+        }
+
+        console.error('Error processing payment webhook:', error);
+        return NextResponse.json(
+            ApiResponseHelper.serverError('Failed to process webhook'),
+            { status: 500 }
+        );
+    }
+}
@@ -1,9 +1,11 @@
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { recordAudit } from '../../../../utils/auditLog';
 import connectToDatabase from '../../../../utils/db';
 import { deleteFile } from '../../../../utils/fileUpload';
 import { determineProductStatus } from '../../../../utils/productStatus';
+import { parseProductVariants, ProductVariantError, summarizeVariants } from '../../../../utils/productVariants';
 import { MongooseError, ProductData, ValidationError } from '../../../types/mongoose';
 import Product from '../../models/Product';
 // Get product by ID or SKU
@@ -48,13 +50,15 @@ export async function GET(
                     dimensions: 1,
                     material: 1,
                     warranty: 1,
+                    taxClass: 1,
                     ratings: 1,
                     totalRating: 1,
                     reviewCount: 1,
                     createdAt: 1,
                     active: 1,
                     color: 1,
-                    size: 1
+                    size: 1,
+                    variants: 1
                 });
         } else {
             // Search by SKU
@@ -82,13 +86,15 @@ export async function GET(
                     dimensions: 1,
                     material: 1,
                     warranty: 1,
+                    taxClass: 1,
                     ratings: 1,
                     totalRating: 1,
                     reviewCount: 1,
                     createdAt: 1,
                     active: 1,
                     color: 1,
-                    size: 1
+                    size: 1,
+                    variants: 1
                 });
         }
 
@@ -124,10 +130,6 @@ export async function PUT(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -254,6 +256,23 @@ export async function PUT(
                 updateData.size = [];
             }
 
+            // Products sold in variants take their quantity, colors and sizes from the variants
+            if (updateData.variants !== undefined) {
+                updateData.variants = parseProductVariants(updateData.variants, (updateData.sku as string) || product.sku);
+
+                const variantSkus = updateData.variants.map((variant) => variant.sku).filter(Boolean);
+                if (variantSkus.length > 0 && await Product.exists({ _id: { $ne: id }, 'variants.sku': { $in: variantSkus } })) {
+                    return NextResponse.json(
+                        { message: 'A variant SKU is already used by another product' },
+                        { status: 400 }
+                    );
+                }
+
+                if (updateData.variants.length > 0) {
+                    Object.assign(updateData, summarizeVariants(updateData.variants));
+                }
+            }
+
             // Update product status if quantity is changed
             if (updateData.quantity !== undefined) {
                 const active = updateData.active !== undefined ? updateData.active : product.active;
@@ -268,8 +287,21 @@ export async function PUT(
                 { new: true, runValidators: true }
             );
 
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Product',
+                targetId: id,
+                targetLabel: updatedProduct?.name,
+                before: product,
+                after: updatedProduct,
+            });
+
             return NextResponse.json(updatedProduct);
         } catch (error: unknown) {
+            if (error instanceof ProductVariantError) {
+                return NextResponse.json({ message: error.message }, { status: 400 });
+            }
+
             // Handle validation errors
             if (error instanceof Error && error.name === 'ValidationError') {
                 const mongooseError = error as ValidationError;
@@ -306,7 +338,7 @@ export async function PUT(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_products' });
 }
 
 // Delete product by ID - Admin only
@@ -315,10 +347,6 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        // Check if user is admin
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -365,6 +393,14 @@ export async function DELETE(
             // Delete the product
             await Product.findByIdAndDelete(id);
 
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Product',
+                targetId: id,
+                targetLabel: product.name,
+                before: product,
+            });
+
             return NextResponse.json(
                 { message: 'Product deleted successfully' },
                 { status: 200 }
@@ -375,5 +411,5 @@ export async function DELETE(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_products' });
 } 
\ No newline at end of file
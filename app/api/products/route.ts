@@ -2,11 +2,13 @@ import '@/app/api/models'; // Ensures all models are registered
 import { CategoryData, ProductData } from '@/app/types/mongoose';
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, hasPermission, isAdmin } from '../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../middleware/authMiddleware';
 import { ApiResponseHelper } from '../../../utils/apiResponse';
+import { recordAudit } from '../../../utils/auditLog';
 import { cacheHelper } from '../../../utils/cache';
 import connectToDatabase from '../../../utils/db';
 import { determineProductStatus } from '../../../utils/productStatus';
+import { parseProductVariants } from '../../../utils/productVariants';
 import { Validator } from '../../../utils/validation';
 import Product from '../models/Product';
 // Validation schemas - removing unused schema
@@ -24,6 +26,7 @@ const productCreateSchema = {
     dimensions: { type: 'string' as const, max: 100 },
     material: { type: 'string' as const, max: 100 },
     warranty: { type: 'string' as const, max: 100 },
+    taxClass: { type: 'string' as const, max: 30 },
     featured: { type: 'boolean' as const },
     active: { type: 'boolean' as const }
 };
@@ -31,11 +34,6 @@ const productCreateSchema = {
 // Get all products with simplified queries for better reliability
 export async function GET(req: NextRequest) {
     try {
-
-        if (!isAdmin) {
-            return NextResponse.json({ message: 'Not authorized' }, { status: 401 });
-        }
-
         await connectToDatabase();
 
         const url = new URL(req.url);
@@ -169,6 +167,7 @@ export async function GET(req: NextRequest) {
                         dimensions: 1,
                         material: 1,
                         warranty: 1,
+                        taxClass: 1,
                         ratings: 1,
                         totalRating: 1,
                         createdAt: 1,
@@ -227,9 +226,6 @@ export async function GET(req: NextRequest) {
 // Create a new product - Admin only with enhanced validation
 export async function POST(req: NextRequest) {
     return authMiddleware(req, async (req, user) => {
-        const permissionCheck = hasPermission(user, 'manage_products');
-        if (permissionCheck) return permissionCheck;
-
         try {
             await connectToDatabase();
 
@@ -330,10 +326,28 @@ export async function POST(req: NextRequest) {
             console.log('After parsing - color:', typeof productData.color, productData.color);
             console.log('After parsing - size:', typeof productData.size, productData.size);
 
+            // Variants are checked here; the model derives quantity, colors and sizes from them on save
+            productData.variants = parseProductVariants(productData.variants, productData.sku);
+            const variantSkus = productData.variants.map((variant) => variant.sku).filter(Boolean);
+            if (variantSkus.length > 0 && await Product.exists({ 'variants.sku': { $in: variantSkus } })) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('A variant SKU is already used by another product'),
+                    { status: 400 }
+                );
+            }
+
             // Create the product
             const product = new Product(productData);
             await product.save();
 
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'Product',
+                targetId: product._id,
+                targetLabel: product.name,
+                after: product,
+            });
+
             // Populate category information
             await product.populate('category', 'name slug');
 
@@ -360,5 +374,5 @@ export async function POST(req: NextRequest) {
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'manage_products' });
 }
\ No newline at end of file
@@ -0,0 +1,288 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { recordAudit } from '../../../../utils/auditLog';
+import connectToDatabase from '../../../../utils/db';
+import { restockOrderLines } from '../../../../utils/inventory';
+import { refundOrderPayment } from '../../../../utils/payments/orderPayments';
+import { can } from '../../../../utils/permissions';
+import { calculateLineRefund, roundCurrency } from '../../../../utils/pricing';
+import Order from '../../models/Order';
+import Return from '../../models/Return';
+
+type ReturnAction = 'approve' | 'reject' | 'receive';
+
+// Return status each admin action requires, and the status it moves to
+const RETURN_ACTIONS: Record<ReturnAction, { from: string; to: string }> = {
+    approve: { from: 'requested', to: 'approved' },
+    reject: { from: 'requested', to: 'rejected' },
+    receive: { from: 'approved', to: 'received' },
+};
+
+// Orders whose money has already gone back, or was never taken
+const NON_REFUNDABLE_ORDER_STATUSES = ['cancelled', 'refunded', 'failed'];
+
+// Raised when an action cannot be applied to the return as it stands; the message is safe to show the admin
+class ReturnActionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ReturnActionError';
+    }
+}
+
+interface ReturnLine {
+    orderItemIndex: number;
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+}
+
+const populateReturn = (id: string) =>
+    Return.findById(id)
+        .populate('order', 'orderNumber totalPrice refundedAmount status')
+        .populate('user', 'firstName lastName email')
+        .populate('reviewedBy', 'firstName lastName')
+        .populate('receivedBy', 'firstName lastName');
+
+// Get a single return - owner or admin
+export function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid return ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const returnRequest = await populateReturn(id);
+
+            if (!returnRequest) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Return'),
+                    { status: 404 }
+                );
+            }
+
+            if (
+                !can(user, 'view_orders') &&
+                returnRequest.user._id.toString() !== user._id.toString()
+            ) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Not authorized to view this return'),
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json(
+                ApiResponseHelper.success(returnRequest, 'Return retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching return:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve return'),
+                { status: 500 }
+            );
+        }
+    });
+}
+
+// Approve, reject or receive a return - Admin only
+export function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { id } = await params;
+
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid return ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            await connectToDatabase();
+
+            const { action, adminNotes } = await req.json();
+            const transition = RETURN_ACTIONS[action as ReturnAction];
+
+            if (!transition) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ action: 'Action must be approve, reject or receive' }),
+                    { status: 400 }
+                );
+            }
+
+            const returnRequest = await Return.findById(id);
+
+            if (!returnRequest) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Return'),
+                    { status: 404 }
+                );
+            }
+
+            if (returnRequest.status !== transition.from) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(`Cannot ${action} a return that is ${returnRequest.status}`),
+                    { status: 400 }
+                );
+            }
+
+            // Amount to send back through the payment provider once the refund is recorded
+            let refundAmount = 0;
+            let refundedOrder: { orderNumber: string; refundedAmount: number } | null = null;
+            const previousReturn = returnRequest.toObject();
+            let updatedReturnRequest = returnRequest;
+
+            const session = await mongoose.startSession();
+            session.startTransaction();
+
+            try {
+                // Claim the transition so a concurrent request cannot apply it twice
+                const claimed = await Return.findOneAndUpdate(
+                    { _id: id, status: transition.from },
+                    { $set: { status: transition.to } },
+                    { new: true, session }
+                );
+
+                if (!claimed) {
+                    throw new Error('Return was updated by someone else, please reload');
+                }
+
+                if (typeof adminNotes === 'string' && adminNotes.trim()) {
+                    claimed.adminNotes = adminNotes.trim();
+                }
+
+                const lines: ReturnLine[] = claimed.items;
+
+                if (action === 'approve' || action === 'reject') {
+                    claimed.reviewedBy = user._id;
+                    claimed.reviewedAt = new Date();
+                }
+
+                if (action === 'approve') {
+                    // Issue a partial refund for the returned lines against the order
+                    const order = await Order.findById(claimed.order).session(session);
+                    if (!order) {
+                        throw new Error('Order for this return no longer exists');
+                    }
+                    if (NON_REFUNDABLE_ORDER_STATUSES.includes(order.status)) {
+                        throw new ReturnActionError(`Cannot approve a return for an order that is ${order.status}`);
+                    }
+
+                    const refundItems = lines.map((line) => ({
+                        orderItemIndex: line.orderItemIndex,
+                        quantity: line.quantity,
+                        amount: calculateLineRefund(line.unitPrice, line.quantity, order, order.items[line.orderItemIndex]),
+                    }));
+                    const amount = roundCurrency(refundItems.reduce((sum, item) => sum + item.amount, 0));
+
+                    // Refunds across all returns never add up to more than the order total
+                    const recorded = await Order.updateOne(
+                        {
+                            _id: order._id,
+                            status: { $nin: NON_REFUNDABLE_ORDER_STATUSES },
+                            $expr: {
+                                $lte: [
+                                    { $round: [{ $add: [{ $ifNull: ['$refundedAmount', 0] }, amount] }, 2] },
+                                    '$totalPrice',
+                                ],
+                            },
+                        },
+                        {
+                            $push: {
+                                refunds: {
+                                    return: claimed._id,
+                                    amount,
+                                    items: refundItems,
+                                    note: `Refund for return ${claimed.rmaNumber}`,
+                                    createdBy: user._id,
+                                },
+                            },
+                            $inc: { refundedAmount: amount },
+                        },
+                        { session }
+                    );
+
+                    if (recorded.modifiedCount === 0) {
+                        throw new ReturnActionError('This refund would exceed what is left to refund on the order');
+                    }
+
+                    claimed.refundAmount = amount;
+                    refundAmount = amount;
+                    refundedOrder = { orderNumber: order.orderNumber, refundedAmount: order.refundedAmount || 0 };
+                }
+
+                if (action === 'receive') {
+                    // Returned units go back on the shelf
+                    await restockOrderLines(claimed.order, lines, session);
+                    claimed.receivedBy = user._id;
+                    claimed.receivedAt = new Date();
+                }
+
+                await claimed.save({ session });
+                await session.commitTransaction();
+                updatedReturnRequest = claimed;
+            } catch (transactionError) {
+                await session.abortTransaction();
+                throw transactionError;
+            } finally {
+                session.endSession();
+            }
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Return',
+                targetId: id,
+                targetLabel: returnRequest.rmaNumber,
+                before: previousReturn,
+                after: updatedReturnRequest,
+            });
+            if (refundedOrder) {
+                await recordAudit(req, user, {
+                    action: 'update',
+                    targetModel: 'Order',
+                    targetId: returnRequest.order,
+                    targetLabel: refundedOrder.orderNumber,
+                    before: { refundedAmount: refundedOrder.refundedAmount },
+                    after: { refundedAmount: roundCurrency(refundedOrder.refundedAmount + refundAmount) },
+                });
+            }
+
+            if (refundAmount > 0) {
+                await refundOrderPayment(returnRequest.order, refundAmount);
+            }
+
+            const updatedReturn = await populateReturn(id);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(updatedReturn, `Return ${transition.to} successfully`)
+            );
+        } catch (error) {
+            if (error instanceof ReturnActionError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: 400 }
+                );
+            }
+
+            console.error('Error updating return:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError(error instanceof Error ? error.message : 'Failed to update return'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_returns' });
+}
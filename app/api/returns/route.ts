@@ -0,0 +1,227 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../utils/apiResponse';
+import connectToDatabase from '../../../utils/db';
+import { can } from '../../../utils/permissions';
+import { Validator } from '../../../utils/validation';
+import Order from '../models/Order';
+import Return, { RETURN_REASONS, RETURN_STATUSES } from '../models/Return';
+
+// Orders can only be returned once they have reached the customer
+const RETURNABLE_ORDER_STATUSES = ['delivered', 'completed'];
+
+interface RequestedReturnItem {
+    orderItemIndex: number;
+    quantity: number;
+    reason: string;
+}
+
+interface OrderLine {
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+    price: number;
+    color?: string;
+    size?: string;
+}
+
+// Get returns - Admins get all returns, customers get only their own
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const url = new URL(req.url);
+            const page = Math.max(1, parseInt(url.searchParams.get('page') || '1'));
+            const limit = Math.min(50, Math.max(1, parseInt(url.searchParams.get('limit') || '10')));
+            const status = url.searchParams.get('status');
+            const orderId = url.searchParams.get('order');
+
+            const query: Record<string, unknown> = {};
+
+            if (!can(user, 'view_orders')) {
+                query.user = user._id;
+            }
+
+            if (status && (RETURN_STATUSES as readonly string[]).includes(status)) {
+                query.status = status;
+            }
+
+            if (orderId) {
+                if (!mongoose.Types.ObjectId.isValid(orderId)) {
+                    return NextResponse.json(
+                        ApiResponseHelper.validationError({ order: 'Invalid order ID format' }),
+                        { status: 400 }
+                    );
+                }
+                query.order = orderId;
+            }
+
+            const [returns, total] = await Promise.all([
+                Return.find(query)
+                    .populate('order', 'orderNumber totalPrice refundedAmount')
+                    .populate('user', 'firstName lastName email')
+                    .populate('reviewedBy', 'firstName lastName')
+                    .sort({ createdAt: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                Return.countDocuments(query),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        returns,
+                        pagination: {
+                            currentPage: page,
+                            totalPages: Math.ceil(total / limit),
+                            total,
+                            hasNext: page * limit < total,
+                            hasPrev: page > 1,
+                        },
+                    },
+                    'Returns retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching returns:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve returns'),
+                { status: 500 }
+            );
+        }
+    });
+}
+
+// Request a return for one or more lines of a delivered order
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as {
+                orderId: string;
+                items: RequestedReturnItem[] | Record<string, RequestedReturnItem>;
+                customerNote?: string;
+            };
+
+            const requestedItems = Array.isArray(data.items)
+                ? data.items
+                : Object.values(data.items || {});
+
+            if (!data.orderId || !mongoose.Types.ObjectId.isValid(data.orderId)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ orderId: 'A valid order is required' }),
+                    { status: 400 }
+                );
+            }
+
+            if (requestedItems.length === 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ items: 'Select at least one item to return' }),
+                    { status: 400 }
+                );
+            }
+
+            const order = await Order.findById(data.orderId);
+
+            if (!order || !order.user || order.user.toString() !== user._id.toString()) {
+                return NextResponse.json(
+                    ApiResponseHelper.notFound('Order'),
+                    { status: 404 }
+                );
+            }
+
+            if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Only delivered orders can be returned'),
+                    { status: 400 }
+                );
+            }
+
+            // Units already covered by open or completed returns for this order
+            const existingReturns = await Return.find({
+                order: order._id,
+                status: { $ne: 'rejected' },
+            }).select('items');
+
+            const alreadyReturned = new Map<number, number>();
+            for (const existing of existingReturns) {
+                for (const item of existing.items) {
+                    alreadyReturned.set(
+                        item.orderItemIndex,
+                        (alreadyReturned.get(item.orderItemIndex) || 0) + item.quantity
+                    );
+                }
+            }
+
+            const errors: Record<string, string> = {};
+            const returnItems = [];
+
+            for (const requested of requestedItems) {
+                const index = Number(requested.orderItemIndex);
+                const quantity = Number(requested.quantity);
+                const line: OrderLine | undefined = order.items[index];
+
+                if (!line) {
+                    errors[`items.${index}`] = 'Order item not found';
+                    continue;
+                }
+
+                const returnable = line.quantity - (alreadyReturned.get(index) || 0);
+
+                if (!Number.isInteger(quantity) || quantity < 1 || quantity > returnable) {
+                    errors[`items.${index}`] = returnable > 0
+                        ? `You can return between 1 and ${returnable} of ${line.name}`
+                        : `${line.name} has already been returned`;
+                    continue;
+                }
+
+                if (!(RETURN_REASONS as readonly string[]).includes(requested.reason)) {
+                    errors[`items.${index}.reason`] = 'Please choose a return reason';
+                    continue;
+                }
+
+                alreadyReturned.set(index, (alreadyReturned.get(index) || 0) + quantity);
+                returnItems.push({
+                    orderItemIndex: index,
+                    product: line.product,
+                    name: line.name,
+                    color: line.color,
+                    size: line.size,
+                    quantity,
+                    unitPrice: line.price,
+                    reason: requested.reason,
+                });
+            }
+
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const returnRequest = await Return.create({
+                order: order._id,
+                user: user._id,
+                items: returnItems,
+                customerNote: data.customerNote,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(returnRequest, 'Return requested successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            console.error('Error creating return:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to request return'),
+                { status: 500 }
+            );
+        }
+    });
+}
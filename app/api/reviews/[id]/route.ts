@@ -1,7 +1,8 @@
 import mongoose from 'mongoose';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
 import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { recordAudit } from '../../../../utils/auditLog';
 import connectToDatabase from '../../../../utils/db';
 import Review from '../../models/Review';
 
@@ -10,10 +11,7 @@ export async function GET(
     req: NextRequest,
     { params }: { params: Promise<{ id: string }> }
 ) {
-    return authMiddleware(req, async (req, user) => {
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
+    return authMiddleware(req, async () => {
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -50,7 +48,7 @@ export async function GET(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'moderate_reviews' });
 }
 
 // Update review (Admin only - for approval/rejection)
@@ -59,9 +57,6 @@ export async function PUT(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -95,6 +90,7 @@ export async function PUT(
                 updateData.adminNotes = adminNotes.trim();
             }
 
+            const previousReview = await Review.findById(id).lean<Record<string, unknown>>();
             const review = await Review.findByIdAndUpdate(
                 id,
                 updateData,
@@ -111,6 +107,15 @@ export async function PUT(
                 );
             }
 
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Review',
+                targetId: id,
+                targetLabel: review.title,
+                before: previousReview,
+                after: { ...previousReview, ...updateData },
+            });
+
             const statusMessages = {
                 approved: 'Review approved successfully',
                 rejected: 'Review rejected successfully',
@@ -128,7 +133,7 @@ export async function PUT(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'moderate_reviews' });
 }
 
 // Delete review (Admin only)
@@ -137,9 +142,6 @@ export async function DELETE(
     { params }: { params: Promise<{ id: string }> }
 ) {
     return authMiddleware(req, async (req, user) => {
-        const adminCheckResult = isAdmin(user);
-        if (adminCheckResult) return adminCheckResult;
-
         const { id } = await params;
 
         if (!mongoose.Types.ObjectId.isValid(id)) {
@@ -161,6 +163,14 @@ export async function DELETE(
                 );
             }
 
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Review',
+                targetId: id,
+                targetLabel: review.title,
+                before: review,
+            });
+
             return NextResponse.json(
                 ApiResponseHelper.success(null, 'Review deleted successfully')
             );
@@ -172,5 +182,5 @@ export async function DELETE(
                 { status: 500 }
             );
         }
-    });
+    }, { permission: 'moderate_reviews' });
 } 
\ No newline at end of file
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { authMiddleware } from '../../../middleware/authMiddleware';
 import { ApiResponseHelper } from '../../../utils/apiResponse';
 import connectToDatabase from '../../../utils/db';
+import { requireVerifiedEmail } from '../../../utils/emailVerification';
 import { Validator } from '../../../utils/validation';
 import Product from '../models/Product';
 import Review from '../models/Review';
@@ -109,6 +110,9 @@ export async function POST(req: NextRequest) {
         try {
             await connectToDatabase();
 
+            const unverified = await requireVerifiedEmail(user, 'review');
+            if (unverified) return unverified;
+
             const body = await req.json();
 
             // Validate input
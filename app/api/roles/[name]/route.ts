@@ -0,0 +1,104 @@
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { RoleDefinition } from '@/utils/permissions';
+import { countUsersByRole, deleteRole, getRoles, RoleError, updateRole, validateRoleInput } from '@/utils/roles';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Change a role's label, description and permissions - Requires manage_roles.
+// Users holding the role get the new permissions on their next request.
+export function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { name } = await params;
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value = {
+                label: body.label,
+                description: body.description,
+                permissions: body.permissions,
+            } as Omit<RoleDefinition, 'name'>;
+
+            const errors = validateRoleInput(value, false);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previousRole = (await getRoles()).find((role) => role.name === name);
+            const [role, userCounts] = await Promise.all([updateRole(name, value, user), countUsersByRole()]);
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Role',
+                targetId: name,
+                targetLabel: role.label,
+                before: previousRole,
+                after: role,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ ...role, userCount: userCounts[role.name] || 0 }, 'Role updated successfully')
+            );
+        } catch (error) {
+            if (error instanceof RoleError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error updating role:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update role'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_roles' });
+}
+
+// Delete a custom role that nobody holds - Requires manage_roles
+export function DELETE(
+    req: NextRequest,
+    { params }: { params: Promise<{ name: string }> }
+) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            const { name } = await params;
+            await connectToDatabase();
+
+            const previousRole = (await getRoles()).find((role) => role.name === name);
+            await deleteRole(name, user);
+
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'Role',
+                targetId: name,
+                targetLabel: previousRole?.label,
+                before: previousRole,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(null, 'Role deleted successfully')
+            );
+        } catch (error) {
+            if (error instanceof RoleError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error deleting role:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to delete role'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_roles' });
+}
@@ -0,0 +1,83 @@
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { RoleDefinition } from '@/utils/permissions';
+import { countUsersByRole, createRole, getRoles, RoleError, validateRoleInput } from '@/utils/roles';
+import { NextRequest, NextResponse } from 'next/server';
+
+// List every role with its permissions and how many users hold it - Requires manage_roles
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const [roles, userCounts] = await Promise.all([getRoles(), countUsersByRole()]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    roles.map((role) => ({ ...role, userCount: userCounts[role.name] || 0 })),
+                    'Roles retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching roles:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch roles'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_roles' });
+}
+
+// Create a custom role - Requires manage_roles; only permissions the admin holds can be granted
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value = {
+                name: typeof body.name === 'string' ? body.name.trim().toLowerCase() : body.name,
+                label: body.label,
+                description: body.description,
+                permissions: body.permissions,
+            } as RoleDefinition;
+
+            const errors = validateRoleInput(value, true);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const role = await createRole(value, user);
+
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'Role',
+                targetId: role.name,
+                targetLabel: role.label,
+                after: role,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ ...role, userCount: 0 }, 'Role created successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            if (error instanceof RoleError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+            console.error('Error creating role:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to create role'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_roles' });
+}
@@ -1,21 +1,26 @@
-import { User } from '@/app/types/user';
-import { authMiddleware, isAdmin } from '@/middleware/authMiddleware';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { recordAudit } from '@/utils/auditLog';
 import { cache } from '@/utils/cache';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(req: NextRequest) {
-    return authMiddleware(req, async (_req, user: User) => {
-        const adminCheck = isAdmin(user);
-        if (adminCheck) return adminCheck;
+    return authMiddleware(req, async (req, user) => {
+        const cacheSize = cache.size();
         cache.clear();
+
+        await recordAudit(req, user, {
+            action: 'clear_cache',
+            targetModel: 'Cache',
+            before: { cacheSize },
+            after: { cacheSize: 0 },
+        });
+
         return NextResponse.json({ success: true, message: 'Cache cleared' });
-    });
+    }, { permission: 'manage_settings' });
 }
 
 export async function GET(req: NextRequest) {
-    return authMiddleware(req, async (_req, user: User) => {
-        const adminCheck = isAdmin(user);
-        if (adminCheck) return adminCheck;
+    return authMiddleware(req, async () => {
         return NextResponse.json({ success: true, cacheSize: cache.size() });
-    });
+    }, { permission: 'manage_settings' });
 } 
\ No newline at end of file
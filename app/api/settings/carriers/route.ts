@@ -0,0 +1,83 @@
+import Settings, { CarrierSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { CARRIER_SETTINGS_NAME, getCarrierSettings, validateCarrierSettings } from '@/utils/shipments';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get shipping carriers and their tracking links - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getCarrierSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Carrier settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching carrier settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch carrier settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
+
+// Update shipping carriers - Admin only; recorded parcels keep the carrier name and link they shipped with
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value: CarrierSettingsValue = {
+                carriers: Array.isArray(body.carriers)
+                    ? body.carriers.map((carrier: Record<string, unknown>) => ({
+                        code: typeof carrier.code === 'string' ? carrier.code.trim().toLowerCase() : carrier.code,
+                        name: typeof carrier.name === 'string' ? carrier.name.trim() : carrier.name,
+                        trackingUrlTemplate: typeof carrier.trackingUrlTemplate === 'string'
+                            ? carrier.trackingUrlTemplate.trim()
+                            : carrier.trackingUrlTemplate,
+                        active: carrier.active,
+                    }))
+                    : body.carriers,
+            };
+
+            const errors = validateCarrierSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previous = await Settings.findOneAndUpdate(
+                { name: CARRIER_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: CARRIER_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Carrier settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating carrier settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update carrier settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
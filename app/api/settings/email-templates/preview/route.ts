@@ -0,0 +1,43 @@
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import connectToDatabase from '@/utils/db';
+import { EmailPreviewError, parseEmailPreviewRequest, renderEmailPreview } from '@/utils/mail/preview';
+import { getEmailTemplate } from '@/utils/mail/templateSettings';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Render an email template, saved or not, against a recent order - Admin only
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { request, errors } = parseEmailPreviewRequest(await req.json());
+            if (errors) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const template = request.template || (await getEmailTemplate(request.key));
+            const preview = await renderEmailPreview(request.key, template, user, request.orderId);
+
+            return NextResponse.json(
+                ApiResponseHelper.success(preview, 'Email preview rendered successfully')
+            );
+        } catch (error) {
+            if (error instanceof EmailPreviewError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+
+            console.error('Error rendering email preview:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to render email preview'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
@@ -0,0 +1,89 @@
+import Settings, { EmailTemplatesSettingsValue, EmailTemplateValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { EMAIL_TEMPLATES_SETTINGS_NAME, getEmailTemplates, validateEmailTemplates } from '@/utils/mail/templateSettings';
+import { DEFAULT_EMAIL_TEMPLATES, EMAIL_TEMPLATE_DEFINITIONS } from '@/utils/mail/templates';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get email templates with their built-in wording and placeholders - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const templates = await getEmailTemplates();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    { templates, defaults: DEFAULT_EMAIL_TEMPLATES, definitions: EMAIL_TEMPLATE_DEFINITIONS },
+                    'Email templates retrieved successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error fetching email templates:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch email templates'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
+
+// Update email templates - Admin only; emails already queued keep the wording they were rendered with
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value: EmailTemplatesSettingsValue = { templates: body.templates };
+
+            const errors = validateEmailTemplates(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            // Keep only the fields a template has
+            const templates = Object.fromEntries(
+                Object.entries(value.templates as Record<string, EmailTemplateValue>).map(([key, template]) => [
+                    key,
+                    { subject: template.subject, heading: template.heading, body: template.body },
+                ])
+            );
+
+            const existing = await Settings.findOne({ name: EMAIL_TEMPLATES_SETTINGS_NAME }).lean<{ value?: EmailTemplatesSettingsValue }>();
+            const updated = { templates: { ...existing?.value?.templates, ...templates } };
+            await Settings.findOneAndUpdate(
+                { name: EMAIL_TEMPLATES_SETTINGS_NAME },
+                { value: updated },
+                { upsert: true, new: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: EMAIL_TEMPLATES_SETTINGS_NAME,
+                before: existing?.value,
+                after: updated,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    { templates: await getEmailTemplates(), defaults: DEFAULT_EMAIL_TEMPLATES, definitions: EMAIL_TEMPLATE_DEFINITIONS },
+                    'Email templates updated successfully'
+                )
+            );
+        } catch (error) {
+            console.error('Error updating email templates:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update email templates'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
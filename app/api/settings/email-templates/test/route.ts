@@ -0,0 +1,54 @@
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import connectToDatabase from '@/utils/db';
+import { sendMail } from '@/utils/mail';
+import { EmailPreviewError, parseEmailPreviewRequest, renderEmailPreview } from '@/utils/mail/preview';
+import { getEmailTemplate } from '@/utils/mail/templateSettings';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Send a rendered email template to the signed-in admin - Admin only
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { request, errors } = parseEmailPreviewRequest(await req.json());
+            if (errors) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const template = request.template || (await getEmailTemplate(request.key));
+            const preview = await renderEmailPreview(request.key, template, user, request.orderId);
+
+            // Sent straight away rather than through the outbox, so the admin sees delivery problems
+            await sendMail({
+                to: user.email,
+                subject: `[Test] ${preview.subject}`,
+                html: preview.html,
+                text: preview.text,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ to: user.email }, `Test email sent to ${user.email}`)
+            );
+        } catch (error) {
+            if (error instanceof EmailPreviewError) {
+                return NextResponse.json(
+                    ApiResponseHelper.error(error.message),
+                    { status: error.status }
+                );
+            }
+
+            console.error('Error sending test email:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError(
+                    error instanceof Error ? `Failed to send test email: ${error.message}` : 'Failed to send test email'
+                ),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_emails' });
+}
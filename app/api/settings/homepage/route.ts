@@ -1,8 +1,10 @@
 import Settings from "@/app/api/models/Settings";
 import { ApiResponseHelper } from "@/utils/apiResponse";
+import { recordAudit, toAuditSnapshot } from "@/utils/auditLog";
 import connectToDatabase from "@/utils/db";
 import { Validator } from "@/utils/validation";
-import { NextRequest } from "next/server";
+import { authMiddleware } from "@/middleware/authMiddleware";
+import { NextRequest, NextResponse } from "next/server";
 
 export async function GET() {
     try {
@@ -67,92 +69,114 @@ export async function GET() {
 }
 
 export async function PUT(request: NextRequest) {
-    try {
-        const body = await request.json();
-
-        // Validate input
-        const validation = Validator.validate(body, {
-            heroBanners: { type: "array" },
-            categorySliders: { type: "array" },
-            productSliders: { type: "array" },
-            banners: { type: "array" },
-            showFeaturedCategories: { type: "boolean" },
-            showNewArrivals: { type: "boolean" },
-            showBestsellers: { type: "boolean" },
-            backgroundColor: { type: "string" },
-            accentColor: { type: "string" },
-            animation3dEnabled: { type: "boolean" }
-        });
-
-        if (!validation.isValid) {
-            return Response.json(ApiResponseHelper.validationError(validation.errors), { status: 400 });
-        }
-
-        await connectToDatabase();
-
-        // Update or create homepage settings
-        const homepageSettings = await Settings.findOneAndUpdate(
-            { name: "homepage" },
-            { value: body },
-            {
-                new: true,
-                upsert: true,
-                runValidators: true
+    return authMiddleware(request, async (request, user) => {
+        try {
+            const body = await request.json();
+
+            // Validate input
+            const validation = Validator.validate(body, {
+                heroBanners: { type: "array" },
+                categorySliders: { type: "array" },
+                productSliders: { type: "array" },
+                banners: { type: "array" },
+                showFeaturedCategories: { type: "boolean" },
+                showNewArrivals: { type: "boolean" },
+                showBestsellers: { type: "boolean" },
+                backgroundColor: { type: "string" },
+                accentColor: { type: "string" },
+                animation3dEnabled: { type: "boolean" }
+            });
+
+            if (!validation.isValid) {
+                return NextResponse.json(ApiResponseHelper.validationError(validation.errors), { status: 400 });
             }
-        );
 
-        return Response.json(ApiResponseHelper.success(homepageSettings.value, "Homepage settings updated successfully"));
-    } catch (error) {
-        console.error("Error updating homepage settings:", error);
-        return Response.json(ApiResponseHelper.serverError("Internal server error"), { status: 500 });
-    }
+            await connectToDatabase();
+
+            // Update or create homepage settings
+            const previous = await Settings.findOne({ name: "homepage" }).lean<{ value?: unknown }>();
+            const homepageSettings = await Settings.findOneAndUpdate(
+                { name: "homepage" },
+                { value: body },
+                {
+                    new: true,
+                    upsert: true,
+                    runValidators: true
+                }
+            );
+
+            await recordAudit(request, user, {
+                action: "update",
+                targetModel: "Settings",
+                targetId: "homepage",
+                before: previous?.value,
+                after: homepageSettings.value,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(homepageSettings.value, "Homepage settings updated successfully"));
+        } catch (error) {
+            console.error("Error updating homepage settings:", error);
+            return NextResponse.json(ApiResponseHelper.serverError("Internal server error"), { status: 500 });
+        }
+    }, { permission: 'manage_settings' });
 }
 
 export async function PATCH(request: NextRequest) {
-    try {
-        const body = await request.json();
-        const { section, data } = body;
-
-        if (!section || !data) {
-            return Response.json(ApiResponseHelper.error("Section and data are required"), { status: 400 });
-        }
+    return authMiddleware(request, async (request, user) => {
+        try {
+            const body = await request.json();
+            const { section, data } = body;
 
-        await connectToDatabase();
+            if (!section || !data) {
+                return NextResponse.json(ApiResponseHelper.error("Section and data are required"), { status: 400 });
+            }
 
-        // Get current settings
-        const homepageSettings = await Settings.findOne({ name: "homepage" });
+            await connectToDatabase();
 
-        if (!homepageSettings) {
-            return Response.json(ApiResponseHelper.notFound("Homepage settings"), { status: 404 });
-        }
+            // Get current settings
+            const homepageSettings = await Settings.findOne({ name: "homepage" });
 
-        // Update specific section
-        const currentValue = homepageSettings.value;
-
-        switch (section) {
-            case "heroBanners":
-                currentValue.heroBanners = data;
-                break;
-            case "categorySliders":
-                currentValue.categorySliders = data;
-                break;
-            case "productSliders":
-                currentValue.productSliders = data;
-                break;
-            case "banners":
-                currentValue.banners = data;
-                break;
-            default:
-                return Response.json(ApiResponseHelper.error("Invalid section"), { status: 400 });
-        }
+            if (!homepageSettings) {
+                return NextResponse.json(ApiResponseHelper.notFound("Homepage settings"), { status: 404 });
+            }
 
-        // Save updated settings
-        homepageSettings.value = currentValue;
-        await homepageSettings.save();
+            // Update specific section
+            const currentValue = homepageSettings.value;
+            const previousValue = toAuditSnapshot(currentValue);
+
+            switch (section) {
+                case "heroBanners":
+                    currentValue.heroBanners = data;
+                    break;
+                case "categorySliders":
+                    currentValue.categorySliders = data;
+                    break;
+                case "productSliders":
+                    currentValue.productSliders = data;
+                    break;
+                case "banners":
+                    currentValue.banners = data;
+                    break;
+                default:
+                    return NextResponse.json(ApiResponseHelper.error("Invalid section"), { status: 400 });
+            }
 
-        return Response.json(ApiResponseHelper.success(homepageSettings.value, `${section} updated successfully`));
-    } catch (error) {
-        console.error("Error updating homepage section:", error);
-        return Response.json(ApiResponseHelper.serverError("Internal server error"), { status: 500 });
-    }
-} 
\ No newline at end of file
+            // Save updated settings
+            homepageSettings.value = currentValue;
+            await homepageSettings.save();
+
+            await recordAudit(request, user, {
+                action: "update",
+                targetModel: "Settings",
+                targetId: "homepage",
+                before: previousValue,
+                after: homepageSettings.value,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(homepageSettings.value, `${section} updated successfully`));
+        } catch (error) {
+            console.error("Error updating homepage section:", error);
+            return NextResponse.json(ApiResponseHelper.serverError("Internal server error"), { status: 500 });
+        }
+    }, { permission: 'manage_settings' });
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import Settings, { InvoiceSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { getInvoiceSettings, INVOICE_SETTINGS_NAME, validateInvoiceSettings } from '@/utils/invoice';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get seller details and invoice number format - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getInvoiceSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Invoice settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching invoice settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch invoice settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
+
+// Update seller details and invoice number format - Admin only; issued invoice numbers are kept
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const text = (field: string) => (typeof body[field] === 'string' ? (body[field] as string).trim() : body[field]);
+
+            const value = {
+                sellerName: text('sellerName'),
+                address: text('address'),
+                city: text('city'),
+                state: text('state'),
+                postalCode: text('postalCode'),
+                country: text('country'),
+                email: text('email'),
+                phone: text('phone'),
+                taxId: text('taxId'),
+                prefix: typeof body.prefix === 'string' ? body.prefix.trim().toUpperCase() : body.prefix,
+                padding: Number(body.padding),
+                footerNote: text('footerNote'),
+            } as InvoiceSettingsValue;
+
+            const errors = validateInvoiceSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previous = await Settings.findOneAndUpdate(
+                { name: INVOICE_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: INVOICE_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Invoice settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating invoice settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update invoice settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
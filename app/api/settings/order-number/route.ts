@@ -0,0 +1,81 @@
+import Settings, { OrderNumberSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import {
+    getOrderNumberSettings,
+    ORDER_NUMBER_SETTINGS_NAME,
+    validateOrderNumberSettings,
+} from '@/utils/orderNumber';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get order number format - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getOrderNumberSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Order number settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching order number settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch order number settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
+
+// Update order number format - Admin only
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value: OrderNumberSettingsValue = {
+                prefix: typeof body.prefix === 'string' ? body.prefix.trim().toUpperCase() : body.prefix,
+                datePattern: body.datePattern ?? '',
+                padding: Number(body.padding),
+            };
+
+            const errors = validateOrderNumberSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            // Existing numbers are untouched; a new prefix or date pattern simply starts its own sequence
+            const previous = await Settings.findOneAndUpdate(
+                { name: ORDER_NUMBER_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: ORDER_NUMBER_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Order number settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating order number settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update order number settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
@@ -1,33 +1,32 @@
-import { User } from '@/app/types/user';
 import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware, isAdmin } from '../../../../middleware/authMiddleware';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { recordAudit } from '../../../../utils/auditLog';
 import { getInitializationStatus, reinitializeOptimizations } from '../../../../utils/initOptimizations';
 
 export async function POST(req: NextRequest) {
-    return authMiddleware(req, async (_req, user: User) => {
-        // Check if user is admin
-        const adminCheck = isAdmin(user);
-        if (adminCheck) return adminCheck;
-
+    return authMiddleware(req, async (req, user) => {
         // Get current status
         const currentStatus = getInitializationStatus();
         // Reinitialize optimizations
         const result = await reinitializeOptimizations();
+
+        await recordAudit(req, user, {
+            action: 'reinitialize',
+            targetModel: 'Cache',
+            before: currentStatus,
+            after: { ...getInitializationStatus(), success: result.success },
+        });
         return NextResponse.json({
             success: result.success,
             message: result.message,
             previousStatus: currentStatus,
             newStatus: getInitializationStatus()
         });
-    });
+    }, { permission: 'manage_settings' });
 }
 
 export async function GET(req: NextRequest) {
-    return authMiddleware(req, async (_req, user: User) => {
-        // Check if user is admin
-        const adminCheck = isAdmin(user);
-        if (adminCheck) return adminCheck;
-
+    return authMiddleware(req, async () => {
         // Get current initialization status
         const status = getInitializationStatus();
         return NextResponse.json({
@@ -35,5 +34,5 @@ export async function GET(req: NextRequest) {
             status,
             timestamp: new Date().toISOString()
         });
-    });
+    }, { permission: 'manage_settings' });
 } 
\ No newline at end of file
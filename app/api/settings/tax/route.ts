@@ -0,0 +1,78 @@
+import Settings, { TaxSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import { getTaxSettings, TAX_SETTINGS_NAME, validateTaxSettings } from '@/utils/tax';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get tax settings - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getTaxSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Tax settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching tax settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch tax settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
+
+// Update tax settings - Admin only; placed orders keep the tax they were charged
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value: TaxSettingsValue = {
+                pricesIncludeTax: body.pricesIncludeTax,
+                taxShipping: body.taxShipping,
+                shippingTaxClass: typeof body.shippingTaxClass === 'string'
+                    ? body.shippingTaxClass.trim().toLowerCase()
+                    : body.shippingTaxClass,
+            };
+
+            const errors = validateTaxSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previous = await Settings.findOneAndUpdate(
+                { name: TAX_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: TAX_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Tax settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating tax settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update tax settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
@@ -0,0 +1,78 @@
+import Settings, { TwoFactorSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import {
+    getTwoFactorSettings,
+    validateTwoFactorSettings,
+    TWO_FACTOR_SETTINGS_NAME,
+} from '@/utils/twoFactor';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get the two-factor policy - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getTwoFactorSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Two-factor settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching two-factor settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch two-factor settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
+
+// Update the two-factor policy - Admin only; admins without two-factor are asked to set it up at their next sign-in
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value = {
+                requireForAdmins: body.requireForAdmins,
+            } as TwoFactorSettingsValue;
+
+            const errors = validateTwoFactorSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previous = await Settings.findOneAndUpdate(
+                { name: TWO_FACTOR_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: TWO_FACTOR_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Two-factor settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating two-factor settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update two-factor settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
@@ -0,0 +1,80 @@
+import Settings, { VerificationSettingsValue } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { ApiResponseHelper } from '@/utils/apiResponse';
+import { recordAudit } from '@/utils/auditLog';
+import connectToDatabase from '@/utils/db';
+import {
+    getVerificationSettings,
+    validateVerificationSettings,
+    VERIFICATION_SETTINGS_NAME,
+} from '@/utils/emailVerification';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Get the email verification policy - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const settings = await getVerificationSettings();
+
+            return NextResponse.json(
+                ApiResponseHelper.success(settings, 'Verification settings retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching verification settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to fetch verification settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
+
+// Update the email verification policy - Admin only; links already sent keep their expiry
+export function PUT(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await req.json();
+            const value = {
+                requireVerifiedEmail: body.requireVerifiedEmail,
+                tokenExpiresHours: Number(body.tokenExpiresHours),
+                resendCooldownMinutes: Number(body.resendCooldownMinutes),
+            } as VerificationSettingsValue;
+
+            const errors = validateVerificationSettings(value);
+            if (Object.keys(errors).length > 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const previous = await Settings.findOneAndUpdate(
+                { name: VERIFICATION_SETTINGS_NAME },
+                { value },
+                { upsert: true }
+            );
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: VERIFICATION_SETTINGS_NAME,
+                before: previous?.value,
+                after: value,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(value, 'Verification settings updated successfully')
+            );
+        } catch (error) {
+            console.error('Error updating verification settings:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update verification settings'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
@@ -1,4 +1,6 @@
 import Settings, { WebsiteThemeSettings } from '@/app/api/models/Settings';
+import { authMiddleware } from '@/middleware/authMiddleware';
+import { recordAudit } from '@/utils/auditLog';
 import connectToDatabase from '@/utils/db';
 import { NextRequest, NextResponse } from 'next/server';
 
@@ -77,62 +79,73 @@ export async function GET() {
 }
 
 export async function PUT(request: NextRequest) {
-    try {
-        await connectToDatabase();
+    return authMiddleware(request, async (request, user) => {
+        try {
+            await connectToDatabase();
+
+            const body = await request.json();
+
+            // Validate required fields
+            const requiredFields = [
+                'primaryColor', 'secondaryColor', 'accentColor',
+                'buttonPrimaryColor', 'buttonSecondaryColor', 'buttonHoverColor', 'buttonTextColor',
+                'headerBackgroundColor', 'headerTextColor', 'headerBorderColor',
+                'footerBackgroundColor', 'footerTextColor', 'footerLinkColor',
+                'backgroundColor', 'surfaceColor',
+                'textPrimaryColor', 'textSecondaryColor',
+                'borderColor', 'shadowColor'
+            ];
+
+            for (const field of requiredFields) {
+                if (!body[field]) {
+                    return NextResponse.json(
+                        {
+                            success: false,
+                            message: `Missing required field: ${field}`
+                        },
+                        { status: 400 }
+                    );
+                }
+            }
 
-        const body = await request.json();
-
-        // Validate required fields
-        const requiredFields = [
-            'primaryColor', 'secondaryColor', 'accentColor',
-            'buttonPrimaryColor', 'buttonSecondaryColor', 'buttonHoverColor', 'buttonTextColor',
-            'headerBackgroundColor', 'headerTextColor', 'headerBorderColor',
-            'footerBackgroundColor', 'footerTextColor', 'footerLinkColor',
-            'backgroundColor', 'surfaceColor',
-            'textPrimaryColor', 'textSecondaryColor',
-            'borderColor', 'shadowColor'
-        ];
-
-        for (const field of requiredFields) {
-            if (!body[field]) {
-                return NextResponse.json(
-                    {
-                        success: false,
-                        message: `Missing required field: ${field}`
-                    },
-                    { status: 400 }
-                );
+            let settings = await Settings.findOne({ name: 'website-theme' });
+            const previousValue = settings?.value;
+
+            if (settings) {
+                settings.value = body;
+                settings.updatedAt = new Date();
+            } else {
+                settings = new Settings({
+                    name: 'website-theme',
+                    value: body
+                });
             }
-        }
 
-        let settings = await Settings.findOne({ name: 'website-theme' });
+            await settings.save();
 
-        if (settings) {
-            settings.value = body;
-            settings.updatedAt = new Date();
-        } else {
-            settings = new Settings({
-                name: 'website-theme',
-                value: body
+            await recordAudit(request, user, {
+                action: 'update',
+                targetModel: 'Settings',
+                targetId: 'website-theme',
+                before: previousValue,
+                after: settings.value,
             });
-        }
-
-        await settings.save();
 
-        return NextResponse.json({
-            success: true,
-            message: 'Website theme settings updated successfully',
-            data: settings
-        });
-    } catch (error) {
-        console.error('Error updating website theme settings:', error);
-        return NextResponse.json(
-            {
-                success: false,
-                message: 'Failed to update website theme settings',
-                error: error instanceof Error ? error.message : 'Unknown error'
-            },
-            { status: 500 }
-        );
-    }
-} 
\ No newline at end of file
+            return NextResponse.json({
+                success: true,
+                message: 'Website theme settings updated successfully',
+                data: settings
+            });
+        } catch (error) {
+            console.error('Error updating website theme settings:', error);
+            return NextResponse.json(
+                {
+                    success: false,
+                    message: 'Failed to update website theme settings',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                },
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_settings' });
+}
\ No newline at end of file
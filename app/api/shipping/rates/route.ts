@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import connectToDatabase from '../../../../utils/db';
+import { getCartOwner } from '../../../../utils/guest';
+import { getShippingRates, ShippingError, toShippingQuote } from '../../../../utils/shipping';
+import { Validator } from '../../../../utils/validation';
+import Cart from '../../models/Cart';
+
+const addressSchema = {
+    country: { required: true, type: 'string' as const, min: 2, max: 56 },
+    state: { required: false, type: 'string' as const, max: 100 },
+    postalCode: { required: false, type: 'string' as const, max: 20 },
+};
+
+// Quote the shipping methods available for the cart to an address
+export function POST(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const { address } = Validator.sanitizeInput(rawData) as {
+                address?: { country: string; state?: string; postalCode?: string };
+            };
+
+            const { isValid, errors } = Validator.validate({ ...address }, addressSchema);
+            if (!address || !isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
+
+            if (!cart || cart.items.length === 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Add items to your cart to see shipping options'),
+                    { status: 400 }
+                );
+            }
+
+            const rates = await getShippingRates(address, cart.items);
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ methods: rates.map(toShippingQuote) }, 'Shipping rates retrieved successfully')
+            );
+        } catch (error) {
+            if (error instanceof ShippingError) {
+                return NextResponse.json(ApiResponseHelper.error(error.message), { status: 400 });
+            }
+
+            console.error('Error quoting shipping rates:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve shipping rates'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,133 @@
+import { ValidationError } from '@/app/types/mongoose';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import { pickShippingZoneFields } from '../../../../../utils/shipping';
+import { Validator } from '../../../../../utils/validation';
+import ShippingZone from '../../../models/ShippingZone';
+
+// Get a shipping zone - Admin only
+export function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid shipping zone ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const zone = await ShippingZone.findById(id);
+            if (!zone) {
+                return NextResponse.json(ApiResponseHelper.notFound('Shipping zone'), { status: 404 });
+            }
+
+            return NextResponse.json(ApiResponseHelper.success(zone, 'Shipping zone retrieved successfully'));
+        } catch (error) {
+            console.error('Error fetching shipping zone:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve shipping zone'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
+
+// Update a shipping zone - Admin only
+export function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid shipping zone ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const zone = await ShippingZone.findById(id);
+            if (!zone) {
+                return NextResponse.json(ApiResponseHelper.notFound('Shipping zone'), { status: 404 });
+            }
+            const previousShippingZone = zone.toObject();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            // Saved through the document so the method checks in the schema run
+            zone.set(pickShippingZoneFields(data));
+            await zone.save();
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'ShippingZone',
+                targetId: id,
+                targetLabel: zone.name,
+                before: previousShippingZone,
+                after: zone,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(zone, 'Shipping zone updated successfully'));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            console.error('Error updating shipping zone:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update shipping zone'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
+
+// Delete a shipping zone - Admin only; orders keep their own copy of the method
+export function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid shipping zone ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const zone = await ShippingZone.findByIdAndDelete(id);
+            if (!zone) {
+                return NextResponse.json(ApiResponseHelper.notFound('Shipping zone'), { status: 404 });
+            }
+
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'ShippingZone',
+                targetId: id,
+                targetLabel: zone.name,
+                before: zone,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(null, 'Shipping zone deleted successfully'));
+        } catch (error) {
+            console.error('Error deleting shipping zone:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to delete shipping zone'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
@@ -0,0 +1,71 @@
+import { ValidationError } from '@/app/types/mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { recordAudit } from '../../../../utils/auditLog';
+import connectToDatabase from '../../../../utils/db';
+import { pickShippingZoneFields } from '../../../../utils/shipping';
+import { Validator } from '../../../../utils/validation';
+import ShippingZone from '../../models/ShippingZone';
+
+// List shipping zones in matching order - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const zones = await ShippingZone.find().sort({ priority: -1, createdAt: 1 });
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ zones }, 'Shipping zones retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching shipping zones:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve shipping zones'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
+
+// Create a shipping zone - Admin only
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            const zone = await ShippingZone.create(pickShippingZoneFields(data));
+
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'ShippingZone',
+                targetId: zone._id,
+                targetLabel: zone.name,
+                after: zone,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(zone, 'Shipping zone created successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            console.error('Error creating shipping zone:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to create shipping zone'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_shipping' });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shopperMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { evaluateCartCoupon } from '../../../../utils/coupons';
+import connectToDatabase from '../../../../utils/db';
+import { getCartOwner, getCouponCustomer } from '../../../../utils/guest';
+import { calculateOrderTotals } from '../../../../utils/pricing';
+import { quoteShippingMethod, ShippingError } from '../../../../utils/shipping';
+import { calculateOrderTax } from '../../../../utils/tax';
+import { Validator } from '../../../../utils/validation';
+import Cart from '../../models/Cart';
+
+const quoteSchema = {
+    country: { required: true, type: 'string' as const, min: 2, max: 56 },
+    state: { required: false, type: 'string' as const, max: 100 },
+    postalCode: { required: false, type: 'string' as const, max: 20 },
+};
+
+// Preview the tax on the cart for an address and shipping method; the order API recomputes it
+export function POST(req: NextRequest) {
+    return shopperMiddleware(req, async (req, shopper) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const { address, shippingMethod } = Validator.sanitizeInput(rawData) as {
+                address?: { country: string; state?: string; postalCode?: string };
+                shippingMethod?: string;
+            };
+
+            const { isValid, errors } = Validator.validate({ ...address }, quoteSchema);
+            if (!address || !isValid) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError(errors),
+                    { status: 400 }
+                );
+            }
+
+            const owner = getCartOwner(shopper);
+            const cart = owner ? await Cart.findOne(owner) : null;
+
+            if (!cart || cart.items.length === 0) {
+                return NextResponse.json(
+                    ApiResponseHelper.error('Add items to your cart to see the tax'),
+                    { status: 400 }
+                );
+            }
+
+            const itemsPrice = cart.items.reduce((sum: number, item: { totalPrice: number }) => sum + item.totalPrice, 0);
+            const { discount } = await evaluateCartCoupon(cart, getCouponCustomer(shopper));
+            const shippingRate = await quoteShippingMethod(
+                address,
+                cart.items,
+                typeof shippingMethod === 'string' && shippingMethod ? shippingMethod : undefined
+            );
+
+            const totals = calculateOrderTotals(itemsPrice, {
+                discount: discount?.amount,
+                freeShipping: discount?.freeShipping,
+                shippingPrice: shippingRate.price,
+            });
+            const tax = await calculateOrderTax(address, cart.items, {
+                discount: totals.discount,
+                shippingPrice: totals.shippingPrice,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(
+                    {
+                        taxPrice: tax.taxPrice,
+                        shippingTaxPrice: tax.shippingTaxPrice,
+                        pricesIncludeTax: tax.pricesIncludeTax,
+                    },
+                    'Tax calculated successfully'
+                )
+            );
+        } catch (error) {
+            if (error instanceof ShippingError) {
+                return NextResponse.json(ApiResponseHelper.error(error.message), { status: 400 });
+            }
+
+            console.error('Error calculating tax:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to calculate tax'),
+                { status: 500 }
+            );
+        }
+    });
+}
@@ -0,0 +1,140 @@
+import { ValidationError } from '@/app/types/mongoose';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../../utils/apiResponse';
+import { recordAudit } from '../../../../../utils/auditLog';
+import connectToDatabase from '../../../../../utils/db';
+import { pickTaxRateFields } from '../../../../../utils/tax';
+import { Validator } from '../../../../../utils/validation';
+import TaxRate from '../../../models/TaxRate';
+
+// Get a single tax rate - Admin only
+export function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid tax rate ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const rate = await TaxRate.findById(id);
+            if (!rate) {
+                return NextResponse.json(ApiResponseHelper.notFound('Tax rate'), { status: 404 });
+            }
+
+            return NextResponse.json(ApiResponseHelper.success(rate, 'Tax rate retrieved successfully'));
+        } catch (error) {
+            console.error('Error fetching tax rate:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve tax rate'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
+
+// Update a tax rate - Admin only; placed orders keep the tax they were charged
+export function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid tax rate ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const rate = await TaxRate.findById(id);
+            if (!rate) {
+                return NextResponse.json(ApiResponseHelper.notFound('Tax rate'), { status: 404 });
+            }
+            const previousTaxRate = rate.toObject();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            // Saved through the document so the state check in the schema runs
+            rate.set(pickTaxRateFields(data));
+            await rate.save();
+
+            await recordAudit(req, user, {
+                action: 'update',
+                targetModel: 'TaxRate',
+                targetId: id,
+                targetLabel: rate.name,
+                before: previousTaxRate,
+                after: rate,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(rate, 'Tax rate updated successfully'));
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            if (error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ taxClass: 'This place already has a rate for this tax class' }),
+                    { status: 400 }
+                );
+            }
+
+            console.error('Error updating tax rate:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to update tax rate'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
+
+// Delete a tax rate - Admin only
+export function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const { id } = await params;
+            if (!mongoose.Types.ObjectId.isValid(id)) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ id: 'Invalid tax rate ID format' }),
+                    { status: 400 }
+                );
+            }
+
+            const rate = await TaxRate.findByIdAndDelete(id);
+            if (!rate) {
+                return NextResponse.json(ApiResponseHelper.notFound('Tax rate'), { status: 404 });
+            }
+
+            await recordAudit(req, user, {
+                action: 'delete',
+                targetModel: 'TaxRate',
+                targetId: id,
+                targetLabel: rate.name,
+                before: rate,
+            });
+
+            return NextResponse.json(ApiResponseHelper.success(null, 'Tax rate deleted successfully'));
+        } catch (error) {
+            console.error('Error deleting tax rate:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to delete tax rate'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
@@ -0,0 +1,81 @@
+import { ValidationError } from '@/app/types/mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../../middleware/authMiddleware';
+import { ApiResponseHelper } from '../../../../utils/apiResponse';
+import { recordAudit } from '../../../../utils/auditLog';
+import connectToDatabase from '../../../../utils/db';
+import { getTaxClasses, pickTaxRateFields } from '../../../../utils/tax';
+import { Validator } from '../../../../utils/validation';
+import TaxRate from '../../models/TaxRate';
+
+// List tax rates and the classes in use - Admin only
+export function GET(req: NextRequest) {
+    return authMiddleware(req, async () => {
+        try {
+            await connectToDatabase();
+
+            const [rates, classes] = await Promise.all([
+                TaxRate.find().sort({ country: 1, state: 1, taxClass: 1 }),
+                getTaxClasses(),
+            ]);
+
+            return NextResponse.json(
+                ApiResponseHelper.success({ rates, classes }, 'Tax rates retrieved successfully')
+            );
+        } catch (error) {
+            console.error('Error fetching tax rates:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to retrieve tax rates'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
+
+// Create a tax rate - Admin only
+export function POST(req: NextRequest) {
+    return authMiddleware(req, async (req, user) => {
+        try {
+            await connectToDatabase();
+
+            const rawData = await req.json();
+            const data = Validator.sanitizeInput(rawData) as Record<string, unknown>;
+
+            const rate = await TaxRate.create(pickTaxRateFields(data));
+
+            await recordAudit(req, user, {
+                action: 'create',
+                targetModel: 'TaxRate',
+                targetId: rate._id,
+                targetLabel: rate.name,
+                after: rate,
+            });
+
+            return NextResponse.json(
+                ApiResponseHelper.success(rate, 'Tax rate created successfully'),
+                { status: 201 }
+            );
+        } catch (error) {
+            if (error instanceof Error && error.name === 'ValidationError') {
+                const errors: Record<string, string> = {};
+                Object.entries((error as ValidationError).errors).forEach(([field, fieldError]) => {
+                    errors[field] = fieldError.message;
+                });
+                return NextResponse.json(ApiResponseHelper.validationError(errors), { status: 400 });
+            }
+
+            if (error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000) {
+                return NextResponse.json(
+                    ApiResponseHelper.validationError({ taxClass: 'This place already has a rate for this tax class' }),
+                    { status: 400 }
+                );
+            }
+
+            console.error('Error creating tax rate:', error);
+            return NextResponse.json(
+                ApiResponseHelper.serverError('Failed to create tax rate'),
+                { status: 500 }
+            );
+        }
+    }, { permission: 'manage_tax' });
+}
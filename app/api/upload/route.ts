@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authMiddleware } from '../../../middleware/authMiddleware';
 import { rateLimiters } from '../../../middleware/rateLimiting';
 import { ApiResponseHelper } from '../../../utils/apiResponse';
 import connectToDatabase from '../../../utils/db';
@@ -41,7 +42,7 @@ function validateFile(file: File): { isValid: boolean; error?: string } {
 }
 
 export async function POST(req: NextRequest) {
-  return rateLimiters.upload(req, async (req) => {
+  return rateLimiters.upload(req, (req) => authMiddleware(req, async (req) => {
     try {
       await connectToDatabase();
 
@@ -125,5 +126,5 @@ export async function POST(req: NextRequest) {
         { status: 500 }
       );
     }
-  });
+  }, { permission: 'manage_uploads' }));
 }
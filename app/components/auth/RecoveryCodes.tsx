@@ -0,0 +1,41 @@
+"use client";
+
+import { toast } from "react-toastify";
+
+interface RecoveryCodesProps {
+  codes: string[];
+  className?: string;
+}
+
+// Shows freshly created recovery codes; they cannot be seen again once this is closed
+export default function RecoveryCodes({ codes, className = "" }: RecoveryCodesProps) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch {
+      toast.error("Could not copy, please write the codes down");
+    }
+  };
+
+  return (
+    <div className={className}>
+      <p className="text-sm mb-3">
+        Keep these recovery codes somewhere safe. Each one signs you in once if
+        you lose your authenticator app. They will not be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm mb-3">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="text-sm underline hover:no-underline"
+      >
+        Copy codes
+      </button>
+    </div>
+  );
+}
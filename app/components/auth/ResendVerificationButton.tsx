@@ -0,0 +1,42 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "react-toastify";
+
+interface ResendVerificationButtonProps {
+  className?: string;
+}
+
+// Asks for another verification email for the signed-in customer
+export default function ResendVerificationButton({
+  className = "px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50",
+}: ResendVerificationButtonProps) {
+  const [sending, setSending] = useState(false);
+
+  const handleResend = async () => {
+    try {
+      setSending(true);
+      const response = await fetch("/api/auth/verify/resend", { method: "POST" });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message || "Verification email sent");
+      } else if (response.status === 401) {
+        toast.error("Please log in to get a new verification link");
+      } else {
+        toast.error(data.message || "Failed to send verification email");
+      }
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      toast.error("Failed to send verification email");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <button onClick={handleResend} disabled={sending} className={className}>
+      {sending ? "Sending..." : "Send a new verification link"}
+    </button>
+  );
+}
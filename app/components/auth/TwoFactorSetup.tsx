@@ -0,0 +1,136 @@
+"use client";
+
+import { TwoFactorSetupResponse } from "@/app/types/api";
+import { useEffect, useRef, useState } from "react";
+import RecoveryCodes from "./RecoveryCodes";
+
+interface TwoFactorSetupProps {
+  // From a login that requires setup; without it the signed-in user is set up
+  challengeToken?: string;
+  // Called once the user has seen their recovery codes
+  onComplete: () => void;
+  inputClassName?: string;
+  buttonClassName?: string;
+}
+
+// Walks a user through adding the store to their authenticator app and confirming the first code
+export default function TwoFactorSetup({
+  challengeToken,
+  onComplete,
+  inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900",
+  buttonClassName = "px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50",
+}: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Each setup request replaces the secret, so only ask once
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    const startSetup = async () => {
+      try {
+        const response = await fetch("/api/auth/2fa/setup", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ challengeToken }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to start two-factor setup");
+        }
+
+        setSetup(data.data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to start two-factor setup");
+      }
+    };
+
+    startSetup();
+  }, [challengeToken]);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch("/api/auth/2fa/enable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: code.trim(), challengeToken }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.errors?.code || data.message || "Failed to turn on two-factor authentication");
+      }
+
+      setRecoveryCodes(data.data.recoveryCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to turn on two-factor authentication");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodes codes={recoveryCodes} />
+        <button type="button" onClick={onComplete} className={buttonClassName}>
+          I&apos;ve saved my recovery codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      {error && <div className="p-3 bg-red-100 text-red-700 rounded-md text-sm">{error}</div>}
+
+      {setup ? (
+        <>
+          <p className="text-sm">
+            Add this account to an authenticator app such as Google
+            Authenticator, 1Password or Authy.{" "}
+            <a href={setup.otpauthUrl} className="underline">
+              Open in your authenticator app
+            </a>{" "}
+            on this device, or enter this key by hand:
+          </p>
+          <p className="font-mono text-sm break-all select-all">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </p>
+          <div>
+            <label htmlFor="two-factor-setup-code" className="block text-sm font-medium mb-1">
+              Code from the app
+            </label>
+            <input
+              id="two-factor-setup-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClassName}
+              placeholder="123456"
+            />
+          </div>
+          <button type="submit" disabled={submitting} className={buttonClassName}>
+            {submitting ? "Checking..." : "Turn on two-factor"}
+          </button>
+        </>
+      ) : (
+        !error && <p className="text-sm">Preparing your key...</p>
+      )}
+    </form>
+  );
+}
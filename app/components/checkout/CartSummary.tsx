@@ -3,8 +3,10 @@
 import { ArrowLeftIcon, ArrowRightIcon } from "@heroicons/react/24/outline";
 import { motion } from "framer-motion";
 import Image from "next/image";
+import { useAppSelector } from "../../store/hooks";
 import { CartItem } from "../../store/slices/cartSlice";
 import ThemeButton from "../ui/ThemeButton";
+import CouponForm from "./CouponForm";
 
 interface CartSummaryProps {
   items: CartItem[];
@@ -17,6 +19,8 @@ export default function CartSummary({
   onContinue,
   onBack,
 }: CartSummaryProps) {
+  const coupon = useAppSelector((state) => state.cart.coupon);
+
   const calculateSubtotal = () => {
     return items.reduce(
       (total, item) => total + (item.totalPrice || item.price * item.quantity),
@@ -117,18 +121,31 @@ export default function CartSummary({
         ))}
       </div>
 
+      {/* Coupon */}
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mb-4">
+        <CouponForm />
+      </div>
+
       {/* Subtotal */}
       <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mb-6">
+        {coupon && coupon.amount > 0 && (
+          <div className="flex justify-between items-center mb-2 text-green-600 dark:text-green-400">
+            <span>Discount ({coupon.code})</span>
+            <span>-${coupon.amount.toFixed(2)}</span>
+          </div>
+        )}
         <div className="flex justify-between items-center">
           <span className="text-lg font-medium text-gray-900 dark:text-white">
             Subtotal
           </span>
           <span className="text-2xl font-bold text-gray-900 dark:text-white">
-            ${calculateSubtotal().toFixed(2)}
+            ${Math.max(0, calculateSubtotal() - (coupon?.amount || 0)).toFixed(2)}
           </span>
         </div>
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-          Shipping and taxes calculated at next step
+          {coupon?.freeShipping
+            ? "Free shipping applied. Taxes calculated at next step"
+            : "Shipping and taxes calculated at next step"}
         </p>
       </div>
 
@@ -0,0 +1,117 @@
+"use client";
+
+import { TagIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { FormEvent, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import {
+  applyCoupon,
+  refreshCoupon,
+  removeCoupon,
+} from "../../store/slices/cartSlice";
+
+export default function CouponForm() {
+  const dispatch = useAppDispatch();
+  const { coupon, totalPrice } = useAppSelector((state) => state.cart);
+  const [code, setCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The discount depends on the cart contents, so re-check it whenever they change
+  const hasCoupon = coupon !== null;
+  useEffect(() => {
+    if (!hasCoupon) return;
+
+    dispatch(refreshCoupon())
+      .unwrap()
+      .then(({ removedReason }) => {
+        if (removedReason) {
+          toast.info(`Coupon removed: ${removedReason}`);
+        }
+      })
+      .catch(() => {});
+  }, [dispatch, hasCoupon, totalPrice]);
+
+  const handleApply = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      await dispatch(applyCoupon(code.trim())).unwrap();
+      setCode("");
+      toast.success("Coupon applied!");
+    } catch (applyError) {
+      setError(
+        typeof applyError === "string" ? applyError : "Failed to apply coupon"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      setSubmitting(true);
+      await dispatch(removeCoupon()).unwrap();
+    } catch {
+      toast.error("Failed to remove coupon");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (coupon) {
+    return (
+      <div className="flex items-center justify-between p-3 rounded-lg bg-green-50 dark:bg-green-900/20">
+        <div className="flex items-center gap-2 text-sm text-green-800 dark:text-green-400">
+          <TagIcon className="w-4 h-4" />
+          <span className="font-semibold">{coupon.code}</span>
+          <span>
+            {coupon.freeShipping
+              ? "Free shipping"
+              : `-$${coupon.amount.toFixed(2)}`}
+          </span>
+        </div>
+        <button
+          type="button"
+          onClick={handleRemove}
+          disabled={submitting}
+          className="p-1 text-green-800 dark:text-green-400 hover:opacity-70 disabled:opacity-50"
+          aria-label="Remove coupon"
+        >
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply}>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.toUpperCase());
+            setError(null);
+          }}
+          placeholder="Coupon code"
+          maxLength={30}
+          className={`flex-1 px-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+            error ? "border-red-500 ring-2 ring-red-500/20" : "border-gray-300"
+          }`}
+        />
+        <button
+          type="submit"
+          disabled={submitting || !code.trim()}
+          className="px-4 py-2 text-sm font-medium bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-white rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-all disabled:opacity-50"
+        >
+          {submitting ? "Applying..." : "Apply"}
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </form>
+  );
+}
@@ -17,6 +17,7 @@ interface OrderConfirmationProps {
   orderId: string;
   checkoutData: CheckoutData;
   totals: OrderTotals;
+  isGuest?: boolean;
 }
 
 interface LoadingStates {
@@ -28,6 +29,7 @@ export default function OrderConfirmation({
   orderId,
   checkoutData,
   totals,
+  isGuest = false,
 }: OrderConfirmationProps) {
   const [orderNumber, setOrderNumber] = useState<string>("");
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({
@@ -108,9 +110,14 @@ export default function OrderConfirmation({
     }
   };
 
+  const deliveryEstimate = CheckoutService.formatDeliveryEstimate(
+    checkoutData.shippingMethod?.estimatedDays
+  );
+
   const getEstimatedDelivery = () => {
     const deliveryDate = new Date();
-    const daysToAdd = totals.shippingPrice === 0 ? 3 : 7;
+    const estimate = checkoutData.shippingMethod?.estimatedDays;
+    const daysToAdd = estimate?.max ?? estimate?.min ?? 7;
     deliveryDate.setDate(deliveryDate.getDate() + daysToAdd);
 
     return deliveryDate.toLocaleDateString("en-US", {
@@ -240,6 +247,16 @@ export default function OrderConfirmation({
                   ${totals.itemsPrice.toFixed(2)}
                 </span>
               </div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-400">
+                    Discount
+                  </span>
+                  <span className="text-green-600 dark:text-green-400">
+                    -${totals.discount.toFixed(2)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-600 dark:text-gray-400">
                   Shipping
@@ -251,7 +268,9 @@ export default function OrderConfirmation({
                 </span>
               </div>
               <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">Tax</span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {totals.pricesIncludeTax ? "Tax (included)" : "Tax"}
+                </span>
                 <span className="text-gray-900 dark:text-white">
                   ${totals.taxPrice.toFixed(2)}
                 </span>
@@ -343,9 +362,11 @@ export default function OrderConfirmation({
               {getEstimatedDelivery()}
             </p>
             <p className="text-sm text-blue-700 dark:text-blue-400">
-              {totals.shippingPrice === 0
-                ? "Free shipping - Your order will be delivered within 3-5 business days"
-                : "Standard shipping - Your order will be delivered within 5-7 business days"}
+              {checkoutData.shippingMethod?.name || "Standard shipping"}
+              {totals.shippingPrice === 0 && " (free)"}
+              {` - Your order will be delivered within ${
+                deliveryEstimate || "5-7 business days"
+              }`}
             </p>
             {checkoutData.payment.method === "cash_on_delivery" && (
               <div className="mt-3 p-3 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg">
@@ -422,7 +443,7 @@ export default function OrderConfirmation({
         transition={{ duration: 0.6, delay: 1.0 }}
         className="flex flex-col sm:flex-row gap-4 justify-center"
       >
-        <Link href="/orders">
+        <Link href={isGuest ? "/orders/lookup" : "/orders"}>
           <ThemeButton
             variant="secondary"
             size="lg"
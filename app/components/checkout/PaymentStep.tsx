@@ -407,6 +407,14 @@ export default function PaymentStep({
                 ${totals.itemsPrice.toFixed(2)}
               </span>
             </div>
+            {totals.discount > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Discount</span>
+                <span className="text-green-600 dark:text-green-400">
+                  -${totals.discount.toFixed(2)}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Shipping</span>
               <span className="text-gray-900 dark:text-white">
@@ -416,7 +424,9 @@ export default function PaymentStep({
               </span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Tax</span>
+              <span className="text-gray-600 dark:text-gray-400">
+                {totals.pricesIncludeTax ? "Tax (included)" : "Tax"}
+              </span>
               <span className="text-gray-900 dark:text-white">
                 ${totals.taxPrice.toFixed(2)}
               </span>
@@ -4,28 +4,39 @@ import {
   ArrowLeftIcon,
   ArrowRightIcon,
   MapPinIcon,
+  TruckIcon,
 } from "@heroicons/react/24/outline";
 import { motion } from "framer-motion";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { toast } from "react-toastify";
 import { CheckoutService } from "../../services/checkoutService";
 import { CheckoutData, SavedAddress } from "../../types/checkout";
+import { ShippingQuote } from "../../types/shipping";
 import ThemeButton from "../ui/ThemeButton";
 
 interface ShippingStepProps {
   initialData: CheckoutData["shipping"];
-  onComplete: (data: CheckoutData["shipping"]) => void;
+  initialMethod?: ShippingQuote;
+  // Null while it is still unknown whether the shopper is signed in
+  isGuest: boolean | null;
+  onComplete: (
+    data: CheckoutData["shipping"],
+    shippingMethod: ShippingQuote
+  ) => void;
   onBack: () => void;
 }
 
 interface LoadingStates {
   fetchingAddresses: boolean;
   savingAddress: boolean;
+  fetchingRates: boolean;
   submitting: boolean;
 }
 
 export default function ShippingStep({
   initialData,
+  initialMethod,
+  isGuest,
   onComplete,
   onBack,
 }: ShippingStepProps) {
@@ -35,16 +46,24 @@ export default function ShippingStep({
   const [loadingStates, setLoadingStates] = useState<LoadingStates>({
     fetchingAddresses: false,
     savingAddress: false,
+    fetchingRates: false,
     submitting: false,
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [saveAddress, setSaveAddress] = useState(false);
   const [hasUserInteracted, setHasUserInteracted] = useState(false);
+  const [shippingMethods, setShippingMethods] = useState<ShippingQuote[]>([]);
+  const [selectedMethodId, setSelectedMethodId] = useState(
+    initialMethod?.id || ""
+  );
+  const [ratesError, setRatesError] = useState<string | null>(null);
 
-  // Fetch saved addresses
+  // Fetch saved addresses; guests have none
   useEffect(() => {
-    fetchSavedAddresses();
-  }, []);
+    if (isGuest === false) {
+      fetchSavedAddresses();
+    }
+  }, [isGuest]);
 
   // Auto-save draft to localStorage
   useEffect(() => {
@@ -73,6 +92,57 @@ export default function ShippingStep({
     }
   }, [initialData.fullName]);
 
+  // Quote shipping methods once the destination is known, waiting for the shopper to stop typing
+  const { country, state, postalCode } = formData;
+  useEffect(() => {
+    if (!country) {
+      setShippingMethods([]);
+      setRatesError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoadingStates((prev) => ({ ...prev, fetchingRates: true }));
+      try {
+        const methods = await CheckoutService.getShippingRates({
+          country,
+          state,
+          postalCode,
+        });
+        if (cancelled) return;
+
+        setShippingMethods(methods);
+        setRatesError(null);
+        // Keep the shopper's choice when it is still offered, otherwise default to the cheapest
+        setSelectedMethodId((current) =>
+          methods.some((method) => method.id === current)
+            ? current
+            : methods[0]?.id || ""
+        );
+      } catch (error) {
+        if (cancelled) return;
+
+        setShippingMethods([]);
+        setSelectedMethodId("");
+        setRatesError(
+          error instanceof Error
+            ? error.message
+            : "Failed to load shipping options"
+        );
+      } finally {
+        if (!cancelled) {
+          setLoadingStates((prev) => ({ ...prev, fetchingRates: false }));
+        }
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [country, state, postalCode]);
+
   const fetchSavedAddresses = async () => {
     setLoadingStates((prev) => ({ ...prev, fetchingAddresses: true }));
     try {
@@ -92,7 +162,10 @@ export default function ShippingStep({
       payment: { method: "" }, // Mock payment data for validation
     };
 
-    const validation = CheckoutService.validateCheckoutData(mockCheckoutData);
+    const validation = CheckoutService.validateCheckoutData(
+      mockCheckoutData,
+      !!isGuest
+    );
 
     // Extract only shipping-related errors
     const shippingErrors: Record<string, string> = {};
@@ -104,7 +177,7 @@ export default function ShippingStep({
 
     setErrors(shippingErrors);
     return Object.keys(shippingErrors).length === 0;
-  }, [formData]);
+  }, [formData, isGuest]);
 
   const handleInputChange = useCallback(
     (field: keyof CheckoutData["shipping"], value: string) => {
@@ -131,11 +204,12 @@ export default function ShippingStep({
         country: address.country || "",
         phone: address.phone || "",
         notes: formData.notes || "", // Keep existing notes
+        email: formData.email,
       });
       setErrors({});
       toast.success("Address loaded successfully");
     },
-    [formData.notes]
+    [formData.notes, formData.email]
   );
 
   const handleSaveAddress = async () => {
@@ -176,6 +250,14 @@ export default function ShippingStep({
       return;
     }
 
+    const selectedMethod = shippingMethods.find(
+      (method) => method.id === selectedMethodId
+    );
+    if (!selectedMethod) {
+      toast.error("Please select a shipping method");
+      return;
+    }
+
     setLoadingStates((prev) => ({ ...prev, submitting: true }));
 
     try {
@@ -187,7 +269,7 @@ export default function ShippingStep({
       // Clear draft from localStorage
       localStorage.removeItem("checkout-shipping-draft");
 
-      onComplete(formData);
+      onComplete(formData, selectedMethod);
       toast.success("Shipping information saved!");
     } catch (error) {
       console.error("Error processing shipping:", error);
@@ -205,9 +287,11 @@ export default function ShippingStep({
       formData.state?.trim() &&
       formData.postalCode?.trim() &&
       formData.country?.trim() &&
-      formData.phone?.trim()
+      formData.phone?.trim() &&
+      (!isGuest || formData.email?.trim()) &&
+      shippingMethods.some((method) => method.id === selectedMethodId)
     );
-  }, [formData]);
+  }, [formData, isGuest, shippingMethods, selectedMethodId]);
 
   const isSubmitting = loadingStates.submitting || loadingStates.savingAddress;
 
@@ -273,6 +357,37 @@ export default function ShippingStep({
 
       {/* Shipping Form */}
       <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Contact Email for guests */}
+        {isGuest && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
+              Email *
+            </label>
+            <input
+              type="email"
+              value={formData.email || ""}
+              onChange={(e) => handleInputChange("email", e.target.value)}
+              className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white ${
+                errors.email
+                  ? "border-red-500 ring-2 ring-red-500/20"
+                  : "border-gray-300 dark:border-gray-600"
+              }`}
+              placeholder="you@example.com"
+              disabled={isSubmitting}
+            />
+            {errors.email ? (
+              <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+                {errors.email}
+              </p>
+            ) : (
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                We&apos;ll send your order updates here. Register with this
+                email later to see the order in your account.
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Full Name and Phone */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
@@ -462,6 +577,72 @@ export default function ShippingStep({
           )}
         </div>
 
+        {/* Shipping Method */}
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <TruckIcon className="w-5 h-5 text-blue-600" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Shipping Method
+            </h3>
+          </div>
+          {!formData.country ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Select your country to see shipping options.
+            </p>
+          ) : loadingStates.fetchingRates ? (
+            <div className="flex items-center justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            </div>
+          ) : ratesError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {ratesError}
+            </p>
+          ) : (
+            <div className="grid gap-3">
+              {shippingMethods.map((method) => (
+                <label
+                  key={method.id}
+                  className={`flex items-center justify-between p-4 border rounded-lg cursor-pointer transition-all ${
+                    selectedMethodId === method.id
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                      : "border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="radio"
+                      name="shippingMethod"
+                      value={method.id}
+                      checked={selectedMethodId === method.id}
+                      onChange={() => setSelectedMethodId(method.id)}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300"
+                      disabled={isSubmitting}
+                    />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {method.name}
+                      </p>
+                      {CheckoutService.formatDeliveryEstimate(
+                        method.estimatedDays
+                      ) && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Delivery in{" "}
+                          {CheckoutService.formatDeliveryEstimate(
+                            method.estimatedDays
+                          )}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <span className="font-semibold text-gray-900 dark:text-white">
+                    {method.price === 0 ? "Free" : `$${method.price.toFixed(2)}`}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Notes */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-primary mb-1">
@@ -478,22 +659,24 @@ export default function ShippingStep({
         </div>
 
         {/* Save Address Option */}
-        <div className="flex items-center gap-3">
-          <input
-            type="checkbox"
-            id="saveAddress"
-            checked={saveAddress}
-            onChange={(e) => setSaveAddress(e.target.checked)}
-            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            disabled={isSubmitting}
-          />
-          <label
-            htmlFor="saveAddress"
-            className="text-sm text-gray-700 dark:text-primary"
-          >
-            Save this address for future orders
-          </label>
-        </div>
+        {isGuest === false && (
+          <div className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              id="saveAddress"
+              checked={saveAddress}
+              onChange={(e) => setSaveAddress(e.target.checked)}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              disabled={isSubmitting}
+            />
+            <label
+              htmlFor="saveAddress"
+              className="text-sm text-gray-700 dark:text-primary"
+            >
+              Save this address for future orders
+            </label>
+          </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-col sm:flex-row gap-4 pt-4">
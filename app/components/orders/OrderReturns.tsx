@@ -0,0 +1,293 @@
+"use client";
+
+import { OrderResponse } from "@/app/types/api";
+import {
+  RETURN_REASON_LABELS,
+  ReturnReason,
+  ReturnRequest,
+} from "@/app/types/returns";
+import { useCallback, useEffect, useState } from "react";
+import { FiRotateCcw } from "react-icons/fi";
+import { toast } from "react-toastify";
+
+interface OrderReturnsProps {
+  order: OrderResponse;
+}
+
+interface LineSelection {
+  selected: boolean;
+  quantity: number;
+  reason: ReturnReason | "";
+}
+
+const RETURNABLE_STATUSES = ["delivered", "completed"];
+
+const returnStatusColors: Record<string, string> = {
+  requested: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400",
+  approved: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
+  received: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  rejected: "bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400",
+};
+
+export default function OrderReturns({ order }: OrderReturnsProps) {
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [note, setNote] = useState("");
+  const [selection, setSelection] = useState<Record<number, LineSelection>>(
+    {}
+  );
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/returns?order=${order._id}&limit=50`);
+      if (response.ok) {
+        const data = await response.json();
+        setReturns(data.data.returns);
+      }
+    } catch (error) {
+      console.error("Error fetching returns:", error);
+    }
+  }, [order._id]);
+
+  useEffect(() => {
+    fetchReturns();
+  }, [fetchReturns]);
+
+  // Units per line already covered by a return that wasn't rejected
+  const returnedQuantity = (index: number) =>
+    returns
+      .filter((r) => r.status !== "rejected")
+      .flatMap((r) => r.items)
+      .filter((item) => item.orderItemIndex === index)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const canRequestReturn =
+    RETURNABLE_STATUSES.includes(order.status) &&
+    order.items.some((item, idx) => item.quantity - returnedQuantity(idx) > 0);
+
+  const updateLine = (index: number, changes: Partial<LineSelection>) => {
+    setSelection((prev) => ({
+      ...prev,
+      [index]: {
+        ...{ selected: false, quantity: 1, reason: "" },
+        ...prev[index],
+        ...changes,
+      },
+    }));
+  };
+
+  const handleSubmit = async () => {
+    const items = Object.entries(selection)
+      .filter(([, line]) => line.selected)
+      .map(([index, line]) => ({
+        orderItemIndex: Number(index),
+        quantity: line.quantity,
+        reason: line.reason,
+      }));
+
+    if (items.length === 0) {
+      toast.error("Select at least one item to return");
+      return;
+    }
+    if (items.some((item) => !item.reason)) {
+      toast.error("Please choose a reason for each item");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await fetch("/api/returns", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          orderId: order._id,
+          items,
+          customerNote: note,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        const firstError = data.errors && Object.values(data.errors)[0];
+        toast.error((firstError as string) || data.message || "Failed to request return");
+        return;
+      }
+
+      toast.success(`Return ${data.data.rmaNumber} requested`);
+      setShowForm(false);
+      setSelection({});
+      setNote("");
+      fetchReturns();
+    } catch (error) {
+      console.error("Error requesting return:", error);
+      toast.error("Failed to request return");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!canRequestReturn && returns.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="rounded-lg shadow-md p-6"
+      style={{
+        backgroundColor: "var(--theme-surface)",
+        boxShadow: "var(--theme-glow)",
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <FiRotateCcw className="w-5 h-5" />
+          Returns
+        </h2>
+        {canRequestReturn && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all text-sm"
+          >
+            Request a Return
+          </button>
+        )}
+      </div>
+
+      {returns.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {returns.map((returnRequest) => (
+            <div
+              key={returnRequest._id}
+              className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium">{returnRequest.rmaNumber}</span>
+                <span
+                  className={`px-2 py-1 rounded-full text-xs font-medium ${
+                    returnStatusColors[returnRequest.status]
+                  }`}
+                >
+                  {returnRequest.status.charAt(0).toUpperCase() +
+                    returnRequest.status.slice(1)}
+                </span>
+              </div>
+              <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+                {returnRequest.items.map((item) => (
+                  <li key={item.orderItemIndex}>
+                    {item.quantity} × {item.name} —{" "}
+                    {RETURN_REASON_LABELS[item.reason]}
+                  </li>
+                ))}
+              </ul>
+              {returnRequest.refundAmount > 0 && (
+                <p className="mt-2 text-sm font-medium">
+                  Refund: ${returnRequest.refundAmount.toFixed(2)}
+                </p>
+              )}
+              {returnRequest.adminNotes && (
+                <p className="mt-2 text-sm text-gray-500">
+                  {returnRequest.adminNotes}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <div className="space-y-4">
+          {order.items.map((item, index) => {
+            const remaining = item.quantity - returnedQuantity(index);
+            if (remaining <= 0) return null;
+            const line = selection[index];
+
+            return (
+              <div
+                key={index}
+                className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3"
+              >
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={line?.selected || false}
+                    onChange={(e) =>
+                      updateLine(index, { selected: e.target.checked })
+                    }
+                  />
+                  <span className="font-medium">
+                    {item.name || item.product?.name}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    ({remaining} returnable)
+                  </span>
+                </label>
+                {line?.selected && (
+                  <div className="flex flex-col sm:flex-row gap-3">
+                    <input
+                      type="number"
+                      min={1}
+                      max={remaining}
+                      value={line.quantity}
+                      onChange={(e) =>
+                        updateLine(index, {
+                          quantity: Math.min(
+                            remaining,
+                            Math.max(1, parseInt(e.target.value) || 1)
+                          ),
+                        })
+                      }
+                      className="w-24 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-transparent"
+                    />
+                    <select
+                      value={line.reason}
+                      onChange={(e) =>
+                        updateLine(index, {
+                          reason: e.target.value as ReturnReason,
+                        })
+                      }
+                      className="flex-1 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-transparent"
+                    >
+                      <option value="">Select a reason</option>
+                      {Object.entries(RETURN_REASON_LABELS).map(
+                        ([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            placeholder="Anything else we should know? (optional)"
+            className="w-full px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 bg-transparent"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="px-4 py-2 bg-primary text-white rounded-md hover:bg-opacity-90 transition-all disabled:opacity-50"
+            >
+              {submitting ? "Submitting..." : "Submit Return Request"}
+            </button>
+            <button
+              onClick={() => setShowForm(false)}
+              disabled={submitting}
+              className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-primary rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
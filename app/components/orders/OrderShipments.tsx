@@ -0,0 +1,133 @@
+"use client";
+
+import { OrderResponse } from "@/app/types/api";
+import { Shipment } from "@/app/types/shipments";
+import { useEffect, useState } from "react";
+import { FiExternalLink, FiPackage } from "react-icons/fi";
+
+interface OrderShipmentsProps {
+  order: OrderResponse;
+}
+
+const shipmentStatusColors: Record<string, string> = {
+  shipped: "bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400",
+  delivered: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Parcels the order was sent in, each with its carrier, tracking link and contents
+export default function OrderShipments({ order }: OrderShipmentsProps) {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+
+  useEffect(() => {
+    if (!order.shipmentCount) {
+      return;
+    }
+
+    const fetchShipments = async () => {
+      try {
+        const response = await fetch(`/api/orders/${order._id}/shipments`);
+        if (response.ok) {
+          const data = await response.json();
+          setShipments(data.data);
+        }
+      } catch (error) {
+        console.error("Error fetching shipments:", error);
+      }
+    };
+
+    fetchShipments();
+  }, [order._id, order.shipmentCount]);
+
+  if (shipments.length === 0) {
+    return null;
+  }
+
+  const unitsShipped = shipments
+    .flatMap((shipment) => shipment.items)
+    .reduce((sum, item) => sum + item.quantity, 0);
+  const unitsOrdered = order.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  return (
+    <div
+      className="rounded-lg shadow-md p-6"
+      style={{
+        backgroundColor: "var(--theme-surface)",
+        boxShadow: "var(--theme-glow)",
+      }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <FiPackage className="w-5 h-5" />
+          Packages
+        </h2>
+        {unitsShipped < unitsOrdered && (
+          <span className="text-sm text-gray-500">
+            {unitsShipped} of {unitsOrdered} items shipped
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {shipments.map((shipment) => (
+          <div
+            key={shipment._id}
+            className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium">
+                Package {shipment.packageNumber}
+                {shipment.carrierName && ` · ${shipment.carrierName}`}
+              </span>
+              <span
+                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  shipmentStatusColors[shipment.status]
+                }`}
+              >
+                {shipment.status === "delivered" ? "Delivered" : "On its way"}
+              </span>
+            </div>
+            {shipment.trackingNumber && (
+              <p className="text-sm mb-2">
+                Tracking:{" "}
+                {shipment.trackingUrl ? (
+                  <a
+                    href={shipment.trackingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-primary hover:underline"
+                  >
+                    {shipment.trackingNumber}
+                    <FiExternalLink className="w-3 h-3" />
+                  </a>
+                ) : (
+                  <span className="font-mono">{shipment.trackingNumber}</span>
+                )}
+              </p>
+            )}
+            <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+              {shipment.items.map((item) => (
+                <li key={item.orderItemIndex}>
+                  {item.quantity} × {item.name}
+                  {(item.color || item.size) &&
+                    ` (${[item.color, item.size].filter(Boolean).join(", ")})`}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs text-gray-500">
+              Shipped {formatDate(shipment.shippedAt)}
+              {shipment.deliveredAt &&
+                ` · Delivered ${formatDate(shipment.deliveredAt)}`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { formatOrderStatus } from "@/utils/orderStatus";
+import { OrderStatusHistoryEntry } from "@/app/types/orders";
+
+interface OrderStatusTimelineProps {
+  history?: OrderStatusHistoryEntry[];
+  showActor?: boolean;
+}
+
+const statusDotColors: Record<string, string> = {
+  pending: "bg-yellow-500",
+  processing: "bg-blue-500",
+  partially_shipped: "bg-indigo-500",
+  shipped: "bg-purple-500",
+  delivered: "bg-green-500",
+  completed: "bg-green-600",
+  cancelled: "bg-red-500",
+  refunded: "bg-orange-500",
+  failed: "bg-red-700",
+};
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const getActorName = (changedBy: OrderStatusHistoryEntry["changedBy"]) => {
+  if (!changedBy || typeof changedBy === "string") return null;
+  const name = [changedBy.firstName, changedBy.lastName]
+    .filter(Boolean)
+    .join(" ");
+  if (!name) return null;
+  return changedBy.role && changedBy.role !== "customer"
+    ? `${name} (${changedBy.role})`
+    : name;
+};
+
+export default function OrderStatusTimeline({
+  history = [],
+  showActor = false,
+}: OrderStatusTimelineProps) {
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No status updates yet.
+      </p>
+    );
+  }
+
+  // Most recent change first
+  const entries = [...history].sort(
+    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
+  );
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+      {entries.map((entry, idx) => {
+        const actor = showActor ? getActorName(entry.changedBy) : null;
+
+        return (
+          <li key={`${entry.status}-${entry.changedAt}-${idx}`} className="mb-6 ml-4 last:mb-0">
+            <span
+              className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-900 ${
+                statusDotColors[entry.status] || "bg-gray-400"
+              }`}
+            />
+            <time className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDateTime(entry.changedAt)}
+            </time>
+            <h3 className="text-sm font-semibold">
+              {entry.from
+                ? `${formatOrderStatus(entry.from)} → ${formatOrderStatus(entry.status)}`
+                : formatOrderStatus(entry.status)}
+            </h3>
+            {entry.note && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {entry.note}
+              </p>
+            )}
+            {actor && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                by {actor}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
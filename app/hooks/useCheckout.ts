@@ -1,12 +1,15 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
+import { AuthService } from '../services/authService';
 import { CheckoutService } from '../services/checkoutService';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { CartItem, clearCart } from '../store/slices/cartSlice';
 import { CheckoutData, OrderData, OrderTotals } from '../types/checkout';
+import { ShippingQuote } from '../types/shipping';
+import { TaxQuote } from '../types/tax';
 
 export interface UseCheckoutReturn {
     // State
@@ -16,6 +19,10 @@ export interface UseCheckoutReturn {
     orderId: string | null;
     orderData: OrderData | null;
     totals: OrderTotals;
+    // Null until the tax for the shipping address and method has been quoted
+    taxQuote: TaxQuote | null;
+    // Null until it is known whether the shopper is signed in
+    isGuest: boolean | null;
 
     // Actions
     setCurrentStep: (step: number) => void;
@@ -23,7 +30,7 @@ export interface UseCheckoutReturn {
     handleStepComplete: (stepData: Partial<CheckoutData>) => void;
     handlePreviousStep: () => void;
     handlePlaceOrder: (paymentData?: CheckoutData['payment']) => Promise<void>;
-    updateShippingData: (data: CheckoutData['shipping']) => Promise<void>;
+    updateShippingData: (data: CheckoutData['shipping'], shippingMethod?: ShippingQuote) => Promise<void>;
     updatePaymentData: (data: CheckoutData['payment']) => Promise<void>;
     placeOrder: (paymentData?: CheckoutData['payment']) => Promise<boolean>;
 
@@ -37,7 +44,7 @@ export interface UseCheckoutReturn {
 export const useCheckout = (): UseCheckoutReturn => {
     const router = useRouter();
     const dispatch = useAppDispatch();
-    const { items, totalPrice, totalItems, loading } = useAppSelector(
+    const { items, totalPrice, totalItems, loading, coupon } = useAppSelector(
         (state) => state.cart
     );
 
@@ -65,9 +72,61 @@ export const useCheckout = (): UseCheckoutReturn => {
     const [orderId, setOrderId] = useState<string | null>(null);
     const [orderData, setOrderData] = useState<OrderData | null>(null);
     const [shouldPlaceOrder, setShouldPlaceOrder] = useState(false);
+    const [taxQuote, setTaxQuote] = useState<TaxQuote | null>(null);
+    const [isGuest, setIsGuest] = useState<boolean | null>(null);
+
+    // Idempotency key for the order being submitted, kept until the server has answered it
+    // so retries and repeated clicks for the same order are recognised as one submission
+    const submissionRef = useRef<{ key: string; fingerprint: string } | null>(null);
+    const isSubmittingRef = useRef(false);
 
     // Calculate totals
-    const totals = CheckoutService.calculateTotals(totalPrice);
+    const totals = CheckoutService.calculateTotals(totalPrice, coupon, checkoutData.shippingMethod?.price, taxQuote);
+
+    const { country, state, postalCode } = checkoutData.shipping;
+    const shippingMethodId = checkoutData.shippingMethod?.id;
+
+    // Re-quote the tax whenever the address, shipping method, cart or coupon changes
+    useEffect(() => {
+        if (!country || !shippingMethodId) {
+            setTaxQuote(null);
+            return;
+        }
+        // The cart is emptied once the order is placed; keep the quote the order was shown with
+        if (items.length === 0) return;
+
+        let cancelled = false;
+
+        CheckoutService.getTaxQuote({ country, state, postalCode }, shippingMethodId)
+            .then((quote) => {
+                if (!cancelled) setTaxQuote(quote);
+            })
+            .catch((error) => {
+                console.error('Error calculating tax:', error);
+                if (!cancelled) setTaxQuote(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [country, state, postalCode, shippingMethodId, items, totalPrice, coupon?.code]);
+
+    // Shoppers without an account check out as guests with just an email address
+    useEffect(() => {
+        let cancelled = false;
+
+        AuthService.getCurrentUser()
+            .then(() => {
+                if (!cancelled) setIsGuest(false);
+            })
+            .catch(() => {
+                if (!cancelled) setIsGuest(true);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, []);
 
     // moved effect below handlePlaceOrder to avoid 'used before declaration'
 
@@ -97,6 +156,8 @@ export const useCheckout = (): UseCheckoutReturn => {
 
     const handlePlaceOrder = useCallback(async (paymentData?: CheckoutData['payment']) => {
         console.log('handlePlaceOrder called with payment method:', paymentData?.method || checkoutData.payment.method);
+        if (isSubmittingRef.current) return;
+        isSubmittingRef.current = true;
         setIsProcessing(true);
 
         try {
@@ -115,6 +176,9 @@ export const useCheckout = (): UseCheckoutReturn => {
                     image: item.product.image,
                 })),
                 shipping: checkoutData.shipping,
+                email: isGuest ? checkoutData.shipping.email : undefined,
+                shippingMethod: checkoutData.shippingMethod?.id,
+                couponCode: coupon?.code,
                 payment: {
                     ...currentPaymentData,
                     status: 'pending',
@@ -124,12 +188,26 @@ export const useCheckout = (): UseCheckoutReturn => {
                     },
                 },
                 itemsPrice: totals.itemsPrice,
+                discountPrice: totals.discount,
                 shippingPrice: totals.shippingPrice,
                 taxPrice: totals.taxPrice,
                 totalPrice: totals.total,
             };
 
-            const order = await CheckoutService.createOrder(orderData);
+            const fingerprint = JSON.stringify(orderData);
+            if (submissionRef.current?.fingerprint !== fingerprint) {
+                submissionRef.current = { key: crypto.randomUUID(), fingerprint };
+            }
+
+            const order = await CheckoutService.createOrder(orderData, submissionRef.current.key);
+            submissionRef.current = null;
+
+            // The bank wants the shopper to confirm the payment before it goes through
+            if (order.payment.status === 'requires_action' && order.payment.nextAction) {
+                toast.info('Please confirm the payment with your bank');
+                router.push(order.payment.nextAction.url);
+                return;
+            }
 
             setOrderId(order._id);
             setOrderData({
@@ -153,6 +231,7 @@ export const useCheckout = (): UseCheckoutReturn => {
                     },
                 },
                 itemsPrice: order.itemsPrice,
+                discountPrice: order.discountPrice,
                 shippingPrice: order.shippingPrice,
                 taxPrice: order.taxPrice,
                 totalPrice: order.totalPrice,
@@ -167,13 +246,23 @@ export const useCheckout = (): UseCheckoutReturn => {
             toast.success('Order placed successfully!');
         } catch (error) {
             console.error('Error placing order:', error);
+
+            // The server answered, so the next attempt is a new submission; after a timeout
+            // or network failure the key is kept in case the order went through
+            const isNetworkError = error instanceof Error &&
+                ['TypeError', 'TimeoutError', 'AbortError'].includes(error.name);
+            if (!isNetworkError) {
+                submissionRef.current = null;
+            }
+
             toast.error(
                 error instanceof Error ? error.message : 'Failed to place order'
             );
         } finally {
+            isSubmittingRef.current = false;
             setIsProcessing(false);
         }
-    }, [checkoutData.payment, checkoutData.shipping, dispatch, items, totals.itemsPrice, totals.shippingPrice, totals.taxPrice, totals.total]);
+    }, [checkoutData.payment, checkoutData.shipping, checkoutData.shippingMethod?.id, coupon?.code, dispatch, isGuest, items, router, totals.itemsPrice, totals.discount, totals.shippingPrice, totals.taxPrice, totals.total]);
 
     // Handle placing order after payment data is updated
     useEffect(() => {
@@ -196,8 +285,8 @@ export const useCheckout = (): UseCheckoutReturn => {
         }
     };
 
-    const updateShippingData = useCallback(async (data: CheckoutData['shipping']) => {
-        setCheckoutData(prev => ({ ...prev, shipping: data }));
+    const updateShippingData = useCallback(async (data: CheckoutData['shipping'], shippingMethod?: ShippingQuote) => {
+        setCheckoutData(prev => ({ ...prev, shipping: data, shippingMethod: shippingMethod || prev.shippingMethod }));
     }, []);
 
     const updatePaymentData = useCallback(async (data: CheckoutData['payment']) => {
@@ -235,6 +324,8 @@ export const useCheckout = (): UseCheckoutReturn => {
         orderId,
         orderData,
         totals,
+        taxQuote,
+        isGuest,
 
         // Actions
         setCurrentStep,
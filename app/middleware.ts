@@ -1,4 +1,5 @@
 import { getJwtSecretKey } from '@/utils/auth-server';
+import { isStaffRole } from '@/utils/permissions';
 import { jwtVerify } from 'jose';
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
@@ -27,15 +28,15 @@ export async function middleware(request: NextRequest) {
             const secretKey = await getJwtSecretKey();
             const { payload } = await jwtVerify(token, secretKey);
 
-            // Check if the user has admin privileges
+            // Check if the user works on the store; what they may do is checked by each API route
             const userRole = payload.role as string;
 
-            if (userRole !== 'admin' && userRole !== 'super-admin') {
-                // Redirect non-admin users to the home page
+            if (!isStaffRole(userRole)) {
+                // Redirect customers to the home page
                 return NextResponse.redirect(new URL('/', request.url));
             }
 
-            // Allow access for admin users
+            // Allow access for staff
             return NextResponse.next();
         } catch (error) {
             // If token is invalid or expired, let the client handle it
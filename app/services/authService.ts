@@ -1,8 +1,10 @@
 import { logger } from '../../utils/logger';
 import {
+    AccountSessionsResponse,
     AuthResponse,
     LoginRequest,
     RegisterRequest,
+    TwoFactorStatusResponse,
     UserResponse,
 } from '../types/api';
 import { BaseService } from './baseService';
@@ -90,6 +92,98 @@ export class AuthService extends BaseService {
         );
     }
 
+    /**
+     * Sign out of every device, ending all sessions of the current user
+     */
+    static async logoutAll(): Promise<void> {
+        const service = AuthService.getInstance();
+
+        logger.business('User logout everywhere', 'AuthService');
+
+        return service.measurePerformance(
+            'logoutAll',
+            () => service.post<void>('/auth/logout-all', {}, {
+                context: 'AuthService.logoutAll',
+            })
+        );
+    }
+
+    /**
+     * Get the current user's active sessions and latest sign-in attempts
+     */
+    static async getSessions(): Promise<AccountSessionsResponse> {
+        const service = AuthService.getInstance();
+
+        return service.measurePerformance(
+            'getSessions',
+            () => service.get<AccountSessionsResponse>('/auth/sessions', undefined, {
+                context: 'AuthService.getSessions',
+            })
+        );
+    }
+
+    /**
+     * Sign one of the current user's devices out
+     */
+    static async revokeSession(sessionId: string): Promise<{ current: boolean }> {
+        const service = AuthService.getInstance();
+
+        logger.business('Session revoke', 'AuthService', { sessionId });
+
+        return service.measurePerformance(
+            'revokeSession',
+            () => service.delete<{ current: boolean }>(`/auth/sessions/${sessionId}`, {
+                context: 'AuthService.revokeSession',
+            })
+        );
+    }
+
+    /**
+     * Get the current user's two-factor setup
+     */
+    static async getTwoFactorStatus(): Promise<TwoFactorStatusResponse> {
+        const service = AuthService.getInstance();
+
+        return service.measurePerformance(
+            'getTwoFactorStatus',
+            () => service.get<TwoFactorStatusResponse>('/auth/2fa', undefined, {
+                context: 'AuthService.getTwoFactorStatus',
+            })
+        );
+    }
+
+    /**
+     * Turn two-factor authentication off, confirmed with a current code
+     */
+    static async disableTwoFactor(code: string): Promise<void> {
+        const service = AuthService.getInstance();
+
+        logger.business('Two-factor disable attempt', 'AuthService');
+
+        return service.measurePerformance(
+            'disableTwoFactor',
+            () => service.post<void>('/auth/2fa/disable', { code }, {
+                context: 'AuthService.disableTwoFactor',
+            })
+        );
+    }
+
+    /**
+     * Replace the current user's recovery codes, confirmed with a current code
+     */
+    static async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+        const service = AuthService.getInstance();
+
+        logger.business('Recovery codes regenerate attempt', 'AuthService');
+
+        return service.measurePerformance(
+            'regenerateRecoveryCodes',
+            () => service.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }, {
+                context: 'AuthService.regenerateRecoveryCodes',
+            })
+        );
+    }
+
     /**
      * Refresh authentication token
      */
@@ -1,4 +1,4 @@
-import { AppError, ErrorCode, ErrorHandler } from '../../utils/errorHandler';
+import { AppError, ErrorCode, ErrorHandler, generateRequestId, REQUEST_ID_HEADER } from '../../utils/errorHandler';
 import { logger } from '../../utils/logger';
 import {
     PaginatedResponse,
@@ -45,7 +45,7 @@ export class BaseService {
      * Generate a unique request ID for tracking
      */
     protected generateRequestId(): string {
-        return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        return generateRequestId();
     }
 
     /**
@@ -89,9 +89,10 @@ export class BaseService {
             try {
                 logger.apiRequest(method, url, { requestId, attempt, data });
 
+                // Sent so the server can record the same ID, e.g. on audit log entries
                 const response = await this.executeRequest<T>(method, url, data, {
                     timeout,
-                    headers: this.defaultHeaders,
+                    headers: { ...this.defaultHeaders, [REQUEST_ID_HEADER]: requestId },
                 });
 
                 const duration = Date.now() - startTime;
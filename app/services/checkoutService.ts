@@ -1,36 +1,115 @@
+import { calculateOrderTotals } from '../../utils/pricing';
 import { CheckoutData, OrderData, OrderTotals, SavedAddress } from '../types/checkout';
+import { AppliedCoupon } from '../types/coupons';
 import { Order } from '../types/orders';
+import { ShippingEstimate, ShippingQuote } from '../types/shipping';
+import { TaxQuote } from '../types/tax';
+import { serviceConfigs } from './config';
 
 export class CheckoutService {
     /**
-     * Calculate order totals based on cart items
+     * Calculate order totals based on cart items, the applied coupon, the chosen shipping method and the tax quote
+     * (preview only, the server recomputes them)
      */
-    static calculateTotals(itemsPrice: number): OrderTotals {
-        const shippingPrice = itemsPrice > 100 ? 0 : 10; // Free shipping over $100
-        const taxRate = 0.08; // 8% tax
-        const taxPrice = parseFloat((itemsPrice * taxRate).toFixed(2));
-        const total = itemsPrice + shippingPrice + taxPrice;
+    static calculateTotals(
+        itemsPrice: number,
+        coupon?: AppliedCoupon | null,
+        shippingPrice?: number,
+        tax?: TaxQuote | null
+    ): OrderTotals {
+        const pricesIncludeTax = tax?.pricesIncludeTax ?? false;
 
         return {
-            itemsPrice,
-            shippingPrice,
-            taxPrice,
-            total,
+            ...calculateOrderTotals(itemsPrice, {
+                discount: coupon?.amount,
+                freeShipping: coupon?.freeShipping,
+                shippingPrice,
+                taxPrice: tax?.taxPrice,
+                pricesIncludeTax,
+            }),
+            pricesIncludeTax,
         };
     }
 
     /**
-     * Create a new order
+     * Get the shipping methods available for the cart to an address
      */
-    static async createOrder(orderData: OrderData): Promise<Order> {
-        const response = await fetch('/api/orders', {
+    static async getShippingRates(address: Pick<CheckoutData['shipping'], 'country' | 'state' | 'postalCode'>): Promise<ShippingQuote[]> {
+        const response = await fetch('/api/shipping/rates', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
-            body: JSON.stringify(orderData),
+            body: JSON.stringify({ address }),
         });
 
+        const result = await response.json().catch(() => null);
+
+        if (!response.ok || !result?.success) {
+            throw new Error(result?.message || 'Failed to load shipping options');
+        }
+
+        return result.data.methods;
+    }
+
+    /**
+     * Get the tax on the cart for an address and shipping method
+     */
+    static async getTaxQuote(
+        address: Pick<CheckoutData['shipping'], 'country' | 'state' | 'postalCode'>,
+        shippingMethod?: string
+    ): Promise<TaxQuote> {
+        const response = await fetch('/api/tax/quote', {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ address, shippingMethod }),
+        });
+
+        const result = await response.json().catch(() => null);
+
+        if (!response.ok || !result?.success) {
+            throw new Error(result?.message || 'Failed to calculate tax');
+        }
+
+        return result.data;
+    }
+
+    /**
+     * Create a new order.
+     * With an idempotency key, timeouts, network failures and server errors are retried with the same key,
+     * so the server places the order at most once.
+     */
+    static async createOrder(orderData: OrderData, idempotencyKey?: string): Promise<Order> {
+        const { timeout, retries } = serviceConfigs.order;
+        const attempts = idempotencyKey ? retries : 1;
+        let response: Response | undefined;
+
+        for (let attempt = 1; !response; attempt++) {
+            try {
+                const result = await fetch('/api/orders', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+                    },
+                    body: JSON.stringify(orderData),
+                    signal: AbortSignal.timeout(timeout),
+                });
+
+                if (result.status < 500 || attempt >= attempts) {
+                    response = result;
+                }
+            } catch (error) {
+                if (attempt >= attempts) throw error;
+            }
+
+            if (!response) {
+                await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+            }
+        }
+
         if (!response.ok) {
             let message = `Failed to place order (HTTP ${response.status})`;
             try {
@@ -106,9 +185,18 @@ export class CheckoutService {
     /**
      * Validate checkout data
      */
-    static validateCheckoutData(data: CheckoutData): { isValid: boolean; errors: Record<string, string> } {
+    static validateCheckoutData(data: CheckoutData, requireEmail: boolean = false): { isValid: boolean; errors: Record<string, string> } {
         const errors: Record<string, string> = {};
 
+        // Guests are reached by the email on their order
+        if (requireEmail) {
+            if (!data.shipping.email?.trim()) {
+                errors['shipping.email'] = 'Email is required';
+            } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.shipping.email.trim())) {
+                errors['shipping.email'] = 'Please enter a valid email address';
+            }
+        }
+
         // Validate shipping
         if (!data.shipping.fullName?.trim()) {
             errors['shipping.fullName'] = 'Full name is required';
@@ -226,6 +314,24 @@ export class CheckoutService {
         }
     }
 
+    /**
+     * Format a shipping method's delivery estimate for display
+     */
+    static formatDeliveryEstimate(estimatedDays?: ShippingEstimate): string {
+        const { min, max } = estimatedDays || {};
+
+        if (typeof min === 'number' && typeof max === 'number' && max !== min) {
+            return `${min}-${max} business days`;
+        }
+
+        const days = typeof max === 'number' ? max : min;
+        if (typeof days !== 'number') {
+            return '';
+        }
+
+        return days === 1 ? '1 business day' : `${days} business days`;
+    }
+
     /**
      * Format expiry date for display
      */
@@ -8,6 +8,7 @@ import {
     PaginationParams,
     UpdateOrderRequest,
 } from '../types/api';
+import { OrderStatus } from '../types/orders';
 import { BaseService } from './baseService';
 import { getServiceConfig } from './config';
 
@@ -134,14 +135,15 @@ export class OrderService extends BaseService {
      */
     static async updateOrderStatus(
         id: string,
-        status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled'
+        status: OrderStatus,
+        note?: string
     ): Promise<OrderResponse> {
         logger.business(`Updating order status: ${id} to ${status}`, 'OrderService', {
             orderId: id,
             newStatus: status
         });
 
-        return OrderService.updateOrder(id, { status });
+        return OrderService.updateOrder(id, note ? { status, note } : { status });
     }
 
     /**
@@ -248,7 +250,7 @@ export class OrderService extends BaseService {
      * Get orders by status
      */
     static async getOrdersByStatus(
-        status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled',
+        status: OrderStatus,
         pagination: PaginationParams = {}
     ): Promise<PaginatedResponse<OrderResponse>> {
         logger.business(`Fetching orders by status: ${status}`, 'OrderService', {
@@ -407,9 +409,9 @@ export class OrderService extends BaseService {
     }
 
     /**
-     * Calculate order totals (utility method)
+     * Calculate order totals (utility method); the tax comes from the tax quote for the shipping address
      */
-    static calculateOrderTotals(items: CreateOrderRequest['items'], shippingCost: number = 0, taxRate: number = 0.08): {
+    static calculateOrderTotals(items: CreateOrderRequest['items'], shippingCost: number = 0, taxCost: number = 0): {
         itemsPrice: number;
         shippingPrice: number;
         taxPrice: number;
@@ -417,7 +419,7 @@ export class OrderService extends BaseService {
     } {
         const itemsPrice = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
         const shippingPrice = shippingCost;
-        const taxPrice = parseFloat((itemsPrice * taxRate).toFixed(2));
+        const taxPrice = taxCost;
         const totalPrice = parseFloat((itemsPrice + shippingPrice + taxPrice).toFixed(2));
 
         logger.debug('Order totals calculated', 'OrderService', {
@@ -1,4 +1,5 @@
 import { logger } from '../../utils/logger';
+import { AuditLogFilters, AuditLogResponse } from '../types/api';
 import { BaseService } from './baseService';
 import { getServiceConfig } from './config';
 
@@ -233,6 +234,24 @@ export class SettingsService extends BaseService {
         );
     }
 
+    /**
+     * Get audit log entries, newest first (needs view_audit_log)
+     */
+    static async getAuditLogs(filters: AuditLogFilters = {}, page: number = 1): Promise<AuditLogResponse> {
+        const service = SettingsService.getInstance();
+
+        const params = Object.fromEntries(
+            Object.entries({ ...filters, page }).filter(([, value]) => value !== undefined && value !== '')
+        ) as Record<string, string | number>;
+
+        return service.measurePerformance(
+            'getAuditLogs',
+            () => service.get<AuditLogResponse>('/audit-logs', params, {
+                context: 'SettingsService.getAuditLogs',
+            })
+        );
+    }
+
     /**
      * Validate homepage settings
      */
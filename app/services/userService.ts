@@ -1,8 +1,11 @@
 import { logger } from '../../utils/logger';
 import {
     CreateUserRequest,
+    CustomerSecurityResponse,
     PaginatedResponse,
     PaginationParams,
+    RoleResponse,
+    SaveRoleRequest,
     UpdateUserRequest,
     UserFilters,
     UserResponse,
@@ -109,6 +112,157 @@ export class UserService extends BaseService {
         );
     }
 
+    /**
+     * Get a user's active sessions and latest sign-in attempts (admin only)
+     */
+    static async getUserSessions(id: string): Promise<CustomerSecurityResponse> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ id }, ['id']);
+
+        return service.measurePerformance(
+            'getUserSessions',
+            () => service.get<CustomerSecurityResponse>(`/customers/${id}/sessions`, undefined, {
+                context: 'UserService.getUserSessions',
+            })
+        );
+    }
+
+    /**
+     * Sign a user out of one device (admin only)
+     */
+    static async revokeUserSession(id: string, sessionId: string): Promise<void> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ id, sessionId }, ['id', 'sessionId']);
+        logger.business(`Revoking session of user: ${id}`, 'UserService', { userId: id, sessionId });
+
+        return service.measurePerformance(
+            'revokeUserSession',
+            () => service.delete<void>(`/customers/${id}/sessions/${sessionId}`, {
+                context: 'UserService.revokeUserSession',
+            })
+        );
+    }
+
+    /**
+     * Reset a user's two-factor authentication (needs reset_two_factor)
+     */
+    static async resetUserTwoFactor(id: string): Promise<void> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ id }, ['id']);
+        logger.business(`Resetting two-factor of user: ${id}`, 'UserService', { userId: id });
+
+        return service.measurePerformance(
+            'resetUserTwoFactor',
+            () => service.delete<void>(`/customers/${id}/two-factor`, {
+                context: 'UserService.resetUserTwoFactor',
+            })
+        );
+    }
+
+    /**
+     * Unlock a user locked out by failed sign-ins (admin only)
+     */
+    static async clearUserLockout(id: string): Promise<void> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ id }, ['id']);
+        logger.business(`Clearing lockout of user: ${id}`, 'UserService', { userId: id });
+
+        return service.measurePerformance(
+            'clearUserLockout',
+            () => service.delete<void>(`/customers/${id}/lockout`, {
+                context: 'UserService.clearUserLockout',
+            })
+        );
+    }
+
+    /**
+     * Give a user another role (needs manage_roles)
+     */
+    static async assignUserRole(id: string, role: string): Promise<{ role: string }> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ id, role }, ['id', 'role']);
+        logger.business(`Assigning role ${role} to user: ${id}`, 'UserService', { userId: id, role });
+
+        return service.measurePerformance(
+            'assignUserRole',
+            () => service.put<{ role: string }>(`/customers/${id}/role`, { role }, {
+                context: 'UserService.assignUserRole',
+            })
+        );
+    }
+
+    /**
+     * Get every role with its permissions (needs manage_roles)
+     */
+    static async getRoles(): Promise<RoleResponse[]> {
+        const service = UserService.getInstance();
+
+        logger.business('Fetching roles', 'UserService');
+
+        return service.measurePerformance(
+            'getRoles',
+            () => service.get<RoleResponse[]>('/roles', undefined, {
+                context: 'UserService.getRoles',
+            })
+        );
+    }
+
+    /**
+     * Create a custom role (needs manage_roles)
+     */
+    static async createRole(data: SaveRoleRequest): Promise<RoleResponse> {
+        const service = UserService.getInstance();
+
+        service.validateRequired(data as unknown as Record<string, unknown>, ['name', 'label']);
+        logger.business(`Creating role: ${data.name}`, 'UserService', { permissions: data.permissions });
+
+        return service.measurePerformance(
+            'createRole',
+            () => service.post<RoleResponse>('/roles', data, {
+                context: 'UserService.createRole',
+            })
+        );
+    }
+
+    /**
+     * Change a role's label, description and permissions (needs manage_roles)
+     */
+    static async updateRole(name: string, data: SaveRoleRequest): Promise<RoleResponse> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ name }, ['name']);
+        logger.business(`Updating role: ${name}`, 'UserService', { permissions: data.permissions });
+
+        return service.measurePerformance(
+            'updateRole',
+            () => service.put<RoleResponse>(`/roles/${name}`, data, {
+                context: 'UserService.updateRole',
+            })
+        );
+    }
+
+    /**
+     * Delete a custom role nobody holds (needs manage_roles)
+     */
+    static async deleteRole(name: string): Promise<void> {
+        const service = UserService.getInstance();
+
+        service.validateRequired({ name }, ['name']);
+        logger.business(`Deleting role: ${name}`, 'UserService');
+
+        return service.measurePerformance(
+            'deleteRole',
+            () => service.delete<void>(`/roles/${name}`, {
+                context: 'UserService.deleteRole',
+            })
+        );
+    }
+
     /**
      * Create new user (admin only)
      */
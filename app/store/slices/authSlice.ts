@@ -1,6 +1,5 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import axios, { AxiosError } from 'axios';
-import { getCookie } from 'cookies-next';
 
 // Define user type
 export type User = {
@@ -9,6 +8,8 @@ export type User = {
     lastName: string;
     email: string;
     role: string;
+    // Resolved from the role by the server; the dashboard shows what these allow
+    permissions?: string[];
     avatar?: string;
     active: boolean;
     verified: boolean;
@@ -19,12 +20,20 @@ export type User = {
     lastLogin?: string;
 };
 
+// Second sign-in step, after the password was accepted
+export type TwoFactorChallenge = {
+    challengeToken: string;
+    // The account must set up two-factor before it can sign in
+    setupRequired: boolean;
+};
+
 // Define the auth state
 interface AuthState {
     user: User | null;
     isAuthenticated: boolean;
     isLoading: boolean;
     error: string | null;
+    twoFactorChallenge: TwoFactorChallenge | null;
 }
 
 // Initial state
@@ -33,6 +42,7 @@ const initialState: AuthState = {
     isAuthenticated: false,
     isLoading: false,
     error: null,
+    twoFactorChallenge: null,
 };
 
 // Login thunk
@@ -45,10 +55,16 @@ export const loginUser = createAsyncThunk(
                 credentials
             );
 
+            // With two-factor, the password only earns a challenge for the next step
+            if (response.data.data.twoFactorRequired) {
+                const { challengeToken, setupRequired } = response.data.data;
+                return { challenge: { challengeToken, setupRequired } } as LoginResult;
+            }
+
             const { user, token } = response.data.data; // Extract from data.data
 
-            // Check if user has admin role
-            if (user.role !== 'admin' && user.role !== 'super-admin') {
+            // Only roles with some permission can use the dashboard
+            if (!user.permissions?.length) {
                 return rejectWithValue('You don\'t have permission to access the admin area');
             }
 
@@ -63,7 +79,7 @@ export const loginUser = createAsyncThunk(
             // console.log(token);
             // console.log(response.data);
 
-            return { user, token };
+            return { user, token } as LoginResult;
         } catch (error) {
             const err = error as AxiosError;
             if (err.response?.status === 401) {
@@ -74,38 +90,46 @@ export const loginUser = createAsyncThunk(
     }
 );
 
+// Two-factor sign-in step: a code from the authenticator app or a recovery code
+export const verifyTwoFactor = createAsyncThunk(
+    'auth/verifyTwoFactor',
+    async ({ challengeToken, code }: { challengeToken: string; code: string }, { rejectWithValue }) => {
+        try {
+            const response = await axios.post("/api/auth/2fa/verify", { challengeToken, code });
+            const { user, token } = response.data.data;
+
+            if (!user.permissions?.length) {
+                return rejectWithValue('You don\'t have permission to access the admin area');
+            }
+
+            return { user, token } as AuthResponse;
+        } catch (error) {
+            const err = error as AxiosError<{ message?: string }>;
+            return rejectWithValue(err.response?.data?.message || 'An error occurred. Please try again.');
+        }
+    }
+);
+
 interface AuthResponse {
     user: User;
-    token: string;
+    // Only returned on login; afterwards the session lives in httpOnly cookies
+    token?: string;
 }
 
+type LoginResult = AuthResponse | { challenge: TwoFactorChallenge };
+
 // Check auth status thunk
 export const checkAuthStatus = createAsyncThunk(
     'auth/check',
     async (_, { rejectWithValue }) => {
         try {
-            const token = getCookie('auth_token');
-
-            if (!token) {
-                return rejectWithValue('No token found');
-            }
-
-            // In a real implementation, you would make an API call to validate the token
-            // For now, we'll just simulate it
-
-            const response = await axios.get(
-                "/api/auth/me",
-                {
-                    headers: {
-                        Authorization: `Bearer ${token}`,
-                    },
-                }
-            );
+            // The session cookies are httpOnly, so ask the server; it refreshes an expired access token on the way
+            const response = await axios.get("/api/auth/me");
 
             // Extract user from response
             const user = response.data.user;
 
-            return { user, token } as AuthResponse;
+            return { user } as AuthResponse;
         } catch (error) {
             console.error('Auth check failed:', error);
             return rejectWithValue('Authentication failed');
@@ -113,12 +137,16 @@ export const checkAuthStatus = createAsyncThunk(
     }
 );
 
-// Logout thunk
+// Logout thunk; with everywhere set, every session of the user is ended, not just this one
 export const logoutUser = createAsyncThunk(
     'auth/logout',
-    async () => {
-        // Clear the auth token cookie
-        document.cookie = 'auth_token=; expires=Thu, 01 Jan 1970 00:00:00 UTC; path=/;';
+    async (options: { everywhere?: boolean } | undefined) => {
+        try {
+            await axios.post(options?.everywhere ? "/api/auth/logout-all" : "/api/auth/logout");
+        } catch (error) {
+            // Sign out locally even if the server could not be reached
+            console.error('Logout failed:', error);
+        }
         return true;
     }
 );
@@ -131,6 +159,11 @@ const authSlice = createSlice({
         clearErrors: (state) => {
             state.error = null;
         },
+        // Go back to the password step
+        cancelTwoFactor: (state) => {
+            state.twoFactorChallenge = null;
+            state.error = null;
+        },
     },
     extraReducers: (builder) => {
         // Login cases
@@ -139,11 +172,15 @@ const authSlice = createSlice({
                 state.isLoading = true;
                 state.error = null;
             })
-            .addCase(loginUser.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
+            .addCase(loginUser.fulfilled, (state, action: PayloadAction<LoginResult>) => {
                 state.isLoading = false;
+                state.error = null;
+                if ('challenge' in action.payload) {
+                    state.twoFactorChallenge = action.payload.challenge;
+                    return;
+                }
                 state.isAuthenticated = true;
                 state.user = action.payload.user;
-                state.error = null;
             })
             .addCase(loginUser.rejected, (state, action) => {
                 state.isLoading = false;
@@ -151,6 +188,24 @@ const authSlice = createSlice({
                 state.error = action.payload as string;
             });
 
+        // Two-factor cases
+        builder
+            .addCase(verifyTwoFactor.pending, (state) => {
+                state.isLoading = true;
+                state.error = null;
+            })
+            .addCase(verifyTwoFactor.fulfilled, (state, action: PayloadAction<AuthResponse>) => {
+                state.isLoading = false;
+                state.isAuthenticated = true;
+                state.user = action.payload.user;
+                state.twoFactorChallenge = null;
+                state.error = null;
+            })
+            .addCase(verifyTwoFactor.rejected, (state, action) => {
+                state.isLoading = false;
+                state.error = action.payload as string;
+            });
+
         // Check auth status cases
         builder
             .addCase(checkAuthStatus.pending, (state) => {
@@ -161,6 +216,7 @@ const authSlice = createSlice({
                 state.isLoading = false;
                 state.isAuthenticated = true;
                 state.user = action.payload.user;
+                state.twoFactorChallenge = null;
                 state.error = null;
             })
             .addCase(checkAuthStatus.rejected, (state) => {
@@ -180,5 +236,5 @@ const authSlice = createSlice({
     },
 });
 
-export const { clearErrors } = authSlice.actions;
+export const { cancelTwoFactor, clearErrors } = authSlice.actions;
 export default authSlice.reducer; 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { createAsyncThunk, createSlice, PayloadAction } from '@reduxjs/toolkit';
 import axios, { AxiosError } from 'axios';
+import { AppliedCoupon } from '../../types/coupons';
 
 // Cart Item interface (matching API response structure)
 export interface CartItem {
@@ -36,6 +37,7 @@ interface CartState {
     error: string | null;
     totalItems: number;
     totalPrice: number;
+    coupon: AppliedCoupon | null;
     lastUpdated: string | null;
 }
 
@@ -48,6 +50,7 @@ const initialState: CartState = {
     error: null,
     totalItems: 0,
     totalPrice: 0,
+    coupon: null,
     lastUpdated: null,
 };
 
@@ -144,6 +147,48 @@ export const clearCart = createAsyncThunk(
     }
 );
 
+// Apply a coupon code to the cart
+export const applyCoupon = createAsyncThunk(
+    'cart/applyCoupon',
+    async (code: string, { rejectWithValue }) => {
+        try {
+            const response = await axios.post('/api/cart/coupon', { code });
+            return response.data.data.coupon as AppliedCoupon;
+        } catch (error) {
+            const err = error as AxiosError<{ message: string }>;
+            return rejectWithValue(err.response?.data?.message || 'Failed to apply coupon');
+        }
+    }
+);
+
+// Re-check the applied coupon after the cart changed
+export const refreshCoupon = createAsyncThunk(
+    'cart/refreshCoupon',
+    async (_, { rejectWithValue }) => {
+        try {
+            const response = await axios.get('/api/cart/coupon');
+            return response.data.data as { coupon: AppliedCoupon | null; removedReason?: string };
+        } catch (error) {
+            const err = error as AxiosError<{ message: string }>;
+            return rejectWithValue(err.response?.data?.message || 'Failed to check coupon');
+        }
+    }
+);
+
+// Remove the coupon from the cart
+export const removeCoupon = createAsyncThunk(
+    'cart/removeCoupon',
+    async (_, { rejectWithValue }) => {
+        try {
+            await axios.delete('/api/cart/coupon');
+            return true;
+        } catch (error) {
+            const err = error as AxiosError<{ message: string }>;
+            return rejectWithValue(err.response?.data?.message || 'Failed to remove coupon');
+        }
+    }
+);
+
 // Helper function to calculate cart totals
 const calculateCartTotals = (items: CartItem[]) => {
     const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -205,6 +250,7 @@ const cartSlice = createSlice({
             .addCase(fetchCart.fulfilled, (state, action) => {
                 state.loading = false;
                 state.items = action.payload.items || [];
+                state.coupon = action.payload.summary?.coupon || null;
                 const totals = calculateCartTotals(state.items);
                 state.totalItems = totals.totalItems;
                 state.totalPrice = totals.totalPrice;
@@ -291,12 +337,25 @@ const cartSlice = createSlice({
                 state.items = [];
                 state.totalItems = 0;
                 state.totalPrice = 0;
+                state.coupon = null;
                 state.lastUpdated = new Date().toISOString();
             })
             .addCase(clearCart.rejected, (state, action) => {
                 state.loading = false;
                 state.error = action.payload as string;
             });
+
+        // Coupons
+        builder
+            .addCase(applyCoupon.fulfilled, (state, action) => {
+                state.coupon = action.payload;
+            })
+            .addCase(refreshCoupon.fulfilled, (state, action) => {
+                state.coupon = action.payload.coupon;
+            })
+            .addCase(removeCoupon.fulfilled, (state) => {
+                state.coupon = null;
+            });
     },
 });
 
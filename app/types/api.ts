@@ -1,4 +1,10 @@
 import { ErrorCode } from '../../utils/errorHandler';
+import { PaymentNextAction, PaymentStatus } from './checkout';
+import { OrderDiscount } from './coupons';
+import { OrderShippingMethod } from './shipping';
+import { OrderStatus, OrderStatusHistoryEntry } from './orders';
+import { ProductVariant } from './product';
+import { OrderRefund } from './returns';
 import { User } from './user';
 
 // Base API Response Types
@@ -80,11 +86,13 @@ export interface CreateProductRequest {
     dimensions?: string;
     material?: string;
     warranty?: string;
+    taxClass?: string;
     featured?: boolean;
     active?: boolean;
     images?: string[];
     color?: string;
     size?: string;
+    variants?: ProductVariant[];
 }
 
 export interface UpdateProductRequest extends Partial<CreateProductRequest> {
@@ -117,12 +125,14 @@ export interface ProductResponse {
     dimensions?: string;
     material?: string;
     warranty?: string;
+    taxClass?: string;
     ratings: number;
     totalRating: number;
     createdAt: string;
     active: boolean;
     color?: string;
     size?: string;
+    variants?: ProductVariant[];
 }
 
 // Category API Types
@@ -167,7 +177,7 @@ export interface CategoryResponse {
 
 // Order API Types
 export interface OrderFilters {
-    status?: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+    status?: OrderStatus;
     isPaid?: boolean;
     user?: string;
     startDate?: string;
@@ -192,12 +202,14 @@ export interface CreateOrderRequest {
         phone: string;
     };
     payment: {
-        method: 'credit_card' | 'cash_on_delivery' | 'bank_transfer';
+        method: 'credit_card' | 'paypal' | 'cash_on_delivery' | 'bank_transfer';
         cardNumber?: string;
         expiryDate?: string;
         cvv?: string;
         cardHolderName?: string;
     };
+    couponCode?: string;
+    shippingMethod?: string;
     itemsPrice: number;
     shippingPrice: number;
     taxPrice: number;
@@ -205,7 +217,8 @@ export interface CreateOrderRequest {
 }
 
 export interface UpdateOrderRequest {
-    status?: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+    status?: OrderStatus;
+    note?: string;
     isPaid?: boolean;
     paidAt?: string;
     deliveredAt?: string;
@@ -215,15 +228,24 @@ export interface UpdateOrderRequest {
 export interface OrderResponse {
     _id: string;
     orderNumber: string;
-    user: {
+    invoiceNumber?: string;
+    invoicedAt?: string;
+    user?: {
         _id: string;
         name: string;
         email: string;
     };
+    guestEmail?: string;
     items: Array<{
         product: ProductResponse;
+        name?: string;
         quantity: number;
         price: number;
+        color?: string;
+        size?: string;
+        taxClass?: string;
+        taxRate?: number;
+        taxPrice?: number;
     }>;
     shipping: {
         fullName: string;
@@ -236,18 +258,32 @@ export interface OrderResponse {
     };
     payment: {
         method: string;
-        status: string;
+        status: PaymentStatus;
+        provider?: string;
+        transactionId?: string;
+        nextAction?: PaymentNextAction;
+        failureReason?: string;
+        refundedAmount?: number;
         details: Record<string, unknown>;
     };
     itemsPrice: number;
+    discounts?: OrderDiscount[];
+    discountPrice?: number;
+    shippingMethod?: OrderShippingMethod;
     shippingPrice: number;
     taxPrice: number;
+    shippingTaxPrice?: number;
+    pricesIncludeTax?: boolean;
     totalPrice: number;
-    status: string;
+    refunds?: OrderRefund[];
+    refundedAmount?: number;
+    status: OrderStatus;
+    statusHistory?: OrderStatusHistoryEntry[];
     isPaid: boolean;
     paidAt?: string;
     deliveredAt?: string;
     trackingNumber?: string;
+    shipmentCount?: number;
     createdAt: string;
     updatedAt: string;
 }
@@ -294,6 +330,8 @@ export interface UserResponse {
     name: string;
     email: string;
     role: string;
+    // Resolved from the role; only present for the signed-in user
+    permissions?: string[];
     active: boolean;
     createdAt: string;
     updatedAt: string;
@@ -319,6 +357,123 @@ export interface AuthResponse {
     expiresIn: number;
 }
 
+// Account Security API Types
+export interface ActiveSessionResponse {
+    _id: string;
+    device: string;
+    ip?: string;
+    createdAt: string;
+    lastUsedAt: string;
+    current: boolean;
+}
+
+export interface LoginEventResponse {
+    _id: string;
+    outcome: 'success' | 'failed';
+    reason?: 'unknown_email' | 'invalid_password' | 'inactive' | 'invalid_two_factor' | 'locked';
+    device: string;
+    ip?: string;
+    createdAt: string;
+}
+
+export interface AccountSessionsResponse {
+    sessions: ActiveSessionResponse[];
+    loginHistory: LoginEventResponse[];
+}
+
+export interface CustomerSecurityResponse extends AccountSessionsResponse {
+    twoFactorEnabled: boolean;
+    lockout: {
+        // Failed sign-ins in a row
+        failedAttempts: number;
+        // Set while the account is locked
+        lockedUntil?: string;
+    };
+}
+
+export interface TwoFactorStatusResponse {
+    enabled: boolean;
+    // The account's role must use two-factor authentication, so it cannot be turned off
+    required: boolean;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetupResponse {
+    secret: string;
+    otpauthUrl: string;
+}
+
+// Returned by login instead of a session when a second step is needed
+export interface TwoFactorChallengeResponse {
+    twoFactorRequired: true;
+    // The account has not set up two-factor authentication yet, but its role requires it
+    setupRequired: boolean;
+    challengeToken: string;
+}
+
+// A named set of permissions from the catalogue in utils/permissions
+export interface RoleResponse {
+    name: string;
+    label: string;
+    description: string;
+    permissions: string[];
+    // Built in, so it cannot be deleted
+    system: boolean;
+    userCount: number;
+}
+
+export interface SaveRoleRequest {
+    // Only given when creating; a role keeps its name
+    name?: string;
+    label: string;
+    description?: string;
+    permissions: string[];
+}
+
+// Audit Log API Types
+export interface AuditChangeResponse {
+    // Dotted path of the field, e.g. `pricing.salePrice`
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditLogEntryResponse {
+    _id: string;
+    actor: string;
+    actorEmail: string;
+    actorRole: string;
+    action: string;
+    targetModel: string;
+    targetId?: string;
+    targetLabel?: string;
+    changes: AuditChangeResponse[];
+    requestId: string;
+    ip?: string;
+    createdAt: string;
+}
+
+export interface AuditLogFilters {
+    targetModel?: string;
+    targetId?: string;
+    // User id or part of an email
+    actor?: string;
+    action?: string;
+    // ISO dates
+    from?: string;
+    to?: string;
+}
+
+export interface AuditLogResponse {
+    entries: AuditLogEntryResponse[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        totalPages: number;
+    };
+}
+
 // Cart API Types
 export interface AddToCartRequest {
     productId: string;
@@ -416,6 +571,37 @@ export interface HomepageSettings {
     }>;
 }
 
+export interface OrderNumberSettings {
+    prefix: string;
+    datePattern: 'YYMMDD' | 'YYYYMMDD' | 'YYMM' | 'YYYYMM' | 'YYYY' | '';
+    padding: number;
+}
+
+export interface InvoiceSettings {
+    sellerName: string;
+    address: string;
+    city: string;
+    state: string;
+    postalCode: string;
+    country: string;
+    email: string;
+    phone: string;
+    taxId: string;
+    prefix: string;
+    padding: number;
+    footerNote: string;
+}
+
+export interface VerificationSettings {
+    requireVerifiedEmail: boolean;
+    tokenExpiresHours: number;
+    resendCooldownMinutes: number;
+}
+
+export interface TwoFactorSettings {
+    requireForAdmins: boolean;
+}
+
 export interface UpdateSettingsRequest {
     websiteTheme?: Partial<WebsiteThemeSettings>;
     homepage?: Partial<HomepageSettings>;
@@ -1,4 +1,6 @@
 import mongoose from "mongoose";
+import { AppliedCoupon } from "./coupons";
+import { ProductVariant } from "./product";
 
 // Product interface for populated cart items
 export interface PopulatedProduct {
@@ -11,6 +13,7 @@ export interface PopulatedProduct {
     active: boolean;
     status: string;
     slug: string;
+    variants?: ProductVariant[];
 }
 
 // Cart item variants interface
@@ -41,6 +44,7 @@ export interface Cart {
     items: CartItem[];
     totalItems: number;
     totalPrice: number;
+    couponCode?: string | null;
     createdAt: Date;
     updatedAt: Date;
     // Mongoose document methods
@@ -61,5 +65,7 @@ export interface CartResponse extends Omit<Cart, 'items'> {
     summary: {
         subtotal: number;
         totalItems: number;
+        discount: number;
+        coupon: AppliedCoupon | null;
     };
 }
@@ -8,6 +8,7 @@ export type Category = {
   imageId?: string;
   parent?: string | null;
   active: boolean;
+  taxClass?: string;
   hasChildren?: boolean;
   children?: Category[];
   createdAt?: string;
@@ -1,3 +1,5 @@
+import { ShippingQuote } from "./shipping";
+
 export interface Shipping {
   fullName: string;
   address: string;
@@ -6,6 +8,8 @@ export interface Shipping {
   postalCode: string;
   country: string;
   phone: string;
+  // Contact email, asked for when checking out without an account
+  email?: string;
   notes?: string;
   deliveryDate?: string;
   method?: string;
@@ -21,34 +25,60 @@ export interface PaymentDetails {
   paymentDate?: string;
 }
 
+export type PaymentStatus =
+  | "pending"
+  | "requires_action"
+  | "authorized"
+  | "paid"
+  | "partially_refunded"
+  | "refunded"
+  | "voided"
+  | "failed";
+
+export interface PaymentNextAction {
+  type: "redirect";
+  url: string;
+}
+
 export interface Payment {
   method: string;
   cardNumber?: string;
   expiryDate?: string;
   cvv?: string;
   cardHolderName?: string;
+  provider?: string;
   transactionId?: string;
   status?: string;
+  nextAction?: PaymentNextAction;
+  failureReason?: string;
+  refundedAmount?: number;
   details?: PaymentDetails;
 }
 
 export interface CheckoutData {
   shipping: Shipping;
+  shippingMethod?: ShippingQuote;
   payment: Payment;
 }
 
 export interface OrderTotals {
   itemsPrice: number;
+  discount: number;
   shippingPrice: number;
   taxPrice: number;
+  pricesIncludeTax: boolean;
   total: number;
 }
 
 export interface OrderData {
   items: OrderItem[];
   shipping: Shipping;
+  email?: string;
   payment: Payment & { status: string; details: Record<string, unknown> };
+  couponCode?: string;
+  shippingMethod?: string;
   itemsPrice: number;
+  discountPrice?: number;
   shippingPrice: number;
   taxPrice: number;
   totalPrice: number;
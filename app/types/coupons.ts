@@ -0,0 +1,49 @@
+export type CouponType = "percentage" | "fixed" | "free_shipping" | "buy_x_get_y";
+
+export const COUPON_TYPE_LABELS: Record<CouponType, string> = {
+    percentage: "Percentage off",
+    fixed: "Fixed amount off",
+    free_shipping: "Free shipping",
+    buy_x_get_y: "Buy X get Y free",
+};
+
+// Coupon applied to the shopper's cart, as priced by the server
+export interface AppliedCoupon {
+    code: string;
+    type: CouponType;
+    description?: string;
+    amount: number;
+    freeShipping: boolean;
+}
+
+export interface Coupon {
+    _id: string;
+    code: string;
+    description?: string;
+    type: CouponType;
+    value: number;
+    maxDiscount?: number;
+    buyQuantity?: number;
+    getQuantity?: number;
+    minimumSpend: number;
+    startsAt?: string;
+    expiresAt?: string;
+    usageLimit?: number;
+    usageLimitPerCustomer?: number;
+    usageCount: number;
+    products: string[];
+    categories: string[];
+    active: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Discount line recorded on an order
+export interface OrderDiscount {
+    code: string;
+    type: CouponType;
+    description?: string;
+    amount: number;
+    freeShipping: boolean;
+    appliedAt?: string;
+}
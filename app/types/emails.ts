@@ -0,0 +1,35 @@
+export type EmailTemplateKey =
+    | "order_placed"
+    | "order_paid"
+    | "order_shipped"
+    | "order_delivered"
+    | "order_cancelled"
+    | "order_refunded"
+    | "email_verification"
+    | "password_reset"
+    | "contact_auto_reply";
+
+export interface EmailTemplate {
+    subject: string;
+    heading: string;
+    body: string;
+}
+
+export interface EmailTemplateDefinition {
+    label: string;
+    description: string;
+    variables: string[];
+}
+
+export interface EmailTemplatesResponse {
+    templates: Record<EmailTemplateKey, EmailTemplate>;
+    defaults: Record<EmailTemplateKey, EmailTemplate>;
+    definitions: Record<EmailTemplateKey, EmailTemplateDefinition>;
+}
+
+export interface EmailPreview {
+    subject: string;
+    html: string;
+    text: string;
+    order?: { _id: string; orderNumber: string };
+}
@@ -1,3 +1,5 @@
+import { ProductVariant } from './product';
+
 export interface MongooseError extends Error {
     code?: number;
     keyPattern?: Record<string, string>;
@@ -38,10 +40,12 @@ export interface ProductData {
     dimensions?: string;
     material?: string;
     warranty?: string;
+    taxClass?: string;
     stock?: number;
     quantity?: number;
     active?: boolean;
-    [key: string]: string | string[] | number | boolean | undefined;
+    variants?: ProductVariant[];
+    [key: string]: string | string[] | number | boolean | ProductVariant[] | undefined;
     parent?: string;
     discountPrice?: number;
     sold?: number;
@@ -60,6 +64,7 @@ export interface CategoryData {
     image?: string;
     imageId?: string;
     active?: boolean;
+    taxClass?: string;
     [key: string]: string | string[] | number | boolean | undefined;
 
 } 
\ No newline at end of file
@@ -1,25 +1,57 @@
 import { Payment } from "./checkout";
+import { OrderDiscount } from "./coupons";
+import { OrderShippingMethod } from "./shipping";
 
 import { Shipping } from "./checkout";
 
+export type OrderStatus =
+    | "pending"
+    | "processing"
+    | "partially_shipped"
+    | "shipped"
+    | "delivered"
+    | "completed"
+    | "cancelled"
+    | "refunded"
+    | "failed";
+
+export interface OrderStatusHistoryEntry {
+    status: OrderStatus;
+    from?: OrderStatus;
+    changedBy?: {
+        _id: string;
+        firstName?: string;
+        lastName?: string;
+        role?: string;
+    } | string;
+    note?: string;
+    changedAt: string;
+}
 
 export interface Order {
     _id: string;
     orderNumber: string;
-    user: {
+    user?: {
         _id: string;
         firstName: string;
         lastName: string;
         email: string;
     };
+    guestEmail?: string;
     items: OrderItem[];
     shipping: Shipping;
     payment: Payment;
     itemsPrice: number;
+    discounts?: OrderDiscount[];
+    discountPrice?: number;
+    shippingMethod?: OrderShippingMethod;
     shippingPrice: number;
     taxPrice: number;
+    shippingTaxPrice?: number;
+    pricesIncludeTax?: boolean;
     totalPrice: number;
-    status: string;
+    status: OrderStatus;
+    statusHistory?: OrderStatusHistoryEntry[];
     isPaid: boolean;
     paidAt: string;
     isDelivered: boolean;
@@ -40,7 +72,12 @@ interface OrderItem {
     quantity: number;
     price: number;
     totalPrice: number;
+    taxClass?: string;
+    taxRate?: number;
+    taxPrice?: number;
     color: string;
     size: string;
+    // SKU of the variant ordered, for products sold in variants
+    sku?: string;
     image: string;
 }
\ No newline at end of file
@@ -1 +1,18 @@
-export type ProductStatus = "in stock" | "out of stock" | "draft" | "low stock";
\ No newline at end of file
+export type ProductStatus = "in stock" | "out of stock" | "draft" | "low stock";
+// Option values that identify a variant; a product may vary by color, size or both
+export interface ProductVariantOptions {
+    color?: string | null;
+    size?: string | null;
+}
+
+// One purchasable combination of a product's options, with its own SKU and stock
+export interface ProductVariant {
+    _id?: string;
+    options: ProductVariantOptions;
+    sku?: string;
+    // Replaces the product's price (and discount price) when set
+    price?: number | null;
+    stock: number;
+    // One of the product's images, shown when the variant is selected
+    image?: string;
+}
@@ -0,0 +1,65 @@
+export type ReturnStatus = "requested" | "approved" | "rejected" | "received";
+
+export type ReturnReason =
+    | "damaged"
+    | "defective"
+    | "wrong_item"
+    | "not_as_described"
+    | "no_longer_needed"
+    | "other";
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+    damaged: "Arrived damaged",
+    defective: "Defective or not working",
+    wrong_item: "Wrong item received",
+    not_as_described: "Not as described",
+    no_longer_needed: "No longer needed",
+    other: "Other",
+};
+
+export interface ReturnItem {
+    orderItemIndex: number;
+    product: string;
+    name: string;
+    color?: string;
+    size?: string;
+    quantity: number;
+    unitPrice: number;
+    reason: ReturnReason;
+}
+
+export interface ReturnRequest {
+    _id: string;
+    rmaNumber: string;
+    order: string | {
+        _id: string;
+        orderNumber: string;
+        totalPrice: number;
+        refundedAmount?: number;
+        status?: string;
+    };
+    user: string | {
+        _id: string;
+        firstName: string;
+        lastName: string;
+        email: string;
+    };
+    items: ReturnItem[];
+    customerNote?: string;
+    status: ReturnStatus;
+    adminNotes?: string;
+    refundAmount: number;
+    reviewedBy?: { _id: string; firstName: string; lastName: string };
+    reviewedAt?: string;
+    receivedAt?: string;
+    createdAt: string;
+}
+
+export interface OrderRefund {
+    _id: string;
+    return?: string;
+    amount: number;
+    items: Array<{ orderItemIndex: number; quantity: number; amount: number }>;
+    note?: string;
+    createdAt: string;
+}
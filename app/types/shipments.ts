@@ -0,0 +1,34 @@
+export type ShipmentStatus = "shipped" | "delivered";
+
+export interface ShipmentItem {
+    orderItemIndex: number;
+    product: string;
+    name: string;
+    color?: string;
+    size?: string;
+    quantity: number;
+}
+
+export interface Shipment {
+    _id: string;
+    order: string;
+    packageNumber: number;
+    carrier: string;
+    carrierName?: string;
+    trackingNumber?: string;
+    trackingUrl?: string;
+    items: ShipmentItem[];
+    status: ShipmentStatus;
+    shippedAt: string;
+    deliveredAt?: string;
+    notes?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface Carrier {
+    code: string;
+    name: string;
+    trackingUrlTemplate: string;
+    active: boolean;
+}
@@ -0,0 +1,61 @@
+export type ShippingMethodType = "flat" | "weight" | "price_tier";
+
+export const SHIPPING_METHOD_TYPE_LABELS: Record<ShippingMethodType, string> = {
+    flat: "Flat rate",
+    weight: "Weight based",
+    price_tier: "Price tiers",
+};
+
+export interface ShippingEstimate {
+    min?: number;
+    max?: number;
+}
+
+export interface ShippingRateTier {
+    min: number;
+    rate: number;
+}
+
+export interface ShippingMethod {
+    _id?: string;
+    name: string;
+    type: ShippingMethodType;
+    rate: number;
+    tiers: ShippingRateTier[];
+    freeShippingThreshold?: number;
+    estimatedDays?: ShippingEstimate;
+    active: boolean;
+}
+
+export interface ShippingZone {
+    _id: string;
+    name: string;
+    countries: string[];
+    states: string[];
+    postalCodes: string[];
+    priority: number;
+    methods: ShippingMethod[];
+    active: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A method the shopper can pick for their address, as priced by the server
+export interface ShippingQuote {
+    id: string;
+    name: string;
+    type: ShippingMethodType;
+    price: number;
+    estimatedDays?: ShippingEstimate;
+    zoneName: string;
+}
+
+// Shipping method recorded on an order
+export interface OrderShippingMethod {
+    method: string;
+    name: string;
+    type: ShippingMethodType;
+    price: number;
+    estimatedDays?: ShippingEstimate;
+    zoneName: string;
+}
@@ -0,0 +1,24 @@
+export interface TaxRate {
+    _id: string;
+    name: string;
+    country: string;
+    state: string;
+    taxClass: string;
+    rate: number;
+    active: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface TaxSettings {
+    pricesIncludeTax: boolean;
+    taxShipping: boolean;
+    shippingTaxClass: string;
+}
+
+// Tax on the shopper's cart for their address and shipping method, as priced by the server
+export interface TaxQuote {
+    taxPrice: number;
+    shippingTaxPrice: number;
+    pricesIncludeTax: boolean;
+}
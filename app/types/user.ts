@@ -12,6 +12,8 @@ export type User = {
     createdAt: Date;
     updatedAt: Date;
     isActive: boolean;
+    verified?: boolean;
+    twoFactorEnabled?: boolean;
     isEmailVerified: boolean;
     isPhoneVerified: boolean;
     isAddressVerified: boolean;
@@ -1,64 +1,113 @@
 import { getUserById } from '@/app/api/models/User';
 import { User } from '@/app/types/user';
-import { jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
 import { NextRequest, NextResponse } from 'next/server';
-// Create JWT secret for verification
-const createSecretKey = () => {
-    const secret = process.env.JWT_SECRET;
-    if (!secret) {
-        throw new Error('JWT_SECRET environment variable is not set');
+import { createGuestId, readGuestId, setGuestCookie, Shopper } from '../utils/guest';
+import { can, Permission } from '../utils/permissions';
+import { applyRolePermissions } from '../utils/roles';
+import {
+    clearSessionCookies,
+    REFRESH_COOKIE_NAME,
+    refreshSession,
+    SessionError,
+    SessionTokens,
+    setSessionCookies,
+    verifyAccessToken,
+} from '../utils/sessions';
+
+// Get token from authorization header or cookie
+async function getRequestToken(req: NextRequest) {
+    const authHeader = req.headers.get('authorization');
+
+    if (authHeader?.startsWith('Bearer ')) {
+        return authHeader.split(' ')[1];
     }
-    return new TextEncoder().encode(secret);
-};
 
-// Auth middleware for API routes
-export async function authMiddleware(
-    req: NextRequest,
-    handler: (req: NextRequest, user: User) => Promise<NextResponse>
-) {
-    try {
-        // Get token from authorization header or cookie
-        let token;
-        const authHeader = req.headers.get('authorization');
-
-        if (authHeader?.startsWith('Bearer ')) {
-            token = authHeader.split(' ')[1];
-        } else {
-            const cookieStore = await cookies();
-            token = cookieStore.get('auth_token')?.value;
-        }
+    const cookieStore = await cookies();
+    return cookieStore.get('auth_token')?.value;
+}
 
-        if (!token) {
-            return NextResponse.json(
-                { success: false, message: 'Not authorized, no token' },
-                { status: 401 }
-            );
+// Load the user a token belongs to, with the permissions their role grants today
+async function loadUser(id: string): Promise<User | null> {
+    const user = await getUserById(id);
+    return user ? applyRolePermissions(user) : null;
+}
+
+interface RequestAuth {
+    user: User | null;
+    // Tokens rotated while authenticating, to be set on the response
+    tokens: SessionTokens | null;
+    // The refresh token was rejected, so the browser's session cookies should be dropped
+    sessionEnded: boolean;
+}
+
+// Identify the user behind a request from its access token. Once that has expired, the refresh
+// token cookie is used instead and rotated, so browsers stay signed in without a refresh call.
+async function authenticateRequest(req: NextRequest): Promise<RequestAuth> {
+    const token = await getRequestToken(req);
+
+    if (token) {
+        const claims = await verifyAccessToken(token);
+        if (claims) {
+            return { user: await loadUser(claims.userId), tokens: null, sessionEnded: false };
         }
+    }
 
-        // Verify token
-        const secretKey = createSecretKey();
-        const { payload } = await jwtVerify(token, secretKey);
+    const refreshToken = req.cookies.get(REFRESH_COOKIE_NAME)?.value;
+    if (!refreshToken) {
+        return { user: null, tokens: null, sessionEnded: false };
+    }
 
-        if (!payload.id) {
-            return NextResponse.json(
-                { success: false, message: 'Invalid token' },
-                { status: 401 }
-            );
+    try {
+        const { userId, tokens } = await refreshSession(refreshToken, req);
+        return { user: await loadUser(userId), tokens, sessionEnded: false };
+    } catch (error) {
+        if (error instanceof SessionError) {
+            return { user: null, tokens: null, sessionEnded: true };
         }
+        throw error;
+    }
+}
 
-        // Get user from database
-        const user = await getUserById(payload.id as string);
+// Put tokens rotated during authentication on the response, unless the handler set or cleared them itself
+function applySessionCookies(response: NextResponse, auth: RequestAuth) {
+    if (auth.tokens && !response.cookies.get('auth_token')) {
+        setSessionCookies(response, auth.tokens);
+    }
+    if (auth.sessionEnded) {
+        clearSessionCookies(response);
+    }
+    return response;
+}
 
-        if (!user) {
-            return NextResponse.json(
-                { success: false, message: 'Not authorized, user not found' },
-                { status: 401 }
+// Auth middleware for API routes. With a permission, the route is declared to need it and users
+// whose role does not grant it are turned away before the handler runs (see utils/permissions).
+export async function authMiddleware(
+    req: NextRequest,
+    handler: (req: NextRequest, user: User) => Promise<NextResponse>,
+    options: { permission?: Permission } = {}
+) {
+    try {
+        const auth = await authenticateRequest(req);
+
+        if (!auth.user) {
+            const hadToken = auth.sessionEnded || !!(await getRequestToken(req));
+            return applySessionCookies(
+                NextResponse.json(
+                    { success: false, message: hadToken ? 'Not authorized, token failed' : 'Not authorized, no token' },
+                    { status: 401 }
+                ),
+                auth
             );
         }
 
+        if (options.permission) {
+            const permissionCheck = hasPermission(auth.user, options.permission);
+            if (permissionCheck) return applySessionCookies(permissionCheck, auth);
+        }
+
         // Call the handler with the user
-        return handler(req, user);
+        return applySessionCookies(await handler(req, auth.user), auth);
     } catch (error) {
         console.error('Auth middleware error:', error);
         return NextResponse.json(
@@ -68,35 +117,48 @@ export async function authMiddleware(
     }
 }
 
-// Admin check middleware
-export function isAdmin(user: User) {
-    if (user.role !== 'admin' && user.role !== 'super-admin') {
-        return NextResponse.json(
-            { success: false, message: 'Not authorized as an admin' },
-            { status: 403 }
-        );
+// Cart and checkout middleware: signed-in users are passed through as in authMiddleware, anyone else
+// shops as a guest identified by a signed anonymous cookie. With issueGuest, a visitor without the
+// cookie gets a new guest identity, set on the response once the handler succeeds.
+export async function shopperMiddleware(
+    req: NextRequest,
+    handler: (req: NextRequest, shopper: Shopper) => Promise<NextResponse>,
+    options: { issueGuest?: boolean } = {}
+) {
+    // An expired or invalid session falls back to shopping as a guest
+    const auth = await authenticateRequest(req).catch((error) => {
+        console.error('Shopper middleware token error:', error);
+        return null;
+    });
+
+    if (auth?.user) {
+        return applySessionCookies(await handler(req, { user: auth.user, guestId: null }), auth);
     }
-    return null;
-}
 
-// Permission check function
-export function hasPermission(user: User, requiredPermission: string) {
-    if (!user.permissions || !user.permissions.includes(requiredPermission)) {
-        return NextResponse.json(
-            { success: false, message: `Access denied. Requires permission: ${requiredPermission}` },
-            { status: 403 }
-        );
+    const guestId = await readGuestId(req);
+
+    if (guestId || !options.issueGuest) {
+        const response = await handler(req, { user: null, guestId });
+        return auth ? applySessionCookies(response, auth) : response;
     }
-    return null;
+
+    const newGuestId = createGuestId();
+    const response = await handler(req, { user: null, guestId: newGuestId });
+
+    if (response.ok) {
+        await setGuestCookie(response, newGuestId);
+    }
+
+    return auth ? applySessionCookies(response, auth) : response;
 }
 
-// Super admin check middleware
-export function isSuperAdmin(user: User) {
-    if (user.role !== 'super-admin') {
+// Permission check function, for routes that decide inside the handler
+export function hasPermission(user: User, requiredPermission: Permission) {
+    if (!can(user, requiredPermission)) {
         return NextResponse.json(
-            { success: false, message: 'Access denied. Super admin privileges required.' },
+            { success: false, message: `Access denied. Requires permission: ${requiredPermission}` },
             { status: 403 }
         );
     }
     return null;
-}
\ No newline at end of file
+}
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+
+// Order number migration
+// Seeds the order number counters from existing orders and checks for duplicate numbers.
+// Run with: node scripts/migrate-order-numbers.js [--fix]
+//   --fix  renumber duplicates, keeping the oldest order on the original number
+
+const mongoose = require("mongoose");
+require("dotenv").config();
+
+const DEFAULT_SETTINGS = { prefix: "ORD", datePattern: "YYMMDD", padding: 5 };
+const COUNTER_PREFIX = "order-number";
+
+const shouldFix = process.argv.includes("--fix");
+
+// Keep in sync with utils/orderNumber.ts
+const formatDate = (pattern, date) => {
+  const year = date.getFullYear().toString();
+  return pattern
+    .replace("YYYY", year)
+    .replace("YY", year.slice(-2))
+    .replace("MM", (date.getMonth() + 1).toString().padStart(2, "0"))
+    .replace("DD", date.getDate().toString().padStart(2, "0"));
+};
+
+const formatOrderNumber = (settings, datePart, sequence) =>
+  [settings.prefix, datePart, sequence.toString().padStart(settings.padding, "0")]
+    .filter(Boolean)
+    .join("-");
+
+const counterName = (settings, datePart) =>
+  `${COUNTER_PREFIX}:${settings.prefix}:${datePart}`;
+
+// Matches numbers in the configured format, capturing the date part and sequence
+const buildMatcher = (settings) => {
+  const prefix = settings.prefix ? `${settings.prefix}-` : "";
+  const date = settings.datePattern ? `(\\d{${settings.datePattern.length}})-` : "()";
+  return new RegExp(`^${prefix}${date}(\\d+)$`);
+};
+
+async function runMigration() {
+  console.log("🔢 Starting order number migration...");
+
+  await mongoose.connect(
+    process.env.MONGODB_URI || "mongodb://localhost:27017/elyanashop"
+  );
+  console.log("✅ Connected to MongoDB");
+
+  const db = mongoose.connection.db;
+  const orders = db.collection("orders");
+  const counters = db.collection("counters");
+
+  const stored = await db.collection("settings").findOne({ name: "order-number" });
+  const settings = { ...DEFAULT_SETTINGS, ...(stored && stored.value) };
+  console.log("Format:", settings);
+
+  // Step 1: find duplicate and missing order numbers
+  console.log("\n🔍 Step 1: Checking for duplicate order numbers...");
+  const duplicates = await orders
+    .aggregate([
+      { $group: { _id: "$orderNumber", count: { $sum: 1 }, ids: { $push: "$_id" } } },
+      { $match: { count: { $gt: 1 } } },
+    ])
+    .toArray();
+  const missing = await orders.countDocuments({
+    $or: [{ orderNumber: { $exists: false } }, { orderNumber: null }, { orderNumber: "" }],
+  });
+
+  if (duplicates.length === 0) {
+    console.log("No duplicate order numbers found");
+  } else {
+    duplicates.forEach((group) =>
+      console.log(`  ${group._id}: ${group.count} orders (${group.ids.join(", ")})`)
+    );
+  }
+  if (missing > 0) {
+    console.log(`  ${missing} orders have no order number`);
+  }
+
+  // Step 2: move every counter past the highest number already used in its period
+  console.log("\n📈 Step 2: Seeding order number counters...");
+  const matcher = buildMatcher(settings);
+  const highest = new Map();
+
+  const cursor = orders.find({ orderNumber: { $type: "string" } }, { projection: { orderNumber: 1 } });
+  for await (const order of cursor) {
+    const match = matcher.exec(order.orderNumber);
+    if (!match) continue;
+
+    const name = counterName(settings, match[1]);
+    highest.set(name, Math.max(highest.get(name) || 0, parseInt(match[2], 10)));
+  }
+
+  for (const [name, seq] of highest) {
+    await counters.updateOne(
+      { _id: name },
+      { $max: { seq }, $currentDate: { updatedAt: true }, $setOnInsert: { createdAt: new Date() } },
+      { upsert: true }
+    );
+  }
+  console.log(`Seeded ${highest.size} counters`);
+
+  // Step 3: optionally renumber duplicates and orders without a number
+  if (!shouldFix) {
+    if (duplicates.length > 0 || missing > 0) {
+      console.log("\nℹ️  Run again with --fix to renumber the affected orders");
+    }
+  } else {
+    console.log("\n🛠️  Step 3: Renumbering orders...");
+
+    const toRenumber = [];
+    for (const group of duplicates) {
+      const groupOrders = await orders
+        .find({ _id: { $in: group.ids } }, { projection: { createdAt: 1 } })
+        .sort({ createdAt: 1, _id: 1 })
+        .toArray();
+      toRenumber.push(...groupOrders.slice(1));
+    }
+    toRenumber.push(
+      ...(await orders
+        .find(
+          { $or: [{ orderNumber: { $exists: false } }, { orderNumber: null }, { orderNumber: "" }] },
+          { projection: { createdAt: 1 } }
+        )
+        .toArray())
+    );
+
+    for (const order of toRenumber) {
+      const datePart = formatDate(settings.datePattern, order.createdAt || order._id.getTimestamp());
+      let orderNumber;
+
+      do {
+        const counter = await counters.findOneAndUpdate(
+          { _id: counterName(settings, datePart) },
+          { $inc: { seq: 1 }, $currentDate: { updatedAt: true } },
+          { upsert: true, returnDocument: "after" }
+        );
+        const seq = (counter.value || counter).seq;
+        orderNumber = formatOrderNumber(settings, datePart, seq);
+      } while (await orders.findOne({ orderNumber }, { projection: { _id: 1 } }));
+
+      await orders.updateOne({ _id: order._id }, { $set: { orderNumber } });
+      console.log(`  ${order._id} -> ${orderNumber}`);
+    }
+
+    console.log(`Renumbered ${toRenumber.length} orders`);
+  }
+
+  console.log("\n✅ Order number migration completed");
+}
+
+runMigration()
+  .catch((error) => {
+    console.error("❌ Order number migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
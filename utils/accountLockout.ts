@@ -0,0 +1,222 @@
+import mongoose from 'mongoose';
+import LoginEvent from '../app/api/models/LoginEvent';
+import User from '../app/api/models/User';
+import { logAuthEvent } from './logger';
+
+// Failed sign-ins allowed before each further attempt has to wait
+const FREE_ATTEMPTS = 3;
+// The wait doubles with every failure after the free ones, up to this
+const MAX_DELAY_SECONDS = 60;
+// Failures in a row that lock the account
+export const MAX_FAILED_ATTEMPTS = 10;
+export const LOCKOUT_MINUTES = 15;
+// Failures further apart than this start the count again
+const FAILURE_WINDOW_MINUTES = 60;
+
+interface LockoutFields {
+    _id: mongoose.Types.ObjectId;
+    failedLoginAttempts?: number;
+    lastFailedLoginAt?: Date;
+    lockedUntil?: Date;
+}
+
+// Why a sign-in attempt is refused before the password is even checked
+export interface LoginBlock {
+    locked: boolean;
+    // Seconds until the account may try again
+    retryAfter: number;
+    message: string;
+}
+
+const delaySeconds = (failedAttempts: number): number =>
+    failedAttempts <= FREE_ATTEMPTS ? 0 : Math.min(2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_SECONDS);
+
+// Why an account may not attempt to sign in now, or null when it may
+const getLoginBlock = (user: LockoutFields): LoginBlock | null => {
+    const now = Date.now();
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+        const retryAfter = Math.ceil((user.lockedUntil.getTime() - now) / 1000);
+        return {
+            locked: true,
+            retryAfter,
+            message: `Too many failed sign-in attempts. This account is locked for ${Math.ceil(retryAfter / 60)} more minutes.`,
+        };
+    }
+
+    const delay = delaySeconds(user.failedLoginAttempts || 0);
+    if (delay && user.lastFailedLoginAt) {
+        const retryAfter = Math.ceil((user.lastFailedLoginAt.getTime() + delay * 1000 - now) / 1000);
+        if (retryAfter > 0) {
+            return {
+                locked: false,
+                retryAfter,
+                message: `Too many failed sign-in attempts. Please wait ${retryAfter} seconds before trying again.`,
+            };
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Claim a sign-in attempt before the password or code is checked.
+ * The attempt is counted as a failure up front, in the same update that checks the lock and the wait,
+ * so parallel requests see each other's attempts and cannot slip past the delay or the limit.
+ * @param userId - Account being signed in to
+ * @returns Why the attempt is refused, or null when it was claimed and may go ahead
+ */
+export const claimLoginAttempt = async (userId: mongoose.Types.ObjectId | string): Promise<LoginBlock | null> => {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+    const attempts = { $ifNull: ['$failedLoginAttempts', 0] };
+    const delay = {
+        $cond: [
+            { $lte: [attempts, FREE_ATTEMPTS] },
+            0,
+            { $min: [{ $pow: [2, { $subtract: [attempts, FREE_ATTEMPTS] }] }, MAX_DELAY_SECONDS] },
+        ],
+    };
+
+    const claimed = await User.findOneAndUpdate(
+        {
+            _id: userId,
+            lockedUntil: { $not: { $gt: now } },
+            $expr: {
+                $lte: [{ $add: [{ $ifNull: ['$lastFailedLoginAt', new Date(0)] }, { $multiply: [delay, 1000] }] }, now],
+            },
+        },
+        [{
+            $set: {
+                failedLoginAttempts: {
+                    $cond: [{ $gt: ['$lastFailedLoginAt', windowStart] }, { $add: [attempts, 1] }, 1],
+                },
+                lastFailedLoginAt: now,
+            },
+        }]
+    ).select('_id');
+
+    if (claimed) {
+        return null;
+    }
+
+    const user = await User.findById(userId).select('failedLoginAttempts lastFailedLoginAt lockedUntil');
+
+    // Another attempt was claimed in between; its wait has not been worked out yet
+    return (user && getLoginBlock(user)) || {
+        locked: false,
+        retryAfter: 1,
+        message: 'Too many sign-in attempts. Please wait a moment before trying again.',
+    };
+};
+
+/**
+ * Hand back a claimed attempt whose password or code turned out to be correct
+ * @param userId - Account that was signed in to
+ */
+export const releaseLoginAttempt = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+    await User.updateOne(
+        { _id: userId, failedLoginAttempts: { $gt: 0 } },
+        { $inc: { failedLoginAttempts: -1 } }
+    );
+};
+
+/**
+ * Settle a claimed attempt that failed, locking the account once there are too many in a row
+ * @param userId - Account the attempt was for
+ * @param ip - Where the attempt came from
+ */
+export const registerFailedLogin = async (userId: mongoose.Types.ObjectId | string, ip: string): Promise<void> => {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - FAILURE_WINDOW_MINUTES * 60 * 1000);
+
+    // The attempt was already counted when it was claimed
+    const user = await User.findById(userId).select('failedLoginAttempts');
+
+    if (!user) {
+        return;
+    }
+
+    const attempts: number = user.failedLoginAttempts || 0;
+
+    if (attempts === FREE_ATTEMPTS + 1) {
+        logAuthEvent('Repeated failed sign-ins, slowing down attempts', userId.toString(), { attempts, ip });
+    }
+
+    if (attempts >= MAX_FAILED_ATTEMPTS) {
+        const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+        const locked = await User.updateOne(
+            { _id: userId, failedLoginAttempts: { $gte: MAX_FAILED_ATTEMPTS } },
+            { $set: { lockedUntil, failedLoginAttempts: 0 } }
+        );
+
+        if (locked.modifiedCount === 0) {
+            return;
+        }
+
+        // Many addresses behind the failures points at a distributed attack rather than a forgotten password
+        const ips: string[] = await LoginEvent.distinct('ip', {
+            user: userId,
+            outcome: 'failed',
+            createdAt: { $gt: windowStart },
+        });
+
+        logAuthEvent('Account locked after repeated failed sign-ins', userId.toString(), {
+            attempts,
+            lockedUntil,
+            ip,
+            distinctIps: ips.length,
+        });
+    }
+};
+
+/**
+ * Record a sign-in attempt refused because of a lock or wait
+ * @param userId - Account the attempt was for
+ * @param block - Why it was refused
+ * @param ip - Where the attempt came from
+ */
+export const logBlockedLogin = (userId: mongoose.Types.ObjectId | string, block: LoginBlock, ip: string): void => {
+    logAuthEvent(
+        block.locked ? 'Sign-in attempted on a locked account' : 'Sign-in attempted before the wait was over',
+        userId.toString(),
+        { ip, retryAfter: block.retryAfter }
+    );
+};
+
+/**
+ * Start the failed sign-in count again, after a successful sign-in or an admin unlock
+ * @param userId - Account to clear
+ * @param clearedBy - Admin who unlocked the account, if it was not a sign-in
+ * @returns Whether the account was locked
+ */
+export const clearFailedLogins = async (
+    userId: mongoose.Types.ObjectId | string,
+    clearedBy?: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+    const user = await User.findOneAndUpdate(
+        { _id: userId },
+        { $set: { failedLoginAttempts: 0 }, $unset: { lastFailedLoginAt: 1, lockedUntil: 1 } }
+    ).select('lockedUntil');
+
+    const wasLocked = !!user?.lockedUntil && user.lockedUntil > new Date();
+
+    if (clearedBy) {
+        logAuthEvent('Account lockout cleared', userId.toString(), { clearedBy: clearedBy.toString(), wasLocked });
+    }
+
+    return wasLocked;
+};
+
+/**
+ * Describe an account's failed sign-ins, for admins
+ * @param user - Account to describe
+ * @returns Failed attempts in a row and, while locked, when the lock ends
+ */
+export const getLockoutStatus = (user: LockoutFields): { failedAttempts: number; lockedUntil?: Date } => {
+    const locked = !!user.lockedUntil && user.lockedUntil > new Date();
+    return {
+        failedAttempts: user.failedLoginAttempts || 0,
+        ...(locked && { lockedUntil: user.lockedUntil }),
+    };
+};
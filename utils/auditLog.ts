@@ -0,0 +1,255 @@
+import mongoose from 'mongoose';
+import { NextRequest } from 'next/server';
+import AuditLog, { AUDIT_ACTIONS, AUDIT_TARGET_MODELS } from '../app/api/models/AuditLog';
+import { User as UserType } from '../app/types/user';
+import { getRequestId } from './errorHandler';
+import { logBusinessError } from './logger';
+import { getRequestDetails } from './sessions';
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditTargetModel = typeof AUDIT_TARGET_MODELS[number];
+
+export const AUDIT_LOG_PAGE_SIZE = 25;
+export const MAX_AUDIT_LOG_PAGE_SIZE = 100;
+
+// Bookkeeping fields that change on every save and say nothing about what was changed
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+// Secrets are never copied into the log; a change to one shows up without its values
+const REDACTED_FIELDS = [
+    'password',
+    'verificationToken',
+    'resetPasswordToken',
+    'twoFactorSecret',
+    'twoFactorPendingSecret',
+    'twoFactorRecoveryCodes',
+    'tokenHash',
+];
+const REDACTED = '[redacted]';
+
+export interface AuditChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface AuditEntryInput {
+    action: AuditAction;
+    targetModel: AuditTargetModel;
+    targetId?: mongoose.Types.ObjectId | string;
+    targetLabel?: string;
+    // The target as it was and as it is now; leave out `before` for creations and `after` for deletions
+    before?: unknown;
+    after?: unknown;
+    // Where `before` and `after` sit in the target, for parts stored apart from it, e.g. `shipments.<id>`
+    path?: string;
+}
+
+export interface AuditLogFilters {
+    targetModel?: string;
+    targetId?: string;
+    actor?: string;
+    action?: string;
+    from?: Date;
+    to?: Date;
+}
+
+// An entry as shown on the admin audit log
+export interface AuditLogEntry {
+    _id: string;
+    actor: string;
+    actorEmail: string;
+    actorRole: string;
+    action: AuditAction;
+    targetModel: AuditTargetModel;
+    targetId?: string;
+    targetLabel?: string;
+    changes: AuditChange[];
+    requestId: string;
+    ip?: string;
+    createdAt: Date;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn a document, lean result or plain value into JSON-safe data, so ids and dates compare as strings
+ * @param value - Target as loaded or saved
+ * @returns Plain copy of the value
+ */
+export const toAuditSnapshot = (value: unknown): unknown => {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    const plain = typeof (value as { toObject?: unknown }).toObject === 'function'
+        ? (value as { toObject: () => unknown }).toObject()
+        : value;
+    return JSON.parse(JSON.stringify(plain));
+};
+
+// Flatten nested objects into dotted paths; arrays are compared as a whole
+const flatten = (value: unknown, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> => {
+    if (!isPlainObject(value)) {
+        if (prefix) {
+            result[prefix] = value;
+        }
+        return result;
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        if (IGNORED_FIELDS.includes(key)) {
+            continue;
+        }
+        const path = prefix ? `${prefix}.${key}` : key;
+        if (REDACTED_FIELDS.includes(key)) {
+            result[path] = child === undefined ? undefined : REDACTED;
+        } else if (isPlainObject(child) && Object.keys(child).length > 0) {
+            flatten(child, path, result);
+        } else {
+            result[path] = child;
+        }
+    }
+    return result;
+};
+
+/**
+ * List the fields that differ between two versions of a target
+ * @param before - Target before the change, unset when it was created
+ * @param after - Target after the change, unset when it was deleted
+ * @returns Changed fields in dotted notation, e.g. `pricing.salePrice`
+ */
+export const diffSnapshots = (before: unknown, after: unknown): AuditChange[] => {
+    const previous = flatten(toAuditSnapshot(before));
+    const next = flatten(toAuditSnapshot(after));
+
+    return [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+        .filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(next[field]))
+        .map((field) => ({
+            field,
+            before: previous[field],
+            after: next[field],
+        }));
+};
+
+/**
+ * Record a change made by a member of staff. Never throws: failing to record it must not fail the change.
+ * Updates that changed nothing are not recorded.
+ * @param req - Request that made the change, for its request id and device details
+ * @param actor - Signed-in user who made it
+ * @param entry - What was changed and how
+ */
+export const recordAudit = async (req: NextRequest, actor: UserType, entry: AuditEntryInput): Promise<void> => {
+    try {
+        const changes = diffSnapshots(entry.before, entry.after).map((change) =>
+            entry.path ? { ...change, field: `${entry.path}.${change.field}` } : change
+        );
+        if (entry.action === 'update' && changes.length === 0) {
+            return;
+        }
+
+        await AuditLog.create({
+            actor: actor._id,
+            actorEmail: actor.email,
+            actorRole: actor.role,
+            action: entry.action,
+            targetModel: entry.targetModel,
+            targetId: entry.targetId?.toString(),
+            targetLabel: entry.targetLabel,
+            changes,
+            requestId: getRequestId(req.headers),
+            ...getRequestDetails(req),
+        });
+    } catch (error) {
+        logBusinessError('Audit log entry could not be recorded', error as Error, 'Audit', {
+            action: entry.action,
+            targetModel: entry.targetModel,
+            targetId: entry.targetId?.toString(),
+            actor: actor._id.toString(),
+        });
+    }
+};
+
+/**
+ * Read audit log filters from a query string; unknown values are ignored
+ * @param searchParams - Query of the request
+ * @returns Filters to pass to getAuditLogs
+ */
+export const parseAuditLogFilters = (searchParams: URLSearchParams): AuditLogFilters => {
+    const date = (name: string): Date | undefined => {
+        const value = searchParams.get(name);
+        const parsed = value ? new Date(value) : undefined;
+        return parsed && !isNaN(parsed.getTime()) ? parsed : undefined;
+    };
+    const actor = searchParams.get('actor')?.trim();
+    const targetModel = searchParams.get('targetModel') || undefined;
+    const action = searchParams.get('action') || undefined;
+
+    return {
+        targetModel: AUDIT_TARGET_MODELS.includes(targetModel as AuditTargetModel) ? targetModel : undefined,
+        targetId: searchParams.get('targetId')?.trim() || undefined,
+        actor: actor || undefined,
+        action: AUDIT_ACTIONS.includes(action as AuditAction) ? action : undefined,
+        from: date('from'),
+        to: date('to'),
+    };
+};
+
+/**
+ * Load audit log entries, newest first
+ * @param filters - Narrow the entries down; `actor` is a user id or part of an email
+ * @param page - Page to load, from 1
+ * @param limit - Entries per page
+ * @returns Entries of the page and the number of matching entries
+ */
+export const getAuditLogs = async (
+    filters: AuditLogFilters,
+    page = 1,
+    limit = AUDIT_LOG_PAGE_SIZE
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+    const query: Record<string, unknown> = {};
+
+    if (filters.targetModel) query.targetModel = filters.targetModel;
+    if (filters.targetId) query.targetId = filters.targetId;
+    if (filters.action) query.action = filters.action;
+    if (filters.actor) {
+        query.$or = mongoose.Types.ObjectId.isValid(filters.actor)
+            ? [{ actor: filters.actor }]
+            : [{ actorEmail: { $regex: filters.actor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), $options: 'i' } }];
+    }
+    if (filters.from || filters.to) {
+        query.createdAt = {
+            ...(filters.from && { $gte: filters.from }),
+            ...(filters.to && { $lte: filters.to }),
+        };
+    }
+
+    const pageSize = Math.min(Math.max(limit, 1), MAX_AUDIT_LOG_PAGE_SIZE);
+    const [entries, total] = await Promise.all([
+        AuditLog.find(query)
+            .sort({ createdAt: -1 })
+            .skip((Math.max(page, 1) - 1) * pageSize)
+            .limit(pageSize)
+            .lean<Array<Omit<AuditLogEntry, '_id' | 'actor'> & { _id: mongoose.Types.ObjectId; actor: mongoose.Types.ObjectId }>>(),
+        AuditLog.countDocuments(query),
+    ]);
+
+    return {
+        entries: entries.map((entry) => ({
+            _id: entry._id.toString(),
+            actor: entry.actor.toString(),
+            actorEmail: entry.actorEmail,
+            actorRole: entry.actorRole,
+            action: entry.action,
+            targetModel: entry.targetModel,
+            targetId: entry.targetId,
+            targetLabel: entry.targetLabel,
+            changes: entry.changes || [],
+            requestId: entry.requestId,
+            ip: entry.ip,
+            createdAt: entry.createdAt,
+        })),
+        total,
+    };
+};
@@ -1,6 +1,7 @@
 // Server-side authentication utilities only
 import { jwtVerify } from 'jose';
 import { cookies } from 'next/headers';
+import { isStaffRole } from './permissions';
 
 export async function getJwtSecretKey() {
     // In a real app, this would be an environment variable
@@ -38,8 +39,7 @@ export async function isAdmin() {
         return false;
     }
 
-    const role = user.role as string;
-    return role === 'admin' || role === 'super-admin';
+    return isStaffRole(user.role as string);
 }
 
 export async function getUser() {
@@ -0,0 +1,400 @@
+import mongoose from 'mongoose';
+import Counter from '../app/api/models/Counter';
+import Coupon, { COUPON_EDITABLE_FIELDS, COUPON_TYPES } from '../app/api/models/Coupon';
+import Order from '../app/api/models/Order';
+import Product from '../app/api/models/Product';
+import { AppliedCoupon } from '../app/types/coupons';
+import { roundCurrency } from './pricing';
+
+export type CouponType = typeof COUPON_TYPES[number];
+
+interface CouponRecord {
+    _id: mongoose.Types.ObjectId;
+    code: string;
+    description?: string;
+    type: CouponType;
+    value: number;
+    maxDiscount?: number;
+    buyQuantity?: number;
+    getQuantity?: number;
+    minimumSpend: number;
+    startsAt?: Date;
+    expiresAt?: Date;
+    usageLimit?: number;
+    usageLimitPerCustomer?: number;
+    usageCount: number;
+    products: mongoose.Types.ObjectId[];
+    categories: mongoose.Types.ObjectId[];
+    active: boolean;
+}
+
+// A priced line the coupon is evaluated against
+export interface CouponLine {
+    product: mongoose.Types.ObjectId | string;
+    quantity: number;
+    price: number;
+    totalPrice: number;
+}
+
+// Outcome of applying a coupon, stored on the order as its discount line
+export interface CouponDiscount {
+    coupon: mongoose.Types.ObjectId;
+    code: string;
+    type: CouponType;
+    description?: string;
+    amount: number;
+    freeShipping: boolean;
+}
+
+// Who is redeeming a coupon: a signed-in customer, or a guest known by the email on their order
+export type CouponCustomer = { user: mongoose.Types.ObjectId | string } | { guestEmail?: string };
+
+// Raised when a coupon cannot be used on the current cart; the message is safe to show the shopper
+export class CouponError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CouponError';
+    }
+}
+
+/**
+ * Normalise a shopper-entered coupon code
+ * @param code - Raw code
+ * @returns Trimmed, uppercase code
+ */
+export const normalizeCouponCode = (code: string): string => {
+    return code.trim().toUpperCase();
+};
+
+// Lines the coupon is scoped to; unscoped coupons cover the whole cart
+const getEligibleLines = async (coupon: CouponRecord, lines: CouponLine[]): Promise<CouponLine[]> => {
+    if (coupon.products.length === 0 && coupon.categories.length === 0) {
+        return lines;
+    }
+
+    const productIds = new Set(coupon.products.map((id) => id.toString()));
+    const categoryIds = new Set(coupon.categories.map((id) => id.toString()));
+
+    const categoryByProduct = new Map<string, string>();
+    if (categoryIds.size > 0) {
+        const products = await Product.find({
+            _id: { $in: lines.map((line) => line.product) },
+        }).select('category').lean<Array<{ _id: mongoose.Types.ObjectId; category?: mongoose.Types.ObjectId }>>();
+        products.forEach((product) => categoryByProduct.set(product._id.toString(), product.category?.toString() || ''));
+    }
+
+    return lines.filter((line) => {
+        const productId = line.product.toString();
+        return productIds.has(productId) || categoryIds.has(categoryByProduct.get(productId) || '');
+    });
+};
+
+/**
+ * Calculates the amount a coupon takes off its eligible lines
+ * @param coupon - Coupon being applied
+ * @param lines - Lines within the coupon's scope
+ * @returns Discount off the items, rounded to cents
+ */
+export const calculateCouponDiscount = (
+    coupon: Pick<CouponRecord, 'type' | 'value' | 'maxDiscount' | 'buyQuantity' | 'getQuantity'>,
+    lines: CouponLine[]
+): number => {
+    const eligibleTotal = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+
+    switch (coupon.type) {
+        case 'percentage': {
+            const amount = (eligibleTotal * coupon.value) / 100;
+            return roundCurrency(coupon.maxDiscount ? Math.min(amount, coupon.maxDiscount) : amount);
+        }
+        case 'fixed':
+            return roundCurrency(Math.min(coupon.value, eligibleTotal));
+        case 'buy_x_get_y': {
+            const buy = coupon.buyQuantity || 0;
+            const get = coupon.getQuantity || 0;
+            if (buy < 1 || get < 1) return 0;
+
+            // The cheapest units are the free ones
+            const unitPrices = lines
+                .flatMap((line) => Array<number>(line.quantity).fill(line.price))
+                .sort((a, b) => a - b);
+            const freeUnits = Math.floor(unitPrices.length / (buy + get)) * get;
+
+            return roundCurrency(unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0));
+        }
+        default:
+            return 0;
+    }
+};
+
+// Redemptions by this customer that still count against the per-customer limit.
+// A guest's email is only known once they place the order, so their cart is not checked.
+const countCustomerRedemptions = async (
+    couponId: mongoose.Types.ObjectId,
+    customer: CouponCustomer,
+    session?: mongoose.ClientSession
+): Promise<number> => {
+    const owner = 'user' in customer
+        ? { user: customer.user }
+        : customer.guestEmail ? { guestEmail: customer.guestEmail.trim().toLowerCase() } : null;
+
+    if (!owner) {
+        return 0;
+    }
+
+    return Order.countDocuments({
+        ...owner,
+        'discounts.coupon': couponId,
+        couponReleased: { $ne: true },
+    }).session(session || null);
+};
+
+// Counter of a customer's redemptions of one coupon, or null for a guest whose email is not known yet
+const getRedemptionCounterName = (couponId: mongoose.Types.ObjectId, customer: CouponCustomer): string | null => {
+    const owner = 'user' in customer
+        ? `user:${customer.user}`
+        : customer.guestEmail ? `guest:${customer.guestEmail.trim().toLowerCase()}` : null;
+
+    return owner && `coupon-redemptions:${couponId}:${owner}`;
+};
+
+/**
+ * Checks a coupon code against a customer's cart and works out its discount
+ * @param code - Code entered by the shopper
+ * @param customer - Customer redeeming the coupon
+ * @param lines - Priced cart lines
+ * @returns The discount the coupon gives on these lines
+ * @throws CouponError when the coupon does not exist or cannot be used on this cart
+ */
+export const evaluateCoupon = async (
+    code: string,
+    customer: CouponCustomer,
+    lines: CouponLine[]
+): Promise<CouponDiscount> => {
+    const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) }).lean<CouponRecord>();
+    const now = new Date();
+
+    if (!coupon || !coupon.active) {
+        throw new CouponError('This coupon code is not valid');
+    }
+    if (coupon.startsAt && coupon.startsAt > now) {
+        throw new CouponError('This coupon is not active yet');
+    }
+    if (coupon.expiresAt && coupon.expiresAt <= now) {
+        throw new CouponError('This coupon has expired');
+    }
+    if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+        throw new CouponError('This coupon has reached its usage limit');
+    }
+
+    const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+    if (subtotal < coupon.minimumSpend) {
+        throw new CouponError(`Spend at least $${coupon.minimumSpend.toFixed(2)} to use this coupon`);
+    }
+
+    if (coupon.usageLimitPerCustomer) {
+        const redemptions = await countCustomerRedemptions(coupon._id, customer);
+        if (redemptions >= coupon.usageLimitPerCustomer) {
+            throw new CouponError('You have already used this coupon the maximum number of times');
+        }
+    }
+
+    const eligibleLines = await getEligibleLines(coupon, lines);
+    if (eligibleLines.length === 0) {
+        throw new CouponError('This coupon does not apply to any items in your cart');
+    }
+
+    const freeShipping = coupon.type === 'free_shipping';
+    const amount = calculateCouponDiscount(coupon, eligibleLines);
+
+    if (!freeShipping && amount <= 0) {
+        throw new CouponError(
+            coupon.type === 'buy_x_get_y'
+                ? `Add ${(coupon.buyQuantity || 0) + (coupon.getQuantity || 0)} eligible items to use this coupon`
+                : 'This coupon does not apply to any items in your cart'
+        );
+    }
+
+    return {
+        coupon: coupon._id,
+        code: coupon.code,
+        type: coupon.type,
+        description: coupon.description,
+        amount,
+        freeShipping,
+    };
+};
+
+/**
+ * Counts a coupon redemption against its limits while an order is being placed.
+ * The global limit and the customer's own counter are both claimed with conditional increments,
+ * so concurrent orders cannot overshoot either of them.
+ * @param discount - Discount being applied to the order
+ * @param customer - Customer placing the order
+ * @param session - Active transaction session
+ * @throws CouponError when a limit was reached since the coupon was applied
+ */
+export const redeemCoupon = async (
+    discount: CouponDiscount,
+    customer: CouponCustomer,
+    session: mongoose.ClientSession
+): Promise<void> => {
+    const coupon = await Coupon.findOneAndUpdate(
+        {
+            _id: discount.coupon,
+            active: true,
+            $or: [{ usageLimit: null }, { $expr: { $lt: ['$usageCount', '$usageLimit'] } }],
+        },
+        { $inc: { usageCount: 1 } },
+        { new: true, session }
+    ).lean<CouponRecord>();
+
+    if (!coupon) {
+        throw new CouponError('This coupon is no longer available');
+    }
+
+    const counterName = getRedemptionCounterName(coupon._id, customer);
+    if (!coupon.usageLimitPerCustomer || !counterName) {
+        return;
+    }
+
+    // Redemptions made before the counter existed are counted once, when it is first created
+    await Counter.updateOne(
+        { _id: counterName },
+        { $setOnInsert: { seq: await countCustomerRedemptions(coupon._id, customer, session) } },
+        { upsert: true, session }
+    );
+
+    const claimed = await Counter.findOneAndUpdate(
+        { _id: counterName, seq: { $lt: coupon.usageLimitPerCustomer } },
+        { $inc: { seq: 1 } },
+        { new: true, session }
+    );
+
+    if (!claimed) {
+        throw new CouponError('You have already used this coupon the maximum number of times');
+    }
+};
+
+/**
+ * Gives back the coupon redemptions of an order that will not go ahead, at most once per order.
+ * @param orderId - Cancelled, failed or deleted order
+ * @param session - Active transaction session
+ * @returns true when redemptions were released, false when there was nothing to release
+ */
+export const releaseOrderCoupons = async (
+    orderId: mongoose.Types.ObjectId | string,
+    session: mongoose.ClientSession
+): Promise<boolean> => {
+    const order = await Order.findOneAndUpdate(
+        { _id: orderId, 'discounts.0': { $exists: true }, couponReleased: { $ne: true } },
+        { $set: { couponReleased: true } },
+        { session }
+    );
+
+    if (!order) {
+        return false;
+    }
+
+    const customer: CouponCustomer = order.user ? { user: order.user } : { guestEmail: order.guestEmail };
+
+    for (const line of order.discounts as Array<{ coupon?: mongoose.Types.ObjectId }>) {
+        if (!line.coupon) continue;
+
+        await Coupon.updateOne(
+            { _id: line.coupon, usageCount: { $gt: 0 } },
+            { $inc: { usageCount: -1 } },
+            { session }
+        );
+
+        const counterName = getRedemptionCounterName(line.coupon, customer);
+        if (counterName) {
+            await Counter.updateOne(
+                { _id: counterName, seq: { $gt: 0 } },
+                { $inc: { seq: -1 } },
+                { session }
+            );
+        }
+    }
+
+    return true;
+};
+
+interface CartCouponSource {
+    couponCode?: string | null;
+    items: Array<{
+        product: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId };
+        quantity: number;
+        price: number;
+        totalPrice: number;
+    }>;
+}
+
+/**
+ * Re-checks the coupon saved on a cart against what is in the cart now
+ * @param cart - Cart with its coupon code and items
+ * @param customer - Cart owner
+ * @returns The discount, or null with the reason when the coupon no longer applies
+ */
+export const evaluateCartCoupon = async (
+    cart: CartCouponSource,
+    customer: CouponCustomer
+): Promise<{ discount: CouponDiscount | null; error?: string }> => {
+    if (!cart.couponCode) {
+        return { discount: null };
+    }
+
+    const lines: CouponLine[] = cart.items.map((item) => ({
+        product: '_id' in item.product ? item.product._id : item.product,
+        quantity: item.quantity,
+        price: item.price,
+        totalPrice: item.totalPrice,
+    }));
+
+    try {
+        return { discount: await evaluateCoupon(cart.couponCode, customer, lines) };
+    } catch (error) {
+        if (error instanceof CouponError) {
+            return { discount: null, error: error.message };
+        }
+        throw error;
+    }
+};
+
+/**
+ * Shape of an applied coupon sent to the storefront
+ * @param discount - Evaluated discount
+ * @returns Coupon summary without internal ids
+ */
+export const toAppliedCoupon = (discount: CouponDiscount): AppliedCoupon => ({
+    code: discount.code,
+    type: discount.type,
+    description: discount.description,
+    amount: discount.amount,
+    freeShipping: discount.freeShipping,
+});
+
+/**
+ * Picks the admin-editable coupon fields from a request body
+ * Empty values become undefined so optional limits and dates can be cleared.
+ * @param data - Sanitized request body
+ * @returns Fields to set on the coupon
+ */
+export const pickCouponFields = (data: Record<string, unknown>): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+
+    COUPON_EDITABLE_FIELDS.forEach((field) => {
+        if (!(field in data)) return;
+
+        const value = data[field];
+
+        // Validator.sanitizeInput turns arrays into index-keyed objects
+        if ((field === 'products' || field === 'categories') && value && typeof value === 'object') {
+            fields[field] = Object.values(value);
+            return;
+        }
+
+        fields[field] = value === '' || value === null ? undefined : value;
+    });
+
+    return fields;
+};
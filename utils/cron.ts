@@ -1,7 +1,9 @@
 import mongoose from 'mongoose';
 import cron from 'node-cron';
 import connectToDatabase from './db';
+import { processEmailOutbox } from './mail/outbox';
 import { determineProductStatus } from './productStatus';
+import { purgeExpiredSessions } from './sessions';
 
 // Schedule product status updates
 export const scheduleProductStatusUpdates = () => {
@@ -45,7 +47,41 @@ export const scheduleProductStatusUpdates = () => {
   console.log('Product status update cron job scheduled');
 };
 
+// Schedule email outbox runs, which send queued emails and retry failed ones
+export const scheduleEmailOutbox = () => {
+  // Run every minute
+  cron.schedule('* * * * *', async () => {
+    try {
+      const result = await processEmailOutbox();
+      if (result.sent || result.retrying || result.failed) {
+        console.log(`Email outbox: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error('Error processing email outbox:', error);
+    }
+  });
+
+  console.log('Email outbox cron job scheduled');
+};
+
+// Schedule removal of sessions that have run out
+export const scheduleSessionCleanup = () => {
+  // Run every day at 3am
+  cron.schedule('0 3 * * *', async () => {
+    try {
+      const deletedCount = await purgeExpiredSessions();
+      console.log(`Session cleanup: ${deletedCount} expired sessions removed`);
+    } catch (error) {
+      console.error('Error removing expired sessions:', error);
+    }
+  });
+
+  console.log('Session cleanup cron job scheduled');
+};
+
 // Initialize cron jobs
 export const initCronJobs = () => {
   scheduleProductStatusUpdates();
+  scheduleEmailOutbox();
+  scheduleSessionCleanup();
 }; 
\ No newline at end of file
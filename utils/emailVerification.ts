@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import Settings, { DEFAULT_VERIFICATION_SETTINGS, VerificationSettingsValue } from '../app/api/models/Settings';
+import User from '../app/api/models/User';
+import { User as UserType } from '../app/types/user';
+import { ApiResponseHelper } from './apiResponse';
+import { claimGuestOrders } from './guest';
+import { logBusiness, logBusinessError } from './logger';
+import { flushEmailOutbox, queueEmail } from './mail/outbox';
+import { getEmailStore, getEmailTemplate, getEmailTheme } from './mail/templateSettings';
+import { renderEmailVerificationEmail } from './mail/templates';
+
+export const VERIFICATION_SETTINGS_NAME = 'verification';
+
+const MAX_TOKEN_EXPIRES_HOURS = 24 * 14;
+const MAX_RESEND_COOLDOWN_MINUTES = 24 * 60;
+
+// What an unverified account is stopped from doing, worded for the error message
+const VERIFIED_ACTIONS = {
+    order: 'placing an order',
+    review: 'posting a review',
+};
+
+// Raised when a verification link or resend cannot be honoured; the message is safe to show the user
+export class EmailVerificationError extends Error {
+    constructor(message: string, public status = 400, public retryAfter?: number) {
+        super(message);
+        this.name = 'EmailVerificationError';
+    }
+}
+
+/**
+ * Validate the verification policy submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateVerificationSettings = (value: Partial<VerificationSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (typeof value.requireVerifiedEmail !== 'boolean') {
+        errors.requireVerifiedEmail = 'Choose whether a verified email is required';
+    }
+    const expires = Number(value.tokenExpiresHours);
+    if (!Number.isInteger(expires) || expires < 1 || expires > MAX_TOKEN_EXPIRES_HOURS) {
+        errors.tokenExpiresHours = `Links must expire after 1 to ${MAX_TOKEN_EXPIRES_HOURS} hours`;
+    }
+    const cooldown = Number(value.resendCooldownMinutes);
+    if (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > MAX_RESEND_COOLDOWN_MINUTES) {
+        errors.resendCooldownMinutes = `Cooldown must be a whole number between 0 and ${MAX_RESEND_COOLDOWN_MINUTES} minutes`;
+    }
+
+    return errors;
+};
+
+/**
+ * Load the verification policy, falling back to the defaults
+ * @returns Verification settings
+ */
+export const getVerificationSettings = async (): Promise<VerificationSettingsValue> => {
+    const settings = await Settings.findOne({ name: VERIFICATION_SETTINGS_NAME }).lean<{ value?: Partial<VerificationSettingsValue> }>();
+    return { ...DEFAULT_VERIFICATION_SETTINGS, ...settings?.value };
+};
+
+// Only the hash is stored, so a leaked database cannot be used to verify addresses
+const hashVerificationToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Issue a new verification link for an account and queue the email with it; earlier links stop working
+ * @param userId - Account to verify
+ */
+export const sendVerificationEmail = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+    const [user, settings] = await Promise.all([User.findById(userId), getVerificationSettings()]);
+    if (!user || user.verified) {
+        return;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    user.verificationToken = hashVerificationToken(token);
+    user.verificationExpire = new Date(Date.now() + settings.tokenExpiresHours * 60 * 60 * 1000);
+    user.verificationSentAt = new Date();
+    await user.save({ validateBeforeSave: false });
+
+    const [store, template, theme] = await Promise.all([
+        getEmailStore(),
+        getEmailTemplate('email_verification'),
+        getEmailTheme(),
+    ]);
+
+    const rendered = renderEmailVerificationEmail(
+        {
+            user,
+            verifyUrl: `${store.url}/verify-email?token=${token}`,
+            expiresInHours: settings.tokenExpiresHours,
+            store,
+        },
+        template,
+        theme
+    );
+
+    await queueEmail({ to: user.email, ...rendered }, { template: 'email_verification' });
+    flushEmailOutbox();
+
+    logBusiness('Verification email queued', 'Auth', { userId: user._id.toString() });
+};
+
+/**
+ * Send the verification email of a new account. Never throws: the account stands, and the
+ * customer can ask for another email.
+ * @param userId - Account that just signed up
+ */
+export const sendWelcomeVerification = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+    try {
+        await sendVerificationEmail(userId);
+    } catch (error) {
+        logBusinessError('Verification email could not be queued', error as Error, 'Auth', {
+            userId: userId.toString(),
+        });
+    }
+};
+
+/**
+ * Send another verification email, unless one went out within the cooldown
+ * @param userId - Signed-in account asking for the email
+ * @throws EmailVerificationError when the account is already verified or the cooldown has not passed
+ */
+export const resendVerificationEmail = async (userId: mongoose.Types.ObjectId | string): Promise<void> => {
+    const [user, settings] = await Promise.all([
+        User.findById(userId).select('verified verificationSentAt'),
+        getVerificationSettings(),
+    ]);
+
+    if (!user) {
+        throw new EmailVerificationError('User not found', 404);
+    }
+    if (user.verified) {
+        throw new EmailVerificationError('Your email address is already verified');
+    }
+
+    const nextAllowedAt = user.verificationSentAt
+        ? user.verificationSentAt.getTime() + settings.resendCooldownMinutes * 60 * 1000
+        : 0;
+    if (nextAllowedAt > Date.now()) {
+        const retryAfter = Math.ceil((nextAllowedAt - Date.now()) / 1000);
+        throw new EmailVerificationError(
+            `A verification email was sent recently. Please wait ${retryAfter} seconds before asking for another.`,
+            429,
+            retryAfter
+        );
+    }
+
+    await sendVerificationEmail(user._id);
+};
+
+/**
+ * Mark the account behind a verification link as verified and give it the guest orders placed with its address;
+ * the link is used up by this
+ * @param token - Token from the verification link
+ * @throws EmailVerificationError when the token is unknown, used or expired
+ */
+export const verifyEmail = async (token: string): Promise<void> => {
+    const user = await User.findOneAndUpdate(
+        {
+            verificationToken: hashVerificationToken(token),
+            verificationExpire: { $gt: new Date() },
+        },
+        {
+            $set: { verified: true },
+            $unset: { verificationToken: 1, verificationExpire: 1 },
+        },
+        { new: true }
+    );
+
+    if (!user) {
+        throw new EmailVerificationError('This verification link is invalid or has expired');
+    }
+
+    // Orders placed as a guest with this address belong to the account now that it has proven it owns it
+    const claimedOrders = await claimGuestOrders(user);
+
+    logBusiness('Email verified', 'Auth', { userId: user._id.toString(), claimedOrders });
+};
+
+/**
+ * Stop an unverified account from an action the verification policy reserves for verified ones
+ * @param user - Signed-in user
+ * @param action - What the user is trying to do
+ * @returns A 403 response when the user must verify first, otherwise null
+ */
+export const requireVerifiedEmail = async (
+    user: UserType,
+    action: keyof typeof VERIFIED_ACTIONS
+): Promise<NextResponse | null> => {
+    if (user.verified) {
+        return null;
+    }
+
+    const settings = await getVerificationSettings();
+    if (!settings.requireVerifiedEmail) {
+        return null;
+    }
+
+    return NextResponse.json(
+        ApiResponseHelper.error(`Please verify your email address before ${VERIFIED_ACTIONS[action]}`, {
+            email: 'not_verified',
+        }),
+        { status: 403 }
+    );
+};
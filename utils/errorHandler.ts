@@ -343,6 +343,23 @@ export class ErrorHandler {
     }
 }
 
+// Header the client services send their request id in, so server records match client logs
+export const REQUEST_ID_HEADER = 'X-Request-ID';
+
+/**
+ * Generate a unique request ID for tracking
+ */
+export const generateRequestId = (): string =>
+    `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Read the request ID a client sent, or start a new one when it sent none or an unusable one
+ */
+export const getRequestId = (headers: Headers): string => {
+    const requestId = headers.get(REQUEST_ID_HEADER);
+    return requestId && /^[\w.-]{1,100}$/.test(requestId) ? requestId : generateRequestId();
+};
+
 // Convenience functions for common error scenarios
 export const throwNotFound = (resource: string, identifier?: string, requestId?: string): never => {
     throw new NotFoundError(resource, identifier, requestId);
@@ -0,0 +1,180 @@
+import crypto from 'crypto';
+import { jwtVerify, SignJWT } from 'jose';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import Cart, { GUEST_CART_TTL_SECONDS } from '../app/api/models/Cart';
+import Order from '../app/api/models/Order';
+import { CartItem } from '../app/types/cart';
+import { User } from '../app/types/user';
+import { CouponCustomer } from './coupons';
+
+export const GUEST_COOKIE_NAME = 'guest_token';
+
+// Whoever is behind a cart or checkout request: a signed-in user, or a guest known by their anonymous cookie
+export interface Shopper {
+    user: User | null;
+    guestId: string | null;
+}
+
+// Filter selecting a shopper's cart
+export type CartOwner = { user: mongoose.Types.ObjectId | string } | { guestId: string };
+
+const getSecretKey = () => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET environment variable is not set');
+    }
+    return new TextEncoder().encode(secret);
+};
+
+/**
+ * Reads the guest id from the signed anonymous cookie
+ * @param req - Incoming request
+ * @returns The guest id, or null when the cookie is missing, expired or tampered with
+ */
+export const readGuestId = async (req: NextRequest): Promise<string | null> => {
+    const token = req.cookies.get(GUEST_COOKIE_NAME)?.value;
+    if (!token) {
+        return null;
+    }
+
+    try {
+        const { payload } = await jwtVerify(token, getSecretKey());
+        return payload.type === 'guest' && typeof payload.guestId === 'string' ? payload.guestId : null;
+    } catch {
+        return null;
+    }
+};
+
+// New anonymous guest identity
+export const createGuestId = (): string => crypto.randomUUID();
+
+/**
+ * Sets the signed anonymous cookie for a guest
+ * @param response - Response to set the cookie on
+ * @param guestId - Guest the cookie identifies
+ * @returns The response
+ */
+export const setGuestCookie = async (response: NextResponse, guestId: string): Promise<NextResponse> => {
+    const token = await new SignJWT({ guestId, type: 'guest' })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime(`${GUEST_CART_TTL_SECONDS}s`)
+        .sign(getSecretKey());
+
+    response.cookies.set({
+        name: GUEST_COOKIE_NAME,
+        value: token,
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: GUEST_CART_TTL_SECONDS,
+        path: '/',
+    });
+    return response;
+};
+
+/**
+ * Removes the anonymous cookie once the guest has signed in
+ * @param response - Response to clear the cookie on
+ * @returns The response
+ */
+export const clearGuestCookie = (response: NextResponse): NextResponse => {
+    response.cookies.delete(GUEST_COOKIE_NAME);
+    return response;
+};
+
+/**
+ * Builds the filter for a shopper's cart
+ * @param shopper - Signed-in user or guest
+ * @returns The filter, or null for a guest who has no cookie yet and so no cart
+ */
+export const getCartOwner = (shopper: Shopper): CartOwner | null => {
+    if (shopper.user) {
+        return { user: shopper.user._id };
+    }
+    return shopper.guestId ? { guestId: shopper.guestId } : null;
+};
+
+/**
+ * Identifies a shopper for coupon limits; a guest's email is only known when they place the order
+ * @param shopper - Signed-in user or guest
+ * @param guestEmail - Email on the guest's order, when there is one
+ * @returns The coupon customer
+ */
+export const getCouponCustomer = (shopper: Shopper, guestEmail?: string): CouponCustomer => {
+    return shopper.user ? { user: shopper.user._id } : { guestEmail };
+};
+
+/**
+ * Checks whether an order was placed by a shopper
+ * @param order - Order with its user and, for guest orders, the guest id selected
+ * @param shopper - Signed-in user or guest
+ * @returns true when the order belongs to the shopper
+ */
+export const isShopperOrder = (
+    order: { user?: { _id: mongoose.Types.ObjectId } | null; guestId?: string | null },
+    shopper: Shopper
+): boolean => {
+    if (shopper.user) {
+        return !!order.user && order.user._id.toString() === shopper.user._id.toString();
+    }
+    return !!shopper.guestId && order.guestId === shopper.guestId;
+};
+
+/**
+ * Moves a guest cart to a user who has just signed in or registered, merging it into any cart they already have
+ * @param guestId - Guest whose cart is claimed
+ * @param userId - User taking over the cart
+ */
+export const claimGuestCart = async (guestId: string, userId: mongoose.Types.ObjectId | string): Promise<void> => {
+    const guestCart = await Cart.findOne({ guestId });
+    if (!guestCart) {
+        return;
+    }
+
+    const userCart = await Cart.findOne({ user: userId });
+
+    if (!userCart) {
+        guestCart.user = userId;
+        guestCart.guestId = undefined;
+        await guestCart.save();
+        return;
+    }
+
+    guestCart.items.forEach((item: CartItem) => {
+        const existing = userCart.items.find((line: CartItem) => line.cartItemKey === item.cartItemKey);
+
+        if (existing) {
+            existing.quantity += item.quantity;
+            existing.price = item.price;
+            existing.totalPrice = item.price * existing.quantity;
+        } else {
+            userCart.items.push(item);
+        }
+    });
+    userCart.couponCode = userCart.couponCode || guestCart.couponCode;
+
+    await userCart.save();
+    await guestCart.deleteOne();
+};
+
+/**
+ * Attaches the guest orders placed with an email address to the account registered with it.
+ * Only an account that has proven it owns the address can claim them; unverified accounts claim nothing.
+ * @param user - Account with its email address and verification state
+ * @returns Number of orders claimed
+ */
+export const claimGuestOrders = async (
+    user: { _id: mongoose.Types.ObjectId | string; email: string; verified?: boolean }
+): Promise<number> => {
+    if (user.verified !== true) {
+        return 0;
+    }
+
+    const result = await Order.updateMany(
+        { user: null, guestEmail: user.email.trim().toLowerCase() },
+        { $set: { user: user._id } }
+    );
+    return result.modifiedCount;
+};
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import IdempotencyKey from '../app/api/models/IdempotencyKey';
+import connectToDatabase from './db';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+// Serialize with sorted keys so the same payload always hashes the same way
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as Record<string, unknown>)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+const hashRequestBody = (body: unknown): string => {
+    return crypto.createHash('sha256').update(stableStringify(body)).digest('hex');
+};
+
+/**
+ * Run a write handler at most once per Idempotency-Key header.
+ * Repeats of a completed request replay the stored response, repeats that arrive while the first
+ * is still running get a 409, and reusing a key with a different body is rejected with a 422.
+ * Requests without the header run normally.
+ * A server error releases the key for a retry, so handlers must only answer with one when nothing was committed.
+ * @param req - Incoming request carrying the optional Idempotency-Key header
+ * @param owner - User or guest the key belongs to; keys are never shared between shoppers
+ * @param scope - Operation name, so one key cannot be replayed against another endpoint
+ * @param body - Parsed request body the key is bound to
+ * @param handler - The actual write
+ * @returns The handler's response, or the stored response for a repeated request
+ */
+export const withIdempotency = async (
+    req: NextRequest,
+    owner: { user: mongoose.Types.ObjectId | string } | { guestId: string },
+    scope: string,
+    body: unknown,
+    handler: () => Promise<NextResponse>
+): Promise<NextResponse> => {
+    const key = req.headers.get(IDEMPOTENCY_HEADER)?.trim();
+
+    if (!key) {
+        return handler();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+        return NextResponse.json(
+            { message: `${IDEMPOTENCY_HEADER} cannot exceed ${MAX_KEY_LENGTH} characters` },
+            { status: 400 }
+        );
+    }
+
+    await connectToDatabase();
+
+    const requestHash = hashRequestBody(body);
+    const filter = { ...owner, scope, key };
+
+    try {
+        await IdempotencyKey.create({ ...filter, requestHash });
+    } catch (error) {
+        if (!(error instanceof Error && 'code' in error && (error as Error & { code: number }).code === 11000)) {
+            throw error;
+        }
+
+        const existing = await IdempotencyKey.findOne(filter);
+
+        if (!existing) {
+            // The earlier attempt failed and released its key in the meantime
+            return withIdempotency(req, owner, scope, body, handler);
+        }
+
+        if (existing.requestHash !== requestHash) {
+            return NextResponse.json(
+                { message: `${IDEMPOTENCY_HEADER} has already been used for a different request` },
+                { status: 422 }
+            );
+        }
+
+        if (existing.status !== 'completed') {
+            return NextResponse.json(
+                { message: 'A request with this idempotency key is still being processed' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json(existing.responseBody, {
+            status: existing.responseStatus,
+            headers: { [IDEMPOTENCY_REPLAYED_HEADER]: 'true' },
+        });
+    }
+
+    let response: NextResponse;
+
+    try {
+        response = await handler();
+    } catch (error) {
+        await IdempotencyKey.deleteOne(filter);
+        throw error;
+    }
+
+    // Server errors are not remembered so the client can safely retry with the same key
+    if (response.status >= 500) {
+        await IdempotencyKey.deleteOne(filter);
+        return response;
+    }
+
+    const responseBody = await response.clone().json().catch(() => null);
+
+    await IdempotencyKey.updateOne(filter, {
+        $set: { status: 'completed', responseStatus: response.status, responseBody },
+    });
+
+    return response;
+};
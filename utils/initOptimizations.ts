@@ -125,9 +125,17 @@ export const maintenanceUtils = {
     },
 
     // Clean expired sessions
-    async cleanExpiredSessions(): Promise<void> {
-        // Implementation would depend on session storage mechanism
-        console.log('🧹 Cleaned expired sessions');
+    async cleanExpiredSessions(): Promise<number> {
+        try {
+            const { purgeExpiredSessions } = await import('./sessions');
+            const deletedCount = await purgeExpiredSessions();
+
+            console.log(`🧹 Cleaned ${deletedCount} expired sessions`);
+            return deletedCount;
+        } catch (error) {
+            console.error('Error cleaning expired sessions:', error);
+            return 0;
+        }
     },
 
     // Analyze query performance
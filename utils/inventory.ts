@@ -0,0 +1,261 @@
+import mongoose from 'mongoose';
+import Order from '../app/api/models/Order';
+import Product from '../app/api/models/Product';
+import { ProductVariant } from '../app/types/product';
+import { generateCartItemKey } from './cartUtils';
+import { determineProductStatus } from './productStatus';
+import { findProductVariant, formatVariantOptions, getAvailableStock } from './productVariants';
+
+export interface StockLine {
+    product: mongoose.Types.ObjectId | string;
+    name?: string;
+    quantity: number;
+    // Options of the variant, for products sold in variants
+    color?: string;
+    size?: string;
+}
+
+interface OrderStockItem {
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+    color?: string;
+    size?: string;
+    restockedQuantity?: number;
+}
+
+export interface StockShortage {
+    product: string;
+    name?: string;
+    requested: number;
+    available: number;
+    message: string;
+}
+
+// Raised when one or more order lines cannot be covered by current stock
+export class InsufficientStockError extends Error {
+    public readonly shortages: StockShortage[];
+
+    constructor(shortages: StockShortage[]) {
+        super(shortages.length === 1 ? shortages[0].message : 'Some items in your order are out of stock');
+        this.name = 'InsufficientStockError';
+        this.shortages = shortages;
+    }
+}
+
+// Aggregate quantities per product variant so repeated lines are reserved together
+const groupByVariant = (lines: StockLine[]): StockLine[] => {
+    const grouped = new Map<string, StockLine>();
+
+    for (const line of lines) {
+        const key = generateCartItemKey(line.product.toString(), line);
+        const existing = grouped.get(key);
+
+        if (existing) {
+            existing.quantity += line.quantity;
+        } else {
+            grouped.set(key, { ...line });
+        }
+    }
+
+    return Array.from(grouped.values());
+};
+
+// Recompute a product's status after its quantity changed outside of save()
+export const syncProductStatus = async (
+    product: { _id: mongoose.Types.ObjectId; quantity: number; active: boolean; status: string },
+    session?: mongoose.ClientSession
+) => {
+    const status = determineProductStatus(product.quantity, product.active);
+
+    if (product.status !== status) {
+        await Product.updateOne({ _id: product._id }, { $set: { status } }, { session });
+    }
+
+    return status;
+};
+
+/**
+ * Atomically takes stock for every line, failing if any product or variant would go below zero.
+ * Products sold in variants take stock from the chosen variant and their shared quantity together.
+ * Must run inside a transaction so a partial reservation is rolled back by the caller.
+ * @param lines - Products, variants and quantities to reserve
+ * @param session - Active transaction session
+ * @throws InsufficientStockError listing every line that could not be covered
+ */
+export const reserveStock = async (lines: StockLine[], session: mongoose.ClientSession): Promise<void> => {
+    const shortages: StockShortage[] = [];
+
+    for (const line of groupByVariant(lines)) {
+        const current = await Product.findById(line.product).select('name quantity variants').session(session);
+        const variant = findProductVariant<ProductVariant>(current?.variants, line);
+
+        // A product sold in variants can only be reserved through one of them
+        const updated = await Product.findOneAndUpdate(
+            variant
+                ? { _id: line.product, active: true, variants: { $elemMatch: { _id: variant._id, stock: { $gte: line.quantity } } } }
+                : { _id: line.product, active: true, quantity: { $gte: line.quantity }, 'variants.0': { $exists: false } },
+            { $inc: { quantity: -line.quantity, sold: line.quantity, ...(variant && { 'variants.$.stock': -line.quantity }) } },
+            { new: true, session }
+        );
+
+        if (!updated) {
+            const available = current ? Math.max(0, getAvailableStock(current, line)) : 0;
+            const options = formatVariantOptions(line);
+            const productName = current?.name || line.name || 'This product';
+            const name = options ? `${productName} (${options})` : productName;
+
+            shortages.push({
+                product: line.product.toString(),
+                name,
+                requested: line.quantity,
+                available,
+                message: available > 0
+                    ? `Insufficient stock for ${name}: only ${available} left`
+                    : `Insufficient stock for ${name}: out of stock`,
+            });
+            continue;
+        }
+
+        await syncProductStatus(updated, session);
+    }
+
+    if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+    }
+};
+
+/**
+ * Returns previously reserved stock to the catalogue and rolls back the sold counters.
+ * @param lines - Products, variants and quantities to put back
+ * @param session - Active transaction session
+ */
+export const restoreStock = async (lines: StockLine[], session: mongoose.ClientSession): Promise<void> => {
+    for (const line of groupByVariant(lines)) {
+        if (line.quantity <= 0) continue;
+
+        const updated = await Product.findOneAndUpdate(
+            { _id: line.product },
+            [
+                {
+                    $set: {
+                        quantity: { $add: ['$quantity', line.quantity] },
+                        sold: { $max: [0, { $subtract: [{ $ifNull: ['$sold', 0] }, line.quantity] }] },
+                    },
+                },
+            ],
+            { new: true, session }
+        );
+
+        // The product may have been deleted since the order was placed
+        if (updated) {
+            // The variant may also have been removed; its units then only count towards the shared quantity
+            const variant = findProductVariant<ProductVariant>(updated.variants, line);
+            if (variant) {
+                await Product.updateOne(
+                    { _id: line.product, 'variants._id': variant._id },
+                    { $inc: { 'variants.$.stock': line.quantity } },
+                    { session }
+                );
+            }
+            await syncProductStatus(updated, session);
+        }
+    }
+};
+
+/**
+ * Restores the stock still held by an order, at most once per order.
+ * The order's `stockRestored` flag is claimed atomically so concurrent or repeated
+ * cancellations cannot put the same units back twice.
+ * @param orderId - Order whose items should be returned to stock
+ * @param session - Active transaction session
+ * @returns true when stock was restored, false when it had already been restored
+ */
+export const restoreOrderStock = async (
+    orderId: mongoose.Types.ObjectId | string,
+    session: mongoose.ClientSession
+): Promise<boolean> => {
+    const order = await Order.findOneAndUpdate(
+        { _id: orderId, stockRestored: { $ne: true } },
+        { $set: { stockRestored: true, stockRestoredAt: new Date() } },
+        { session }
+    );
+
+    if (!order) {
+        return false;
+    }
+
+    const items: OrderStockItem[] = order.items;
+
+    // Only the units not already returned (e.g. through a processed return) go back
+    await restoreStock(
+        items.map((item) => ({
+            product: item.product,
+            name: item.name,
+            quantity: item.quantity - (item.restockedQuantity || 0),
+            color: item.color,
+            size: item.size,
+        })),
+        session
+    );
+
+    const restocked: Record<string, number> = {};
+    items.forEach((item, idx) => {
+        restocked[`items.${idx}.restockedQuantity`] = item.quantity;
+    });
+    await Order.updateOne({ _id: orderId }, { $set: restocked }, { session });
+
+    return true;
+};
+
+/**
+ * Puts returned units of individual order lines back into stock.
+ * Each line is capped by what the order still holds, so units already restored by a
+ * cancellation or an earlier return are never restocked twice.
+ * @param orderId - Order the units were sold on
+ * @param lines - Order line positions, products and quantities received back
+ * @param session - Active transaction session
+ * @returns Lines that were actually restocked
+ */
+export const restockOrderLines = async (
+    orderId: mongoose.Types.ObjectId | string,
+    lines: Array<StockLine & { orderItemIndex: number }>,
+    session: mongoose.ClientSession
+): Promise<StockLine[]> => {
+    const restocked: StockLine[] = [];
+    const order = await Order.findById(orderId).select('items.color items.size').session(session);
+    const items: Array<Pick<OrderStockItem, 'color' | 'size'>> = order?.items || [];
+
+    for (const line of lines) {
+        const path = `items.${line.orderItemIndex}`;
+        // Read the fields off the line itself: `$items.restockedQuantity` skips lines that lack the field
+        // (orders placed before it existed), so indexing it would read another line's count
+        const orderLine = { $arrayElemAt: ['$items', line.orderItemIndex] };
+        const result = await Order.updateOne(
+            {
+                _id: orderId,
+                $expr: {
+                    $lte: [
+                        { $add: [{ $ifNull: [{ $getField: { field: 'restockedQuantity', input: orderLine } }, 0] }, line.quantity] },
+                        { $getField: { field: 'quantity', input: orderLine } },
+                    ],
+                },
+            },
+            { $inc: { [`${path}.restockedQuantity`]: line.quantity } },
+            { session }
+        );
+
+        // Units go back to the variant the line was sold as
+        if (result.modifiedCount > 0) {
+            restocked.push({
+                ...line,
+                color: items[line.orderItemIndex]?.color,
+                size: items[line.orderItemIndex]?.size,
+            });
+        }
+    }
+
+    await restoreStock(restocked, session);
+
+    return restocked;
+};
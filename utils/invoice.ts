@@ -0,0 +1,121 @@
+import mongoose from 'mongoose';
+import { nextSequence } from '../app/api/models/Counter';
+import Order from '../app/api/models/Order';
+import Settings, { DEFAULT_INVOICE_SETTINGS, InvoiceSettingsValue } from '../app/api/models/Settings';
+
+export const INVOICE_SETTINGS_NAME = 'invoice';
+
+// Invoice numbers run on one sequence that never resets, unlike order numbers
+const INVOICE_COUNTER_NAME = 'invoice-number';
+
+const MIN_PADDING = 3;
+const MAX_PADDING = 10;
+
+const TEXT_FIELD_LIMITS: Partial<Record<keyof InvoiceSettingsValue, number>> = {
+    sellerName: 100,
+    address: 200,
+    city: 100,
+    state: 100,
+    postalCode: 20,
+    country: 100,
+    email: 254,
+    phone: 30,
+    taxId: 50,
+    footerNote: 300,
+};
+
+/**
+ * Validate invoice settings submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateInvoiceSettings = (value: Partial<InvoiceSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    for (const [field, limit] of Object.entries(TEXT_FIELD_LIMITS)) {
+        const text = value[field as keyof InvoiceSettingsValue];
+        if (typeof text !== 'string' || text.length > (limit as number)) {
+            errors[field] = `Must be text of up to ${limit} characters`;
+        }
+    }
+    if (!errors.sellerName && !value.sellerName?.trim()) {
+        errors.sellerName = 'Seller name is required';
+    }
+    if (!errors.email && value.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.email)) {
+        errors.email = 'Please enter a valid email address';
+    }
+    if (typeof value.prefix !== 'string' || !/^[A-Z0-9]{0,10}$/.test(value.prefix)) {
+        errors.prefix = 'Prefix must be up to 10 uppercase letters or digits';
+    }
+    const padding = Number(value.padding);
+    if (!Number.isInteger(padding) || padding < MIN_PADDING || padding > MAX_PADDING) {
+        errors.padding = `Padding must be a whole number between ${MIN_PADDING} and ${MAX_PADDING}`;
+    }
+
+    return errors;
+};
+
+/**
+ * Load the configured seller details and invoice number format, falling back to the defaults
+ * @returns Invoice settings
+ */
+export const getInvoiceSettings = async (): Promise<InvoiceSettingsValue> => {
+    const settings = await Settings.findOne({ name: INVOICE_SETTINGS_NAME }).lean<{ value?: Partial<InvoiceSettingsValue> }>();
+    return { ...DEFAULT_INVOICE_SETTINGS, ...settings?.value };
+};
+
+/**
+ * Build an invoice number such as INV-000042
+ * @param settings - Prefix and padding
+ * @param sequence - Sequence value
+ * @returns Invoice number
+ */
+export const formatInvoiceNumber = (settings: Pick<InvoiceSettingsValue, 'prefix' | 'padding'>, sequence: number): string => {
+    return [settings.prefix, sequence.toString().padStart(settings.padding, '0')].filter(Boolean).join('-');
+};
+
+/**
+ * Give a paid order its invoice number the first time it is invoiced; later calls return the same number.
+ * The order is claimed and the sequence advanced in one transaction, so concurrent requests issue one number
+ * between them and a request that loses the race uses up no sequence value.
+ * @param orderId - Order being invoiced
+ * @returns The invoice number and the date it was issued
+ * @throws Error when the order has no invoice number and is not paid
+ */
+export const ensureInvoiceNumber = async (
+    orderId: mongoose.Types.ObjectId | string
+): Promise<{ invoiceNumber: string; invoicedAt: Date }> => {
+    const existing = await Order.findById(orderId).select('invoiceNumber invoicedAt').lean<{ invoiceNumber?: string; invoicedAt?: Date }>();
+    if (existing?.invoiceNumber && existing.invoicedAt) {
+        return { invoiceNumber: existing.invoiceNumber, invoicedAt: existing.invoicedAt };
+    }
+
+    const settings = await getInvoiceSettings();
+    const session = await mongoose.startSession();
+
+    try {
+        // Write conflicts with a concurrent request are retried; the retry then finds the order already claimed
+        await session.withTransaction(async () => {
+            const claimed = await Order.updateOne(
+                { _id: orderId, isPaid: true, invoiceNumber: { $exists: false } },
+                { $set: { invoicedAt: new Date() } },
+                { session }
+            );
+            if (claimed.modifiedCount === 0) {
+                return;
+            }
+
+            const invoiceNumber = formatInvoiceNumber(settings, await nextSequence(INVOICE_COUNTER_NAME, session));
+            await Order.updateOne({ _id: orderId }, { $set: { invoiceNumber } }, { session });
+        });
+    } finally {
+        session.endSession();
+    }
+
+    // Whichever request claimed the order, its number stands
+    const invoiced = await Order.findById(orderId).select('invoiceNumber invoicedAt').lean<{ invoiceNumber?: string; invoicedAt: Date }>();
+    if (!invoiced?.invoiceNumber) {
+        throw new Error('Only paid orders can be invoiced');
+    }
+    return { invoiceNumber: invoiced.invoiceNumber, invoicedAt: invoiced.invoicedAt };
+};
@@ -0,0 +1,85 @@
+import mongoose from 'mongoose';
+import { NextRequest } from 'next/server';
+import LoginEvent, { LOGIN_FAILURE_REASONS, LOGIN_OUTCOMES } from '../app/api/models/LoginEvent';
+import { logBusinessError } from './logger';
+import { describeUserAgent, getRequestDetails } from './sessions';
+
+export type LoginOutcome = typeof LOGIN_OUTCOMES[number];
+export type LoginFailureReason = typeof LOGIN_FAILURE_REASONS[number];
+
+// How many sign-in attempts the account security views show
+export const LOGIN_HISTORY_LIMIT = 20;
+
+export interface LoginAttempt {
+    email: string;
+    outcome: LoginOutcome;
+    user?: mongoose.Types.ObjectId | string;
+    reason?: LoginFailureReason;
+    sessionId?: string;
+}
+
+// A sign-in attempt, as shown to the account owner and to admins
+export interface LoginHistoryEntry {
+    _id: string;
+    outcome: LoginOutcome;
+    reason?: LoginFailureReason;
+    device: string;
+    ip?: string;
+    createdAt: Date;
+}
+
+/**
+ * Record a sign-in attempt. Never throws: failing to record it must not fail the sign-in.
+ * @param req - Sign-in request, for the device details
+ * @param attempt - Who tried to sign in and how it went
+ */
+export const recordLoginEvent = async (req: NextRequest, attempt: LoginAttempt): Promise<void> => {
+    try {
+        await LoginEvent.create({
+            user: attempt.user,
+            email: attempt.email,
+            outcome: attempt.outcome,
+            reason: attempt.reason,
+            session: attempt.sessionId,
+            ...getRequestDetails(req),
+        });
+    } catch (error) {
+        logBusinessError('Login event could not be recorded', error as Error, 'Auth', {
+            email: attempt.email,
+            outcome: attempt.outcome,
+        });
+    }
+};
+
+/**
+ * Load the latest sign-in attempts on an account
+ * @param userId - Account owner
+ * @param limit - Most attempts to return
+ * @returns Attempts, newest first
+ */
+export const getLoginHistory = async (
+    userId: mongoose.Types.ObjectId | string,
+    limit: number = LOGIN_HISTORY_LIMIT
+): Promise<LoginHistoryEntry[]> => {
+    const events = await LoginEvent.find({ user: userId })
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .select('outcome reason userAgent ip createdAt')
+        .lean<{
+            _id: mongoose.Types.ObjectId;
+            outcome: LoginOutcome;
+            reason?: LoginFailureReason;
+            userAgent?: string;
+            ip?: string;
+            createdAt: Date;
+        }[]>();
+
+    return events.map((event) => ({
+        _id: event._id.toString(),
+        outcome: event.outcome,
+        reason: event.reason,
+        device: describeUserAgent(event.userAgent),
+        ip: event.ip,
+        createdAt: event.createdAt,
+    }));
+};
@@ -0,0 +1,43 @@
+import { fileMailTransport, smtpMailTransport } from './transports';
+import { MailConfigurationError, MailMessage, MailResult, MailTransport } from './types';
+
+export * from './types';
+export { getMailCredentials } from './transports';
+
+const transports = new Map<string, MailTransport>([
+    [smtpMailTransport.name, smtpMailTransport],
+    [fileMailTransport.name, fileMailTransport],
+]);
+
+/**
+ * Make a mail transport available to the mail service
+ * @param transport - Transport implementation
+ */
+export const registerMailTransport = (transport: MailTransport): void => {
+    transports.set(transport.name, transport);
+};
+
+/**
+ * Look up a mail transport
+ * @param name - Transport name, defaults to the MAIL_TRANSPORT environment variable or SMTP
+ * @returns The transport, or null when none is registered under that name
+ */
+export const getMailTransport = (name?: string): MailTransport | null => {
+    return transports.get(name || process.env.MAIL_TRANSPORT || smtpMailTransport.name) || null;
+};
+
+/**
+ * Send a message straight away through the configured transport
+ * @param message - Message to send
+ * @returns The transport's message id
+ * @throws MailConfigurationError when no transport is registered under MAIL_TRANSPORT
+ */
+export const sendMail = async (message: MailMessage): Promise<MailResult & { transport: string }> => {
+    const transport = getMailTransport();
+    if (!transport) {
+        throw new MailConfigurationError(`Unknown mail transport: ${process.env.MAIL_TRANSPORT}`);
+    }
+
+    const result = await transport.send({ ...message, from: message.from || process.env.MAIL_FROM });
+    return { ...result, transport: transport.name };
+};
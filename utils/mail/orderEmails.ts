@@ -0,0 +1,106 @@
+import mongoose from 'mongoose';
+import Order from '../../app/api/models/Order';
+import Shipment from '../../app/api/models/Shipment';
+import { OrderStatus } from '../../app/types/orders';
+import { logBusinessError } from '../logger';
+import { flushEmailOutbox, queueEmail } from './outbox';
+import { getEmailStore, getEmailTemplate, getEmailTheme } from './templateSettings';
+import {
+    EmailOrder,
+    EmailShipment,
+    getOrderEmailTemplateKey,
+    OrderEmailContext,
+    OrderEmailEvent,
+    renderOrderEmail,
+} from './templates';
+
+export interface OrderEmailOptions {
+    // Package an order_shipped email is about; without it the email covers the whole order
+    shipmentId?: mongoose.Types.ObjectId | string;
+    refundAmount?: number;
+}
+
+// Status changes the customer is emailed about; shipments send their own order_shipped emails per package
+export const ORDER_STATUS_EMAIL_EVENTS: Partial<Record<OrderStatus, OrderEmailEvent>> = {
+    shipped: 'shipped',
+    delivered: 'delivered',
+    cancelled: 'cancelled',
+    refunded: 'refunded',
+};
+
+/**
+ * Gather what an order email is rendered from
+ * @param orderId - Order the email is about
+ * @param options - Shipment and refund the email reports
+ * @returns The render context, or null when the order or its email address is missing
+ */
+export const buildOrderEmailContext = async (
+    orderId: mongoose.Types.ObjectId | string,
+    options: OrderEmailOptions = {}
+): Promise<OrderEmailContext | null> => {
+    const order = await Order.findById(orderId).populate('user', 'firstName lastName email');
+    const email = order?.user?.email || order?.guestEmail;
+
+    if (!order || !email) {
+        return null;
+    }
+
+    const [store, shipment] = await Promise.all([
+        getEmailStore(),
+        options.shipmentId ? Shipment.findOne({ _id: options.shipmentId, order: order._id }).lean<EmailShipment>() : null,
+    ]);
+
+    return {
+        order: order.toObject() as EmailOrder,
+        user: order.user,
+        email,
+        storeName: store.name,
+        storeUrl: store.url,
+        // Guests have no account to open the order from, so they are sent to the order lookup
+        orderUrl: order.user ? `${store.url}/orders/${order._id}` : `${store.url}/orders/lookup`,
+        shipment: shipment || undefined,
+        refundAmount: options.refundAmount,
+    };
+};
+
+/**
+ * Queue the customer email for an order lifecycle event and start sending it.
+ * Never throws: a notification that cannot be queued is logged, and the caller's change stands.
+ * @param orderId - Order the event happened to
+ * @param event - Lifecycle event
+ * @param options - Shipment and refund the email reports
+ */
+export const notifyOrder = async (
+    orderId: mongoose.Types.ObjectId | string,
+    event: OrderEmailEvent,
+    options: OrderEmailOptions = {}
+): Promise<void> => {
+    try {
+        const context = await buildOrderEmailContext(orderId, options);
+        if (!context) {
+            return;
+        }
+
+        const templateKey = getOrderEmailTemplateKey(event);
+        const [template, theme] = await Promise.all([getEmailTemplate(templateKey), getEmailTheme()]);
+
+        const rendered = renderOrderEmail(event, context, template, theme);
+        const queued = await queueEmail(
+            { to: context.email, ...rendered },
+            {
+                template: templateKey,
+                order: orderId,
+                dedupeKey: ['order', orderId.toString(), event, options.shipmentId?.toString()].filter(Boolean).join(':'),
+            }
+        );
+
+        if (queued) {
+            flushEmailOutbox();
+        }
+    } catch (error) {
+        logBusinessError('Order email could not be queued', error as Error, 'Mail', {
+            orderId: orderId.toString(),
+            event,
+        });
+    }
+};
@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import EmailOutbox from '../../app/api/models/EmailOutbox';
+import connectToDatabase from '../db';
+import { logBusiness, logBusinessError } from '../logger';
+import { sendMail } from './index';
+import { MailMessage } from './types';
+
+// Wait before each retry, by attempts made so far; the last delay repeats
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+// How long a claimed email is left alone before another worker may retry it
+const SEND_LOCK_MS = 5 * 60 * 1000;
+
+export interface QueueEmailOptions {
+    // Template the email was rendered from, e.g. order_shipped
+    template: string;
+    order?: mongoose.Types.ObjectId | string;
+    // Event the email is about; an email with the same key is only queued once
+    dedupeKey?: string;
+}
+
+export interface OutboxRunResult {
+    sent: number;
+    retrying: number;
+    failed: number;
+}
+
+const isDuplicateKeyError = (error: unknown) =>
+    typeof error === 'object' && error !== null && (error as { code?: number }).code === 11000;
+
+/**
+ * Queue an email for sending; it goes out on the next outbox run
+ * @param message - Rendered message
+ * @param options - Template name, related order and deduplication key
+ * @returns The outbox entry, or null when an email with the same key was already queued
+ */
+export const queueEmail = async (message: MailMessage, options: QueueEmailOptions) => {
+    try {
+        return await EmailOutbox.create({ ...message, ...options });
+    } catch (error) {
+        if (isDuplicateKeyError(error)) {
+            return null;
+        }
+        throw error;
+    }
+};
+
+const sendNext = async (): Promise<keyof OutboxRunResult | null> => {
+    const now = new Date();
+
+    // Claim the oldest due email; pushing nextAttemptAt forward keeps other workers off it while it sends
+    const email = await EmailOutbox.findOneAndUpdate(
+        { status: { $in: ['pending', 'sending'] }, nextAttemptAt: { $lte: now } },
+        {
+            $set: { status: 'sending', nextAttemptAt: new Date(now.getTime() + SEND_LOCK_MS) },
+            $inc: { attempts: 1 },
+        },
+        { sort: { nextAttemptAt: 1 }, new: true }
+    );
+
+    if (!email) {
+        return null;
+    }
+
+    try {
+        const result = await sendMail({
+            to: email.to,
+            subject: email.subject,
+            html: email.html,
+            text: email.text,
+            replyTo: email.replyTo,
+        });
+
+        await EmailOutbox.updateOne(
+            { _id: email._id },
+            {
+                $set: { status: 'sent', sentAt: new Date(), messageId: result.messageId, transport: result.transport },
+                $unset: { lastError: '' },
+            }
+        );
+
+        logBusiness('Email sent', 'Mail', { emailId: email._id.toString(), template: email.template });
+        return 'sent';
+    } catch (error) {
+        const failed = email.attempts >= email.maxAttempts;
+        const delay = RETRY_DELAYS_MINUTES[Math.min(email.attempts, RETRY_DELAYS_MINUTES.length) - 1];
+
+        await EmailOutbox.updateOne(
+            { _id: email._id },
+            {
+                $set: {
+                    status: failed ? 'failed' : 'pending',
+                    nextAttemptAt: new Date(Date.now() + delay * 60 * 1000),
+                    lastError: error instanceof Error ? error.message : String(error),
+                },
+            }
+        );
+
+        logBusinessError('Email send failed', error as Error, 'Mail', {
+            emailId: email._id.toString(),
+            template: email.template,
+            attempts: email.attempts,
+            willRetry: !failed,
+        });
+        return failed ? 'failed' : 'retrying';
+    }
+};
+
+let running: Promise<OutboxRunResult> | null = null;
+
+/**
+ * Send the emails that are due, one at a time.
+ * Runs in this process never overlap; a call made during a run waits for it instead.
+ * @param limit - Most emails to send in this run
+ * @returns How many emails were sent, scheduled for a retry and given up on
+ */
+export const processEmailOutbox = (limit = 50): Promise<OutboxRunResult> => {
+    if (running) {
+        return running;
+    }
+
+    running = (async () => {
+        const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 };
+
+        try {
+            await connectToDatabase();
+
+            for (let count = 0; count < limit; count++) {
+                const outcome = await sendNext();
+                if (!outcome) break;
+                result[outcome]++;
+            }
+        } finally {
+            running = null;
+        }
+
+        return result;
+    })();
+
+    return running;
+};
+
+/**
+ * Kick off an outbox run without waiting for it; emails it misses are picked up by the cron job
+ */
+export const flushEmailOutbox = (): void => {
+    processEmailOutbox().catch((error) => {
+        logBusinessError('Email outbox run failed', error as Error, 'Mail');
+    });
+};
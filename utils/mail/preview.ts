@@ -0,0 +1,149 @@
+import mongoose from 'mongoose';
+import Order from '../../app/api/models/Order';
+import Shipment from '../../app/api/models/Shipment';
+import { getVerificationSettings } from '../emailVerification';
+import { getInvoiceSettings } from '../invoice';
+import { PASSWORD_RESET_EXPIRES_MINUTES } from '../passwordReset';
+import { buildOrderEmailContext } from './orderEmails';
+import { getEmailStore, getEmailTheme, validateEmailTemplates } from './templateSettings';
+import {
+    EmailRecipient,
+    EmailTemplate,
+    EmailTemplateKey,
+    isEmailTemplateKey,
+    OrderEmailEvent,
+    RenderedEmail,
+    renderContactAutoReply,
+    renderEmailVerificationEmail,
+    renderOrderEmail,
+    renderPasswordResetEmail,
+} from './templates';
+import { getMailCredentials } from './transports';
+
+// Raised when a preview cannot be rendered; the message is safe to show the admin
+export class EmailPreviewError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'EmailPreviewError';
+    }
+}
+
+export interface EmailPreview extends RenderedEmail {
+    // Order the preview was rendered against, for order templates
+    order?: { _id: string; orderNumber: string };
+}
+
+/**
+ * Render a template as the customer would receive it: order templates against a real order,
+ * the others against sample values addressed to the admin
+ * @param key - Template key
+ * @param template - Wording to render, possibly unsaved
+ * @param admin - Admin asking for the preview
+ * @param orderId - Order to render order templates against, defaults to the most recent one
+ * @returns The rendered email
+ * @throws EmailPreviewError when there is no order to render against
+ */
+export const renderEmailPreview = async (
+    key: EmailTemplateKey,
+    template: EmailTemplate,
+    admin: EmailRecipient,
+    orderId?: string
+): Promise<EmailPreview> => {
+    const [store, theme] = await Promise.all([getEmailStore(), getEmailTheme()]);
+
+    if (key === 'email_verification') {
+        const { tokenExpiresHours } = await getVerificationSettings();
+        return renderEmailVerificationEmail(
+            { user: admin, verifyUrl: `${store.url}/verify-email?token=preview`, expiresInHours: tokenExpiresHours, store },
+            template,
+            theme
+        );
+    }
+
+    if (key === 'password_reset') {
+        return renderPasswordResetEmail(
+            { user: admin, resetUrl: `${store.url}/reset-password?token=preview`, expiresInMinutes: PASSWORD_RESET_EXPIRES_MINUTES, store },
+            template,
+            theme
+        );
+    }
+
+    if (key === 'contact_auto_reply') {
+        const [credentials, seller] = await Promise.all([getMailCredentials(), getInvoiceSettings()]);
+        return renderContactAutoReply(
+            {
+                name: [admin.firstName, admin.lastName].filter(Boolean).join(' ') || 'Customer',
+                email: admin.email || '',
+                subject: 'Question about my order',
+                message: 'Hello,\nI would like to know when my order will arrive.\nThank you!',
+            },
+            { ...store, email: credentials?.user || seller.email },
+            template,
+            theme
+        );
+    }
+
+    if (orderId && !mongoose.Types.ObjectId.isValid(orderId)) {
+        throw new EmailPreviewError('Invalid order ID format');
+    }
+
+    const order = orderId
+        ? await Order.findById(orderId).select('_id')
+        : await Order.findOne().sort({ createdAt: -1 }).select('_id');
+
+    if (!order) {
+        throw new EmailPreviewError(orderId ? 'Order not found' : 'There are no orders to preview this email with yet', 404);
+    }
+
+    // Shipping emails show the order's latest package when it has one
+    const shipment = key === 'order_shipped'
+        ? await Shipment.findOne({ order: order._id }).sort({ packageNumber: -1 }).select('_id')
+        : null;
+
+    const context = await buildOrderEmailContext(order._id, { shipmentId: shipment?._id });
+    if (!context) {
+        throw new EmailPreviewError('This order has no email address to preview with');
+    }
+
+    const event = key.replace(/^order_/, '') as OrderEmailEvent;
+
+    return {
+        ...renderOrderEmail(event, context, template, theme),
+        order: { _id: order._id.toString(), orderNumber: context.order.orderNumber },
+    };
+};
+
+export interface EmailPreviewRequest {
+    key: EmailTemplateKey;
+    // Unsaved wording to render; the saved template when left out
+    template?: EmailTemplate;
+    orderId?: string;
+}
+
+/**
+ * Read and validate a preview or test send request
+ * @param body - Untrusted request body
+ * @returns The request, or field errors
+ */
+export const parseEmailPreviewRequest = (
+    body: Record<string, unknown>
+): { request: EmailPreviewRequest; errors?: undefined } | { request?: undefined; errors: Record<string, string> } => {
+    if (!isEmailTemplateKey(body.key)) {
+        return { errors: { key: 'Choose an email template' } };
+    }
+
+    if (body.template !== undefined) {
+        const errors = validateEmailTemplates({ templates: { [body.key]: body.template as EmailTemplate } });
+        if (Object.keys(errors).length > 0) {
+            return { errors };
+        }
+    }
+
+    return {
+        request: {
+            key: body.key,
+            template: body.template as EmailTemplate | undefined,
+            orderId: typeof body.orderId === 'string' && body.orderId.trim() ? body.orderId.trim() : undefined,
+        },
+    };
+};
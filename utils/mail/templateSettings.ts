@@ -0,0 +1,99 @@
+import Settings, { EmailTemplatesSettingsValue, WebsiteThemeSettings } from '../../app/api/models/Settings';
+import { getInvoiceSettings } from '../invoice';
+import {
+    DEFAULT_EMAIL_TEMPLATES,
+    EMAIL_TEMPLATE_KEYS,
+    EmailTemplate,
+    EmailTemplateKey,
+    EmailTheme,
+    isEmailTemplateKey,
+    toEmailTheme,
+} from './templates';
+
+export const EMAIL_TEMPLATES_SETTINGS_NAME = 'email-templates';
+
+const TEMPLATE_FIELD_LIMITS: Record<keyof EmailTemplate, number> = {
+    subject: 200,
+    heading: 200,
+    body: 5000,
+};
+
+/**
+ * Validate email templates submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateEmailTemplates = (value: Partial<EmailTemplatesSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (!value.templates || typeof value.templates !== 'object' || Array.isArray(value.templates)) {
+        errors.templates = 'Templates are required';
+        return errors;
+    }
+
+    Object.entries(value.templates).forEach(([key, template]) => {
+        if (!isEmailTemplateKey(key)) {
+            errors[`templates.${key}`] = 'Unknown email template';
+            return;
+        }
+
+        (Object.keys(TEMPLATE_FIELD_LIMITS) as (keyof EmailTemplate)[]).forEach((field) => {
+            const text = template?.[field];
+            if (typeof text !== 'string' || !text.trim()) {
+                errors[`templates.${key}.${field}`] = `The ${field} is required`;
+            } else if (text.length > TEMPLATE_FIELD_LIMITS[field]) {
+                errors[`templates.${key}.${field}`] = `The ${field} cannot exceed ${TEMPLATE_FIELD_LIMITS[field]} characters`;
+            }
+        });
+    });
+
+    return errors;
+};
+
+/**
+ * Load every email template, using the built-in wording for those never edited
+ * @returns Templates by key
+ */
+export const getEmailTemplates = async (): Promise<Record<EmailTemplateKey, EmailTemplate>> => {
+    const settings = await Settings.findOne({ name: EMAIL_TEMPLATES_SETTINGS_NAME }).lean<{ value?: Partial<EmailTemplatesSettingsValue> }>();
+    const stored = settings?.value?.templates || {};
+
+    return Object.fromEntries(
+        EMAIL_TEMPLATE_KEYS.map((key) => [key, { ...DEFAULT_EMAIL_TEMPLATES[key], ...stored[key] }])
+    ) as Record<EmailTemplateKey, EmailTemplate>;
+};
+
+/**
+ * Load one email template
+ * @param key - Template key
+ * @returns The edited template, or the built-in one
+ */
+export const getEmailTemplate = async (key: EmailTemplateKey): Promise<EmailTemplate> => {
+    const templates = await getEmailTemplates();
+    return templates[key];
+};
+
+/**
+ * Colours for emails, taken from the website theme
+ * @returns Email theme
+ */
+export const getEmailTheme = async (): Promise<EmailTheme> => {
+    const settings = await Settings.findOne({ name: 'website-theme' }).lean<{ value?: Partial<WebsiteThemeSettings> }>();
+    return toEmailTheme(settings?.value);
+};
+
+/**
+ * Public address of the shop, used for links in emails
+ * @returns Base URL without a trailing slash
+ */
+export const getAppUrl = (): string =>
+    (process.env.NEXTAUTH_URL || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+/**
+ * Store name and address shown in emails
+ * @returns Store name, from the seller details, and URL
+ */
+export const getEmailStore = async (): Promise<{ name: string; url: string }> => {
+    const seller = await getInvoiceSettings();
+    return { name: seller.sellerName, url: getAppUrl() };
+};
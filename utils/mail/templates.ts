@@ -0,0 +1,577 @@
+import type { EmailTemplateValue, WebsiteThemeSettings } from '../../app/api/models/Settings';
+import { PrintableOrder } from '../orderDocuments';
+import { PAYMENT_CURRENCY } from '../payments';
+
+export type OrderEmailEvent = 'placed' | 'paid' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+
+export const ORDER_EMAIL_EVENTS: readonly OrderEmailEvent[] = [
+    'placed',
+    'paid',
+    'shipped',
+    'delivered',
+    'cancelled',
+    'refunded',
+];
+
+export type EmailTemplateKey = `order_${OrderEmailEvent}` | 'email_verification' | 'password_reset' | 'contact_auto_reply';
+
+export const EMAIL_TEMPLATE_KEYS: readonly EmailTemplateKey[] = [
+    ...ORDER_EMAIL_EVENTS.map((event) => `order_${event}` as const),
+    'email_verification',
+    'password_reset',
+    'contact_auto_reply',
+];
+
+export type EmailTemplate = EmailTemplateValue;
+
+export interface EmailTemplateDefinition {
+    label: string;
+    description: string;
+    // Placeholder paths the template can use, e.g. order.orderNumber
+    variables: string[];
+}
+
+const USER_VARIABLES = ['user.firstName', 'user.lastName', 'user.email'];
+const STORE_VARIABLES = ['store.name', 'store.url'];
+const ORDER_VARIABLES = [
+    ...USER_VARIABLES,
+    'order.orderNumber',
+    'order.date',
+    'order.itemCount',
+    'order.total',
+    'order.url',
+    ...STORE_VARIABLES,
+];
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<EmailTemplateKey, EmailTemplateDefinition> = {
+    order_placed: {
+        label: 'Order confirmation',
+        description: 'Sent when an order is placed',
+        variables: ORDER_VARIABLES,
+    },
+    order_paid: {
+        label: 'Payment received',
+        description: 'Sent when an order is paid',
+        variables: ORDER_VARIABLES,
+    },
+    order_shipped: {
+        label: 'Shipping confirmation',
+        description: 'Sent for each package that leaves the warehouse, or when an order is marked shipped',
+        variables: [
+            ...ORDER_VARIABLES,
+            'shipment.label',
+            'shipment.packageNumber',
+            'shipment.carrierName',
+            'shipment.trackingNumber',
+            'shipment.trackingUrl',
+        ],
+    },
+    order_delivered: {
+        label: 'Delivery confirmation',
+        description: 'Sent when every package of an order has arrived',
+        variables: ORDER_VARIABLES,
+    },
+    order_cancelled: {
+        label: 'Order cancelled',
+        description: 'Sent when an order is cancelled',
+        variables: ORDER_VARIABLES,
+    },
+    order_refunded: {
+        label: 'Refund issued',
+        description: 'Sent when an order is refunded',
+        variables: [...ORDER_VARIABLES, 'refund.amount'],
+    },
+    email_verification: {
+        label: 'Email verification',
+        description: 'Sent when a customer signs up, or asks for a new verification link',
+        variables: [...USER_VARIABLES, 'verify.url', 'verify.expiresInHours', ...STORE_VARIABLES],
+    },
+    password_reset: {
+        label: 'Password reset',
+        description: 'Sent when a customer asks to reset their password',
+        variables: [...USER_VARIABLES, 'reset.url', 'reset.expiresInMinutes', ...STORE_VARIABLES],
+    },
+    contact_auto_reply: {
+        label: 'Contact form auto-reply',
+        description: 'Sent to visitors who write in through the contact form',
+        variables: ['contact.name', 'contact.email', 'contact.subject', 'contact.message', ...STORE_VARIABLES, 'store.email'],
+    },
+};
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplate> = {
+    order_placed: {
+        subject: 'We received your order {{order.orderNumber}}',
+        heading: 'Thank you for your order!',
+        body: 'Hi {{user.firstName}},\n\nWe have received your order {{order.orderNumber}} and will let you know as soon as it ships.',
+    },
+    order_paid: {
+        subject: 'Payment received for order {{order.orderNumber}}',
+        heading: 'Payment received',
+        body: 'Hi {{user.firstName}},\n\nWe have received your payment of {{order.total}} for order {{order.orderNumber}}. We are now preparing it for shipping.',
+    },
+    order_shipped: {
+        subject: 'Your order {{order.orderNumber}} is on its way',
+        heading: 'Your order has shipped',
+        body: 'Hi {{user.firstName}},\n\nGood news: {{shipment.label}} of order {{order.orderNumber}} has left our warehouse.',
+    },
+    order_delivered: {
+        subject: 'Your order {{order.orderNumber}} has been delivered',
+        heading: 'Delivered',
+        body: 'Hi {{user.firstName}},\n\nYour order {{order.orderNumber}} has been delivered. We hope you enjoy it!',
+    },
+    order_cancelled: {
+        subject: 'Your order {{order.orderNumber}} has been cancelled',
+        heading: 'Order cancelled',
+        body: 'Hi {{user.firstName}},\n\nYour order {{order.orderNumber}} has been cancelled. Any payment taken for it will be returned to you.',
+    },
+    order_refunded: {
+        subject: 'Your refund for order {{order.orderNumber}}',
+        heading: 'Refund issued',
+        body: 'Hi {{user.firstName}},\n\nWe have refunded {{refund.amount}} for order {{order.orderNumber}}. It can take a few days to show on your statement.',
+    },
+    email_verification: {
+        subject: 'Confirm your email for {{store.name}}',
+        heading: 'Confirm your email address',
+        body: 'Hi {{user.firstName}},\n\nThanks for signing up! Please confirm that {{user.email}} is your email address so you can place orders and write reviews. The link expires in {{verify.expiresInHours}} hours.\n\nIf you did not create an account, you can ignore this email.',
+    },
+    password_reset: {
+        subject: 'Reset your {{store.name}} password',
+        heading: 'Reset your password',
+        body: 'Hi {{user.firstName}},\n\nWe received a request to reset your password. Use the button below to choose a new one. The link expires in {{reset.expiresInMinutes}} minutes.\n\nIf you did not ask for this, you can ignore this email; your password will not change.',
+    },
+    contact_auto_reply: {
+        subject: "Re: {{contact.subject}} - We've received your message!",
+        heading: 'Thank you for contacting {{store.name}}!',
+        body: "Hi {{contact.name}},\n\nWe've received your message and will get back to you as soon as possible, usually within 24 hours.\n\nYour message:\n{{contact.message}}\n\nIf you have any urgent concerns, please don't hesitate to reach out to us directly at {{store.email}}\n\nBest regards,\nThe {{store.name}} Team",
+    },
+};
+
+/**
+ * The template key an order lifecycle email is rendered from
+ * @param event - Lifecycle event
+ * @returns Template key, e.g. order_shipped
+ */
+export const getOrderEmailTemplateKey = (event: OrderEmailEvent): EmailTemplateKey => `order_${event}`;
+
+export const isEmailTemplateKey = (value: unknown): value is EmailTemplateKey => {
+    return typeof value === 'string' && (EMAIL_TEMPLATE_KEYS as readonly string[]).includes(value);
+};
+
+// Placeholder values, nested the way templates address them: {{order.orderNumber}}
+export interface EmailVariables {
+    [name: string]: string | number | EmailVariables | undefined;
+}
+
+// Site theme colours used by the email layout
+export interface EmailTheme {
+    headerBackgroundColor: string;
+    headerTextColor: string;
+    accentColor: string;
+    buttonColor: string;
+    buttonTextColor: string;
+}
+
+export const DEFAULT_EMAIL_THEME: EmailTheme = {
+    headerBackgroundColor: '#0a0a0f',
+    headerTextColor: '#ffffff',
+    accentColor: '#ec4899',
+    buttonColor: '#ec4899',
+    buttonTextColor: '#ffffff',
+};
+
+/**
+ * Pick the colours the email layout uses from the website theme
+ * @param theme - Website theme settings, possibly incomplete
+ * @returns Email theme, with defaults for anything missing
+ */
+export const toEmailTheme = (theme?: Partial<WebsiteThemeSettings> | null): EmailTheme => ({
+    headerBackgroundColor: theme?.headerBackgroundColor || DEFAULT_EMAIL_THEME.headerBackgroundColor,
+    headerTextColor: theme?.headerTextColor || DEFAULT_EMAIL_THEME.headerTextColor,
+    accentColor: theme?.accentColor || DEFAULT_EMAIL_THEME.accentColor,
+    buttonColor: theme?.buttonPrimaryColor || DEFAULT_EMAIL_THEME.buttonColor,
+    buttonTextColor: theme?.buttonTextColor || DEFAULT_EMAIL_THEME.buttonTextColor,
+});
+
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+// Store-wide parts of every email, around the template's own wording
+export interface EmailLayout {
+    storeName: string;
+    theme: EmailTheme;
+    action?: { label: string; url: string };
+    // Extra blocks after the body, e.g. the items of an order
+    html?: string;
+    text?: string;
+}
+
+const moneyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: PAYMENT_CURRENCY });
+
+const formatMoney = (amount: number): string => moneyFormatter.format(amount || 0);
+
+const escapeHtml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+// Colours come from admin settings and end up in style attributes
+const safeColor = (value: string, fallback: string): string =>
+    /^(#[0-9a-f]{3,8}|rgba?\([\d\s.,%]+\)|[a-z]+)$/i.test(value.trim()) ? value.trim() : fallback;
+
+/**
+ * Fill {{path}} placeholders in a template string; unknown paths are left empty
+ * @param template - Template string
+ * @param variables - Placeholder values
+ * @returns The filled string
+ */
+export const fillTemplate = (template: string, variables: EmailVariables): string =>
+    template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+        const value = path
+            .split('.')
+            .reduce<EmailVariables[string]>(
+                (current, key) => (current && typeof current === 'object' ? current[key] : undefined),
+                variables
+            );
+        return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+    });
+
+/**
+ * Render a template into a full email in the store's layout and colours
+ * @param template - Subject, heading and body to fill
+ * @param variables - Placeholder values
+ * @param layout - Store name, theme colours, call to action and extra blocks
+ * @returns Subject, HTML and plain text bodies
+ */
+export const renderEmail = (template: EmailTemplate, variables: EmailVariables, layout: EmailLayout): RenderedEmail => {
+    const heading = fillTemplate(template.heading, variables);
+    const body = fillTemplate(template.body, variables);
+    const { storeName, action } = layout;
+
+    const theme = {
+        headerBackgroundColor: safeColor(layout.theme.headerBackgroundColor, DEFAULT_EMAIL_THEME.headerBackgroundColor),
+        headerTextColor: safeColor(layout.theme.headerTextColor, DEFAULT_EMAIL_THEME.headerTextColor),
+        accentColor: safeColor(layout.theme.accentColor, DEFAULT_EMAIL_THEME.accentColor),
+        buttonColor: safeColor(layout.theme.buttonColor, DEFAULT_EMAIL_THEME.buttonColor),
+        buttonTextColor: safeColor(layout.theme.buttonTextColor, DEFAULT_EMAIL_THEME.buttonTextColor),
+    };
+
+    const paragraphs = body
+        .split(/\n{2,}/)
+        .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br/>')}</p>`)
+        .join('');
+
+    const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #111827;">
+          <div style="background: ${theme.headerBackgroundColor}; color: ${theme.headerTextColor}; padding: 16px 20px; border-radius: 8px 8px 0 0; font-size: 18px; font-weight: bold;">
+            ${escapeHtml(storeName)}
+          </div>
+          <div style="padding: 0 20px 20px;">
+            <h2 style="color: ${theme.accentColor};">${escapeHtml(heading)}</h2>
+            ${paragraphs}
+            ${layout.html || ''}
+            ${action
+                ? `<p style="margin: 24px 0;">
+              <a href="${escapeHtml(action.url)}" style="background: ${theme.buttonColor}; color: ${theme.buttonTextColor}; padding: 12px 20px; border-radius: 6px; text-decoration: none;">${escapeHtml(action.label)}</a>
+            </p>`
+                : ''}
+            <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 20px 0;" />
+            <p style="color: #6b7280; font-size: 12px;">${escapeHtml(storeName)}</p>
+          </div>
+        </div>
+      `;
+
+    const text = [
+        heading,
+        '',
+        body,
+        ...(layout.text ? ['', layout.text] : []),
+        ...(action ? ['', `${action.label}: ${action.url}`] : []),
+        '',
+        storeName,
+    ].join('\n');
+
+    return { subject: fillTemplate(template.subject, variables), html, text };
+};
+
+export type EmailOrder = Pick<
+    PrintableOrder,
+    'orderNumber' | 'createdAt' | 'items' | 'shipping' | 'itemsPrice' | 'discounts' | 'shippingPrice' | 'taxPrice' | 'totalPrice'
+>;
+
+export interface EmailShipment {
+    packageNumber: number;
+    carrierName?: string;
+    trackingNumber?: string;
+    trackingUrl?: string;
+    items: Array<{ name: string; quantity: number; color?: string; size?: string }>;
+}
+
+export interface EmailRecipient {
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+}
+
+export interface OrderEmailContext {
+    order: EmailOrder;
+    // Account the order belongs to; guests are addressed by their shipping name
+    user?: EmailRecipient | null;
+    email: string;
+    storeName: string;
+    storeUrl: string;
+    // Where the customer can follow the order
+    orderUrl: string;
+    // Package an order_shipped email is about
+    shipment?: EmailShipment;
+    // Amount an order_refunded email reports, defaults to the order total
+    refundAmount?: number;
+}
+
+/**
+ * Values available to {{placeholders}} in an order email
+ * @param context - Order, customer, store and shipment the email is about
+ * @returns Placeholder values
+ */
+export const getOrderEmailVariables = (context: OrderEmailContext): EmailVariables => {
+    const { order, user, shipment } = context;
+    const [shippingFirstName, ...shippingLastName] = (order.shipping?.fullName || '').trim().split(/\s+/);
+
+    return {
+        user: {
+            firstName: user?.firstName || shippingFirstName || 'there',
+            lastName: user?.lastName || shippingLastName.join(' '),
+            email: context.email,
+        },
+        order: {
+            orderNumber: order.orderNumber,
+            date: new Date(order.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+            itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+            total: formatMoney(order.totalPrice),
+            url: context.orderUrl,
+        },
+        shipment: {
+            label: shipment ? `package ${shipment.packageNumber}` : 'your order',
+            packageNumber: shipment?.packageNumber,
+            carrierName: shipment?.carrierName,
+            trackingNumber: shipment?.trackingNumber,
+            trackingUrl: shipment?.trackingUrl,
+        },
+        refund: {
+            amount: formatMoney(context.refundAmount ?? order.totalPrice),
+        },
+        store: {
+            name: context.storeName,
+            url: context.storeUrl,
+        },
+    };
+};
+
+const describeItem = (item: { name: string; color?: string; size?: string }) =>
+    [item.name, [item.color, item.size].filter(Boolean).join(', ')].filter(Boolean).join(' - ');
+
+// Tracking link, items, totals and shipping address shown under an order email's wording
+const renderOrderDetails = ({ order, shipment }: OrderEmailContext, theme: EmailTheme) => {
+    const tracking = shipment?.trackingNumber
+        ? `<div style="background: #f9fafb; padding: 16px; border-radius: 8px; margin: 20px 0;">
+            <p style="margin: 0;"><strong>${escapeHtml(shipment.carrierName || 'Carrier')}</strong> tracking number:
+            ${shipment.trackingUrl
+                ? `<a href="${escapeHtml(shipment.trackingUrl)}" style="color: ${safeColor(theme.accentColor, DEFAULT_EMAIL_THEME.accentColor)};">${escapeHtml(shipment.trackingNumber)}</a>`
+                : escapeHtml(shipment.trackingNumber)}</p>
+        </div>`
+        : '';
+
+    const itemRow = (item: { name: string; quantity: number; color?: string; size?: string }, total?: number) => `<tr>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb;">${escapeHtml(describeItem(item))}</td>
+            <td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; text-align: center;">${item.quantity}</td>
+            ${total === undefined ? '' : `<td style="padding: 8px 0; border-bottom: 1px solid #e5e7eb; text-align: right;">${formatMoney(total)}</td>`}
+        </tr>`;
+    const rows = shipment
+        ? shipment.items.map((item) => itemRow(item)).join('')
+        : order.items.map((item) => itemRow(item, item.totalPrice)).join('');
+
+    const discount = (order.discounts || []).reduce((sum, entry) => sum + entry.amount, 0);
+    const totals = shipment
+        ? ''
+        : `<table style="width: 100%; margin-top: 8px;">
+            <tr><td>Subtotal</td><td style="text-align: right;">${formatMoney(order.itemsPrice)}</td></tr>
+            ${discount ? `<tr><td>Discount</td><td style="text-align: right;">-${formatMoney(discount)}</td></tr>` : ''}
+            <tr><td>Shipping</td><td style="text-align: right;">${formatMoney(order.shippingPrice)}</td></tr>
+            <tr><td>Tax</td><td style="text-align: right;">${formatMoney(order.taxPrice)}</td></tr>
+            <tr><td><strong>Total</strong></td><td style="text-align: right;"><strong>${formatMoney(order.totalPrice)}</strong></td></tr>
+        </table>`;
+
+    const address = order.shipping
+        ? [
+            order.shipping.fullName,
+            order.shipping.address,
+            `${order.shipping.city}, ${order.shipping.state} ${order.shipping.postalCode}`,
+            order.shipping.country,
+        ].map(escapeHtml).join('<br/>')
+        : '';
+
+    const html = `
+          ${tracking}
+          <table style="width: 100%; border-collapse: collapse; margin-top: 20px;">
+            <tr>
+              <th style="text-align: left; padding-bottom: 8px;">Item</th>
+              <th style="text-align: center; padding-bottom: 8px;">Qty</th>
+              ${shipment ? '' : '<th style="text-align: right; padding-bottom: 8px;">Total</th>'}
+            </tr>
+            ${rows}
+          </table>
+          ${totals}
+          ${address ? `<p style="margin-top: 20px;"><strong>Shipping to</strong><br/>${address}</p>` : ''}
+    `;
+
+    const text = [
+        ...(shipment?.trackingNumber
+            ? [`Tracking (${shipment.carrierName || 'carrier'}): ${shipment.trackingUrl || shipment.trackingNumber}`, '']
+            : []),
+        ...(shipment ? shipment.items : order.items).map((item) => `- ${item.quantity} x ${describeItem(item)}`),
+        ...(shipment ? [] : ['', `Total: ${formatMoney(order.totalPrice)}`]),
+    ].join('\n');
+
+    return { html, text };
+};
+
+/**
+ * Render an order lifecycle email
+ * @param event - Lifecycle event the email announces
+ * @param context - Order, customer, store and shipment the email is about
+ * @param template - Wording to use, defaults to the built-in template for the event
+ * @param theme - Colours to use, defaults to the built-in theme
+ * @returns Subject, HTML and plain text bodies
+ */
+export const renderOrderEmail = (
+    event: OrderEmailEvent,
+    context: OrderEmailContext,
+    template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES[getOrderEmailTemplateKey(event)],
+    theme: EmailTheme = DEFAULT_EMAIL_THEME
+): RenderedEmail => {
+    const details = renderOrderDetails(context, theme);
+
+    return renderEmail(template, getOrderEmailVariables(context), {
+        storeName: context.storeName,
+        theme,
+        action: { label: 'View your order', url: context.orderUrl },
+        ...details,
+    });
+};
+
+export interface EmailStore {
+    name: string;
+    url: string;
+    email?: string;
+}
+
+export interface EmailVerificationContext {
+    user: EmailRecipient;
+    verifyUrl: string;
+    expiresInHours: number;
+    store: EmailStore;
+}
+
+/**
+ * Render the email with the link that confirms a customer's email address
+ * @param context - Customer, link and store
+ * @param template - Wording to use, defaults to the built-in template
+ * @param theme - Colours to use, defaults to the built-in theme
+ * @returns Subject, HTML and plain text bodies
+ */
+export const renderEmailVerificationEmail = (
+    context: EmailVerificationContext,
+    template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.email_verification,
+    theme: EmailTheme = DEFAULT_EMAIL_THEME
+): RenderedEmail => {
+    const variables: EmailVariables = {
+        user: {
+            firstName: context.user.firstName || 'there',
+            lastName: context.user.lastName,
+            email: context.user.email,
+        },
+        verify: { url: context.verifyUrl, expiresInHours: context.expiresInHours },
+        store: { name: context.store.name, url: context.store.url },
+    };
+
+    return renderEmail(template, variables, {
+        storeName: context.store.name,
+        theme,
+        action: { label: 'Confirm email', url: context.verifyUrl },
+    });
+};
+
+export interface PasswordResetEmailContext {
+    user: EmailRecipient;
+    resetUrl: string;
+    expiresInMinutes: number;
+    store: EmailStore;
+}
+
+/**
+ * Render the email with a customer's password reset link
+ * @param context - Customer, link and store
+ * @param template - Wording to use, defaults to the built-in template
+ * @param theme - Colours to use, defaults to the built-in theme
+ * @returns Subject, HTML and plain text bodies
+ */
+export const renderPasswordResetEmail = (
+    context: PasswordResetEmailContext,
+    template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.password_reset,
+    theme: EmailTheme = DEFAULT_EMAIL_THEME
+): RenderedEmail => {
+    const variables: EmailVariables = {
+        user: {
+            firstName: context.user.firstName || 'there',
+            lastName: context.user.lastName,
+            email: context.user.email,
+        },
+        reset: { url: context.resetUrl, expiresInMinutes: context.expiresInMinutes },
+        store: { name: context.store.name, url: context.store.url },
+    };
+
+    return renderEmail(template, variables, {
+        storeName: context.store.name,
+        theme,
+        action: { label: 'Reset password', url: context.resetUrl },
+    });
+};
+
+export interface ContactMessage {
+    name: string;
+    email: string;
+    subject: string;
+    message: string;
+}
+
+/**
+ * Render the automatic reply to a contact form message
+ * @param contact - Message the visitor sent
+ * @param store - Store the reply comes from
+ * @param template - Wording to use, defaults to the built-in template
+ * @param theme - Colours to use, defaults to the built-in theme
+ * @returns Subject, HTML and plain text bodies
+ */
+export const renderContactAutoReply = (
+    contact: ContactMessage,
+    store: EmailStore,
+    template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.contact_auto_reply,
+    theme: EmailTheme = DEFAULT_EMAIL_THEME
+): RenderedEmail => {
+    const variables: EmailVariables = {
+        contact: { ...contact },
+        store: { name: store.name, url: store.url, email: store.email },
+    };
+
+    return renderEmail(template, variables, {
+        storeName: store.name,
+        theme,
+        text: 'This is an automated response. Please do not reply directly to this email.',
+        html: '<p style="color: #6b7280; font-size: 12px;">This is an automated response. Please do not reply directly to this email.</p>',
+    });
+};
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import nodemailer from 'nodemailer';
+import path from 'path';
+import Settings from '../../app/api/models/Settings';
+import connectToDatabase from '../db';
+import { MailConfigurationError, MailCredentials, MailMessage, MailTransport } from './types';
+
+/**
+ * Gmail credentials for outgoing mail: the environment first, then the admin homepage settings
+ * @returns Credentials, or null when neither is configured
+ */
+export const getMailCredentials = async (): Promise<MailCredentials | null> => {
+    let user = process.env.GMAIL_USER;
+    let password = process.env.GMAIL_APP_PASSWORD;
+
+    if (!user || !password) {
+        try {
+            await connectToDatabase();
+            const homepageSettings = await Settings.findOne({ name: 'homepage' });
+            const emailConfig = homepageSettings?.value?.emailConfig;
+
+            user = user || emailConfig?.gmailUser;
+            password = password || emailConfig?.gmailAppPassword;
+        } catch (error) {
+            console.error('Error fetching email config from database:', error);
+        }
+    }
+
+    return user && password ? { user, password } : null;
+};
+
+// Sends through Gmail SMTP; credentials are read on every send so admin changes apply straight away
+export const smtpMailTransport: MailTransport = {
+    name: 'smtp',
+
+    async send(message: MailMessage) {
+        const credentials = await getMailCredentials();
+        if (!credentials) {
+            throw new MailConfigurationError('Email service is not configured');
+        }
+
+        const transporter = nodemailer.createTransport({
+            service: 'gmail',
+            auth: {
+                user: credentials.user,
+                pass: credentials.password,
+            },
+        });
+
+        const info = await transporter.sendMail({ ...message, from: message.from || credentials.user });
+        return { messageId: info.messageId };
+    },
+};
+
+/**
+ * Writes each message as a JSON file instead of sending it, for development and offline checks.
+ * Files go to MAIL_OUTPUT_DIR, or .mail in the working directory.
+ */
+export const fileMailTransport: MailTransport = {
+    name: 'file',
+
+    async send(message: MailMessage) {
+        const directory = path.resolve(process.env.MAIL_OUTPUT_DIR || '.mail');
+        const messageId = `<${crypto.randomBytes(12).toString('hex')}@file-transport>`;
+        const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.slice(1, 9)}.json`;
+
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(
+            path.join(directory, fileName),
+            JSON.stringify({ messageId, ...message, from: message.from || 'no-reply@localhost' }, null, 2)
+        );
+
+        return { messageId };
+    },
+};
@@ -0,0 +1,36 @@
+/**
+ * Contracts shared by every mail transport.
+ * Transports only deliver messages; queueing and retries live in outbox.ts.
+ */
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    // Defaults to MAIL_FROM, then to the transport's own sender
+    from?: string;
+    replyTo?: string;
+}
+
+export interface MailResult {
+    messageId: string;
+}
+
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage): Promise<MailResult>;
+}
+
+export interface MailCredentials {
+    user: string;
+    password: string;
+}
+
+// Raised when the selected transport cannot send, e.g. SMTP credentials are missing
+export class MailConfigurationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MailConfigurationError';
+    }
+}
@@ -0,0 +1,418 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { InvoiceSettingsValue } from '../app/api/models/Settings';
+import { PAYMENT_CURRENCY } from './payments';
+
+// The parts of an order printed on its documents
+export interface PrintableOrder {
+    orderNumber: string;
+    createdAt: Date | string;
+    user?: { email?: string } | null;
+    guestEmail?: string;
+    items: Array<{
+        name: string;
+        quantity: number;
+        price: number;
+        totalPrice: number;
+        color?: string;
+        size?: string;
+        taxRate?: number;
+        taxPrice?: number;
+    }>;
+    shipping: {
+        fullName: string;
+        address: string;
+        city: string;
+        state: string;
+        postalCode: string;
+        country: string;
+        phone: string;
+    };
+    payment?: { method: string; status?: string };
+    itemsPrice: number;
+    discounts?: Array<{ code: string; amount: number; freeShipping?: boolean }>;
+    shippingMethod?: { name: string; zoneName?: string } | null;
+    shippingPrice: number;
+    taxPrice: number;
+    shippingTaxPrice?: number;
+    pricesIncludeTax?: boolean;
+    totalPrice: number;
+    refundedAmount?: number;
+    notes?: string;
+}
+
+export interface InvoiceDetails {
+    invoiceNumber: string;
+    invoicedAt: Date;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.42, 0.42, 0.42);
+const RULE_COLOR = rgb(0.8, 0.8, 0.8);
+
+interface Fonts {
+    regular: PDFFont;
+    bold: PDFFont;
+}
+
+interface TableColumn {
+    header: string;
+    width: number;
+    align?: 'left' | 'right';
+}
+
+const moneyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: PAYMENT_CURRENCY });
+
+const formatMoney = (amount: number): string => moneyFormatter.format(amount || 0);
+
+const formatDate = (date: Date | string): string =>
+    new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Variant description of an order line, e.g. "Color: Red, Size: M"
+const describeVariant = (item: PrintableOrder['items'][number]): string =>
+    [item.color && `Color: ${item.color}`, item.size && `Size: ${item.size}`].filter(Boolean).join(', ');
+
+/**
+ * Writes text top to bottom across as many pages as it needs.
+ * The standard PDF fonts only cover Latin-1, so other characters are printed as "?".
+ */
+class DocumentWriter {
+    private page: PDFPage;
+    private y = PAGE_HEIGHT - MARGIN;
+    private readonly charset: Set<number>;
+
+    constructor(private readonly pdf: PDFDocument, readonly fonts: Fonts) {
+        this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        this.charset = new Set(fonts.regular.getCharacterSet());
+    }
+
+    // Starts the next document in the same file on a fresh page
+    newPage() {
+        this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        this.y = PAGE_HEIGHT - MARGIN;
+    }
+
+    // Moves to a new page when fewer than `height` points are left
+    ensureSpace(height: number) {
+        if (this.y - height < MARGIN) {
+            this.newPage();
+        }
+    }
+
+    moveDown(height: number) {
+        this.y -= height;
+    }
+
+    clean(text: string): string {
+        return Array.from(text.replace(/[\r\n\t]+/g, ' '))
+            .map((char) => (this.charset.has(char.codePointAt(0) as number) ? char : '?'))
+            .join('');
+    }
+
+    // Splits text into lines no wider than maxWidth
+    wrap(text: string, maxWidth: number, size: number, font = this.fonts.regular): string[] {
+        const lines: string[] = [];
+        let line = '';
+
+        for (const word of this.clean(text).split(' ')) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+
+        return line ? [...lines, line] : lines;
+    }
+
+    // Draws one line at the current position without advancing
+    drawAt(text: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; align?: 'left' | 'right'; width?: number } = {}) {
+        const { size = 10, bold = false, color = TEXT_COLOR, align = 'left', width = 0 } = options;
+        const font = bold ? this.fonts.bold : this.fonts.regular;
+        const cleaned = this.clean(text);
+        const textX = align === 'right' ? x + width - font.widthOfTextAtSize(cleaned, size) : x;
+
+        this.page.drawText(cleaned, { x: textX, y: this.y - size, size, font, color });
+    }
+
+    // Draws a line of text and advances past it
+    line(text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number } = {}) {
+        const size = options.size ?? 10;
+        this.ensureSpace(size + 4);
+        this.drawAt(text, options.x ?? MARGIN, options);
+        this.moveDown(size + 4);
+    }
+
+    rule() {
+        this.ensureSpace(10);
+        this.moveDown(4);
+        this.page.drawLine({
+            start: { x: MARGIN, y: this.y },
+            end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+            thickness: 0.5,
+            color: RULE_COLOR,
+        });
+        this.moveDown(6);
+    }
+
+    // Prints a table; long cells wrap and rows never split across pages
+    table(columns: TableColumn[], rows: string[][]) {
+        const size = 9;
+        const lineHeight = size + 3;
+        const drawHeader = () => {
+            let x = MARGIN;
+            columns.forEach((column) => {
+                this.drawAt(column.header, x, { size, bold: true, align: column.align, width: column.width - 6 });
+                x += column.width;
+            });
+            this.moveDown(lineHeight);
+            this.rule();
+        };
+
+        this.ensureSpace(lineHeight * 3);
+        drawHeader();
+
+        rows.forEach((row) => {
+            const cells = row.map((cell, index) => this.wrap(cell, columns[index].width - 6, size));
+            const height = Math.max(...cells.map((lines) => lines.length), 1) * lineHeight + 4;
+
+            if (this.y - height < MARGIN) {
+                this.newPage();
+                drawHeader();
+            }
+
+            const top = this.y;
+            let x = MARGIN;
+            cells.forEach((lines, index) => {
+                const column = columns[index];
+                lines.forEach((text, lineIndex) => {
+                    this.y = top - lineIndex * lineHeight;
+                    this.drawAt(text, x, { size, align: column.align, width: column.width - 6 });
+                });
+                x += column.width;
+            });
+            this.y = top - height;
+        });
+
+        this.rule();
+    }
+
+    // Label and amount pairs aligned to the right edge, as in an invoice summary
+    summaryLine(label: string, value: string, bold = false) {
+        this.ensureSpace(14);
+        const labelX = PAGE_WIDTH - MARGIN - 260;
+        this.drawAt(label, labelX, { bold });
+        this.drawAt(value, labelX, { bold, align: 'right', width: 260 });
+        this.moveDown(14);
+    }
+
+    // Text blocks side by side, e.g. seller details next to the document title
+    columns(blocks: Array<{ x: number; lines: Array<{ text: string; bold?: boolean; size?: number; color?: ReturnType<typeof rgb> }> }>) {
+        const top = this.y;
+        let lowest = top;
+
+        blocks.forEach((block) => {
+            this.y = top;
+            block.lines.forEach((line) => {
+                const size = line.size ?? 10;
+                this.drawAt(line.text, block.x, { ...line, size });
+                this.moveDown(size + 4);
+            });
+            lowest = Math.min(lowest, this.y);
+        });
+
+        this.y = lowest;
+    }
+}
+
+const createWriter = async (title: string): Promise<{ pdf: PDFDocument; writer: DocumentWriter }> => {
+    const pdf = await PDFDocument.create();
+    pdf.setTitle(title);
+    pdf.setCreationDate(new Date());
+
+    const fonts = {
+        regular: await pdf.embedFont(StandardFonts.Helvetica),
+        bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    };
+
+    return { pdf, writer: new DocumentWriter(pdf, fonts) };
+};
+
+// Seller name, address and contact details, skipping whatever is not configured
+const sellerLines = (seller: InvoiceSettingsValue) => [
+    { text: seller.sellerName, bold: true, size: 14 },
+    ...[
+        seller.address,
+        [seller.city, seller.state, seller.postalCode].filter(Boolean).join(', '),
+        seller.country,
+        seller.email,
+        seller.phone,
+        seller.taxId && `Tax ID: ${seller.taxId}`,
+    ]
+        .filter(Boolean)
+        .map((text) => ({ text: text as string, color: MUTED_COLOR })),
+];
+
+const addressLines = (order: PrintableOrder, includeEmail: boolean) => [
+    order.shipping.fullName,
+    order.shipping.address,
+    [order.shipping.city, order.shipping.state, order.shipping.postalCode].filter(Boolean).join(', '),
+    order.shipping.country,
+    order.shipping.phone,
+    includeEmail ? order.user?.email || order.guestEmail : undefined,
+].filter(Boolean) as string[];
+
+/**
+ * Renders the invoice for an order
+ * @param order - Order with its items, totals and shipping address
+ * @param invoice - Invoice number and issue date
+ * @param seller - Seller details from the invoice settings
+ * @returns The PDF file
+ */
+export const renderInvoicePdf = async (
+    order: PrintableOrder,
+    invoice: InvoiceDetails,
+    seller: InvoiceSettingsValue
+): Promise<Uint8Array> => {
+    const { pdf, writer } = await createWriter(`Invoice ${invoice.invoiceNumber}`);
+    const rightColumn = MARGIN + CONTENT_WIDTH - 190;
+
+    writer.columns([
+        { x: MARGIN, lines: sellerLines(seller) },
+        {
+            x: rightColumn,
+            lines: [
+                { text: 'INVOICE', bold: true, size: 18 },
+                { text: `Invoice #: ${invoice.invoiceNumber}` },
+                { text: `Invoice date: ${formatDate(invoice.invoicedAt)}` },
+                { text: `Order #: ${order.orderNumber}` },
+                { text: `Order date: ${formatDate(order.createdAt)}` },
+                ...(order.payment
+                    ? [{ text: `Payment: ${order.payment.method} (${order.payment.status || 'pending'})` }]
+                    : []),
+            ],
+        },
+    ]);
+
+    writer.moveDown(16);
+    writer.line('Bill to', { bold: true });
+    addressLines(order, true).forEach((text) => writer.line(text));
+    writer.moveDown(12);
+
+    writer.table(
+        [
+            { header: 'Item', width: CONTENT_WIDTH - 300 },
+            { header: 'Qty', width: 40, align: 'right' },
+            { header: 'Unit price', width: 70, align: 'right' },
+            { header: 'Tax rate', width: 55, align: 'right' },
+            { header: 'Tax', width: 60, align: 'right' },
+            { header: 'Total', width: 75, align: 'right' },
+        ],
+        order.items.map((item) => {
+            const variant = describeVariant(item);
+            return [
+                variant ? `${item.name} (${variant})` : item.name,
+                item.quantity.toString(),
+                formatMoney(item.price),
+                `${Number(((item.taxRate || 0) * 100).toFixed(3))}%`,
+                formatMoney(item.taxPrice || 0),
+                formatMoney(item.totalPrice),
+            ];
+        })
+    );
+
+    writer.summaryLine('Subtotal', formatMoney(order.itemsPrice));
+    order.discounts?.forEach((discount) => {
+        writer.summaryLine(
+            `Coupon ${discount.code}${discount.freeShipping ? ' (free shipping)' : ''}`,
+            `-${formatMoney(discount.amount)}`
+        );
+    });
+    writer.summaryLine(
+        order.shippingMethod ? `Shipping (${order.shippingMethod.name})` : 'Shipping',
+        formatMoney(order.shippingPrice)
+    );
+    writer.summaryLine(
+        `${order.pricesIncludeTax ? 'Tax (included)' : 'Tax'}${order.shippingTaxPrice ? `, shipping ${formatMoney(order.shippingTaxPrice)}` : ''}`,
+        formatMoney(order.taxPrice)
+    );
+    writer.summaryLine('Total', formatMoney(order.totalPrice), true);
+    if (order.refundedAmount) {
+        writer.summaryLine('Refunded', `-${formatMoney(order.refundedAmount)}`);
+        writer.summaryLine('Net', formatMoney(order.totalPrice - order.refundedAmount), true);
+    }
+
+    if (seller.footerNote) {
+        writer.moveDown(24);
+        writer.wrap(seller.footerNote, CONTENT_WIDTH, 9).forEach((text) => writer.line(text, { size: 9, color: MUTED_COLOR }));
+    }
+
+    return pdf.save();
+};
+
+/**
+ * Renders packing slips, one or more pages per order, into a single file for printing
+ * @param orders - Orders to pack
+ * @param seller - Seller details from the invoice settings
+ * @returns The PDF file
+ */
+export const renderPackingSlipsPdf = async (
+    orders: PrintableOrder[],
+    seller: InvoiceSettingsValue
+): Promise<Uint8Array> => {
+    const title = orders.length === 1 ? `Packing slip ${orders[0].orderNumber}` : 'Packing slips';
+    const { pdf, writer } = await createWriter(title);
+    const rightColumn = MARGIN + CONTENT_WIDTH - 190;
+
+    orders.forEach((order, index) => {
+        if (index > 0) {
+            writer.newPage();
+        }
+
+        writer.columns([
+            { x: MARGIN, lines: sellerLines(seller).slice(0, 4) },
+            {
+                x: rightColumn,
+                lines: [
+                    { text: 'PACKING SLIP', bold: true, size: 18 },
+                    { text: `Order #: ${order.orderNumber}` },
+                    { text: `Order date: ${formatDate(order.createdAt)}` },
+                    ...(order.shippingMethod ? [{ text: `Shipping: ${order.shippingMethod.name}` }] : []),
+                ],
+            },
+        ]);
+
+        writer.moveDown(16);
+        writer.line('Ship to', { bold: true });
+        addressLines(order, false).forEach((text) => writer.line(text));
+        writer.moveDown(12);
+
+        writer.table(
+            [
+                { header: 'Item', width: CONTENT_WIDTH - 230 },
+                { header: 'Variant', width: 150 },
+                { header: 'Qty', width: 40, align: 'right' },
+                { header: 'Packed', width: 40, align: 'right' },
+            ],
+            order.items.map((item) => [item.name, describeVariant(item) || '-', item.quantity.toString(), '[   ]'])
+        );
+
+        const units = order.items.reduce((sum, item) => sum + item.quantity, 0);
+        writer.line(`${units} item${units === 1 ? '' : 's'} in total`, { bold: true });
+
+        if (order.notes) {
+            writer.moveDown(8);
+            writer.line('Notes', { bold: true });
+            writer.wrap(order.notes, CONTENT_WIDTH, 10).forEach((text) => writer.line(text));
+        }
+    });
+
+    return pdf.save();
+};
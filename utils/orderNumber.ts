@@ -0,0 +1,99 @@
+import { nextSequence } from '../app/api/models/Counter';
+import Settings, {
+    DEFAULT_ORDER_NUMBER_SETTINGS,
+    ORDER_NUMBER_DATE_PATTERNS,
+    OrderNumberSettingsValue,
+} from '../app/api/models/Settings';
+
+export const ORDER_NUMBER_SETTINGS_NAME = 'order-number';
+
+const MIN_PADDING = 3;
+const MAX_PADDING = 10;
+
+/**
+ * Render the date part of an order number
+ * @param pattern - Date pattern made of YYYY, YY, MM and DD
+ * @param date - Date the order is placed
+ * @returns Formatted date, or an empty string for no date part
+ */
+export const formatOrderNumberDate = (pattern: string, date: Date): string => {
+    const year = date.getFullYear().toString();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+
+    return pattern
+        .replace('YYYY', year)
+        .replace('YY', year.slice(-2))
+        .replace('MM', month)
+        .replace('DD', day);
+};
+
+/**
+ * Build an order number such as ORD-250614-00042
+ * @param settings - Prefix, date pattern and padding
+ * @param date - Date the order is placed
+ * @param sequence - Sequence value within the date period
+ * @returns Order number
+ */
+export const formatOrderNumber = (settings: OrderNumberSettingsValue, date: Date, sequence: number): string => {
+    return [
+        settings.prefix,
+        formatOrderNumberDate(settings.datePattern, date),
+        sequence.toString().padStart(settings.padding, '0'),
+    ]
+        .filter(Boolean)
+        .join('-');
+};
+
+/**
+ * Validate order number settings submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateOrderNumberSettings = (value: Partial<OrderNumberSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (typeof value.prefix !== 'string' || !/^[A-Z0-9]{0,10}$/.test(value.prefix)) {
+        errors.prefix = 'Prefix must be up to 10 uppercase letters or digits';
+    }
+    if (!ORDER_NUMBER_DATE_PATTERNS.includes(value.datePattern as OrderNumberSettingsValue['datePattern'])) {
+        errors.datePattern = `Date pattern must be one of ${ORDER_NUMBER_DATE_PATTERNS.filter(Boolean).join(', ')} or empty`;
+    }
+    const padding = Number(value.padding);
+    if (!Number.isInteger(padding) || padding < MIN_PADDING || padding > MAX_PADDING) {
+        errors.padding = `Padding must be a whole number between ${MIN_PADDING} and ${MAX_PADDING}`;
+    }
+
+    return errors;
+};
+
+/**
+ * Load the configured order number format, falling back to the defaults
+ * @returns Order number settings
+ */
+export const getOrderNumberSettings = async (): Promise<OrderNumberSettingsValue> => {
+    const settings = await Settings.findOne({ name: ORDER_NUMBER_SETTINGS_NAME }).lean<{ value?: Partial<OrderNumberSettingsValue> }>();
+    return { ...DEFAULT_ORDER_NUMBER_SETTINGS, ...settings?.value };
+};
+
+/**
+ * Counter name for a period, so each prefix and date part gets its own sequence
+ * @param settings - Order number settings
+ * @param date - Date the order is placed
+ * @returns Counter name, e.g. order-number:ORD:250614
+ */
+export const getOrderNumberCounterName = (settings: OrderNumberSettingsValue, date: Date): string => {
+    return `${ORDER_NUMBER_SETTINGS_NAME}:${settings.prefix}:${formatOrderNumberDate(settings.datePattern, date)}`;
+};
+
+/**
+ * Generate the next order number from an atomic per-period counter
+ * @param date - Date the order is placed
+ * @returns A new order number
+ */
+export const generateOrderNumber = async (date: Date = new Date()): Promise<string> => {
+    const settings = await getOrderNumberSettings();
+    const sequence = await nextSequence(getOrderNumberCounterName(settings, date));
+
+    return formatOrderNumber(settings, date, sequence);
+};
@@ -0,0 +1,41 @@
+import { OrderStatus } from '../app/types/orders';
+
+// Allowed order status transitions; terminal statuses map to an empty list
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    pending: ['processing', 'cancelled', 'failed'],
+    processing: ['partially_shipped', 'shipped', 'cancelled', 'refunded', 'failed'],
+    // Some parcels are on their way; set from the order's shipments
+    partially_shipped: ['shipped', 'delivered', 'refunded', 'failed'],
+    shipped: ['delivered', 'refunded', 'failed'],
+    delivered: ['completed', 'refunded'],
+    completed: ['refunded'],
+    // Stock and coupon use are released on failure, so a failed order cannot be reopened
+    failed: ['cancelled'],
+    cancelled: [],
+    refunded: [],
+};
+
+export const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+
+// Statuses that hand the order's reserved stock back to inventory, whether set by an admin or by a failed payment
+export const STOCK_RELEASING_STATUSES: OrderStatus[] = ['cancelled', 'refunded', 'failed'];
+
+// Check whether a value is a known order status
+export const isOrderStatus = (value: unknown): value is OrderStatus => {
+    return typeof value === 'string' && ORDER_STATUSES.includes(value as OrderStatus);
+};
+
+// Get the statuses an order can move to from its current status
+export const getAllowedTransitions = (status: OrderStatus): OrderStatus[] => {
+    return ORDER_STATUS_TRANSITIONS[status] || [];
+};
+
+// Check whether an order may move from one status to another
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus): boolean => {
+    return getAllowedTransitions(from).includes(to);
+};
+
+// Human readable label for a status
+export const formatOrderStatus = (status: string): string => {
+    return (status.charAt(0).toUpperCase() + status.slice(1)).replace(/_/g, ' ');
+};
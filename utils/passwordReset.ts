@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import User, { hashPassword } from '../app/api/models/User';
+import { logBusiness, logBusinessError } from './logger';
+import { flushEmailOutbox, queueEmail } from './mail/outbox';
+import { getEmailStore, getEmailTemplate, getEmailTheme } from './mail/templateSettings';
+import { renderPasswordResetEmail } from './mail/templates';
+import { isStaffRole } from './permissions';
+import { revokeUserSessions } from './sessions';
+
+export const PASSWORD_RESET_EXPIRES_MINUTES = 60;
+
+// Raised when a reset token cannot be used; the message is safe to show the user
+export class PasswordResetError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'PasswordResetError';
+    }
+}
+
+// Only the hash is stored, so a leaked database cannot be used to reset passwords
+const hashResetToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Email a password reset link to the account with this address, if there is one.
+ * Resolves the same way whether or not the account exists; callers run it after responding,
+ * as the extra work for a known address would otherwise show in the response time.
+ * @param email - Address the reset was requested for
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+    const user = await User.findOne({ email: email.trim().toLowerCase(), active: true });
+    if (!user) {
+        return;
+    }
+
+    // A new request replaces any earlier token, so only the latest link works
+    const token = crypto.randomBytes(32).toString('hex');
+    user.resetPasswordToken = hashResetToken(token);
+    user.resetPasswordExpire = new Date(Date.now() + PASSWORD_RESET_EXPIRES_MINUTES * 60 * 1000);
+    await user.save({ validateBeforeSave: false });
+
+    try {
+        const [store, template, theme] = await Promise.all([
+            getEmailStore(),
+            getEmailTemplate('password_reset'),
+            getEmailTheme(),
+        ]);
+
+        // Staff sign in on the dashboard, so their link opens the reset form there
+        const resetUrl = isStaffRole(user.role)
+            ? `${store.url}/admin?resetToken=${token}`
+            : `${store.url}/reset-password?token=${token}`;
+
+        const rendered = renderPasswordResetEmail(
+            { user, resetUrl, expiresInMinutes: PASSWORD_RESET_EXPIRES_MINUTES, store },
+            template,
+            theme
+        );
+
+        await queueEmail({ to: user.email, ...rendered }, { template: 'password_reset' });
+        flushEmailOutbox();
+
+        logBusiness('Password reset requested', 'Auth', { userId: user._id.toString() });
+    } catch (error) {
+        logBusinessError('Password reset email could not be queued', error as Error, 'Auth', {
+            userId: user._id.toString(),
+        });
+    }
+};
+
+/**
+ * Set a new password with a reset token; the token is used up by this, and every
+ * session of the account is ended in case the old password was known to someone else
+ * @param token - Token from the reset link
+ * @param password - New password, already validated
+ * @throws PasswordResetError when the token is unknown, used or expired
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+    const hashedPassword = await hashPassword(password);
+
+    // Matching and clearing the token in one update keeps two requests from both using it
+    const user = await User.findOneAndUpdate(
+        {
+            resetPasswordToken: hashResetToken(token),
+            resetPasswordExpire: { $gt: new Date() },
+            active: true,
+        },
+        {
+            // Proving access to the inbox also lifts a lockout
+            $set: { password: hashedPassword, failedLoginAttempts: 0 },
+            $unset: { resetPasswordToken: 1, resetPasswordExpire: 1, lastFailedLoginAt: 1, lockedUntil: 1 },
+        }
+    );
+
+    if (!user) {
+        throw new PasswordResetError('This password reset link is invalid or has expired');
+    }
+
+    await revokeUserSessions(user._id, 'password_reset');
+    logBusiness('Password reset completed', 'Auth', { userId: user._id.toString() });
+};
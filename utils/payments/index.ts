@@ -0,0 +1,83 @@
+import { mockPaymentProvider } from './mockProvider';
+import { PaymentMethod, PaymentProvider, PaymentResultStatus, PaymentStatus } from './types';
+
+export * from './types';
+
+// Methods settled through a gateway; the rest are collected offline and marked paid by staff
+export const ONLINE_PAYMENT_METHODS: readonly PaymentMethod[] = ['credit_card', 'paypal'];
+
+export const PAYMENT_METHODS: readonly PaymentMethod[] = [
+    'credit_card',
+    'paypal',
+    'cash_on_delivery',
+    'bank_transfer',
+];
+
+export const PAYMENT_STATUSES: readonly PaymentStatus[] = [
+    'pending',
+    'requires_action',
+    'authorized',
+    'paid',
+    'partially_refunded',
+    'refunded',
+    'voided',
+    'failed',
+];
+
+export const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'USD';
+
+const providers = new Map<string, PaymentProvider>([[mockPaymentProvider.name, mockPaymentProvider]]);
+
+// The mock gateway approves payments without taking any money, so it only runs outside production
+const MOCK_PROVIDER_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Make a gateway integration available to the order flow and webhooks
+ * @param provider - Provider implementation
+ */
+export const registerPaymentProvider = (provider: PaymentProvider): void => {
+    providers.set(provider.name, provider);
+};
+
+/**
+ * Look up a payment provider. There is no default: a store takes online payments only once
+ * PAYMENT_PROVIDER names one, and the mock gateway is refused unless NODE_ENV is development or test.
+ * @param name - Provider name, defaults to the PAYMENT_PROVIDER environment variable
+ * @returns The provider, or null when none is configured, registered or allowed under that name
+ */
+export const getPaymentProvider = (name?: string): PaymentProvider | null => {
+    const providerName = name || process.env.PAYMENT_PROVIDER;
+    if (!providerName) {
+        return null;
+    }
+
+    if (providerName === mockPaymentProvider.name && !MOCK_PROVIDER_ENVIRONMENTS.includes(process.env.NODE_ENV || '')) {
+        return null;
+    }
+
+    return providers.get(providerName) || null;
+};
+
+export const isPaymentMethod = (value: unknown): value is PaymentMethod => {
+    return typeof value === 'string' && (PAYMENT_METHODS as readonly string[]).includes(value);
+};
+
+export const isOnlinePaymentMethod = (method: string): boolean => {
+    return (ONLINE_PAYMENT_METHODS as readonly string[]).includes(method);
+};
+
+/**
+ * Translate a gateway result into the payment status stored on the order
+ * @param status - Result status returned by the provider
+ * @returns Order payment status
+ */
+export const toPaymentStatus = (status: PaymentResultStatus): PaymentStatus => {
+    switch (status) {
+        case 'captured':
+            return 'paid';
+        case 'declined':
+            return 'failed';
+        default:
+            return status;
+    }
+};
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import {
+    AuthorizeRequest,
+    PaymentProvider,
+    PaymentResult,
+    PaymentWebhookEvent,
+    PaymentWebhookEventType,
+} from './types';
+
+/**
+ * Offline gateway for development and end-to-end testing.
+ * Outcomes are driven by the card number, mirroring common gateway test cards:
+ * - 4000 0000 0000 0002: declined
+ * - 4000 0000 0000 9995: declined (insufficient funds)
+ * - 4000 0000 0000 3220: requires a 3-D Secure style challenge
+ * - any other valid card, and PayPal: approved
+ */
+
+export const MOCK_TEST_CARDS = {
+    declined: '4000000000000002',
+    insufficientFunds: '4000000000009995',
+    requiresAction: '4000000000003220',
+} as const;
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// There is no built-in secret: without one configured, nothing can be signed and every delivery is rejected
+const getWebhookSecret = (): string => {
+    const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new Error('MOCK_PAYMENT_WEBHOOK_SECRET is not configured');
+    }
+    return secret;
+};
+
+const createTransactionId = () => `mock_${crypto.randomBytes(12).toString('hex')}`;
+
+const getCardBrand = (cardNumber: string): string => {
+    if (cardNumber.startsWith('4')) return 'Visa';
+    if (/^(5[1-5]|2[2-7])/.test(cardNumber)) return 'Mastercard';
+    if (/^3[47]/.test(cardNumber)) return 'American Express';
+    return 'Card';
+};
+
+/**
+ * Sign a webhook payload the same way the mock gateway does
+ * @param payload - Raw JSON body
+ * @returns Hex encoded HMAC-SHA256 signature
+ * @throws Error when MOCK_PAYMENT_WEBHOOK_SECRET is not configured
+ */
+export const signMockWebhookPayload = (payload: string): string => {
+    return crypto.createHmac('sha256', getWebhookSecret()).update(payload).digest('hex');
+};
+
+/**
+ * Build a signed webhook delivery, as the gateway would send it after an asynchronous step
+ * @param type - Event type
+ * @param transactionId - Gateway transaction the event refers to
+ * @param amount - Amount affected by the event
+ * @param message - Optional human readable reason
+ * @returns Raw payload and its signature header value
+ */
+export const createMockWebhookDelivery = (
+    type: PaymentWebhookEventType,
+    transactionId: string,
+    amount: number,
+    message?: string
+): { payload: string; signature: string } => {
+    const event: PaymentWebhookEvent = {
+        id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+        type,
+        transactionId,
+        amount,
+        message,
+        createdAt: new Date().toISOString(),
+    };
+    const payload = JSON.stringify(event);
+
+    return { payload, signature: signMockWebhookPayload(payload) };
+};
+
+export const mockPaymentProvider: PaymentProvider = {
+    name: 'mock',
+    signatureHeader: MOCK_SIGNATURE_HEADER,
+
+    async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+        const transactionId = createTransactionId();
+        const base = { transactionId, amount: request.amount };
+
+        if (!(request.amount > 0)) {
+            return { ...base, status: 'failed', message: 'Amount must be greater than zero' };
+        }
+
+        if (request.method === 'paypal') {
+            return { ...base, status: 'authorized', details: { payer: 'mock-paypal-account' } };
+        }
+
+        const cardNumber = (request.source?.cardNumber || '').replace(/\s/g, '');
+        if (!/^\d{13,19}$/.test(cardNumber)) {
+            return { ...base, status: 'declined', message: 'Card number is invalid' };
+        }
+
+        const details = { cardType: getCardBrand(cardNumber), last4: cardNumber.slice(-4) };
+
+        switch (cardNumber) {
+            case MOCK_TEST_CARDS.declined:
+                return { ...base, status: 'declined', message: 'Your card was declined', details };
+            case MOCK_TEST_CARDS.insufficientFunds:
+                return { ...base, status: 'declined', message: 'Your card has insufficient funds', details };
+            case MOCK_TEST_CARDS.requiresAction: {
+                const params = new URLSearchParams({
+                    transaction: transactionId,
+                    amount: request.amount.toFixed(2),
+                });
+
+                return {
+                    ...base,
+                    status: 'requires_action',
+                    message: 'Your bank requires additional authentication',
+                    nextAction: { type: 'redirect', url: `/checkout/authenticate?${params}` },
+                    details,
+                };
+            }
+            default:
+                return { ...base, status: 'authorized', details };
+        }
+    },
+
+    async capture(transactionId: string, amount: number): Promise<PaymentResult> {
+        return { status: 'captured', transactionId, amount };
+    },
+
+    async void(transactionId: string): Promise<PaymentResult> {
+        return { status: 'voided', transactionId, amount: 0 };
+    },
+
+    async refund(transactionId: string, amount: number): Promise<PaymentResult> {
+        if (!(amount > 0)) {
+            return { status: 'failed', transactionId, amount, message: 'Refund amount must be greater than zero' };
+        }
+        return { status: 'refunded', transactionId, amount };
+    },
+
+    verifyWebhookSignature(payload: string, signature: string | null): boolean {
+        if (!signature || !process.env.MOCK_PAYMENT_WEBHOOK_SECRET) return false;
+
+        const expected = Buffer.from(signMockWebhookPayload(payload), 'hex');
+        const received = Buffer.from(signature, 'hex');
+
+        return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    },
+
+    parseWebhookEvent(payload: string): PaymentWebhookEvent {
+        return JSON.parse(payload) as PaymentWebhookEvent;
+    },
+};
@@ -0,0 +1,320 @@
+import mongoose from 'mongoose';
+import Order from '../../app/api/models/Order';
+import { releaseOrderCoupons } from '../coupons';
+import { restoreOrderStock } from '../inventory';
+import { logBusiness, logBusinessError } from '../logger';
+import { notifyOrder } from '../mail/orderEmails';
+import { roundCurrency } from '../pricing';
+import {
+    getPaymentProvider,
+    PaymentResult,
+    PaymentResultStatus,
+    PaymentStatus,
+    PaymentWebhookEvent,
+    toPaymentStatus,
+} from './index';
+
+// Raised when a webhook delivery cannot be accepted; carries the HTTP status to answer with
+export class PaymentWebhookError extends Error {
+    public readonly statusCode: number;
+
+    constructor(message: string, statusCode: number) {
+        super(message);
+        this.name = 'PaymentWebhookError';
+        this.statusCode = statusCode;
+    }
+}
+
+// Payment states each gateway result may be applied to; anything else is a stale or repeated callback
+const APPLICABLE_PAYMENT_STATUSES: Partial<Record<PaymentResultStatus, PaymentStatus[]>> = {
+    requires_action: ['pending'],
+    authorized: ['pending', 'requires_action'],
+    captured: ['pending', 'requires_action', 'authorized'],
+    declined: ['pending', 'requires_action', 'authorized'],
+    failed: ['pending', 'requires_action', 'authorized'],
+    voided: ['pending', 'requires_action', 'authorized'],
+};
+
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded'];
+const VOIDABLE_PAYMENT_STATUSES: PaymentStatus[] = ['requires_action', 'authorized'];
+
+const WEBHOOK_RESULT_STATUSES: Record<PaymentWebhookEvent['type'], PaymentResultStatus> = {
+    'payment.authorized': 'authorized',
+    'payment.captured': 'captured',
+    'payment.failed': 'failed',
+};
+
+/**
+ * Apply a gateway result to an order's payment, moving the order along with it:
+ * a capture marks it paid and starts processing, a failure fails it and returns its stock
+ * @param orderId - Order the payment belongs to
+ * @param result - Result returned by the provider or reported by a webhook
+ * @returns The updated order, or null when the result no longer applies
+ */
+export const applyPaymentResult = async (
+    orderId: mongoose.Types.ObjectId | string,
+    result: PaymentResult
+) => {
+    const applicableStatuses = APPLICABLE_PAYMENT_STATUSES[result.status];
+    if (!applicableStatuses) {
+        throw new Error(`Payment result "${result.status}" cannot be applied directly`);
+    }
+
+    const paymentStatus = toPaymentStatus(result.status);
+    const now = new Date();
+
+    const set: Record<string, unknown> = {
+        'payment.status': paymentStatus,
+        'payment.transactionId': result.transactionId,
+    };
+    const unset: Record<string, ''> = {};
+
+    if (paymentStatus === 'requires_action' && result.nextAction) {
+        set['payment.nextAction'] = result.nextAction;
+    } else {
+        unset['payment.nextAction'] = '';
+    }
+    if (paymentStatus === 'authorized') {
+        set['payment.authorizedAt'] = now;
+    }
+    if (paymentStatus === 'paid') {
+        set['payment.capturedAt'] = now;
+        set.isPaid = true;
+        set.paidAt = now;
+    }
+    if (paymentStatus === 'failed') {
+        set['payment.failureReason'] = result.message || 'Payment failed';
+    }
+
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+        // Claim the payment state so repeated callbacks are applied once
+        const order = await Order.findOneAndUpdate(
+            { _id: orderId, 'payment.status': { $in: applicableStatuses } },
+            { $set: set, $unset: unset },
+            { new: true, session }
+        );
+
+        if (order && order.status === 'pending' && (paymentStatus === 'paid' || paymentStatus === 'failed')) {
+            const nextStatus = paymentStatus === 'paid' ? 'processing' : 'failed';
+
+            order.status = nextStatus;
+            order.statusHistory.push({
+                status: nextStatus,
+                from: 'pending',
+                note: paymentStatus === 'paid' ? 'Payment captured' : `Payment failed: ${set['payment.failureReason']}`,
+                changedAt: now,
+            });
+            await order.save({ session });
+
+            if (nextStatus === 'failed') {
+                await restoreOrderStock(order._id, session);
+                await releaseOrderCoupons(order._id, session);
+            }
+        }
+
+        await session.commitTransaction();
+
+        if (order) {
+            logBusiness('Payment updated', 'Payments', {
+                orderId: order._id.toString(),
+                transactionId: result.transactionId,
+                status: paymentStatus,
+            });
+
+            if (paymentStatus === 'paid') {
+                await notifyOrder(order._id, 'paid');
+            }
+        }
+
+        return order;
+    } catch (error) {
+        await session.abortTransaction();
+        throw error;
+    } finally {
+        session.endSession();
+    }
+};
+
+/**
+ * Capture an authorized payment for the full order total
+ * @param orderId - Order whose payment should be captured
+ * @returns The updated order, or null when there is nothing to capture
+ */
+export const captureOrderPayment = async (orderId: mongoose.Types.ObjectId | string) => {
+    const order = await Order.findById(orderId);
+    const provider = order?.payment?.provider ? getPaymentProvider(order.payment.provider) : null;
+
+    if (!order || !provider || order.payment.status !== 'authorized') {
+        return null;
+    }
+
+    const result = await provider.capture(order.payment.transactionId, order.totalPrice);
+    return applyPaymentResult(order._id, result);
+};
+
+/**
+ * Refund part or all of a captured payment through its provider.
+ * Failures are logged and reported rather than thrown, as callers have usually committed their own changes.
+ * @param orderId - Order to refund
+ * @param amount - Amount to refund; capped at what has not been refunded yet
+ * @returns The provider result, or null when the order has no refundable gateway payment
+ */
+export const refundOrderPayment = async (
+    orderId: mongoose.Types.ObjectId | string,
+    amount: number
+): Promise<PaymentResult | null> => {
+    const order = await Order.findById(orderId);
+    const provider = order?.payment?.provider ? getPaymentProvider(order.payment.provider) : null;
+
+    if (!order || !provider || !REFUNDABLE_PAYMENT_STATUSES.includes(order.payment.status)) {
+        return null;
+    }
+
+    const refundable = roundCurrency(order.totalPrice - (order.payment.refundedAmount || 0));
+    const refundAmount = Math.min(roundCurrency(amount), refundable);
+
+    if (refundAmount <= 0) {
+        return null;
+    }
+
+    try {
+        const result = await provider.refund(order.payment.transactionId, refundAmount);
+
+        if (result.status !== 'refunded') {
+            logBusinessError('Payment refund failed', new Error(result.message || 'Refund failed'), 'Payments', {
+                orderId: order._id.toString(),
+                amount: refundAmount,
+            });
+            return result;
+        }
+
+        // Fully refunded once the gateway has returned the whole total (allowing for rounding)
+        await Order.updateOne({ _id: order._id }, [
+            {
+                $set: {
+                    'payment.refundedAmount': {
+                        $round: [{ $add: [{ $ifNull: ['$payment.refundedAmount', 0] }, refundAmount] }, 2],
+                    },
+                },
+            },
+            {
+                $set: {
+                    'payment.status': {
+                        $cond: [
+                            { $gte: [{ $add: ['$payment.refundedAmount', 0.005] }, '$totalPrice'] },
+                            'refunded',
+                            'partially_refunded',
+                        ],
+                    },
+                },
+            },
+        ]);
+
+        logBusiness('Payment refunded', 'Payments', {
+            orderId: order._id.toString(),
+            transactionId: result.transactionId,
+            amount: refundAmount,
+        });
+
+        return result;
+    } catch (error) {
+        logBusinessError('Payment refund failed', error as Error, 'Payments', { orderId: order._id.toString() });
+        return null;
+    }
+};
+
+/**
+ * Release the money behind a cancelled or refunded order:
+ * uncaptured authorizations are voided and captured payments are refunded in full
+ * @param orderId - Order being cancelled or refunded
+ * @returns The provider result, or null when there was nothing to release
+ */
+export const releaseOrderPayment = async (
+    orderId: mongoose.Types.ObjectId | string
+): Promise<PaymentResult | null> => {
+    const order = await Order.findById(orderId);
+    const provider = order?.payment?.provider ? getPaymentProvider(order.payment.provider) : null;
+
+    if (!order || !provider) {
+        return null;
+    }
+
+    if (REFUNDABLE_PAYMENT_STATUSES.includes(order.payment.status)) {
+        return refundOrderPayment(order._id, order.totalPrice);
+    }
+
+    if (VOIDABLE_PAYMENT_STATUSES.includes(order.payment.status)) {
+        try {
+            const result = await provider.void(order.payment.transactionId);
+            if (result.status === 'voided') {
+                await applyPaymentResult(order._id, result);
+            }
+            return result;
+        } catch (error) {
+            logBusinessError('Payment void failed', error as Error, 'Payments', { orderId: order._id.toString() });
+        }
+    }
+
+    return null;
+};
+
+/**
+ * Verify and apply a webhook delivery from a payment provider
+ * @param providerName - Provider the delivery is addressed to
+ * @param payload - Raw request body, exactly as received
+ * @param headers - Request headers, including the provider's signature header
+ * @returns The parsed event and the order it updated, if any
+ */
+export const handlePaymentWebhook = async (
+    providerName: string,
+    payload: string,
+    headers: Headers
+) => {
+    const provider = getPaymentProvider(providerName);
+
+    if (!provider || provider.name !== providerName) {
+        throw new PaymentWebhookError(`Unknown payment provider: ${providerName}`, 404);
+    }
+
+    if (!provider.verifyWebhookSignature(payload, headers.get(provider.signatureHeader))) {
+        throw new PaymentWebhookError('Invalid webhook signature', 401);
+    }
+
+    let event: PaymentWebhookEvent;
+    try {
+        event = provider.parseWebhookEvent(payload);
+    } catch {
+        throw new PaymentWebhookError('Malformed webhook payload', 400);
+    }
+
+    const resultStatus = WEBHOOK_RESULT_STATUSES[event.type];
+    if (!resultStatus) {
+        throw new PaymentWebhookError(`Unsupported webhook event: ${event.type}`, 400);
+    }
+
+    const order = await Order.findOne({
+        'payment.provider': provider.name,
+        'payment.transactionId': event.transactionId,
+    }).select('_id');
+
+    if (!order) {
+        throw new PaymentWebhookError('No order found for this transaction', 404);
+    }
+
+    let updatedOrder = await applyPaymentResult(order._id, {
+        status: resultStatus,
+        transactionId: event.transactionId,
+        amount: event.amount,
+        message: event.message,
+    });
+
+    // Authorizations completed out of band are captured straight away, as at checkout
+    if (resultStatus === 'authorized') {
+        updatedOrder = (await captureOrderPayment(order._id)) || updatedOrder;
+    }
+
+    return { event, order: updatedOrder };
+};
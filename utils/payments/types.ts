@@ -0,0 +1,82 @@
+/**
+ * Contracts shared by every payment gateway integration.
+ * Providers only talk to the gateway; applying results to orders lives in orderPayments.ts.
+ */
+
+export type PaymentMethod = 'credit_card' | 'paypal' | 'cash_on_delivery' | 'bank_transfer';
+
+// Stored on order.payment.status
+export type PaymentStatus =
+    | 'pending'
+    | 'requires_action'
+    | 'authorized'
+    | 'paid'
+    | 'partially_refunded'
+    | 'refunded'
+    | 'voided'
+    | 'failed';
+
+// Outcome of a single gateway call
+export type PaymentResultStatus =
+    | 'authorized'
+    | 'captured'
+    | 'requires_action'
+    | 'declined'
+    | 'voided'
+    | 'refunded'
+    | 'failed';
+
+export interface PaymentSource {
+    cardNumber?: string;
+    expiryDate?: string;
+    cvv?: string;
+    cardHolderName?: string;
+}
+
+export interface AuthorizeRequest {
+    amount: number;
+    currency: string;
+    method: PaymentMethod;
+    // Merchant reference shown in the gateway dashboard
+    reference: string;
+    source?: PaymentSource;
+}
+
+export interface PaymentNextAction {
+    type: 'redirect';
+    url: string;
+}
+
+export interface PaymentResult {
+    status: PaymentResultStatus;
+    transactionId: string;
+    amount: number;
+    message?: string;
+    nextAction?: PaymentNextAction;
+    // Safe-to-store details such as card brand and last four digits
+    details?: Record<string, unknown>;
+}
+
+// Asynchronous outcomes reported by the gateway; refunds and voids are answered synchronously
+export type PaymentWebhookEventType = 'payment.authorized' | 'payment.captured' | 'payment.failed';
+
+export interface PaymentWebhookEvent {
+    id: string;
+    type: PaymentWebhookEventType;
+    transactionId: string;
+    amount: number;
+    message?: string;
+    createdAt: string;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    // Request header carrying the webhook signature
+    readonly signatureHeader: string;
+    authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+    capture(transactionId: string, amount: number): Promise<PaymentResult>;
+    void(transactionId: string): Promise<PaymentResult>;
+    refund(transactionId: string, amount: number): Promise<PaymentResult>;
+    verifyWebhookSignature(payload: string, signature: string | null): boolean;
+    parseWebhookEvent(payload: string): PaymentWebhookEvent;
+}
@@ -0,0 +1,230 @@
+// Permission catalogue. Every API route that needs more than a signed-in user is guarded by one of
+// these permissions; the routes listed with each are what it grants. Safe to import on the client,
+// where the role editor and the admin sidebar read it.
+
+export interface PermissionDefinition {
+    label: string;
+    description: string;
+    group: string;
+    routes: string[];
+}
+
+export const PERMISSIONS = {
+    view_stats: {
+        label: 'View dashboard',
+        description: 'See sales, order and customer totals',
+        group: 'Dashboard',
+        routes: ['GET /api/stats/summary'],
+    },
+    manage_products: {
+        label: 'Manage products',
+        description: 'Create, edit and delete products',
+        group: 'Catalog',
+        routes: ['POST /api/products', 'PUT /api/products/[id]', 'DELETE /api/products/[id]'],
+    },
+    manage_categories: {
+        label: 'Manage categories',
+        description: 'Create, edit and delete categories',
+        group: 'Catalog',
+        routes: ['POST /api/categories', 'PUT /api/categories/[id]', 'DELETE /api/categories/[id]'],
+    },
+    manage_uploads: {
+        label: 'Upload images',
+        description: 'Upload product, category and homepage images',
+        group: 'Catalog',
+        routes: ['POST /api/upload'],
+    },
+    view_orders: {
+        label: 'View orders',
+        description: 'See every order and return, with invoices, packing slips and shipments',
+        group: 'Sales',
+        routes: [
+            'GET /api/orders',
+            'GET /api/orders/[id]',
+            'GET /api/orders/[id]/invoice',
+            'GET /api/orders/[id]/packing-slip',
+            'GET /api/orders/[id]/shipments',
+            'GET /api/orders/packing-slips',
+            'GET /api/returns',
+            'GET /api/returns/[id]',
+        ],
+    },
+    manage_orders: {
+        label: 'Manage orders',
+        description: 'Change order status, ship orders and delete orders',
+        group: 'Sales',
+        routes: [
+            'PUT /api/orders/[id]',
+            'DELETE /api/orders/[id]',
+            'POST /api/orders/[id]/shipments',
+            'PUT /api/orders/[id]/shipments/[shipmentId]',
+        ],
+    },
+    manage_returns: {
+        label: 'Manage returns',
+        description: 'Approve, reject and refund returns',
+        group: 'Sales',
+        routes: ['PUT /api/returns/[id]'],
+    },
+    manage_coupons: {
+        label: 'Manage coupons',
+        description: 'Create, edit and delete coupons',
+        group: 'Sales',
+        routes: ['GET /api/coupons', 'POST /api/coupons', 'GET /api/coupons/[id]', 'PUT /api/coupons/[id]', 'DELETE /api/coupons/[id]'],
+    },
+    manage_shipping: {
+        label: 'Manage shipping',
+        description: 'Edit shipping zones, rates and carriers',
+        group: 'Sales',
+        routes: [
+            'GET /api/shipping/zones',
+            'POST /api/shipping/zones',
+            'GET /api/shipping/zones/[id]',
+            'PUT /api/shipping/zones/[id]',
+            'DELETE /api/shipping/zones/[id]',
+            'GET /api/settings/carriers',
+            'PUT /api/settings/carriers',
+        ],
+    },
+    manage_tax: {
+        label: 'Manage tax',
+        description: 'Edit tax rates and tax settings',
+        group: 'Sales',
+        routes: [
+            'GET /api/tax/rates',
+            'POST /api/tax/rates',
+            'GET /api/tax/rates/[id]',
+            'PUT /api/tax/rates/[id]',
+            'DELETE /api/tax/rates/[id]',
+            'GET /api/settings/tax',
+            'PUT /api/settings/tax',
+        ],
+    },
+    moderate_reviews: {
+        label: 'Moderate reviews',
+        description: 'Approve, edit and delete product reviews',
+        group: 'Customer Experience',
+        routes: ['GET /api/reviews/[id]', 'PUT /api/reviews/[id]', 'DELETE /api/reviews/[id]'],
+    },
+    view_customers: {
+        label: 'View customers',
+        description: 'See customer accounts, their sessions and sign-in history',
+        group: 'Users',
+        routes: ['GET /api/customers', 'GET /api/customers/[id]', 'GET /api/customers/[id]/sessions'],
+    },
+    manage_customer_security: {
+        label: 'Manage customer sign-in',
+        description: 'Sign customers out of devices and unlock locked accounts',
+        group: 'Users',
+        routes: ['DELETE /api/customers/[id]/sessions/[sessionId]', 'DELETE /api/customers/[id]/lockout'],
+    },
+    reset_two_factor: {
+        label: 'Reset two-factor',
+        description: 'Turn off two-factor authentication for a user who lost their device',
+        group: 'Users',
+        routes: ['DELETE /api/customers/[id]/two-factor'],
+    },
+    manage_roles: {
+        label: 'Manage roles',
+        description: 'Edit roles and their permissions, and assign roles to users',
+        group: 'Users',
+        routes: [
+            'GET /api/roles',
+            'POST /api/roles',
+            'PUT /api/roles/[name]',
+            'DELETE /api/roles/[name]',
+            'PUT /api/customers/[id]/role',
+        ],
+    },
+    view_audit_log: {
+        label: 'View audit log',
+        description: 'See who changed what in the dashboard, and when',
+        group: 'Users',
+        routes: ['GET /api/audit-logs'],
+    },
+    manage_settings: {
+        label: 'Manage settings',
+        description: 'Edit store settings, the homepage and the website theme',
+        group: 'Website',
+        routes: [
+            'PUT /api/settings/homepage',
+            'PATCH /api/settings/homepage',
+            'PUT /api/settings/website-theme',
+            'GET /api/settings/invoice',
+            'PUT /api/settings/invoice',
+            'GET /api/settings/order-number',
+            'PUT /api/settings/order-number',
+            'GET /api/settings/verification',
+            'PUT /api/settings/verification',
+            'GET /api/settings/two-factor',
+            'PUT /api/settings/two-factor',
+            'GET /api/settings/cache/clear',
+            'POST /api/settings/cache/clear',
+            'GET /api/settings/reinitialize',
+            'POST /api/settings/reinitialize',
+        ],
+    },
+    manage_emails: {
+        label: 'Manage emails',
+        description: 'Edit email templates, send test emails and see the outbox',
+        group: 'Website',
+        routes: [
+            'GET /api/settings/email-templates',
+            'PUT /api/settings/email-templates',
+            'POST /api/settings/email-templates/preview',
+            'POST /api/settings/email-templates/test',
+            'GET /api/email/outbox',
+            'POST /api/email/outbox',
+        ],
+    },
+} satisfies Record<string, PermissionDefinition>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+export const CUSTOMER_ROLE = 'customer';
+export const ADMIN_ROLE = 'admin';
+export const SUPER_ADMIN_ROLE = 'super-admin';
+
+export interface RoleDefinition {
+    name: string;
+    label: string;
+    description: string;
+    permissions: Permission[];
+}
+
+// Roles every store has. They cannot be deleted; only the admin role's permissions can be edited,
+// since customers must never reach the dashboard and super admins always hold every permission.
+export const SYSTEM_ROLES: RoleDefinition[] = [
+    {
+        name: CUSTOMER_ROLE,
+        label: 'Customer',
+        description: 'Shops in the store; no dashboard access',
+        permissions: [],
+    },
+    {
+        name: ADMIN_ROLE,
+        label: 'Admin',
+        description: 'Runs the store day to day',
+        permissions: PERMISSION_KEYS.filter((key) => key !== 'manage_roles' && key !== 'reset_two_factor'),
+    },
+    {
+        name: SUPER_ADMIN_ROLE,
+        label: 'Super admin',
+        description: 'Full access, including roles',
+        permissions: PERMISSION_KEYS,
+    },
+];
+
+// Anyone whose role is not the customer one works on the store and signs in to the dashboard
+export const isStaffRole = (role: string): boolean => role !== CUSTOMER_ROLE;
+
+/**
+ * Check a user's permissions, as resolved from their role
+ * @param user - User with resolved permissions
+ * @param permission - Permission to look for
+ * @returns Whether the user holds it
+ */
+export const can = (user: { permissions?: string[] } | null | undefined, permission: Permission): boolean =>
+    !!user?.permissions?.includes(permission);
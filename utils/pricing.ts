@@ -0,0 +1,120 @@
+/**
+ * Pricing rules shared by the checkout UI and the order API.
+ * The server always recomputes totals with these helpers; the client only uses them for previews.
+ */
+
+export interface PricedProduct {
+    price: number;
+    discountPrice?: number | null;
+}
+
+export interface PricingTotals {
+    itemsPrice: number;
+    discount: number;
+    shippingPrice: number;
+    taxPrice: number;
+    total: number;
+}
+
+/**
+ * Round a monetary amount to cents
+ * @param amount - Raw amount
+ * @returns Amount rounded to two decimals
+ */
+export const roundCurrency = (amount: number): number => {
+    return Math.round((amount + Number.EPSILON) * 100) / 100;
+};
+
+/**
+ * Resolves the unit price a shopper pays for a product
+ * @param product - Product with price and optional discount price
+ * @returns Discount price when it is a valid reduction, otherwise the list price
+ */
+export const getUnitPrice = (product: PricedProduct): number => {
+    const { price, discountPrice } = product;
+
+    if (typeof discountPrice === 'number' && discountPrice > 0 && discountPrice < price) {
+        return discountPrice;
+    }
+
+    return price;
+};
+
+/**
+ * Calculates the line total for a quantity of a product
+ * @param unitPrice - Unit price
+ * @param quantity - Quantity ordered
+ * @returns Line total rounded to cents
+ */
+export const calculateLineTotal = (unitPrice: number, quantity: number): number => {
+    return roundCurrency(unitPrice * quantity);
+};
+
+export interface PricingAdjustments {
+    discount?: number;
+    freeShipping?: boolean;
+    // Price of the chosen shipping method, as quoted by utils/shipping
+    shippingPrice?: number;
+    // Tax worked out by utils/tax; with tax-inclusive prices it is already part of the items and shipping
+    taxPrice?: number;
+    pricesIncludeTax?: boolean;
+}
+
+/**
+ * Calculates order totals from an items subtotal
+ * @param itemsPrice - Items subtotal
+ * @param adjustments - Coupon discount off the items, whether shipping is waived, the shipping method price and the tax
+ * @returns Items, discount, shipping, tax and grand totals
+ */
+export const calculateOrderTotals = (itemsPrice: number, adjustments: PricingAdjustments = {}): PricingTotals => {
+    const roundedItemsPrice = roundCurrency(itemsPrice);
+    const discount = roundCurrency(Math.min(Math.max(adjustments.discount || 0, 0), roundedItemsPrice));
+
+    const discountedItemsPrice = roundCurrency(roundedItemsPrice - discount);
+    const shippingPrice = adjustments.freeShipping || roundedItemsPrice <= 0
+        ? 0
+        : roundCurrency(Math.max(adjustments.shippingPrice || 0, 0));
+    const taxPrice = roundCurrency(adjustments.taxPrice || 0);
+
+    return {
+        itemsPrice: roundedItemsPrice,
+        discount,
+        shippingPrice,
+        taxPrice,
+        total: roundCurrency(discountedItemsPrice + shippingPrice + (adjustments.pricesIncludeTax ? 0 : taxPrice)),
+    };
+};
+
+/**
+ * Calculates the refund owed for returned units of an order line, net of their share of any coupon discount and including their share of tax
+ * @param unitPrice - Unit price paid for the line
+ * @param quantity - Units being refunded
+ * @param order - Order subtotal, discount and tax used to apportion them to the line
+ * @param line - Order line with the tax recorded on it; older orders without one share the order tax out by value
+ * @returns Refund amount rounded to cents
+ */
+export const calculateLineRefund = (
+    unitPrice: number,
+    quantity: number,
+    order: { itemsPrice: number; taxPrice: number; discountPrice?: number; pricesIncludeTax?: boolean },
+    line?: { quantity: number; taxPrice?: number }
+): number => {
+    const lineTotal = calculateLineTotal(unitPrice, quantity);
+    if (order.itemsPrice <= 0) {
+        return lineTotal;
+    }
+
+    const share = lineTotal / order.itemsPrice;
+    const netTotal = lineTotal - share * (order.discountPrice || 0);
+
+    // Tax-inclusive prices already contain the tax being refunded
+    if (order.pricesIncludeTax) {
+        return roundCurrency(netTotal);
+    }
+
+    const tax = typeof line?.taxPrice === 'number' && line.quantity > 0
+        ? (line.taxPrice * quantity) / line.quantity
+        : share * order.taxPrice;
+
+    return roundCurrency(netTotal + tax);
+};
@@ -0,0 +1,223 @@
+/**
+ * Product variants: one entry per combination of option values, each with its own SKU, stock and price.
+ * Shared by the product, cart and order APIs and by the admin and shop product pages.
+ */
+import { ProductVariant, ProductVariantOptions } from '../app/types/product';
+import { normalizeVariants } from './cartUtils';
+import { getUnitPrice, PricedProduct } from './pricing';
+
+export const MAX_PRODUCT_VARIANTS = 100;
+
+// Raised for variant lists an admin needs to correct
+export class ProductVariantError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProductVariantError';
+    }
+}
+
+interface StockedProduct {
+    quantity: number;
+    variants?: ProductVariant[];
+}
+
+const normalizeOptions = (options?: ProductVariantOptions | null) =>
+    normalizeVariants({
+        color: options?.color || undefined,
+        size: options?.size || undefined,
+    });
+
+/**
+ * Check whether two sets of option values name the same variant; blank values count as unset
+ * @param a - First option values
+ * @param b - Second option values
+ * @returns true when color and size both match
+ */
+export const isSameOptions = (a?: ProductVariantOptions | null, b?: ProductVariantOptions | null): boolean => {
+    const left = normalizeOptions(a);
+    const right = normalizeOptions(b);
+
+    return left.color === right.color && left.size === right.size;
+};
+
+/**
+ * Find the variant for a combination of option values
+ * @param variants - Variants of the product, if it has any
+ * @param options - Chosen color and size
+ * @returns The matching variant, or undefined
+ */
+export const findProductVariant = <T extends Pick<ProductVariant, 'options'>>(
+    variants: T[] | undefined,
+    options: ProductVariantOptions
+): T | undefined => {
+    return variants?.find((variant) => isSameOptions(variant.options, options));
+};
+
+/**
+ * Units that can be sold for a combination of option values
+ * @param product - Product with its shared quantity and variants
+ * @param options - Chosen color and size
+ * @returns Stock of the matching variant; 0 when the product has variants and none matches;
+ * the shared quantity for products without variants
+ */
+export const getAvailableStock = (product: StockedProduct, options: ProductVariantOptions): number => {
+    if (!product.variants || product.variants.length === 0) {
+        return product.quantity;
+    }
+
+    return Math.max(0, findProductVariant(product.variants, options)?.stock ?? 0);
+};
+
+/**
+ * Resolves the unit price a shopper pays for a variant
+ * @param product - Product with price and optional discount price
+ * @param variant - Chosen variant, if the product has variants
+ * @returns The variant's price override when set, otherwise the product's unit price
+ */
+export const getVariantUnitPrice = (product: PricedProduct, variant?: Pick<ProductVariant, 'price'> | null): number => {
+    if (variant && typeof variant.price === 'number' && variant.price >= 0) {
+        return variant.price;
+    }
+
+    return getUnitPrice(product);
+};
+
+/**
+ * Describe option values for shoppers, e.g. `Red / XL`
+ * @param options - Color and size
+ * @returns The set values joined with a slash; empty when neither is set
+ */
+export const formatVariantOptions = (options?: ProductVariantOptions | null): string => {
+    const { color, size } = normalizeOptions(options);
+    return [color, size].filter(Boolean).join(' / ');
+};
+
+/**
+ * Default SKU of a variant: the product SKU followed by its option values
+ * @param baseSku - SKU of the product
+ * @param options - Color and size of the variant
+ * @returns Lowercase SKU such as `tee-red-xl`
+ */
+export const generateVariantSku = (baseSku: string, options: ProductVariantOptions): string => {
+    const { color, size } = normalizeOptions(options);
+
+    return [baseSku, color, size]
+        .filter(Boolean)
+        .join('-')
+        .toLowerCase()
+        .replace(/[^a-z0-9-]+/g, '-')
+        .replace(/-+/g, '-')
+        .replace(/^-+|-+$/g, '');
+};
+
+/**
+ * Build one variant for every combination of colors and sizes, keeping the entries that already exist
+ * @param colors - Color values of the product
+ * @param sizes - Size values of the product
+ * @param existing - Variants entered so far; their SKU, price, stock and image are kept
+ * @returns Variants in color-then-size order
+ */
+export const buildVariantMatrix = (
+    colors: string[],
+    sizes: string[],
+    existing: ProductVariant[] = []
+): ProductVariant[] => {
+    if (colors.length === 0 && sizes.length === 0) {
+        return [];
+    }
+
+    const colorValues: Array<string | null> = colors.length > 0 ? colors : [null];
+    const sizeValues: Array<string | null> = sizes.length > 0 ? sizes : [null];
+
+    return colorValues.flatMap((color) =>
+        sizeValues.map((size) => findProductVariant(existing, { color, size }) || { options: { color, size }, stock: 0 })
+    );
+};
+
+/**
+ * Totals a product keeps in step with its variants
+ * @param variants - Variants of the product
+ * @returns Shared quantity as the sum of variant stock, and the distinct colors and sizes
+ */
+export const summarizeVariants = (variants: ProductVariant[]): { quantity: number; color: string[]; size: string[] } => {
+    const distinct = (values: Array<string | null | undefined>) =>
+        [...new Set(values.filter((value): value is string => Boolean(value)))];
+
+    return {
+        quantity: variants.reduce((sum, variant) => sum + Math.max(0, variant.stock || 0), 0),
+        color: distinct(variants.map((variant) => normalizeOptions(variant.options).color)),
+        size: distinct(variants.map((variant) => normalizeOptions(variant.options).size)),
+    };
+};
+
+/**
+ * Read and check the variants sent by the admin product form
+ * @param input - Variants as received; sanitized arrays arrive as objects keyed by index
+ * @param baseSku - SKU of the product, used for variants without one
+ * @returns Variants ready to store
+ * @throws ProductVariantError describing the first problem found
+ */
+export const parseProductVariants = (input: unknown, baseSku?: string): ProductVariant[] => {
+    if (input === undefined || input === null || input === '') {
+        return [];
+    }
+    if (typeof input !== 'object') {
+        throw new ProductVariantError('Variants must be a list');
+    }
+
+    const entries = Array.isArray(input) ? input : Object.values(input);
+    if (entries.length > MAX_PRODUCT_VARIANTS) {
+        throw new ProductVariantError(`A product can have at most ${MAX_PRODUCT_VARIANTS} variants`);
+    }
+
+    const variants: ProductVariant[] = [];
+    const skus = new Set<string>();
+
+    for (const entry of entries) {
+        const raw = (entry || {}) as Partial<Record<keyof ProductVariant, unknown>>;
+        const rawOptions = (raw.options || {}) as Record<string, unknown>;
+        const options = normalizeOptions({
+            color: typeof rawOptions.color === 'string' ? rawOptions.color : null,
+            size: typeof rawOptions.size === 'string' ? rawOptions.size : null,
+        });
+        const label = formatVariantOptions(options);
+
+        if (!label) {
+            throw new ProductVariantError('Each variant needs a color or a size');
+        }
+        if (findProductVariant(variants, options)) {
+            throw new ProductVariantError(`Variant ${label} is listed more than once`);
+        }
+
+        const stock = Number(raw.stock);
+        if (!Number.isInteger(stock) || stock < 0) {
+            throw new ProductVariantError(`Stock of ${label} must be a whole number of at least 0`);
+        }
+
+        const hasPrice = raw.price !== undefined && raw.price !== null && raw.price !== '';
+        const price = Number(raw.price);
+        if (hasPrice && (!Number.isFinite(price) || price < 0)) {
+            throw new ProductVariantError(`Price of ${label} must be a positive number`);
+        }
+
+        const sku = (typeof raw.sku === 'string' && raw.sku.trim().toLowerCase())
+            || (baseSku ? generateVariantSku(baseSku, options) : undefined);
+        if (sku) {
+            if (skus.has(sku)) {
+                throw new ProductVariantError(`SKU ${sku} is used by more than one variant`);
+            }
+            skus.add(sku);
+        }
+
+        variants.push({
+            ...(typeof raw._id === 'string' && /^[a-f\d]{24}$/i.test(raw._id) && { _id: raw._id }),
+            options,
+            sku,
+            price: hasPrice ? price : undefined,
+            stock,
+            image: typeof raw.image === 'string' && raw.image.trim() ? raw.image.trim() : undefined,
+        });
+    }
+
+    return variants;
+};
@@ -0,0 +1,306 @@
+import mongoose from 'mongoose';
+import Role from '../app/api/models/Role';
+import User from '../app/api/models/User';
+import { User as UserType } from '../app/types/user';
+import { cache } from './cache';
+import { logBusiness } from './logger';
+import {
+    CUSTOMER_ROLE,
+    Permission,
+    PERMISSION_KEYS,
+    RoleDefinition,
+    SUPER_ADMIN_ROLE,
+    SYSTEM_ROLES,
+} from './permissions';
+
+// Permissions are resolved on every request, so role edits are cached briefly to keep that cheap
+const ROLES_CACHE_KEY = 'roles:all';
+const ROLES_CACHE_TTL = 60 * 1000;
+
+// Roles that keep their permissions whatever is stored
+const LOCKED_ROLES = [CUSTOMER_ROLE, SUPER_ADMIN_ROLE];
+
+const MAX_LABEL_LENGTH = 50;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export interface StoredRole extends RoleDefinition {
+    system: boolean;
+}
+
+// Raised when a role cannot be saved, deleted or assigned; the message is safe to show the admin
+export class RoleError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'RoleError';
+    }
+}
+
+let systemRolesSeeded = false;
+
+// Store the built-in roles the first time they are needed; existing ones are left as edited
+const seedSystemRoles = async (): Promise<void> => {
+    if (systemRolesSeeded) {
+        return;
+    }
+
+    await Role.bulkWrite(
+        SYSTEM_ROLES.map((role) => ({
+            updateOne: {
+                filter: { name: role.name },
+                update: { $setOnInsert: { ...role, system: true } },
+                upsert: true,
+            },
+        }))
+    );
+    systemRolesSeeded = true;
+};
+
+/**
+ * Load every role, built-in ones first
+ * @returns Roles with their permissions
+ */
+export const getRoles = async (): Promise<StoredRole[]> => {
+    const cached = cache.get(ROLES_CACHE_KEY) as StoredRole[] | null;
+    if (cached) {
+        return cached;
+    }
+
+    await seedSystemRoles();
+    const roles = await Role.find()
+        .sort({ system: -1, createdAt: 1 })
+        .lean<Array<StoredRole & { _id: mongoose.Types.ObjectId }>>();
+
+    const result = roles.map(({ name, label, description, permissions, system }) => ({
+        name,
+        label,
+        description: description || '',
+        // Unknown permissions are dropped, in case one was removed from the catalogue
+        permissions: LOCKED_ROLES.includes(name)
+            ? SYSTEM_ROLES.find((role) => role.name === name)!.permissions
+            : permissions.filter((permission) => PERMISSION_KEYS.includes(permission)),
+        system,
+    }));
+
+    cache.set(ROLES_CACHE_KEY, result, ROLES_CACHE_TTL);
+    return result;
+};
+
+/**
+ * Resolve the permissions a role grants. An unknown role grants nothing.
+ * @param roleName - Role of the user
+ * @returns Permissions of the role
+ */
+export const getRolePermissions = async (roleName: string): Promise<Permission[]> => {
+    if (roleName === SUPER_ADMIN_ROLE) {
+        return PERMISSION_KEYS;
+    }
+    if (roleName === CUSTOMER_ROLE) {
+        return [];
+    }
+
+    const roles = await getRoles();
+    return roles.find((role) => role.name === roleName)?.permissions || [];
+};
+
+/**
+ * Count the users holding each role
+ * @returns Number of users keyed by role name
+ */
+export const countUsersByRole = async (): Promise<Record<string, number>> => {
+    const counts = await User.aggregate<{ _id: string; count: number }>([
+        { $group: { _id: '$role', count: { $sum: 1 } } },
+    ]);
+    return Object.fromEntries(counts.map(({ _id, count }) => [_id, count]));
+};
+
+/**
+ * Validate a role submitted by an admin
+ * @param value - Untrusted role
+ * @param creating - Whether the role is new, so its name must be checked too
+ * @returns Field errors, empty when valid
+ */
+export const validateRoleInput = (value: Partial<RoleDefinition>, creating: boolean): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (creating && (typeof value.name !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(value.name))) {
+        errors.name = 'Name may only contain lowercase letters, numbers and dashes';
+    }
+    if (typeof value.label !== 'string' || !value.label.trim() || value.label.length > MAX_LABEL_LENGTH) {
+        errors.label = `Label is required and cannot be more than ${MAX_LABEL_LENGTH} characters`;
+    }
+    if (value.description !== undefined && (typeof value.description !== 'string' || value.description.length > MAX_DESCRIPTION_LENGTH)) {
+        errors.description = `Description cannot be more than ${MAX_DESCRIPTION_LENGTH} characters`;
+    }
+    if (
+        !Array.isArray(value.permissions) ||
+        value.permissions.some((permission) => !PERMISSION_KEYS.includes(permission))
+    ) {
+        errors.permissions = 'Choose permissions from the catalogue';
+    }
+
+    return errors;
+};
+
+// Nobody can hand out permissions they do not hold themselves
+const assertCanGrant = (actor: UserType, permissions: Permission[]): void => {
+    const missing = permissions.filter((permission) => !actor.permissions.includes(permission));
+    if (missing.length > 0) {
+        throw new RoleError(`You cannot grant permissions you do not have: ${missing.join(', ')}`, 403);
+    }
+};
+
+const invalidateRoles = (): void => cache.delete(ROLES_CACHE_KEY);
+
+/**
+ * Create a custom role
+ * @param input - Validated role
+ * @param actor - Admin creating it
+ * @throws RoleError when the name is taken or a permission cannot be granted by the actor
+ */
+export const createRole = async (input: RoleDefinition, actor: UserType): Promise<StoredRole> => {
+    assertCanGrant(actor, input.permissions);
+    await seedSystemRoles();
+
+    if (await Role.exists({ name: input.name })) {
+        throw new RoleError('A role with this name already exists', 409);
+    }
+
+    const role = await Role.create({
+        name: input.name,
+        label: input.label.trim(),
+        description: input.description?.trim(),
+        permissions: [...new Set(input.permissions)],
+    });
+    invalidateRoles();
+
+    logBusiness('Role created', 'Auth', { role: role.name, permissions: role.permissions, by: actor._id.toString() });
+    return { name: role.name, label: role.label, description: role.description || '', permissions: role.permissions, system: false };
+};
+
+/**
+ * Change a role's label, description and permissions; users holding it are affected on their next request
+ * @param name - Role to change
+ * @param input - Validated role
+ * @param actor - Admin changing it
+ * @throws RoleError when the role does not exist or its permissions cannot be edited
+ */
+export const updateRole = async (
+    name: string,
+    input: Omit<RoleDefinition, 'name'>,
+    actor: UserType
+): Promise<StoredRole> => {
+    if (LOCKED_ROLES.includes(name)) {
+        throw new RoleError('The permissions of this role cannot be changed', 403);
+    }
+    assertCanGrant(actor, input.permissions);
+    await seedSystemRoles();
+
+    const role = await Role.findOneAndUpdate(
+        { name },
+        {
+            $set: {
+                label: input.label.trim(),
+                description: input.description?.trim(),
+                permissions: [...new Set(input.permissions)],
+            },
+        },
+        { new: true, runValidators: true }
+    );
+    if (!role) {
+        throw new RoleError('Role not found', 404);
+    }
+    invalidateRoles();
+
+    logBusiness('Role updated', 'Auth', { role: name, permissions: role.permissions, by: actor._id.toString() });
+    return {
+        name: role.name,
+        label: role.label,
+        description: role.description || '',
+        permissions: role.permissions,
+        system: role.system,
+    };
+};
+
+/**
+ * Delete a custom role nobody holds any more
+ * @param name - Role to delete
+ * @param actor - Admin deleting it
+ * @throws RoleError when the role is built in, unknown or still assigned
+ */
+export const deleteRole = async (name: string, actor: UserType): Promise<void> => {
+    const role = await Role.findOne({ name });
+    if (!role) {
+        throw new RoleError('Role not found', 404);
+    }
+    if (role.system) {
+        throw new RoleError('Built-in roles cannot be deleted', 403);
+    }
+
+    const holders = await User.countDocuments({ role: name });
+    if (holders > 0) {
+        throw new RoleError(`This role is assigned to ${holders} user${holders === 1 ? '' : 's'}; assign them another role first`, 409);
+    }
+
+    await role.deleteOne();
+    invalidateRoles();
+
+    logBusiness('Role deleted', 'Auth', { role: name, by: actor._id.toString() });
+};
+
+/**
+ * Give a user another role
+ * @param userId - User to change
+ * @param roleName - Role to give them
+ * @param actor - Admin assigning it
+ * @returns The user's email and the role they had before
+ * @throws RoleError when the user or role does not exist, or the actor may not make the change
+ */
+export const assignUserRole = async (
+    userId: mongoose.Types.ObjectId | string,
+    roleName: string,
+    actor: UserType
+): Promise<{ email: string; role: string }> => {
+    const [user, roles] = await Promise.all([User.findById(userId).select('email role'), getRoles()]);
+    if (!user) {
+        throw new RoleError('User not found', 404);
+    }
+
+    const role = roles.find((candidate) => candidate.name === roleName);
+    if (!role) {
+        throw new RoleError('Role not found', 404);
+    }
+    if (user.role === roleName) {
+        return { email: user.email, role: roleName };
+    }
+
+    // Taking a super admin's role away, or handing one out, is kept to super admins
+    if ((user.role === SUPER_ADMIN_ROLE || roleName === SUPER_ADMIN_ROLE) && actor.role !== SUPER_ADMIN_ROLE) {
+        throw new RoleError('Only super admins can assign or remove the super admin role', 403);
+    }
+    if (user._id.toString() === actor._id.toString()) {
+        throw new RoleError('You cannot change your own role', 403);
+    }
+    assertCanGrant(actor, role.permissions);
+
+    const previousRole = user.role;
+    user.role = roleName;
+    await user.save({ validateBeforeSave: false });
+
+    logBusiness('Role assigned', 'Auth', {
+        userId: user._id.toString(),
+        from: previousRole,
+        to: roleName,
+        by: actor._id.toString(),
+    });
+    return { email: user.email, role: previousRole };
+};
+
+/**
+ * Fill in a loaded user's permissions from their role
+ * @param user - User as loaded from the database
+ * @returns The same user
+ */
+export const applyRolePermissions = async <T extends { role: string; permissions?: string[] }>(user: T): Promise<T> => {
+    user.permissions = await getRolePermissions(user.role);
+    return user;
+};
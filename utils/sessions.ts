@@ -0,0 +1,423 @@
+import crypto from 'crypto';
+import { jwtVerify } from 'jose';
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import Session, { SESSION_REVOKE_REASONS } from '../app/api/models/Session';
+import User, { ACCESS_COOKIE_NAME, createToken, setTokenCookie } from '../app/api/models/User';
+import { getClientIP } from '../middleware/rateLimiting';
+import connectToDatabase from './db';
+import { logBusiness } from './logger';
+import { isTwoFactorRequired } from './twoFactor';
+
+export const REFRESH_COOKIE_NAME = 'refresh_token';
+
+// A session ends when it goes this long without a refresh
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// How long a just-replaced refresh token is still accepted, for requests that raced the rotation
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export type SessionRevokeReason = typeof SESSION_REVOKE_REASONS[number];
+
+// Raised when a refresh token cannot be used; the session, if any, is over
+export class SessionError extends Error {
+    constructor(message: string, public status = 401) {
+        super(message);
+        this.name = 'SessionError';
+    }
+}
+
+export interface SessionTokens {
+    accessToken: string;
+    // <session id>.<secret>; only the hash of the secret is stored
+    refreshToken: string;
+}
+
+export interface SessionRefresh {
+    userId: string;
+    sessionId: string;
+    // New tokens to set, or null when the refresh raced another one that already rotated them
+    tokens: SessionTokens | null;
+}
+
+// A signed-in device, as shown to its owner and to admins
+export interface ActiveSession {
+    _id: string;
+    device: string;
+    ip?: string;
+    createdAt: Date;
+    lastUsedAt: Date;
+    current: boolean;
+}
+
+interface AccessTokenClaims {
+    userId: string;
+    sessionId: string;
+}
+
+const hashSecret = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+const newSecret = (): string => crypto.randomBytes(32).toString('hex');
+
+const sessionExpiry = (): Date => new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+
+const getSecretKey = () => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET environment variable is not set');
+    }
+    return new TextEncoder().encode(secret);
+};
+
+const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+    const [sessionId, secret, ...rest] = refreshToken.split('.');
+    if (rest.length || !secret || !mongoose.Types.ObjectId.isValid(sessionId)) {
+        return null;
+    }
+    return { sessionId, secret };
+};
+
+/**
+ * Device details of a request, as stored on sessions and sign-in records
+ * @param req - Incoming request
+ * @returns User agent and client IP
+ */
+export const getRequestDetails = (req: NextRequest) => ({
+    userAgent: req.headers.get('user-agent')?.slice(0, 500) || undefined,
+    ip: getClientIP(req),
+});
+
+const BROWSERS: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\/|FxiOS/, 'Firefox'],
+    [/Chrome\/|CriOS/, 'Chrome'],
+    [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Android/, 'Android'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/CrOS/, 'ChromeOS'],
+    [/Linux/, 'Linux'],
+];
+
+/**
+ * Name the browser and platform of a user agent, for people to recognise their devices
+ * @param userAgent - User agent header
+ * @returns For example "Chrome on Windows"
+ */
+export const describeUserAgent = (userAgent?: string): string => {
+    if (!userAgent) {
+        return 'Unknown device';
+    }
+
+    const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) {
+        return `${browser} on ${platform}`;
+    }
+    return browser || platform || 'Unknown device';
+};
+
+/**
+ * Sign a user in on a new device
+ * @param user - User signing in
+ * @param req - Sign-in request, for the device details
+ * @returns Access and refresh tokens
+ */
+export const startSession = async (
+    user: { _id: mongoose.Types.ObjectId | string; role: string },
+    req: NextRequest
+): Promise<SessionTokens & { sessionId: string }> => {
+    const secret = newSecret();
+    const session = await Session.create({
+        user: user._id,
+        tokenHash: hashSecret(secret),
+        expiresAt: sessionExpiry(),
+        ...getRequestDetails(req),
+    });
+
+    const sessionId = session._id.toString();
+
+    return {
+        sessionId,
+        accessToken: await createToken(user._id.toString(), sessionId, user.role),
+        refreshToken: `${sessionId}.${secret}`,
+    };
+};
+
+/**
+ * Trade a refresh token for new tokens. The refresh token is rotated: presenting an old one again
+ * means it was copied, and ends the whole session.
+ * @param refreshToken - Refresh token from the cookie
+ * @param req - Refresh request, for the device details
+ * @returns The session's user and the new tokens
+ * @throws SessionError when the token is unknown, expired, revoked or reused, or the user must first set up two-factor authentication
+ */
+export const refreshSession = async (refreshToken: string, req: NextRequest): Promise<SessionRefresh> => {
+    await connectToDatabase();
+
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+        throw new SessionError('Invalid refresh token');
+    }
+
+    const session = await Session.findById(parsed.sessionId);
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+        throw new SessionError('Your session has expired, please sign in again');
+    }
+
+    const user = await User.findById(session.user).select('role active twoFactorEnabled');
+    if (!user || !user.active) {
+        throw new SessionError('Your session has expired, please sign in again');
+    }
+
+    // Sessions started before two-factor became mandatory for the role end here, so the user has to set it up
+    if (!user.twoFactorEnabled && await isTwoFactorRequired(user)) {
+        await revokeSession(session._id, 'two_factor_required');
+        logBusiness('Session ended until two-factor authentication is set up', 'Auth', {
+            userId: user._id.toString(),
+            sessionId: session._id.toString(),
+        });
+        throw new SessionError('Two-factor authentication is now required, please sign in again to set it up');
+    }
+
+    const hash = hashSecret(parsed.secret);
+    const sessionId = session._id.toString();
+    const userId = user._id.toString();
+
+    if (hash === session.tokenHash) {
+        const secret = newSecret();
+        const now = new Date();
+
+        // Only the request that still sees the presented hash rotates it
+        const rotated = await Session.findOneAndUpdate(
+            { _id: session._id, tokenHash: hash, revokedAt: { $exists: false } },
+            {
+                $set: {
+                    tokenHash: hashSecret(secret),
+                    previousTokenHash: hash,
+                    rotatedAt: now,
+                    lastUsedAt: now,
+                    expiresAt: sessionExpiry(),
+                    ...getRequestDetails(req),
+                },
+            }
+        );
+
+        if (rotated) {
+            return {
+                userId,
+                sessionId,
+                tokens: {
+                    accessToken: await createToken(userId, sessionId, user.role),
+                    refreshToken: `${sessionId}.${secret}`,
+                },
+            };
+        }
+
+        // Another request rotated it first; it is now the previous token
+        return { userId, sessionId, tokens: null };
+    }
+
+    if (
+        hash === session.previousTokenHash &&
+        session.rotatedAt &&
+        Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS
+    ) {
+        return { userId, sessionId, tokens: null };
+    }
+
+    await revokeSession(sessionId, 'token_reuse');
+    logBusiness('Refresh token reuse detected, session revoked', 'Auth', { userId, sessionId });
+
+    throw new SessionError('Your session has been ended for security reasons, please sign in again');
+};
+
+/**
+ * Read an access token, checking that its session is still open
+ * @param token - Access token
+ * @returns The user and session, or null when the token is invalid, expired or its session has ended
+ */
+export const verifyAccessToken = async (token: string): Promise<AccessTokenClaims | null> => {
+    try {
+        const { payload } = await jwtVerify(token, getSecretKey());
+        if (typeof payload.id !== 'string' || typeof payload.sid !== 'string') {
+            return null;
+        }
+
+        await connectToDatabase();
+        const open = await Session.exists({
+            _id: payload.sid,
+            user: payload.id,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        });
+
+        return open ? { userId: payload.id, sessionId: payload.sid } : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Find the session a request belongs to, from its access token or else its refresh token
+ * @param req - Incoming request
+ * @returns Session id, or null when the request carries neither
+ */
+export const getRequestSessionId = async (req: NextRequest): Promise<string | null> => {
+    const accessToken = req.cookies.get(ACCESS_COOKIE_NAME)?.value;
+    if (accessToken) {
+        const claims = await verifyAccessToken(accessToken);
+        if (claims) {
+            return claims.sessionId;
+        }
+    }
+
+    const parsed = parseRefreshToken(req.cookies.get(REFRESH_COOKIE_NAME)?.value || '');
+    if (!parsed) {
+        return null;
+    }
+
+    // The secret must match, so a session cannot be ended by someone who only knows its id
+    await connectToDatabase();
+    const hash = hashSecret(parsed.secret);
+    const session = await Session.exists({
+        _id: parsed.sessionId,
+        $or: [{ tokenHash: hash }, { previousTokenHash: hash }],
+    });
+
+    return session ? parsed.sessionId : null;
+};
+
+/**
+ * End one session; its tokens stop working straight away
+ * @param sessionId - Session to end
+ * @param reason - Why it ended
+ */
+export const revokeSession = async (sessionId: mongoose.Types.ObjectId | string, reason: SessionRevokeReason): Promise<void> => {
+    await Session.updateOne(
+        { _id: sessionId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+};
+
+/**
+ * List the sessions a user is signed in with, most recently used first
+ * @param userId - Signed-in user
+ * @param currentSessionId - Session of the request, flagged as current
+ * @returns Open sessions
+ */
+export const listUserSessions = async (
+    userId: mongoose.Types.ObjectId | string,
+    currentSessionId?: string | null
+): Promise<ActiveSession[]> => {
+    const sessions = await Session.find({
+        user: userId,
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+    })
+        .sort({ lastUsedAt: -1 })
+        .select('userAgent ip createdAt lastUsedAt')
+        .lean<{ _id: mongoose.Types.ObjectId; userAgent?: string; ip?: string; createdAt: Date; lastUsedAt: Date }[]>();
+
+    return sessions.map((session) => ({
+        _id: session._id.toString(),
+        device: describeUserAgent(session.userAgent),
+        ip: session.ip,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: session._id.toString() === currentSessionId,
+    }));
+};
+
+/**
+ * End one session of a user, checking that it is theirs
+ * @param userId - Owner of the session
+ * @param sessionId - Session to end
+ * @param reason - Why it ended
+ * @returns Whether an open session was ended
+ */
+export const revokeUserSession = async (
+    userId: mongoose.Types.ObjectId | string,
+    sessionId: string,
+    reason: SessionRevokeReason
+): Promise<boolean> => {
+    if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+        return false;
+    }
+
+    const result = await Session.updateOne(
+        { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    if (result.modifiedCount) {
+        logBusiness('Session revoked', 'Auth', { userId: userId.toString(), sessionId, reason });
+    }
+
+    return result.modifiedCount > 0;
+};
+
+/**
+ * End every session of a user
+ * @param userId - User to sign out
+ * @param reason - Why the sessions ended
+ * @returns Number of sessions ended
+ */
+export const revokeUserSessions = async (userId: mongoose.Types.ObjectId | string, reason: SessionRevokeReason): Promise<number> => {
+    const result = await Session.updateMany(
+        { user: userId, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+        { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+
+    logBusiness('User sessions revoked', 'Auth', { userId: userId.toString(), reason, count: result.modifiedCount });
+
+    return result.modifiedCount;
+};
+
+/**
+ * Delete sessions that have run out; revoked sessions are kept until then
+ * @returns Number of sessions deleted
+ */
+export const purgeExpiredSessions = async (): Promise<number> => {
+    await connectToDatabase();
+    const result = await Session.deleteMany({ expiresAt: { $lte: new Date() } });
+    return result.deletedCount;
+};
+
+/**
+ * Set the access and refresh token cookies of a session
+ * @param response - Response to set the cookies on
+ * @param tokens - Session tokens
+ * @returns The response
+ */
+export const setSessionCookies = (response: NextResponse, tokens: SessionTokens): NextResponse => {
+    setTokenCookie(response, tokens.accessToken);
+    response.cookies.set({
+        name: REFRESH_COOKIE_NAME,
+        value: tokens.refreshToken,
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'strict',
+        maxAge: SESSION_TTL_SECONDS,
+        // Only API routes need it
+        path: '/api',
+    });
+    return response;
+};
+
+/**
+ * Remove the session cookies, signing the browser out
+ * @param response - Response to clear the cookies on
+ * @returns The response
+ */
+export const clearSessionCookies = (response: NextResponse): NextResponse => {
+    response.cookies.set({ name: ACCESS_COOKIE_NAME, value: '', maxAge: 0, path: '/' });
+    response.cookies.set({ name: REFRESH_COOKIE_NAME, value: '', maxAge: 0, path: '/api' });
+    return response;
+};
@@ -0,0 +1,339 @@
+import mongoose from 'mongoose';
+import Order from '../app/api/models/Order';
+import Settings, { CarrierSetting, CarrierSettingsValue, DEFAULT_CARRIER_SETTINGS } from '../app/api/models/Settings';
+import Shipment from '../app/api/models/Shipment';
+import { OrderStatus } from '../app/types/orders';
+import { notifyOrder } from './mail/orderEmails';
+import { canTransitionOrderStatus } from './orderStatus';
+
+export const CARRIER_SETTINGS_NAME = 'carriers';
+
+// Placeholder in a carrier's tracking URL template
+export const TRACKING_NUMBER_PLACEHOLDER = '{trackingNumber}';
+
+// Orders that can still send out parcels
+export const SHIPPABLE_ORDER_STATUSES: OrderStatus[] = ['processing', 'partially_shipped'];
+
+const CARRIER_CODE_PATTERN = /^[a-z0-9_-]{1,30}$/;
+
+// Raised when a shipment cannot be recorded; the message is safe to show the admin
+export class ShipmentError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'ShipmentError';
+    }
+}
+
+interface OrderLine {
+    product: mongoose.Types.ObjectId;
+    name: string;
+    quantity: number;
+    color?: string;
+    size?: string;
+}
+
+interface ShipmentRecord {
+    status: string;
+    items: { orderItemIndex: number; quantity: number }[];
+}
+
+export interface RequestedShipmentItem {
+    orderItemIndex: number;
+    quantity: number;
+}
+
+export interface ShipmentInput {
+    carrier: string;
+    trackingNumber?: string;
+    notes?: string;
+    // Lines and units in the parcel; everything not yet shipped when left empty
+    items?: RequestedShipmentItem[];
+}
+
+/**
+ * Validate carrier settings submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateCarrierSettings = (value: Partial<CarrierSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (!Array.isArray(value.carriers) || value.carriers.length === 0) {
+        errors.carriers = 'Add at least one carrier';
+        return errors;
+    }
+
+    const codes = new Set<string>();
+    value.carriers.forEach((carrier, index) => {
+        if (typeof carrier.code !== 'string' || !CARRIER_CODE_PATTERN.test(carrier.code)) {
+            errors[`carriers.${index}.code`] = 'Code must be up to 30 lowercase letters, digits, dashes or underscores';
+        } else if (codes.has(carrier.code)) {
+            errors[`carriers.${index}.code`] = 'Carrier codes must be unique';
+        }
+        codes.add(carrier.code);
+
+        if (typeof carrier.name !== 'string' || !carrier.name.trim() || carrier.name.length > 50) {
+            errors[`carriers.${index}.name`] = 'Name is required and cannot exceed 50 characters';
+        }
+        if (typeof carrier.trackingUrlTemplate !== 'string' || carrier.trackingUrlTemplate.length > 300) {
+            errors[`carriers.${index}.trackingUrlTemplate`] = 'Tracking URL cannot exceed 300 characters';
+        } else if (
+            carrier.trackingUrlTemplate &&
+            (!/^https?:\/\//.test(carrier.trackingUrlTemplate) ||
+                !carrier.trackingUrlTemplate.includes(TRACKING_NUMBER_PLACEHOLDER))
+        ) {
+            errors[`carriers.${index}.trackingUrlTemplate`] =
+                `Tracking URL must start with http(s):// and contain ${TRACKING_NUMBER_PLACEHOLDER}`;
+        }
+        if (typeof carrier.active !== 'boolean') {
+            errors[`carriers.${index}.active`] = 'Choose whether the carrier is active';
+        }
+    });
+
+    return errors;
+};
+
+/**
+ * Load the configured carriers, falling back to the defaults
+ * @returns Carrier settings
+ */
+export const getCarrierSettings = async (): Promise<CarrierSettingsValue> => {
+    const settings = await Settings.findOne({ name: CARRIER_SETTINGS_NAME }).lean<{ value?: Partial<CarrierSettingsValue> }>();
+    return { ...DEFAULT_CARRIER_SETTINGS, ...settings?.value };
+};
+
+/**
+ * Fill a carrier's tracking URL template
+ * @param carrier - Carrier the parcel ships with
+ * @param trackingNumber - Parcel tracking number
+ * @returns The tracking URL, or undefined when the carrier has no template or there is no number
+ */
+export const buildTrackingUrl = (carrier: Pick<CarrierSetting, 'trackingUrlTemplate'>, trackingNumber?: string): string | undefined => {
+    if (!carrier.trackingUrlTemplate || !trackingNumber) {
+        return undefined;
+    }
+    return carrier.trackingUrlTemplate.split(TRACKING_NUMBER_PLACEHOLDER).join(encodeURIComponent(trackingNumber));
+};
+
+/**
+ * Units of each order line already packed into a parcel
+ * @param shipments - The order's shipments
+ * @returns Shipped units by order item index
+ */
+export const getShippedQuantities = (shipments: ShipmentRecord[]): Map<number, number> => {
+    const shipped = new Map<number, number>();
+    shipments.forEach((shipment) => {
+        shipment.items.forEach((item) => {
+            shipped.set(item.orderItemIndex, (shipped.get(item.orderItemIndex) || 0) + item.quantity);
+        });
+    });
+    return shipped;
+};
+
+/**
+ * Works out the order status its parcels stand for
+ * @param items - Order lines
+ * @param shipments - The order's shipments
+ * @returns delivered once every unit has shipped and every parcel arrived, shipped once every unit has shipped,
+ * partially_shipped while some have, or null before the first parcel
+ */
+export const deriveShipmentStatus = (items: { quantity: number }[], shipments: ShipmentRecord[]): OrderStatus | null => {
+    if (shipments.length === 0) {
+        return null;
+    }
+
+    const shipped = getShippedQuantities(shipments);
+    const allShipped = items.every((item, index) => (shipped.get(index) || 0) >= item.quantity);
+
+    if (!allShipped) {
+        return 'partially_shipped';
+    }
+    return shipments.every((shipment) => shipment.status === 'delivered') ? 'delivered' : 'shipped';
+};
+
+// Moves the order to the status its parcels stand for, recording the change in its history
+const applyShipmentStatus = (
+    order: { items: { quantity: number }[]; status: OrderStatus; statusHistory: unknown[]; isDelivered?: boolean; deliveredAt?: Date },
+    shipments: ShipmentRecord[],
+    userId: mongoose.Types.ObjectId | string,
+    note: string
+) => {
+    const status = deriveShipmentStatus(order.items, shipments);
+    if (!status || status === order.status || !canTransitionOrderStatus(order.status, status)) {
+        return;
+    }
+
+    const now = new Date();
+    order.statusHistory.push({ status, from: order.status, changedBy: userId, note, changedAt: now });
+    order.status = status;
+
+    if (status === 'delivered') {
+        order.isDelivered = true;
+        order.deliveredAt = now;
+    }
+};
+
+// Runs a shipment change in a transaction; the order is rewritten each time,
+// so concurrent changes to the same order conflict instead of missing each other's parcels
+const inOrderTransaction = async <T>(work: (session: mongoose.ClientSession) => Promise<T>): Promise<T> => {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+        const result = await work(session);
+        await session.commitTransaction();
+        return result;
+    } catch (error) {
+        await session.abortTransaction();
+        throw error;
+    } finally {
+        session.endSession();
+    }
+};
+
+/**
+ * Records a parcel leaving the warehouse and moves the order to partially shipped or shipped
+ * @param orderId - Order the parcel belongs to
+ * @param input - Carrier, tracking number and the units in the parcel
+ * @param userId - Admin recording the shipment
+ * @returns The new shipment
+ * @throws ShipmentError when the order cannot ship or the units are not left to ship
+ */
+export const createShipment = async (
+    orderId: mongoose.Types.ObjectId | string,
+    input: ShipmentInput,
+    userId: mongoose.Types.ObjectId | string
+) => {
+    const { carriers } = await getCarrierSettings();
+    const carrier = carriers.find((c) => c.code === input.carrier && c.active);
+    if (!carrier) {
+        throw new ShipmentError('Choose one of the active carriers');
+    }
+
+    const trackingNumber = input.trackingNumber?.trim() || undefined;
+
+    const shipment = await inOrderTransaction(async (session) => {
+        const order = await Order.findOneAndUpdate(
+            { _id: orderId },
+            { $inc: { shipmentCount: 1 } },
+            { new: true, session }
+        );
+
+        if (!order) {
+            throw new ShipmentError('Order not found', 404);
+        }
+        if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+            throw new ShipmentError(`Cannot ship an order that is ${order.status.replace(/_/g, ' ')}`);
+        }
+
+        const existing: ShipmentRecord[] = await Shipment.find({ order: order._id }).session(session).lean<ShipmentRecord[]>();
+        const shipped = getShippedQuantities(existing);
+        const lines: OrderLine[] = order.items;
+
+        const requested = input.items && input.items.length > 0
+            ? input.items
+            : lines.map((line, index) => ({ orderItemIndex: index, quantity: line.quantity - (shipped.get(index) || 0) }))
+                .filter((item) => item.quantity > 0);
+
+        const items = requested.map((item) => {
+            const index = Number(item.orderItemIndex);
+            const quantity = Number(item.quantity);
+            const line = lines[index];
+
+            if (!line) {
+                throw new ShipmentError('Order item not found');
+            }
+
+            const remaining = line.quantity - (shipped.get(index) || 0);
+            if (!Number.isInteger(quantity) || quantity < 1 || quantity > remaining) {
+                throw new ShipmentError(remaining > 0
+                    ? `You can ship between 1 and ${remaining} of ${line.name}`
+                    : `${line.name} has already been shipped`);
+            }
+            shipped.set(index, (shipped.get(index) || 0) + quantity);
+
+            return {
+                orderItemIndex: index,
+                product: line.product,
+                name: line.name,
+                color: line.color,
+                size: line.size,
+                quantity,
+            };
+        });
+
+        if (items.length === 0) {
+            throw new ShipmentError('Every item of this order has already been shipped');
+        }
+
+        const [shipment] = await Shipment.create(
+            [{
+                order: order._id,
+                packageNumber: order.shipmentCount,
+                carrier: carrier.code,
+                carrierName: carrier.name,
+                trackingNumber,
+                trackingUrl: buildTrackingUrl(carrier, trackingNumber),
+                items,
+                notes: input.notes,
+                createdBy: userId,
+            }],
+            { session }
+        );
+
+        applyShipmentStatus(order, [...existing, shipment], userId, `Package ${shipment.packageNumber} shipped with ${carrier.name}`);
+        await order.save({ session });
+
+        return shipment;
+    });
+
+    await notifyOrder(orderId, 'shipped', { shipmentId: shipment._id });
+    return shipment;
+};
+
+/**
+ * Marks a parcel as delivered; the order becomes delivered once all of its units have arrived
+ * @param orderId - Order the parcel belongs to
+ * @param shipmentId - Parcel that arrived
+ * @param userId - Admin recording the delivery
+ * @returns The updated shipment
+ * @throws ShipmentError when the parcel does not exist or was already delivered
+ */
+export const markShipmentDelivered = async (
+    orderId: mongoose.Types.ObjectId | string,
+    shipmentId: mongoose.Types.ObjectId | string,
+    userId: mongoose.Types.ObjectId | string
+) => {
+    const { shipment, orderStatus } = await inOrderTransaction(async (session) => {
+        const shipment = await Shipment.findOneAndUpdate(
+            { _id: shipmentId, order: orderId, status: 'shipped' },
+            { $set: { status: 'delivered', deliveredAt: new Date() } },
+            { new: true, session }
+        );
+
+        if (!shipment) {
+            const exists = await Shipment.exists({ _id: shipmentId, order: orderId }).session(session);
+            throw exists
+                ? new ShipmentError('This package has already been delivered')
+                : new ShipmentError('Shipment not found', 404);
+        }
+
+        // An empty update still sets updatedAt, so the order is written inside the transaction
+        const order = await Order.findOneAndUpdate({ _id: orderId }, {}, { new: true, session });
+        if (!order) {
+            throw new ShipmentError('Order not found', 404);
+        }
+
+        const shipments: ShipmentRecord[] = await Shipment.find({ order: orderId }).session(session).lean<ShipmentRecord[]>();
+        applyShipmentStatus(order, shipments, userId, `Package ${shipment.packageNumber} delivered`);
+        const orderStatus: OrderStatus = order.status;
+        await order.save({ session });
+
+        return { shipment, orderStatus };
+    });
+
+    if (orderStatus === 'delivered') {
+        await notifyOrder(orderId, 'delivered');
+    }
+    return shipment;
+};
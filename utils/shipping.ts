@@ -0,0 +1,358 @@
+import mongoose from 'mongoose';
+import Product from '../app/api/models/Product';
+import ShippingZone, { SHIPPING_METHOD_TYPES, SHIPPING_ZONE_EDITABLE_FIELDS } from '../app/api/models/ShippingZone';
+import { ShippingEstimate, ShippingQuote } from '../app/types/shipping';
+import { roundCurrency } from './pricing';
+
+export type ShippingMethodType = typeof SHIPPING_METHOD_TYPES[number];
+
+interface RateTierRecord {
+    min: number;
+    rate: number;
+}
+
+interface ShippingMethodRecord {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    type: ShippingMethodType;
+    rate: number;
+    tiers: RateTierRecord[];
+    freeShippingThreshold?: number;
+    estimatedDays?: ShippingEstimate;
+    active: boolean;
+}
+
+interface ShippingZoneRecord {
+    _id: mongoose.Types.ObjectId;
+    name: string;
+    countries: string[];
+    states: string[];
+    postalCodes: string[];
+    priority: number;
+    methods: ShippingMethodRecord[];
+    active: boolean;
+}
+
+// The parts of the order shipping address zones are matched on
+export interface ShippingAddress {
+    country: string;
+    state?: string;
+    postalCode?: string;
+}
+
+// A cart or order line the shipping rate is calculated for
+export interface ShippingLine {
+    product: mongoose.Types.ObjectId | string;
+    quantity: number;
+    totalPrice: number;
+}
+
+// A priced shipping method, stored on the order as its shipping method
+export interface ShippingRate {
+    zone?: mongoose.Types.ObjectId;
+    zoneName: string;
+    method: string;
+    name: string;
+    type: ShippingMethodType;
+    price: number;
+    estimatedDays?: ShippingEstimate;
+}
+
+// Raised when an address cannot be shipped to; the message is safe to show the shopper
+export class ShippingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShippingError';
+    }
+}
+
+// Used until an admin sets up shipping zones, so a fresh store can still take orders.
+// Like every zone method, it ships free only when the subtotal is strictly above the threshold (free over $100).
+export const DEFAULT_SHIPPING_METHOD = {
+    id: 'standard',
+    name: 'Standard Shipping',
+    zoneName: 'Default',
+    rate: 10,
+    freeShippingThreshold: 100,
+    estimatedDays: { min: 5, max: 7 },
+} as const;
+
+const WEIGHT_UNITS_IN_KG: Record<string, number> = {
+    kg: 1,
+    kgs: 1,
+    g: 0.001,
+    gr: 0.001,
+    lb: 0.45359237,
+    lbs: 0.45359237,
+    oz: 0.028349523,
+};
+
+/**
+ * Reads a product weight entered as free text
+ * @param weight - Weight such as "1.5 kg", "500g" or "2 lbs"; bare numbers are taken as kilograms
+ * @returns Weight in kilograms, or 0 when it is missing or cannot be read
+ */
+export const parseWeightKg = (weight?: string | number | null): number => {
+    if (typeof weight === 'number') {
+        return weight > 0 ? weight : 0;
+    }
+    if (!weight) {
+        return 0;
+    }
+
+    const match = weight.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/);
+    if (!match) {
+        return 0;
+    }
+
+    const factor = match[2] ? WEIGHT_UNITS_IN_KG[match[2]] : 1;
+    return factor ? parseFloat(match[1]) * factor : 0;
+};
+
+// Compare codes without case or spacing differences ("sw1a 1aa" matches "SW1A1AA")
+const normalizeCode = (value: string): string => value.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Checks a postal code against a zone pattern
+ * @param postalCode - Postal code from the address
+ * @param pattern - Pattern where `*` matches any run of characters
+ * @returns true when the code matches the pattern
+ */
+export const matchesPostalCode = (postalCode: string, pattern: string): boolean => {
+    const source = normalizeCode(pattern)
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+
+    return new RegExp(`^${source}$`).test(normalizeCode(postalCode));
+};
+
+const zoneCoversAddress = (zone: ShippingZoneRecord, address: ShippingAddress): boolean => {
+    if (zone.countries.length > 0 && !zone.countries.includes(address.country.toUpperCase())) {
+        return false;
+    }
+
+    if (zone.states.length > 0) {
+        const state = (address.state || '').trim().toLowerCase();
+        if (!zone.states.some((zoneState) => zoneState.toLowerCase() === state)) {
+            return false;
+        }
+    }
+
+    if (zone.postalCodes.length > 0) {
+        const postalCode = address.postalCode || '';
+        if (!zone.postalCodes.some((pattern) => matchesPostalCode(postalCode, pattern))) {
+            return false;
+        }
+    }
+
+    return true;
+};
+
+// Rate of the highest tier the value reaches
+const findTierRate = (tiers: RateTierRecord[], value: number): number | null => {
+    const tier = [...tiers].sort((a, b) => b.min - a.min).find((candidate) => value >= candidate.min);
+    return tier ? tier.rate : null;
+};
+
+/**
+ * Calculates the price of a shipping method for a parcel
+ * @param method - Method with its rate, tiers and free shipping threshold; free only for subtotals above it
+ * @param parcel - Items subtotal before coupon discounts and total weight in kilograms
+ * @returns Shipping price rounded to cents, or null when the parcel falls outside the rate table
+ */
+export const calculateMethodPrice = (
+    method: Pick<ShippingMethodRecord, 'type' | 'rate' | 'tiers' | 'freeShippingThreshold'>,
+    parcel: { itemsPrice: number; weightKg: number }
+): number | null => {
+    if (typeof method.freeShippingThreshold === 'number' && parcel.itemsPrice > method.freeShippingThreshold) {
+        return 0;
+    }
+
+    switch (method.type) {
+        case 'flat':
+            return roundCurrency(method.rate);
+        case 'weight': {
+            const tierRate = findTierRate(method.tiers, parcel.weightKg);
+            return tierRate === null ? null : roundCurrency(method.rate + tierRate);
+        }
+        case 'price_tier': {
+            const tierRate = findTierRate(method.tiers, parcel.itemsPrice);
+            return tierRate === null ? null : roundCurrency(tierRate);
+        }
+        default:
+            return null;
+    }
+};
+
+// Total parcel weight, using the free-text weight saved on each product
+const calculateParcelWeight = async (lines: ShippingLine[]): Promise<number> => {
+    const products = await Product.find({
+        _id: { $in: lines.map((line) => line.product) },
+    }).select('weight').lean<Array<{ _id: mongoose.Types.ObjectId; weight?: string }>>();
+
+    const weightByProduct = new Map(products.map((product) => [product._id.toString(), parseWeightKg(product.weight)]));
+
+    return lines.reduce((sum, line) => sum + (weightByProduct.get(line.product.toString()) || 0) * line.quantity, 0);
+};
+
+/**
+ * Lists the shipping methods available for an address, cheapest first
+ * The first active zone covering the address, by priority, supplies the methods.
+ * @param address - Shipping country, state and postal code
+ * @param lines - Lines being shipped
+ * @returns Priced methods for the address
+ * @throws ShippingError when zones are set up but none ships to the address
+ */
+export const getShippingRates = async (address: ShippingAddress, lines: ShippingLine[]): Promise<ShippingRate[]> => {
+    const itemsPrice = roundCurrency(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+    const zones = await ShippingZone.find({ active: true })
+        .sort({ priority: -1, createdAt: 1 })
+        .lean<ShippingZoneRecord[]>();
+
+    if (zones.length === 0) {
+        const method = DEFAULT_SHIPPING_METHOD;
+        return [{
+            zoneName: method.zoneName,
+            method: method.id,
+            name: method.name,
+            type: 'flat',
+            price: itemsPrice > method.freeShippingThreshold ? 0 : method.rate,
+            estimatedDays: { ...method.estimatedDays },
+        }];
+    }
+
+    const zone = zones.find((candidate) => zoneCoversAddress(candidate, address));
+    if (!zone) {
+        throw new ShippingError('We do not ship to this address yet');
+    }
+
+    const methods = zone.methods.filter((method) => method.active);
+    const needsWeight = methods.some((method) => method.type === 'weight');
+    const parcel = {
+        itemsPrice,
+        weightKg: needsWeight ? await calculateParcelWeight(lines) : 0,
+    };
+
+    const rates: ShippingRate[] = [];
+    methods.forEach((method) => {
+        const price = calculateMethodPrice(method, parcel);
+        if (price === null) return;
+
+        rates.push({
+            zone: zone._id,
+            zoneName: zone.name,
+            method: method._id.toString(),
+            name: method.name,
+            type: method.type,
+            price,
+            estimatedDays: method.estimatedDays,
+        });
+    });
+
+    if (rates.length === 0) {
+        throw new ShippingError('No shipping method is available for this address and order');
+    }
+
+    return rates.sort((a, b) => a.price - b.price);
+};
+
+/**
+ * Prices the shipping method chosen for an order
+ * @param address - Shipping country, state and postal code
+ * @param lines - Lines being shipped
+ * @param methodId - Chosen method; the cheapest one is used when omitted
+ * @returns The priced method
+ * @throws ShippingError when the address cannot be shipped to or the method is not offered for it
+ */
+export const quoteShippingMethod = async (
+    address: ShippingAddress,
+    lines: ShippingLine[],
+    methodId?: string
+): Promise<ShippingRate> => {
+    const rates = await getShippingRates(address, lines);
+
+    if (!methodId) {
+        return rates[0];
+    }
+
+    const rate = rates.find((candidate) => candidate.method === methodId);
+    if (!rate) {
+        throw new ShippingError('The selected shipping method is not available for this address');
+    }
+
+    return rate;
+};
+
+/**
+ * Shape of a shipping rate sent to the storefront
+ * @param rate - Priced method
+ * @returns Quote without internal ids
+ */
+export const toShippingQuote = (rate: ShippingRate): ShippingQuote => ({
+    id: rate.method,
+    name: rate.name,
+    type: rate.type,
+    price: rate.price,
+    estimatedDays: rate.estimatedDays,
+    zoneName: rate.zoneName,
+});
+
+// Validator.sanitizeInput turns arrays into index-keyed objects
+const toArray = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value;
+    return value && typeof value === 'object' ? Object.values(value) : [];
+};
+
+const toOptionalNumber = (value: unknown): number | undefined => {
+    return value === '' || value === null || value === undefined ? undefined : Number(value);
+};
+
+/**
+ * Picks the admin-editable zone fields from a request body
+ * @param data - Sanitized request body
+ * @returns Fields to set on the zone
+ */
+export const pickShippingZoneFields = (data: Record<string, unknown>): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+
+    SHIPPING_ZONE_EDITABLE_FIELDS.forEach((field) => {
+        if (!(field in data)) return;
+
+        const value = data[field];
+
+        if (field === 'countries' || field === 'states' || field === 'postalCodes') {
+            fields[field] = toArray(value).filter((entry) => typeof entry === 'string' && entry.trim() !== '');
+            return;
+        }
+
+        if (field === 'methods') {
+            fields[field] = toArray(value).map((entry) => {
+                const method = (entry || {}) as Record<string, unknown>;
+                const estimatedDays = (method.estimatedDays || {}) as Record<string, unknown>;
+
+                return {
+                    ...(method._id ? { _id: method._id } : {}),
+                    name: method.name,
+                    type: method.type,
+                    rate: toOptionalNumber(method.rate) ?? 0,
+                    tiers: toArray(method.tiers).map((tier) => {
+                        const { min, rate } = (tier || {}) as Record<string, unknown>;
+                        return { min: toOptionalNumber(min), rate: toOptionalNumber(rate) };
+                    }),
+                    freeShippingThreshold: toOptionalNumber(method.freeShippingThreshold),
+                    estimatedDays: {
+                        min: toOptionalNumber(estimatedDays.min),
+                        max: toOptionalNumber(estimatedDays.max),
+                    },
+                    active: method.active !== false,
+                };
+            });
+            return;
+        }
+
+        fields[field] = value === '' || value === null ? undefined : value;
+    });
+
+    return fields;
+};
@@ -0,0 +1,74 @@
+import mongoose from 'mongoose';
+import { NextRequest, NextResponse } from 'next/server';
+import { ACCESS_TOKEN_TTL_SECONDS } from '../app/api/models/User';
+import { clearFailedLogins } from './accountLockout';
+import { ApiResponseHelper } from './apiResponse';
+import { claimGuestCart, claimGuestOrders, clearGuestCookie, readGuestId } from './guest';
+import { recordLoginEvent } from './loginHistory';
+import { getRolePermissions } from './roles';
+import { setSessionCookies, startSession } from './sessions';
+
+interface SignInUser {
+    _id: mongoose.Types.ObjectId;
+    email: string;
+    role: string;
+    verified?: boolean;
+    failedLoginAttempts?: number;
+    lockedUntil?: Date;
+    toObject: () => Record<string, unknown>;
+}
+
+/**
+ * Finish signing a user in once every check has passed: claim their guest cart and, for verified accounts,
+ * guest orders placed with their email since, start a session and record the sign-in
+ * @param req - Sign-in request
+ * @param user - User whose credentials were accepted
+ * @param extra - More data for the response
+ * @returns Response carrying the session cookies
+ */
+export const completeSignIn = async (
+    req: NextRequest,
+    user: SignInUser,
+    extra: Record<string, unknown> = {}
+): Promise<NextResponse> => {
+    // A successful sign-in starts the failed attempt count again
+    if (user.failedLoginAttempts || user.lockedUntil) {
+        await clearFailedLogins(user._id);
+    }
+
+    // Carry over anything the shopper put in their cart before signing in
+    const guestId = await readGuestId(req);
+    if (guestId) {
+        await claimGuestCart(guestId, user._id);
+    }
+
+    // Guest checkouts with an already verified email are picked up at the next sign-in
+    await claimGuestOrders(user);
+
+    // Start a session: a short-lived access token and a refresh token that keeps it going
+    const session = await startSession(user, req);
+    await recordLoginEvent(req, { email: user.email, user: user._id, outcome: 'success', sessionId: session.sessionId });
+
+    // Remove password and token hashes from response
+    const userObj = user.toObject();
+    delete userObj.password;
+    delete userObj.resetPasswordToken;
+    delete userObj.verificationToken;
+    userObj.permissions = await getRolePermissions(user.role);
+
+    const response = NextResponse.json(
+        ApiResponseHelper.success(
+            { user: userObj, token: session.accessToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS, ...extra },
+            'Login successful'
+        )
+    );
+
+    // Both tokens go in httpOnly cookies, for customers and admins alike
+    setSessionCookies(response, session);
+
+    if (guestId) {
+        clearGuestCookie(response);
+    }
+
+    return response;
+};
@@ -0,0 +1,218 @@
+import mongoose from 'mongoose';
+import Category from '../app/api/models/Category';
+import Product from '../app/api/models/Product';
+import Settings, { DEFAULT_TAX_SETTINGS, TaxSettingsValue } from '../app/api/models/Settings';
+import TaxRate, { TAX_RATE_EDITABLE_FIELDS } from '../app/api/models/TaxRate';
+import { roundCurrency } from './pricing';
+
+export const TAX_SETTINGS_NAME = 'tax';
+
+// Class used by products and categories that do not name one
+export const DEFAULT_TAX_CLASS = 'standard';
+
+const TAX_CLASS_PATTERN = /^[a-z0-9_-]{1,30}$/;
+
+interface TaxRateRecord {
+    country: string;
+    state: string;
+    taxClass: string;
+    rate: number;
+}
+
+// Used until an admin sets up tax rates, so a fresh store keeps charging the 8% it charged before rates existed
+export const DEFAULT_TAX_RATE: TaxRateRecord = {
+    country: '',
+    state: '',
+    taxClass: DEFAULT_TAX_CLASS,
+    rate: 8,
+};
+
+// The parts of the order shipping address rates are matched on
+export interface TaxAddress {
+    country: string;
+    state?: string;
+}
+
+// A priced order line to tax
+export interface TaxLine {
+    product: mongoose.Types.ObjectId | string;
+    totalPrice: number;
+}
+
+// Tax charged on one order line
+export interface LineTax {
+    taxClass: string;
+    taxRate: number;
+    taxPrice: number;
+}
+
+export interface OrderTax {
+    lines: LineTax[];
+    shippingTaxPrice: number;
+    taxPrice: number;
+    pricesIncludeTax: boolean;
+}
+
+/**
+ * Validate tax settings submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateTaxSettings = (value: Partial<TaxSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (typeof value.pricesIncludeTax !== 'boolean') {
+        errors.pricesIncludeTax = 'Choose whether prices include tax';
+    }
+    if (typeof value.taxShipping !== 'boolean') {
+        errors.taxShipping = 'Choose whether shipping is taxed';
+    }
+    if (typeof value.shippingTaxClass !== 'string' || !TAX_CLASS_PATTERN.test(value.shippingTaxClass)) {
+        errors.shippingTaxClass = 'Tax class must be up to 30 letters, digits, dashes or underscores';
+    }
+
+    return errors;
+};
+
+/**
+ * Load the configured tax settings, falling back to the defaults
+ * @returns Tax settings
+ */
+export const getTaxSettings = async (): Promise<TaxSettingsValue> => {
+    const settings = await Settings.findOne({ name: TAX_SETTINGS_NAME }).lean<{ value?: Partial<TaxSettingsValue> }>();
+    return { ...DEFAULT_TAX_SETTINGS, ...settings?.value };
+};
+
+/**
+ * Picks the rate for a tax class at an address; a state rate beats a country rate, which beats a global one
+ * @param rates - Active rates
+ * @param address - Shipping country and state
+ * @param taxClass - Class of the item being taxed
+ * @returns Rate as a percentage, 0 when no rate applies
+ */
+export const findTaxRate = (rates: TaxRateRecord[], address: TaxAddress, taxClass: string): number => {
+    const country = address.country.toUpperCase();
+    const state = (address.state || '').trim().toLowerCase();
+
+    let best: { rate: number; specificity: number } | null = null;
+
+    for (const candidate of rates) {
+        if (candidate.taxClass !== taxClass) continue;
+        if (candidate.country && candidate.country !== country) continue;
+        if (candidate.state && candidate.state.toLowerCase() !== state) continue;
+
+        const specificity = candidate.state ? 2 : candidate.country ? 1 : 0;
+        if (!best || specificity > best.specificity) {
+            best = { rate: candidate.rate, specificity };
+        }
+    }
+
+    return best ? best.rate : 0;
+};
+
+/**
+ * Calculates the tax on an amount
+ * @param amount - Taxable amount
+ * @param rate - Rate as a percentage
+ * @param inclusive - Whether the amount already contains the tax
+ * @returns Tax rounded to cents
+ */
+export const calculateTaxAmount = (amount: number, rate: number, inclusive: boolean): number => {
+    if (amount <= 0 || rate <= 0) return 0;
+
+    return roundCurrency(inclusive ? amount - amount / (1 + rate / 100) : (amount * rate) / 100);
+};
+
+// Tax class of each product: its own, else its category's, else the default
+const resolveTaxClasses = async (lines: TaxLine[]): Promise<Map<string, string>> => {
+    const products = await Product.find({
+        _id: { $in: lines.map((line) => line.product) },
+    }).select('taxClass category').lean<Array<{ _id: mongoose.Types.ObjectId; taxClass?: string; category?: mongoose.Types.ObjectId }>>();
+
+    const categories = await Category.find({
+        _id: { $in: products.map((product) => product.category).filter(Boolean) },
+    }).select('taxClass').lean<Array<{ _id: mongoose.Types.ObjectId; taxClass?: string }>>();
+    const classByCategory = new Map(categories.map((category) => [category._id.toString(), category.taxClass]));
+
+    return new Map(
+        products.map((product) => [
+            product._id.toString(),
+            product.taxClass || classByCategory.get(product.category?.toString() || '') || DEFAULT_TAX_CLASS,
+        ])
+    );
+};
+
+/**
+ * Works out the tax on an order for its shipping address
+ * Each line is taxed on its price less its share of the coupon discount.
+ * @param address - Shipping country and state
+ * @param lines - Priced order lines
+ * @param amounts - Discount off the items and the shipping price actually charged
+ * @returns Tax per line, on shipping and in total
+ */
+export const calculateOrderTax = async (
+    address: TaxAddress,
+    lines: TaxLine[],
+    amounts: { discount?: number; shippingPrice?: number } = {}
+): Promise<OrderTax> => {
+    const [settings, activeRates, taxClasses] = await Promise.all([
+        getTaxSettings(),
+        TaxRate.find({ active: true }).select('country state taxClass rate').lean<TaxRateRecord[]>(),
+        resolveTaxClasses(lines),
+    ]);
+    const rates = activeRates.length > 0 ? activeRates : [DEFAULT_TAX_RATE];
+
+    const inclusive = settings.pricesIncludeTax;
+    const itemsPrice = lines.reduce((sum, line) => sum + line.totalPrice, 0);
+    const discount = amounts.discount || 0;
+
+    const lineTaxes = lines.map((line) => {
+        const taxClass = taxClasses.get(line.product.toString()) || DEFAULT_TAX_CLASS;
+        const taxRate = findTaxRate(rates, address, taxClass);
+        const share = itemsPrice > 0 ? line.totalPrice / itemsPrice : 0;
+        const taxable = line.totalPrice - share * discount;
+
+        return { taxClass, taxRate, taxPrice: calculateTaxAmount(taxable, taxRate, inclusive) };
+    });
+
+    const shippingTaxPrice = settings.taxShipping
+        ? calculateTaxAmount(
+            amounts.shippingPrice || 0,
+            findTaxRate(rates, address, settings.shippingTaxClass),
+            inclusive
+        )
+        : 0;
+
+    return {
+        lines: lineTaxes,
+        shippingTaxPrice,
+        taxPrice: roundCurrency(lineTaxes.reduce((sum, line) => sum + line.taxPrice, 0) + shippingTaxPrice),
+        pricesIncludeTax: inclusive,
+    };
+};
+
+/**
+ * Lists the tax classes in use, always including the default one
+ * @returns Sorted class names
+ */
+export const getTaxClasses = async (): Promise<string[]> => {
+    const classes: string[] = await TaxRate.distinct('taxClass');
+    return Array.from(new Set([DEFAULT_TAX_CLASS, ...classes])).sort();
+};
+
+/**
+ * Picks the admin-editable rate fields from a request body
+ * @param data - Sanitized request body
+ * @returns Fields to set on the rate
+ */
+export const pickTaxRateFields = (data: Record<string, unknown>): Record<string, unknown> => {
+    const fields: Record<string, unknown> = {};
+
+    TAX_RATE_EDITABLE_FIELDS.forEach((field) => {
+        if (field in data) {
+            fields[field] = data[field] === null ? undefined : data[field];
+        }
+    });
+
+    return fields;
+};
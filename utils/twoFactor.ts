@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { jwtVerify, SignJWT } from 'jose';
+import mongoose from 'mongoose';
+import Settings, { DEFAULT_TWO_FACTOR_SETTINGS, TwoFactorSettingsValue } from '../app/api/models/Settings';
+import User from '../app/api/models/User';
+import { logBusiness } from './logger';
+import { getEmailStore } from './mail/templateSettings';
+import { isStaffRole } from './permissions';
+
+export const TWO_FACTOR_SETTINGS_NAME = 'two-factor';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the codes either side of the current one, for clocks that are a little off
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// How long the second sign-in step may take after the password was accepted
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// What a challenge token allows: the second sign-in step, or setting up two-factor before it
+export type TwoFactorChallengePurpose = 'verify' | 'setup';
+
+// Raised when a two-factor step cannot be completed; the message is safe to show the user
+export class TwoFactorError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'TwoFactorError';
+    }
+}
+
+/**
+ * Validate the two-factor policy submitted by an admin
+ * @param value - Untrusted settings
+ * @returns Field errors, empty when valid
+ */
+export const validateTwoFactorSettings = (value: Partial<TwoFactorSettingsValue>): Record<string, string> => {
+    const errors: Record<string, string> = {};
+
+    if (typeof value.requireForAdmins !== 'boolean') {
+        errors.requireForAdmins = 'Choose whether admins must use two-factor authentication';
+    }
+
+    return errors;
+};
+
+/**
+ * Load the two-factor policy, falling back to the defaults
+ * @returns Two-factor settings
+ */
+export const getTwoFactorSettings = async (): Promise<TwoFactorSettingsValue> => {
+    const settings = await Settings.findOne({ name: TWO_FACTOR_SETTINGS_NAME }).lean<{ value?: Partial<TwoFactorSettingsValue> }>();
+    return { ...DEFAULT_TWO_FACTOR_SETTINGS, ...settings?.value };
+};
+
+/**
+ * Whether the policy makes two-factor authentication mandatory for a user
+ * @param user - User signing in or changing their settings
+ */
+export const isTwoFactorRequired = async (user: { role: string }): Promise<boolean> => {
+    if (!isStaffRole(user.role)) {
+        return false;
+    }
+    const settings = await getTwoFactorSettings();
+    return settings.requireForAdmins;
+};
+
+const base32Encode = (buffer: Buffer): string => {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+};
+
+/**
+ * HOTP value of a counter (RFC 4226); TOTP uses the time step as the counter
+ * @param secret - Shared secret
+ * @param counter - Counter or time step
+ * @returns Zero-padded code
+ */
+export const generateHotp = (secret: Buffer, counter: number): string => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Time step a moment falls in (RFC 6238)
+ * @param time - Unix time in milliseconds
+ */
+export const getTotpStep = (time: number = Date.now()): number => Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Find the time step a TOTP code belongs to, within the allowed clock drift
+ * @param base32Secret - Shared secret, base32 encoded
+ * @param code - Code typed by the user
+ * @param time - Unix time in milliseconds to check against
+ * @returns The matching time step, or null when the code is wrong
+ */
+export const matchTotp = (base32Secret: string, code: string, time: number = Date.now()): number | null => {
+    if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+        return null;
+    }
+
+    const secret = base32Decode(base32Secret);
+    const current = getTotpStep(time);
+
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+        const expected = generateHotp(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step;
+        }
+    }
+
+    return null;
+};
+
+// The key encrypting stored secrets; a dedicated key lets JWT_SECRET be rotated without losing enrolments
+const getEncryptionKey = (): Buffer => {
+    const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('TWO_FACTOR_ENCRYPTION_KEY or JWT_SECRET environment variable must be set');
+    }
+    return crypto.createHash('sha256').update(secret).digest();
+};
+
+// AES-256-GCM, stored as iv.tag.ciphertext
+const encryptSecret = (secret: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+    const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const hashRecoveryCode = (code: string): string =>
+    crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+
+// Codes look like 3f9a-c21b; only their hashes are stored
+const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+        const hex = crypto.randomBytes(4).toString('hex');
+        return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+const getChallengeKey = () => {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+        throw new Error('JWT_SECRET environment variable is not set');
+    }
+    return new TextEncoder().encode(secret);
+};
+
+/**
+ * Issue the token that carries a sign-in from the password step to the two-factor step
+ * @param userId - User whose password was accepted
+ * @param purpose - Whether the user verifies a code or must set up two-factor first
+ * @returns Short-lived signed token
+ */
+export const createTwoFactorChallenge = async (
+    userId: mongoose.Types.ObjectId | string,
+    purpose: TwoFactorChallengePurpose
+): Promise<string> => {
+    return new SignJWT({ id: userId.toString(), purpose })
+        .setProtectedHeader({ alg: 'HS256' })
+        .setIssuedAt()
+        .setExpirationTime(`${CHALLENGE_TTL_SECONDS}s`)
+        .sign(getChallengeKey());
+};
+
+/**
+ * Read a challenge token
+ * @param token - Token from the login response
+ * @param purpose - Step the token must have been issued for
+ * @returns The user the challenge belongs to
+ * @throws TwoFactorError when the token is invalid, expired or for another step
+ */
+export const readTwoFactorChallenge = async (token: string, purpose: TwoFactorChallengePurpose): Promise<string> => {
+    try {
+        const { payload } = await jwtVerify(token, getChallengeKey());
+        if (typeof payload.id === 'string' && payload.purpose === purpose) {
+            return payload.id;
+        }
+    } catch {
+        // Reported below
+    }
+    throw new TwoFactorError('Your sign-in has expired, please enter your password again', 401);
+};
+
+/**
+ * Start setting up two-factor authentication: a new secret is kept aside until a code from it is confirmed
+ * @param userId - User setting up two-factor
+ * @returns The secret to enter in an authenticator app, and the otpauth URI for it
+ * @throws TwoFactorError when two-factor is already on
+ */
+export const startTwoFactorSetup = async (
+    userId: mongoose.Types.ObjectId | string
+): Promise<{ secret: string; otpauthUrl: string }> => {
+    const user = await User.findById(userId).select('email twoFactorEnabled');
+    if (!user) {
+        throw new TwoFactorError('User not found', 404);
+    }
+    if (user.twoFactorEnabled) {
+        throw new TwoFactorError('Two-factor authentication is already turned on');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await User.updateOne({ _id: user._id }, { $set: { twoFactorPendingSecret: encryptSecret(secret) } });
+
+    const store = await getEmailStore();
+    const label = encodeURIComponent(`${store.name}:${user.email}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: store.name,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD_SECONDS),
+    });
+
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params.toString()}` };
+};
+
+/**
+ * Turn two-factor authentication on with the first code from the secret being set up
+ * @param userId - User setting up two-factor
+ * @param code - Code from the authenticator app
+ * @returns Recovery codes, shown to the user once
+ * @throws TwoFactorError when setup was not started or the code is wrong
+ */
+export const enableTwoFactor = async (userId: mongoose.Types.ObjectId | string, code: string): Promise<string[]> => {
+    const user = await User.findById(userId).select('twoFactorEnabled +twoFactorPendingSecret');
+    if (!user) {
+        throw new TwoFactorError('User not found', 404);
+    }
+    if (user.twoFactorEnabled) {
+        throw new TwoFactorError('Two-factor authentication is already turned on');
+    }
+    if (!user.twoFactorPendingSecret) {
+        throw new TwoFactorError('Start setting up two-factor authentication first');
+    }
+
+    const step = matchTotp(decryptSecret(user.twoFactorPendingSecret), code.trim());
+    if (step === null) {
+        throw new TwoFactorError('That code is not valid, please try again');
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne(
+        { _id: user._id },
+        {
+            $set: {
+                twoFactorEnabled: true,
+                twoFactorEnabledAt: new Date(),
+                twoFactorSecret: user.twoFactorPendingSecret,
+                twoFactorRecoveryCodes: hashes,
+                twoFactorLastUsedStep: step,
+            },
+            $unset: { twoFactorPendingSecret: 1 },
+        }
+    );
+
+    logBusiness('Two-factor authentication enabled', 'Auth', { userId: user._id.toString() });
+
+    return codes;
+};
+
+/**
+ * Check a code from the user's authenticator app, or one of their recovery codes.
+ * Each code works once: a recovery code is used up, and a TOTP code cannot be replayed.
+ * @param userId - User with two-factor turned on
+ * @param code - Code typed by the user
+ * @returns Whether the code was accepted
+ */
+export const verifyTwoFactorCode = async (userId: mongoose.Types.ObjectId | string, code: string): Promise<boolean> => {
+    const user = await User.findById(userId).select('twoFactorEnabled +twoFactorSecret');
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+        return false;
+    }
+
+    const trimmed = code.trim();
+    const step = matchTotp(decryptSecret(user.twoFactorSecret), trimmed);
+
+    if (step !== null) {
+        // Only a step later than the last accepted one counts, so a seen code cannot be used again
+        const accepted = await User.updateOne(
+            {
+                _id: user._id,
+                $or: [{ twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: { $lt: step } }],
+            },
+            { $set: { twoFactorLastUsedStep: step } }
+        );
+        return accepted.modifiedCount > 0;
+    }
+
+    // Pulling the hash in one update keeps two requests from both using a recovery code
+    const used = await User.updateOne(
+        { _id: user._id, twoFactorRecoveryCodes: hashRecoveryCode(trimmed) },
+        { $pull: { twoFactorRecoveryCodes: hashRecoveryCode(trimmed) } }
+    );
+
+    if (used.modifiedCount > 0) {
+        logBusiness('Two-factor recovery code used', 'Auth', { userId: user._id.toString() });
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Replace the recovery codes of a user; the old ones stop working
+ * @param userId - User with two-factor turned on
+ * @returns New recovery codes, shown to the user once
+ */
+export const regenerateRecoveryCodes = async (userId: mongoose.Types.ObjectId | string): Promise<string[]> => {
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.updateOne({ _id: userId, twoFactorEnabled: true }, { $set: { twoFactorRecoveryCodes: hashes } });
+
+    logBusiness('Two-factor recovery codes regenerated', 'Auth', { userId: userId.toString() });
+
+    return codes;
+};
+
+/**
+ * Describe a user's two-factor setup
+ * @param userId - User to describe
+ * @returns Whether two-factor is on, required by policy, and how many recovery codes are left
+ */
+export const getTwoFactorStatus = async (
+    userId: mongoose.Types.ObjectId | string
+): Promise<{ enabled: boolean; required: boolean; recoveryCodesRemaining: number }> => {
+    const user = await User.findById(userId).select('role twoFactorEnabled +twoFactorRecoveryCodes');
+    if (!user) {
+        throw new TwoFactorError('User not found', 404);
+    }
+
+    return {
+        enabled: !!user.twoFactorEnabled,
+        required: await isTwoFactorRequired(user),
+        recoveryCodesRemaining: user.twoFactorEnabled ? user.twoFactorRecoveryCodes?.length || 0 : 0,
+    };
+};
+
+/**
+ * Turn two-factor authentication off, removing the secret and recovery codes
+ * @param userId - User to turn it off for
+ * @param resetBy - Super admin resetting it for the user, if it was not the user
+ * @returns Whether it was on
+ */
+export const disableTwoFactor = async (
+    userId: mongoose.Types.ObjectId | string,
+    resetBy?: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+    const result = await User.updateOne(
+        { _id: userId },
+        {
+            $set: { twoFactorEnabled: false },
+            $unset: {
+                twoFactorEnabledAt: 1,
+                twoFactorSecret: 1,
+                twoFactorPendingSecret: 1,
+                twoFactorRecoveryCodes: 1,
+                twoFactorLastUsedStep: 1,
+            },
+        }
+    );
+
+    logBusiness(resetBy ? 'Two-factor authentication reset' : 'Two-factor authentication disabled', 'Auth', {
+        userId: userId.toString(),
+        ...(resetBy && { resetBy: resetBy.toString() }),
+    });
+
+    return result.modifiedCount > 0;
+};